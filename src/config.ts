@@ -1,42 +1,106 @@
+import { readFileSync } from 'node:fs';
 import { parse as parseConnectionString } from 'pg-connection-string';
 import type {
   DatabaseConfig,
   SSLPreference,
   SSHTunnelConfig,
   ParsedConfig,
+  DatabaseProfile,
+  MaskingPolicy,
+  AccessPolicyConfig,
+  ValueEncoding,
   HttpConfig,
   AuthMode,
+  AuthorizationPolicy,
+  OidcConfig,
+  RequiredClaim,
+  MtlsConfig,
+  TlsConfig,
+  ApprovalConfig,
+  AuditConfig,
+  AuditSinkType,
+  MetricsConfig,
+  RateLimitConfig,
+  TracingConfig,
 } from './types.js';
 import { parseAllowedOrigins } from './http/origin.js';
+import { parseMaskingPolicy } from './lib/masking.js';
+import { parseAuthorizationPolicy } from './lib/authorization.js';
 
-function requireEnv(name: string): string {
-  const value = process.env[name];
+/**
+ * Source of configuration values for a single database profile.
+ * `label` returns the name to use in error messages for a setting.
+ */
+interface EnvSource {
+  get(name: string): string | undefined;
+  label(name: string): string;
+}
+
+/**
+ * Query behavior settings that profiles inherit from the unprefixed
+ * environment when they do not set their own value.
+ */
+const SHARED_PROFILE_SETTINGS = new Set([
+  'READ_ONLY',
+  'QUERY_TIMEOUT',
+  'MAX_ROWS',
+  'MAX_CONCURRENT_QUERIES',
+  'POOL_SIZE',
+  'POOL_DRAIN_TIMEOUT_MS',
+  'MAX_OPEN_CURSORS',
+  'MAX_OPEN_CURSORS_PER_SESSION',
+  'CURSOR_IDLE_TIMEOUT_MS',
+  'MAX_OPEN_TRANSACTIONS',
+  'MAX_OPEN_TRANSACTIONS_PER_SESSION',
+  'TRANSACTION_IDLE_TIMEOUT_MS',
+  'EXPORT_DIR',
+  'MAX_EXPORT_ROWS',
+  'NUMERIC_ENCODING',
+  'BYTEA_ENCODING',
+  'WRITE_APPROVAL',
+  'MASKING_POLICY_FILE',
+  'ALLOWED_SCHEMAS',
+  'DENIED_SCHEMAS',
+  'ALLOWED_RELATIONS',
+  'DENIED_RELATIONS',
+  'DENIED_FUNCTIONS',
+]);
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const processEnv: EnvSource = {
+  get: (name) => process.env[name],
+  label: (name) => name,
+};
+
+function requireEnv(env: EnvSource, name: string): string {
+  const value = env.get(name);
   if (!value) {
-    throw new Error(`Missing required environment variable: ${name}`);
+    throw new Error(`Missing required environment variable: ${env.label(name)}`);
   }
   return value;
 }
 
-function parseDatabaseConfig(): DatabaseConfig {
-  const uri = process.env.DATABASE_URI;
+function parseDatabaseConfig(env: EnvSource): DatabaseConfig {
+  const uri = env.get('DATABASE_URI');
 
   if (uri) {
     if (uri.includes('sslmode=')) {
       console.error(
-        '[Config] Warning: sslmode in DATABASE_URI is ignored. Use DATABASE_SSL env var instead.'
+        `[Config] Warning: sslmode in ${env.label('DATABASE_URI')} is ignored. Use ${env.label('DATABASE_SSL')} instead.`
       );
     }
 
     const parsed = parseConnectionString(uri);
 
     if (!parsed.host) {
-      throw new Error('DATABASE_URI missing host');
+      throw new Error(`${env.label('DATABASE_URI')} missing host`);
     }
     if (!parsed.database) {
-      throw new Error('DATABASE_URI missing database name');
+      throw new Error(`${env.label('DATABASE_URI')} missing database name`);
     }
     if (!parsed.user) {
-      throw new Error('DATABASE_URI missing user');
+      throw new Error(`${env.label('DATABASE_URI')} missing user`);
     }
 
     return {
@@ -49,81 +113,151 @@ function parseDatabaseConfig(): DatabaseConfig {
   }
 
   return {
-    host: requireEnv('DATABASE_HOST'),
-    port: parseInt(process.env.DATABASE_PORT || '5432', 10),
-    database: requireEnv('DATABASE_NAME'),
-    user: requireEnv('DATABASE_USER'),
-    password: requireEnv('DATABASE_PASSWORD'),
+    host: requireEnv(env, 'DATABASE_HOST'),
+    port: parseInt(env.get('DATABASE_PORT') || '5432', 10),
+    database: requireEnv(env, 'DATABASE_NAME'),
+    user: requireEnv(env, 'DATABASE_USER'),
+    password: requireEnv(env, 'DATABASE_PASSWORD'),
   };
 }
 
-function parseSSLPreference(): SSLPreference {
-  const sslEnv = process.env.DATABASE_SSL?.toLowerCase();
+function parseSSLPreference(env: EnvSource): SSLPreference {
+  const sslEnv = env.get('DATABASE_SSL')?.toLowerCase();
 
   return {
     explicit:
       sslEnv === 'true' ? 'true' : sslEnv === 'false' ? 'false' : null,
-    ca: process.env.DATABASE_SSL_CA,
-    rejectUnauthorized: process.env.DATABASE_SSL_REJECT_UNAUTHORIZED !== 'false',
+    ca: env.get('DATABASE_SSL_CA'),
+    rejectUnauthorized: env.get('DATABASE_SSL_REJECT_UNAUTHORIZED') !== 'false',
   };
 }
 
-function parseSSHConfig(): SSHTunnelConfig | undefined {
-  if (process.env.SSH_ENABLED !== 'true') {
+function parseSSHConfig(env: EnvSource): SSHTunnelConfig | undefined {
+  if (env.get('SSH_ENABLED') !== 'true') {
     return undefined;
   }
 
-  const privateKeyPath = process.env.SSH_PRIVATE_KEY_PATH;
-  const password = process.env.SSH_PASSWORD;
+  const privateKeyPath = env.get('SSH_PRIVATE_KEY_PATH');
+  const password = env.get('SSH_PASSWORD');
 
   if (!privateKeyPath && !password) {
     throw new Error(
-      'SSH_ENABLED is true but no authentication method provided. ' +
-        'Set either SSH_PRIVATE_KEY_PATH or SSH_PASSWORD.'
+      `${env.label('SSH_ENABLED')} is true but no authentication method provided. ` +
+        `Set either ${env.label('SSH_PRIVATE_KEY_PATH')} or ${env.label('SSH_PASSWORD')}.`
     );
   }
 
-  const port = parseInt(process.env.SSH_PORT || '22', 10);
+  const port = parseInt(env.get('SSH_PORT') || '22', 10);
   if (isNaN(port) || port < 1 || port > 65535) {
-    throw new Error('SSH_PORT must be a number between 1 and 65535');
+    throw new Error(`${env.label('SSH_PORT')} must be a number between 1 and 65535`);
   }
 
   const keepaliveInterval = parseInt(
-    process.env.SSH_KEEPALIVE_INTERVAL || '10000',
+    env.get('SSH_KEEPALIVE_INTERVAL') || '10000',
     10
   );
   if (isNaN(keepaliveInterval) || keepaliveInterval < 1) {
     throw new Error(
-      'SSH_KEEPALIVE_INTERVAL must be a positive number (minimum 1ms)'
+      `${env.label('SSH_KEEPALIVE_INTERVAL')} must be a positive number (minimum 1ms)`
     );
   }
 
-  const trustOnFirstUse = process.env.SSH_TRUST_ON_FIRST_USE !== 'false';
+  const trustOnFirstUse = env.get('SSH_TRUST_ON_FIRST_USE') !== 'false';
   const maxReconnectAttempts = parseInt(
-    process.env.SSH_MAX_RECONNECT_ATTEMPTS || '5',
+    env.get('SSH_MAX_RECONNECT_ATTEMPTS') || '5',
     10
   );
   if (isNaN(maxReconnectAttempts) || maxReconnectAttempts < -1) {
     throw new Error(
-      'SSH_MAX_RECONNECT_ATTEMPTS must be a number >= -1 (use -1 for unlimited)'
+      `${env.label('SSH_MAX_RECONNECT_ATTEMPTS')} must be a number >= -1 (use -1 for unlimited)`
     );
   }
 
   return {
-    host: requireEnv('SSH_HOST'),
+    host: requireEnv(env, 'SSH_HOST'),
     port,
-    username: requireEnv('SSH_USER'),
+    username: requireEnv(env, 'SSH_USER'),
     privateKeyPath,
-    privateKeyPassphrase: process.env.SSH_PRIVATE_KEY_PASSPHRASE,
+    privateKeyPassphrase: env.get('SSH_PRIVATE_KEY_PASSPHRASE'),
     password,
-    strictHostKey: process.env.SSH_STRICT_HOST_KEY !== 'false',
+    strictHostKey: env.get('SSH_STRICT_HOST_KEY') !== 'false',
     trustOnFirstUse,
-    knownHostsPath: process.env.SSH_KNOWN_HOSTS_PATH,
+    knownHostsPath: env.get('SSH_KNOWN_HOSTS_PATH'),
     keepaliveInterval,
     maxReconnectAttempts,
   };
 }
 
+function parseMaskingPolicyFile(env: EnvSource): MaskingPolicy | undefined {
+  const path = env.get('MASKING_POLICY_FILE');
+  if (!path) {
+    return undefined;
+  }
+
+  const label = env.label('MASKING_POLICY_FILE');
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf8');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Unable to read ${label}: ${message}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error(`${label} must contain valid JSON`);
+  }
+
+  return parseMaskingPolicy(parsed, label);
+}
+
+function parseNameList(
+  env: EnvSource,
+  name: string,
+  qualified: boolean
+): string[] | undefined {
+  const raw = env.get(name);
+  if (!raw) {
+    return undefined;
+  }
+
+  const entries = raw
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  for (const entry of entries) {
+    const parts = entry.split('.');
+    if (qualified ? parts.length !== 2 || parts.some((p) => !p) : parts.length !== 1) {
+      throw new Error(
+        qualified
+          ? `${env.label(name)} entries must look like schema.name (use * as a wildcard): ${entry}`
+          : `${env.label(name)} entries must be schema names: ${entry}`
+      );
+    }
+  }
+
+  return entries.length > 0 ? entries : undefined;
+}
+
+function parseAccessPolicy(env: EnvSource): AccessPolicyConfig | undefined {
+  const policy: AccessPolicyConfig = {
+    allowedSchemas: parseNameList(env, 'ALLOWED_SCHEMAS', false),
+    deniedSchemas: parseNameList(env, 'DENIED_SCHEMAS', false),
+    allowedRelations: parseNameList(env, 'ALLOWED_RELATIONS', true),
+    deniedRelations: parseNameList(env, 'DENIED_RELATIONS', true),
+    deniedFunctions: parseNameList(env, 'DENIED_FUNCTIONS', true),
+  };
+
+  const configured = Object.fromEntries(
+    Object.entries(policy).filter(([, value]) => value !== undefined)
+  ) as AccessPolicyConfig;
+
+  return Object.keys(configured).length > 0 ? configured : undefined;
+}
+
 function parseAllowedHosts(raw: string | undefined): string[] | undefined {
   if (!raw) {
     return undefined;
@@ -150,53 +284,179 @@ function parseAllowedHosts(raw: string | undefined): string[] | undefined {
   return Array.from(new Set(normalized));
 }
 
-export function parseConfig(): ParsedConfig {
-  const database = parseDatabaseConfig();
-  const sslPreference = parseSSLPreference();
-  const ssh = parseSSHConfig();
+function parseProfileConfig(env: EnvSource, logPrefix: string): ParsedConfig {
+  const database = parseDatabaseConfig(env);
+  const sslPreference = parseSSLPreference(env);
+  const ssh = parseSSHConfig(env);
+  const maskingPolicy = parseMaskingPolicyFile(env);
+  const accessPolicy = parseAccessPolicy(env);
 
-  const readOnly = process.env.READ_ONLY !== 'false';
-  const queryTimeout = parseInt(process.env.QUERY_TIMEOUT || '30000', 10);
-  const maxRows = parseInt(process.env.MAX_ROWS || '1000', 10);
+  const readOnly = env.get('READ_ONLY') !== 'false';
+  const queryTimeout = parseInt(env.get('QUERY_TIMEOUT') || '30000', 10);
+  const maxRows = parseInt(env.get('MAX_ROWS') || '1000', 10);
   const maxConcurrentQueries = parseInt(
-    process.env.MAX_CONCURRENT_QUERIES || '10',
+    env.get('MAX_CONCURRENT_QUERIES') || '10',
     10
   );
   const poolDrainTimeoutMs = parseInt(
-    process.env.POOL_DRAIN_TIMEOUT_MS || '5000',
+    env.get('POOL_DRAIN_TIMEOUT_MS') || '5000',
+    10
+  );
+  const maxOpenCursors = parseInt(env.get('MAX_OPEN_CURSORS') || '5', 10);
+  const maxSessionCursors = parseInt(
+    env.get('MAX_OPEN_CURSORS_PER_SESSION') || '2',
+    10
+  );
+  const cursorIdleTimeoutMs = parseInt(
+    env.get('CURSOR_IDLE_TIMEOUT_MS') || '60000',
     10
   );
+  const maxOpenTransactions = parseInt(
+    env.get('MAX_OPEN_TRANSACTIONS') || '5',
+    10
+  );
+  const maxSessionTransactions = parseInt(
+    env.get('MAX_OPEN_TRANSACTIONS_PER_SESSION') || '2',
+    10
+  );
+  const transactionIdleTimeoutMs = parseInt(
+    env.get('TRANSACTION_IDLE_TIMEOUT_MS') || '60000',
+    10
+  );
+  // By default every held cursor and transaction can have its own client
+  // and MAX_CONCURRENT_QUERIES queries still find one free
+  const poolSize = parseInt(
+    env.get('POOL_SIZE') ||
+      String(maxOpenCursors + maxOpenTransactions + maxConcurrentQueries),
+    10
+  );
+  const exportDir = env.get('EXPORT_DIR') || undefined;
+  const maxExportRows = parseInt(env.get('MAX_EXPORT_ROWS') || '1000000', 10);
+  const valueEncoding = parseValueEncoding(env);
+  const writeApproval = env.get('WRITE_APPROVAL') === 'true';
 
+  if (writeApproval && readOnly) {
+    throw new Error(
+      `${env.label('WRITE_APPROVAL')} requires ${env.label('READ_ONLY')}=false`
+    );
+  }
   if (isNaN(queryTimeout) || queryTimeout < 0) {
-    throw new Error('QUERY_TIMEOUT must be a positive number');
+    throw new Error(`${env.label('QUERY_TIMEOUT')} must be a positive number`);
   }
   if (isNaN(maxRows) || maxRows < 1) {
-    throw new Error('MAX_ROWS must be a positive number');
+    throw new Error(`${env.label('MAX_ROWS')} must be a positive number`);
   }
   if (isNaN(maxConcurrentQueries) || maxConcurrentQueries < 1) {
-    throw new Error('MAX_CONCURRENT_QUERIES must be a positive number');
+    throw new Error(
+      `${env.label('MAX_CONCURRENT_QUERIES')} must be a positive number`
+    );
   }
   if (isNaN(poolDrainTimeoutMs) || poolDrainTimeoutMs < 1) {
-    throw new Error('POOL_DRAIN_TIMEOUT_MS must be a positive number');
+    throw new Error(
+      `${env.label('POOL_DRAIN_TIMEOUT_MS')} must be a positive number`
+    );
+  }
+  if (isNaN(maxOpenCursors) || maxOpenCursors < 0) {
+    throw new Error(
+      `${env.label('MAX_OPEN_CURSORS')} must be a number >= 0 (use 0 to disable)`
+    );
+  }
+  if (isNaN(maxSessionCursors) || maxSessionCursors < 1) {
+    throw new Error(
+      `${env.label('MAX_OPEN_CURSORS_PER_SESSION')} must be a positive number`
+    );
+  }
+  if (isNaN(cursorIdleTimeoutMs) || cursorIdleTimeoutMs < 1) {
+    throw new Error(
+      `${env.label('CURSOR_IDLE_TIMEOUT_MS')} must be a positive number`
+    );
+  }
+  if (isNaN(maxOpenTransactions) || maxOpenTransactions < 0) {
+    throw new Error(
+      `${env.label('MAX_OPEN_TRANSACTIONS')} must be a number >= 0 (use 0 to disable)`
+    );
+  }
+  if (isNaN(maxSessionTransactions) || maxSessionTransactions < 1) {
+    throw new Error(
+      `${env.label('MAX_OPEN_TRANSACTIONS_PER_SESSION')} must be a positive number`
+    );
+  }
+  if (isNaN(transactionIdleTimeoutMs) || transactionIdleTimeoutMs < 1) {
+    throw new Error(
+      `${env.label('TRANSACTION_IDLE_TIMEOUT_MS')} must be a positive number`
+    );
+  }
+  if (isNaN(poolSize) || poolSize < 1) {
+    throw new Error(`${env.label('POOL_SIZE')} must be a positive number`);
+  }
+  if (poolSize <= maxOpenCursors + maxOpenTransactions) {
+    throw new Error(
+      `${env.label('POOL_SIZE')} (${poolSize}) must be greater than ` +
+        `${env.label('MAX_OPEN_CURSORS')} + ${env.label('MAX_OPEN_TRANSACTIONS')} ` +
+        `(${maxOpenCursors + maxOpenTransactions}), or held cursors and transactions ` +
+        'can take every connection'
+    );
+  }
+  if (isNaN(maxExportRows) || maxExportRows < 1) {
+    throw new Error(`${env.label('MAX_EXPORT_ROWS')} must be a positive number`);
   }
   if (database.port < 1 || database.port > 65535) {
-    throw new Error('DATABASE_PORT must be between 1 and 65535');
+    throw new Error(`${env.label('DATABASE_PORT')} must be between 1 and 65535`);
   }
 
-  console.error('[Config] Database:', {
+  console.error(`${logPrefix} Database:`, {
     host: database.host,
     port: database.port,
     database: database.database,
     user: database.user,
   });
-  console.error('[Config] Mode:', readOnly ? 'read-only' : 'read-write');
-  console.error('[Config] Max rows:', maxRows);
-  console.error('[Config] Max concurrent queries:', maxConcurrentQueries);
-  console.error('[Config] Query timeout:', queryTimeout, 'ms');
-  console.error('[Config] Pool drain timeout:', poolDrainTimeoutMs, 'ms');
+  console.error(
+    `${logPrefix} Mode:`,
+    readOnly
+      ? 'read-only'
+      : writeApproval
+        ? 'read-write (writes require approval)'
+        : 'read-write'
+  );
+  console.error(`${logPrefix} Max rows:`, maxRows);
+  console.error(`${logPrefix} Max concurrent queries:`, maxConcurrentQueries);
+  console.error(`${logPrefix} Pool size:`, poolSize);
+  console.error(`${logPrefix} Query timeout:`, queryTimeout, 'ms');
+  console.error(`${logPrefix} Pool drain timeout:`, poolDrainTimeoutMs, 'ms');
+  console.error(`${logPrefix} Value encoding:`, valueEncoding);
+  console.error(
+    `${logPrefix} Resumable cursors:`,
+    maxOpenCursors,
+    `(${maxSessionCursors} per session, idle timeout ${cursorIdleTimeoutMs} ms)`
+  );
+  console.error(
+    `${logPrefix} Open transactions:`,
+    maxOpenTransactions,
+    `(${maxSessionTransactions} per session, idle timeout ${transactionIdleTimeoutMs} ms)`
+  );
+
+  if (exportDir) {
+    console.error(
+      `${logPrefix} Exports:`,
+      exportDir,
+      `(up to ${maxExportRows} rows)`
+    );
+  }
+
+  if (maskingPolicy) {
+    console.error(
+      `${logPrefix} Masking policy:`,
+      maskingPolicy.rules.length,
+      'rule(s)'
+    );
+  }
+
+  if (accessPolicy) {
+    console.error(`${logPrefix} Access policy:`, accessPolicy);
+  }
 
   if (ssh) {
-    console.error('[Config] SSH tunnel enabled:', {
+    console.error(`${logPrefix} SSH tunnel enabled:`, {
       host: ssh.host,
       port: ssh.port,
       username: ssh.username,
@@ -214,10 +474,190 @@ export function parseConfig(): ParsedConfig {
     queryTimeout,
     maxRows,
     maxConcurrentQueries,
+    poolSize,
     poolDrainTimeoutMs,
+    maxOpenCursors,
+    maxSessionCursors,
+    cursorIdleTimeoutMs,
+    maxOpenTransactions,
+    maxSessionTransactions,
+    transactionIdleTimeoutMs,
+    maskingPolicy,
+    accessPolicy,
+    exportDir,
+    maxExportRows,
+    valueEncoding,
+    ...(writeApproval && { writeApproval }),
+  };
+}
+
+function parseValueEncoding(env: EnvSource): ValueEncoding {
+  const numeric = env.get('NUMERIC_ENCODING') || 'string';
+  if (numeric !== 'string' && numeric !== 'number') {
+    throw new Error(`${env.label('NUMERIC_ENCODING')} must be "string" or "number"`);
+  }
+  const bytea = env.get('BYTEA_ENCODING') || 'hex';
+  if (bytea !== 'hex' && bytea !== 'base64') {
+    throw new Error(`${env.label('BYTEA_ENCODING')} must be "hex" or "base64"`);
+  }
+  return { numeric, bytea };
+}
+
+/**
+ * Parse the single-database configuration from unprefixed environment variables
+ */
+export function parseConfig(): ParsedConfig {
+  return parseProfileConfig(processEnv, '[Config]');
+}
+
+function profileEnvPrefix(name: string): string {
+  return `${name.toUpperCase().replace(/-/g, '_')}_`;
+}
+
+function prefixedEnvSource(name: string): EnvSource {
+  const prefix = profileEnvPrefix(name);
+  return {
+    get: (key) =>
+      process.env[prefix + key] ??
+      (SHARED_PROFILE_SETTINGS.has(key) ? process.env[key] : undefined),
+    label: (key) => prefix + key,
   };
 }
 
+function fileEnvSource(
+  name: string,
+  values: Record<string, unknown>
+): EnvSource {
+  return {
+    get: (key) => {
+      const value = values[key];
+      if (value !== undefined && value !== null) {
+        return String(value);
+      }
+      return SHARED_PROFILE_SETTINGS.has(key) ? process.env[key] : undefined;
+    },
+    label: (key) => `${key} (profile "${name}")`,
+  };
+}
+
+function readProfilesFile(path: string): Record<string, Record<string, unknown>> {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf8');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Unable to read DATABASE_PROFILES_FILE: ${message}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('DATABASE_PROFILES_FILE must contain valid JSON');
+  }
+
+  const profiles =
+    parsed && typeof parsed === 'object'
+      ? (parsed as { profiles?: unknown }).profiles
+      : undefined;
+
+  if (!profiles || typeof profiles !== 'object' || Array.isArray(profiles)) {
+    throw new Error(
+      'DATABASE_PROFILES_FILE must contain a "profiles" object keyed by profile name'
+    );
+  }
+
+  for (const [name, values] of Object.entries(profiles)) {
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      throw new Error(
+        `DATABASE_PROFILES_FILE profile "${name}" must be an object of settings`
+      );
+    }
+  }
+
+  return profiles as Record<string, Record<string, unknown>>;
+}
+
+function validateProfileName(name: string, source: string): void {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `${source} contains invalid profile name "${name}". ` +
+        'Use letters, numbers, underscores and hyphens only.'
+    );
+  }
+}
+
+/**
+ * Parse named database profiles.
+ *
+ * Profiles come from DATABASE_PROFILES_FILE (JSON) or DATABASE_PROFILES
+ * (comma-separated names read from <NAME>_-prefixed variables). Without
+ * either, the unprefixed variables form a single "default" profile.
+ * The first profile is the default unless DATABASE_DEFAULT_PROFILE is set.
+ */
+export function parseProfiles(): DatabaseProfile[] {
+  const profilesFile = process.env.DATABASE_PROFILES_FILE;
+  const profileNames = process.env.DATABASE_PROFILES;
+  let profiles: DatabaseProfile[];
+
+  if (profilesFile) {
+    const entries = Object.entries(readProfilesFile(profilesFile));
+    if (entries.length === 0) {
+      throw new Error('DATABASE_PROFILES_FILE must define at least one profile');
+    }
+    profiles = entries.map(([name, values]) => {
+      validateProfileName(name, 'DATABASE_PROFILES_FILE');
+      return {
+        name,
+        config: parseProfileConfig(
+          fileEnvSource(name, values),
+          `[Config:${name}]`
+        ),
+      };
+    });
+  } else if (profileNames) {
+    const names = Array.from(
+      new Set(
+        profileNames
+          .split(',')
+          .map((name) => name.trim())
+          .filter(Boolean)
+      )
+    );
+    if (names.length === 0) {
+      throw new Error('DATABASE_PROFILES must list at least one profile name');
+    }
+    profiles = names.map((name) => {
+      validateProfileName(name, 'DATABASE_PROFILES');
+      return {
+        name,
+        config: parseProfileConfig(prefixedEnvSource(name), `[Config:${name}]`),
+      };
+    });
+  } else {
+    return [{ name: 'default', config: parseConfig() }];
+  }
+
+  const defaultName = process.env.DATABASE_DEFAULT_PROFILE;
+  if (defaultName) {
+    const index = profiles.findIndex((profile) => profile.name === defaultName);
+    if (index === -1) {
+      throw new Error(
+        `DATABASE_DEFAULT_PROFILE "${defaultName}" does not match any profile`
+      );
+    }
+    profiles.unshift(...profiles.splice(index, 1));
+  }
+
+  console.error(
+    '[Config] Database profiles:',
+    profiles.map((profile) => profile.name).join(', '),
+    `(default: ${profiles[0].name})`
+  );
+
+  return profiles;
+}
+
 /**
  * Parse HTTP server configuration from environment variables
  */
@@ -245,8 +685,10 @@ export function parseHttpConfig(): HttpConfig {
     throw new Error('PORT must be a number between 1 and 65535');
   }
 
-  if (authMode !== 'none' && authMode !== 'oauth') {
-    throw new Error('MCP_AUTH_MODE must be "none" or "oauth"');
+  if (!AUTH_MODES.has(authMode)) {
+    throw new Error(
+      'MCP_AUTH_MODE must be "none", "oauth", "oidc", "apikey" or "mtls"'
+    );
   }
 
   if (isNaN(sessionTtlMinutes) || sessionTtlMinutes < 1) {
@@ -275,6 +717,28 @@ export function parseHttpConfig(): HttpConfig {
     }
   }
 
+  const oidc = authMode === 'oidc' ? parseOidcConfig() : undefined;
+
+  const apiKeysFile = process.env.MCP_API_KEYS_FILE;
+  if (authMode === 'apikey' && !apiKeysFile) {
+    throw new Error('MCP_API_KEYS_FILE is required when MCP_AUTH_MODE=apikey');
+  }
+
+  const tls = parseTlsConfig(authMode);
+  let mtls: MtlsConfig | undefined;
+  if (authMode === 'mtls') {
+    mtls = process.env.MCP_MTLS_IDENTITIES_FILE
+      ? { identitiesFile: process.env.MCP_MTLS_IDENTITIES_FILE }
+      : {};
+  }
+
+  const metrics = parseMetricsConfig();
+  const rateLimit = parseRateLimitConfig();
+  const authorization = parseAuthorizationPolicyFile();
+  if (authorization && authMode === 'none') {
+    throw new Error('MCP_AUTHZ_POLICY_FILE cannot be used with MCP_AUTH_MODE=none');
+  }
+
   if (resourceDocumentation) {
     try {
       new URL(resourceDocumentation);
@@ -299,7 +763,43 @@ export function parseHttpConfig(): HttpConfig {
       auth0Domain,
       auth0Audience,
     }),
+    ...(oidc && {
+      oidc: {
+        issuer: oidc.issuer,
+        audiences: oidc.audiences,
+        algorithms: oidc.algorithms,
+        ...(oidc.jwksUri && { jwksUri: oidc.jwksUri }),
+        ...(oidc.clockToleranceSeconds > 0 && {
+          clockToleranceSeconds: oidc.clockToleranceSeconds,
+        }),
+        ...(oidc.requiredClaims.length > 0 && {
+          requiredClaims: oidc.requiredClaims.map((claim) => claim.name),
+        }),
+      },
+    }),
+    ...(authMode === 'apikey' && { apiKeysFile }),
+    ...(tls && {
+      tls: {
+        ...tls,
+        minVersion: tls.minVersion ?? 'TLSv1.2',
+      },
+    }),
+    ...(mtls?.identitiesFile && { mtlsIdentitiesFile: mtls.identitiesFile }),
     ...(resourceDocumentation && { resourceDocumentation }),
+    ...(metrics && {
+      metrics: {
+        ...(metrics.port && { port: metrics.port }),
+        ...(metrics.host && { host: metrics.host }),
+        auth: metrics.token ? 'bearer' : 'none',
+      },
+    }),
+    ...(authorization && {
+      authorization: {
+        claims: authorization.claims,
+        grants: Object.keys(authorization.grants),
+      },
+    }),
+    ...(rateLimit && { rateLimit }),
   });
 
   return {
@@ -315,5 +815,368 @@ export function parseHttpConfig(): HttpConfig {
     allowedOrigins,
     allowedHosts,
     resourceDocumentation,
+    oidc,
+    apiKeysFile: authMode === 'apikey' ? apiKeysFile : undefined,
+    mtls,
+    tls,
+    metrics,
+    authorization,
+    rateLimit,
+  };
+}
+
+const AUTH_MODES: ReadonlySet<string> = new Set<AuthMode>([
+  'none',
+  'oauth',
+  'oidc',
+  'apikey',
+  'mtls',
+]);
+
+function requireProcessEnv(name: string, requiredBy: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is required when ${requiredBy}`);
+  }
+  return value;
+}
+
+const TLS_VERSIONS: ReadonlySet<string> = new Set(['TLSv1.2', 'TLSv1.3']);
+
+function parseTlsConfig(authMode: AuthMode): TlsConfig | undefined {
+  const mtls = authMode === 'mtls';
+  if (!mtls && !process.env.MCP_TLS_CERT_FILE && !process.env.MCP_TLS_KEY_FILE) {
+    if (process.env.MCP_TLS_CLIENT_CA_FILE) {
+      throw new Error('MCP_TLS_CLIENT_CA_FILE requires MCP_AUTH_MODE=mtls');
+    }
+    return undefined;
+  }
+
+  const requiredBy = mtls ? 'MCP_AUTH_MODE=mtls' : 'TLS is enabled';
+  const config: TlsConfig = {
+    certFile: requireProcessEnv('MCP_TLS_CERT_FILE', requiredBy),
+    keyFile: requireProcessEnv('MCP_TLS_KEY_FILE', requiredBy),
+  };
+
+  if (mtls) {
+    config.clientCaFile = requireProcessEnv('MCP_TLS_CLIENT_CA_FILE', requiredBy);
+  } else if (process.env.MCP_TLS_CLIENT_CA_FILE) {
+    throw new Error('MCP_TLS_CLIENT_CA_FILE requires MCP_AUTH_MODE=mtls');
+  }
+
+  const minVersion = process.env.MCP_TLS_MIN_VERSION;
+  if (minVersion) {
+    if (!TLS_VERSIONS.has(minVersion)) {
+      throw new Error('MCP_TLS_MIN_VERSION must be "TLSv1.2" or "TLSv1.3"');
+    }
+    config.minVersion = minVersion as TlsConfig['minVersion'];
+  }
+
+  return config;
+}
+
+const JWT_ALGORITHMS: ReadonlySet<string> = new Set([
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+  'EdDSA',
+]);
+
+function parseHttpUrl(name: string, value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`${name} must be a valid URL`);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`${name} must be an http(s) URL`);
+  }
+  return value;
+}
+
+function parseOidcConfig(): OidcConfig {
+  const issuer = process.env.OIDC_ISSUER;
+  if (!issuer) {
+    throw new Error('OIDC_ISSUER is required when MCP_AUTH_MODE=oidc');
+  }
+  parseHttpUrl('OIDC_ISSUER', issuer);
+
+  const audiences = (process.env.OIDC_AUDIENCE ?? '')
+    .split(',')
+    .map((audience) => audience.trim())
+    .filter(Boolean);
+  if (audiences.length === 0) {
+    throw new Error('OIDC_AUDIENCE is required when MCP_AUTH_MODE=oidc');
+  }
+
+  const algorithms = (process.env.OIDC_ALGORITHMS || 'RS256')
+    .split(',')
+    .map((algorithm) => algorithm.trim())
+    .filter(Boolean);
+  for (const algorithm of algorithms) {
+    if (!JWT_ALGORITHMS.has(algorithm)) {
+      throw new Error(
+        `OIDC_ALGORITHMS contains unsupported algorithm "${algorithm}" (supported: ${Array.from(JWT_ALGORITHMS).join(', ')})`
+      );
+    }
+  }
+
+  const clockToleranceSeconds = Number(
+    process.env.OIDC_CLOCK_TOLERANCE_SECONDS || '0'
+  );
+  if (!Number.isInteger(clockToleranceSeconds) || clockToleranceSeconds < 0) {
+    throw new Error('OIDC_CLOCK_TOLERANCE_SECONDS must be a non-negative integer');
+  }
+
+  const requiredClaims = (process.env.OIDC_REQUIRED_CLAIMS ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry): RequiredClaim => {
+      const separator = entry.indexOf('=');
+      const name = separator === -1 ? entry : entry.slice(0, separator).trim();
+      if (!name) {
+        throw new Error(
+          'OIDC_REQUIRED_CLAIMS entries must be claim or claim=value'
+        );
+      }
+      return separator === -1 ? { name } : { name, value: entry.slice(separator + 1).trim() };
+    });
+
+  const jwksUri = process.env.OIDC_JWKS_URI;
+  if (jwksUri) {
+    parseHttpUrl('OIDC_JWKS_URI', jwksUri);
+  }
+
+  return {
+    issuer,
+    audiences,
+    algorithms,
+    clockToleranceSeconds,
+    requiredClaims,
+    ...(jwksUri && { jwksUri }),
   };
 }
+
+function parseAuthorizationPolicyFile(): AuthorizationPolicy | undefined {
+  const path = process.env.MCP_AUTHZ_POLICY_FILE;
+  if (!path) {
+    return undefined;
+  }
+
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf8');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Unable to read MCP_AUTHZ_POLICY_FILE: ${message}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('MCP_AUTHZ_POLICY_FILE must contain valid JSON');
+  }
+
+  return parseAuthorizationPolicy(parsed, 'MCP_AUTHZ_POLICY_FILE');
+}
+
+function parseMetricsConfig(): MetricsConfig | undefined {
+  if (process.env.MCP_METRICS_ENABLED !== 'true') {
+    return undefined;
+  }
+
+  const config: MetricsConfig = {};
+
+  if (process.env.MCP_METRICS_PORT) {
+    const port = Number(process.env.MCP_METRICS_PORT);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error('MCP_METRICS_PORT must be a number between 1 and 65535');
+    }
+    config.port = port;
+    if (process.env.MCP_METRICS_HOST) {
+      config.host = process.env.MCP_METRICS_HOST;
+    }
+  } else if (process.env.MCP_METRICS_HOST) {
+    throw new Error('MCP_METRICS_HOST requires MCP_METRICS_PORT');
+  }
+
+  if (process.env.MCP_METRICS_TOKEN) {
+    config.token = process.env.MCP_METRICS_TOKEN;
+  }
+
+  return config;
+}
+
+function parseRateLimitConfig(): RateLimitConfig | undefined {
+  const toolCallsPerMinute = parsePositiveInt('MCP_RATE_LIMIT_CALLS_PER_MINUTE', 0);
+  const querySecondsPerMinute = parsePositiveInt('MCP_QUOTA_QUERY_SECONDS_PER_MINUTE', 0);
+  const rowsPerMinute = parsePositiveInt('MCP_QUOTA_ROWS_PER_MINUTE', 0);
+
+  if (!toolCallsPerMinute && !querySecondsPerMinute && !rowsPerMinute) {
+    return undefined;
+  }
+
+  return {
+    ...(toolCallsPerMinute && { toolCallsPerMinute }),
+    ...(querySecondsPerMinute && { querySecondsPerMinute }),
+    ...(rowsPerMinute && { rowsPerMinute }),
+  };
+}
+
+const AUDIT_SINK_TYPES: ReadonlySet<AuditSinkType> = new Set<AuditSinkType>([
+  'stderr',
+  'file',
+  'syslog',
+]);
+
+const SYSLOG_FACILITIES: Record<string, number> = {
+  user: 1,
+  daemon: 3,
+  auth: 4,
+  authpriv: 10,
+  local0: 16,
+  local1: 17,
+  local2: 18,
+  local3: 19,
+  local4: 20,
+  local5: 21,
+  local6: 22,
+  local7: 23,
+};
+
+function parsePositiveInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * Parse the limits of the write approval queue from environment variables
+ */
+export function parseApprovalConfig(): ApprovalConfig {
+  return {
+    ttlMs: parsePositiveInt('APPROVAL_TTL_MINUTES', 24 * 60) * 60 * 1000,
+    maxPending: parsePositiveInt('MAX_PENDING_CHANGES', 100),
+  };
+}
+
+/**
+ * Parse how often each profile's catalog is checked for schema changes to
+ * announce to MCP clients as resources/list_changed
+ * @returns Interval in milliseconds; 0 disables the checks
+ */
+export function parseSchemaPollInterval(): number {
+  const intervalMs = Number(process.env.SCHEMA_POLL_INTERVAL_MS || '60000');
+  if (!Number.isInteger(intervalMs) || intervalMs < 0) {
+    throw new Error(
+      'SCHEMA_POLL_INTERVAL_MS must be a non-negative integer (use 0 to disable)'
+    );
+  }
+  return intervalMs;
+}
+
+/**
+ * Parse audit log configuration from environment variables
+ * @returns undefined when AUDIT_LOG is not set
+ */
+export function parseAuditConfig(): AuditConfig | undefined {
+  const raw = process.env.AUDIT_LOG?.trim();
+  if (!raw) {
+    return undefined;
+  }
+
+  const sinks: AuditSinkType[] = [];
+  for (const entry of raw.split(',')) {
+    const sink = entry.trim().toLowerCase() as AuditSinkType;
+    if (!AUDIT_SINK_TYPES.has(sink)) {
+      throw new Error(
+        `AUDIT_LOG entries must be stderr, file or syslog: ${entry.trim()}`
+      );
+    }
+    if (!sinks.includes(sink)) {
+      sinks.push(sink);
+    }
+  }
+
+  const config: AuditConfig = { sinks };
+
+  if (sinks.includes('file')) {
+    const path = process.env.AUDIT_LOG_FILE;
+    if (!path) {
+      throw new Error('AUDIT_LOG_FILE is required when AUDIT_LOG includes file');
+    }
+    config.file = {
+      path,
+      maxBytes: parsePositiveInt('AUDIT_LOG_MAX_BYTES', 10 * 1024 * 1024),
+      maxFiles: parsePositiveInt('AUDIT_LOG_MAX_FILES', 5),
+    };
+  }
+
+  if (sinks.includes('syslog')) {
+    const port = parsePositiveInt('AUDIT_SYSLOG_PORT', 514);
+    if (port > 65535) {
+      throw new Error('AUDIT_SYSLOG_PORT must be a number between 1 and 65535');
+    }
+    const facilityName = (
+      process.env.AUDIT_SYSLOG_FACILITY || 'local0'
+    ).toLowerCase();
+    const facility = SYSLOG_FACILITIES[facilityName];
+    if (facility === undefined) {
+      throw new Error(
+        `AUDIT_SYSLOG_FACILITY must be one of: ${Object.keys(SYSLOG_FACILITIES).join(', ')}`
+      );
+    }
+    config.syslog = {
+      host: process.env.AUDIT_SYSLOG_HOST || '127.0.0.1',
+      port,
+      facility,
+      appName: process.env.AUDIT_SYSLOG_APP_NAME || 'postgresql-ssh-mcp',
+    };
+  }
+
+  console.error('[Config] Audit log:', {
+    sinks,
+    ...(config.file && { file: config.file.path }),
+    ...(config.syslog && {
+      syslog: `${config.syslog.host}:${config.syslog.port}`,
+    }),
+  });
+
+  return config;
+}
+
+/**
+ * Parse OpenTelemetry tracing configuration from environment variables.
+ * Exporter settings use the standard OTEL_EXPORTER_OTLP_* variables.
+ * @returns undefined unless OTEL_TRACING_ENABLED=true
+ */
+export function parseTracingConfig(): TracingConfig | undefined {
+  if (process.env.OTEL_TRACING_ENABLED !== 'true') {
+    return undefined;
+  }
+
+  const serviceName = process.env.OTEL_SERVICE_NAME || 'postgresql-ssh-mcp';
+  const endpoint =
+    process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ||
+    process.env.OTEL_EXPORTER_OTLP_ENDPOINT ||
+    'http://localhost:4318';
+
+  console.error('[Config] Tracing:', { serviceName, endpoint });
+
+  return { serviceName };
+}
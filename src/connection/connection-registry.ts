@@ -0,0 +1,294 @@
+import { ConnectionManager } from './postgres-pool.js';
+import { obfuscateConnectionString } from '../lib/obfuscate.js';
+import type { AuditLogger } from '../lib/audit.js';
+import type { ServerMetrics } from '../lib/metrics.js';
+import { ChangeQueue } from '../lib/approvals.js';
+import { SchemaWatcher } from '../lib/schema-watcher.js';
+import { getRequestContext } from '../lib/request-context.js';
+import type { DatabaseProfile, PendingChange } from '../types.js';
+
+export interface ConnectionSummary {
+  name: string;
+  isDefault: boolean;
+  initialized: boolean;
+  reconnecting: boolean;
+  host: string;
+  port: number;
+  database: string;
+  user: string;
+  ssl: boolean;
+  sshTunnel: boolean;
+  tunnelStatus?: string;
+  mode: 'read-only' | 'read-write';
+}
+
+export interface ConnectionRegistryOptions {
+  /** Audit log shared by every profile and the tool handlers */
+  audit?: AuditLogger;
+  /** Metrics shared by every profile and the tool handlers */
+  metrics?: ServerMetrics;
+  /** Writes awaiting approval, across every profile */
+  changes?: ChangeQueue;
+  /** How often to check the catalogs for schema changes; 0 or unset disables it */
+  schemaPollIntervalMs?: number;
+}
+
+/**
+ * Named ConnectionManager instances, one per database profile.
+ * The first registered profile is the default target for tools.
+ */
+export class ConnectionRegistry {
+  private readonly managers = new Map<string, ConnectionManager>();
+  readonly defaultName: string;
+  readonly audit?: AuditLogger;
+  readonly metrics?: ServerMetrics;
+  readonly changes: ChangeQueue;
+  /** Announces schema changes to MCP servers listing schema resources */
+  readonly schemaWatcher?: SchemaWatcher;
+
+  constructor(
+    entries: Array<{ name: string; manager: ConnectionManager }>,
+    options: ConnectionRegistryOptions = {}
+  ) {
+    if (entries.length === 0) {
+      throw new Error('At least one database profile is required');
+    }
+
+    for (const { name, manager } of entries) {
+      if (this.managers.has(name)) {
+        throw new Error(`Duplicate database profile: ${name}`);
+      }
+      this.managers.set(name, manager);
+    }
+
+    this.defaultName = entries[0].name;
+    this.audit = options.audit;
+    this.metrics = options.metrics;
+    this.changes = options.changes ?? new ChangeQueue(undefined, options.audit);
+    if (options.schemaPollIntervalMs) {
+      this.schemaWatcher = new SchemaWatcher(this, options.schemaPollIntervalMs);
+    }
+  }
+
+  static fromProfiles(
+    profiles: DatabaseProfile[],
+    options: ConnectionRegistryOptions = {}
+  ): ConnectionRegistry {
+    const shared = {
+      ...options,
+      changes: options.changes ?? new ChangeQueue(undefined, options.audit),
+    };
+    return new ConnectionRegistry(
+      profiles.map((profile) => ({
+        name: profile.name,
+        manager: new ConnectionManager(profile.config, {
+          ...shared,
+          name: profile.name,
+        }),
+      })),
+      shared
+    );
+  }
+
+  static single(
+    manager: ConnectionManager,
+    name = 'default'
+  ): ConnectionRegistry {
+    return new ConnectionRegistry([{ name, manager }]);
+  }
+
+  get size(): number {
+    return this.managers.size;
+  }
+
+  names(): string[] {
+    return Array.from(this.managers.keys());
+  }
+
+  /**
+   * Resolve a profile name to its ConnectionManager
+   * @param name - Profile name; omitted selects the default profile
+   * @throws Error if the profile does not exist
+   */
+  get(name?: string): ConnectionManager {
+    const profile = name ?? this.defaultName;
+    const manager = this.managers.get(profile);
+    if (!manager) {
+      throw new Error(
+        `Unknown database profile "${profile}". Available: ${this.names().join(', ')}`
+      );
+    }
+    return manager;
+  }
+
+  /**
+   * Find the ConnectionManager holding the cursor for a continuation token
+   * @throws Error if no profile holds the token
+   */
+  getByContinuation(token: string): ConnectionManager {
+    for (const manager of this.managers.values()) {
+      if (manager.hasContinuation(token)) {
+        return manager;
+      }
+    }
+    throw new Error(
+      'Continuation token not found or expired. Re-run the query to start over.'
+    );
+  }
+
+  /**
+   * Find the ConnectionManager holding a transaction
+   * @throws Error if no profile holds the transaction
+   */
+  getByTransaction(transactionId: string): ConnectionManager {
+    for (const manager of this.managers.values()) {
+      if (manager.hasTransaction(transactionId)) {
+        return manager;
+      }
+    }
+    throw new Error(
+      'Transaction not found or expired. It may have been rolled back after being idle.'
+    );
+  }
+
+  /**
+   * Roll back the transactions and close the held cursors of an MCP
+   * session that has closed or expired
+   */
+  async endSession(sessionId: string): Promise<void> {
+    await Promise.all(
+      Array.from(this.managers.values()).map((manager) => manager.endSession(sessionId))
+    );
+  }
+
+  /**
+   * Approve a pending change as the current caller and run it on its
+   * profile. A statement that fails still returns, as a `failed` change.
+   * @throws Error if the change is not pending or the caller may not approve it
+   */
+  async approveChange(id: string): Promise<PendingChange> {
+    const context = getRequestContext();
+    if (context?.access?.mode === 'read-only') {
+      throw new Error('Approving a change requires read-write access.');
+    }
+    const manager = this.get(this.changes.get(id).database);
+    const change = this.changes.approve(id, context?.subject);
+    try {
+      const result = await manager.executeApprovedChange(change);
+      return this.changes.complete(id, { result });
+    } catch (err) {
+      return this.changes.complete(id, { error: err });
+    }
+  }
+
+  /**
+   * Reject a pending change as the current caller
+   * @throws Error if the change is not pending or the caller may not reject it
+   */
+  rejectChange(id: string, reason?: string): PendingChange {
+    return this.changes.reject(id, getRequestContext()?.subject, reason);
+  }
+
+  entries(): Array<[string, ConnectionManager]> {
+    return Array.from(this.managers.entries());
+  }
+
+  /**
+   * Initialize every profile. Profiles that fail are closed so a later call
+   * can retry them; already-initialized profiles are left untouched.
+   * @throws Error naming each profile that failed
+   */
+  async initialize(): Promise<void> {
+    const results = await Promise.allSettled(
+      this.entries().map(async ([name, manager]) => {
+        try {
+          await manager.initialize();
+        } catch (err) {
+          try {
+            await manager.close();
+          } catch {
+            /* ignore close errors */
+          }
+          const message = err instanceof Error ? err.message : String(err);
+          throw new Error(this.prefixMessage(name, message));
+        }
+      })
+    );
+
+    const failures = results
+      .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+      .map((r) => (r.reason as Error).message);
+
+    if (failures.length > 0) {
+      throw new Error(failures.join('; '));
+    }
+  }
+
+  /**
+   * Health check every profile
+   * @throws Error if any profile is not reachable
+   */
+  async healthCheck(): Promise<void> {
+    const results = await Promise.allSettled(
+      this.entries().map(async ([name, manager]) => {
+        try {
+          await manager.healthCheck();
+        } catch (err) {
+          const message = err instanceof Error ? err.message : 'Unknown error';
+          throw new Error(this.prefixMessage(name, message));
+        }
+      })
+    );
+
+    const failures = results
+      .filter((r): r is PromiseRejectedResult => r.status === 'rejected')
+      .map((r) => (r.reason as Error).message);
+
+    if (failures.length > 0) {
+      throw new Error(failures.join('; '));
+    }
+  }
+
+  summaries(): ConnectionSummary[] {
+    return this.entries().map(([name, manager]) => {
+      const status = manager.getStatus();
+      return {
+        name,
+        isDefault: name === this.defaultName,
+        initialized: status.initialized,
+        reconnecting: status.reconnecting,
+        host: status.database.host,
+        port: status.database.port,
+        database: status.database.database,
+        user: status.database.user,
+        ssl: status.database.ssl,
+        sshTunnel: manager.usesSshTunnel,
+        ...(status.tunnel && { tunnelStatus: status.tunnel.status }),
+        mode: status.mode,
+      };
+    });
+  }
+
+  async close(): Promise<void> {
+    this.schemaWatcher?.stop();
+    await Promise.all(
+      this.entries().map(async ([name, manager]) => {
+        try {
+          await manager.close();
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          console.error(
+            `[DB] Error closing profile ${name}:`,
+            obfuscateConnectionString(message)
+          );
+        }
+      })
+    );
+
+    await this.audit?.close();
+  }
+
+  private prefixMessage(name: string, message: string): string {
+    return this.managers.size > 1 ? `${name}: ${message}` : message;
+  }
+}
@@ -1,22 +1,212 @@
-import { Pool, PoolClient } from 'pg';
-import { readFile } from 'node:fs/promises';
+import { Pool, PoolClient, type FieldDef } from 'pg';
+import { mkdir, readFile } from 'node:fs/promises';
+import { randomBytes } from 'node:crypto';
 import { SSHTunnelManager } from './ssh-tunnel.js';
 import {
   validateReadOnlyStatement,
-  stripLeadingComments,
-  cteContainsDML,
-  extractFinalStatementAfterCTEs,
-  getFirstKeyword,
+  validateTransactionStatement,
+  isCursorEligible,
+  parseWriteStatement,
+  type WriteStatement,
 } from '../lib/sql-validator.js';
+import { quoteIdentifier, quoteQualifiedName } from '../lib/identifiers.js';
 import { obfuscateConnectionString } from '../lib/obfuscate.js';
+import { ResultMasker, type ColumnOrigin } from '../lib/masking.js';
+import { parseSql } from '../lib/sql-parser.js';
+import type { AuditLogger } from '../lib/audit.js';
+import type { ChangeQueue } from '../lib/approvals.js';
+import type { ServerMetrics } from '../lib/metrics.js';
+import { traceClientQueries, withSpan } from '../lib/tracing.js';
+import { getRequestContext } from '../lib/request-context.js';
+import {
+  createExportWriter,
+  exportColumns,
+  exportFilePath,
+  type ExportWriter,
+} from '../lib/export.js';
+import { FairQueue } from '../lib/fair-queue.js';
+import { BUILTIN_TYPE_NAMES, createTypeParsers } from '../lib/pg-types.js';
+import {
+  AccessPolicy,
+  collectObjectReferences,
+  type ObjectReference,
+  type ResolvedObjectReference,
+} from '../lib/access-policy.js';
 import type {
   ParsedConfig,
   SSLPreference,
   ConnectionStatus,
   QueryResultWithMeta,
   TunnelTarget,
+  QueryField,
+  ExportFormat,
+  ExportResult,
+  WritePreview,
+  TriggerEffect,
+  CascadeEffect,
+  PendingChange,
+  IsolationLevel,
+  TransactionInfo,
 } from '../types.js';
 
+/**
+ * Cursor left open on a pinned client so later pages can be fetched from
+ * the same snapshot. `pending` holds rows read ahead to detect truncation.
+ */
+interface HeldCursor {
+  client: PoolClient;
+  /** Session, client or process the cursor belongs to */
+  owner: string;
+  /** Statement the cursor reads, recorded again for each page */
+  sql: string;
+  params: unknown[];
+  cursorName: string;
+  fields?: QueryField[];
+  command?: string;
+  pending: Record<string, unknown>[];
+  rowsFetched: number;
+  endTransaction: 'ROLLBACK' | 'COMMIT';
+  busy: boolean;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Transaction opened with beginTransaction() and kept on a pinned client
+ * until it is committed, rolled back or idles out
+ */
+interface HeldTransaction {
+  client: PoolClient;
+  /** Session or process the transaction belongs to */
+  owner: string;
+  info: TransactionInfo;
+  busy: boolean;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const MAX_CACHED_COLUMN_ORIGINS = 10000;
+/**
+ * Renamed and dropped columns keep their table and column IDs, so cached
+ * origins are looked up again after this long
+ */
+const COLUMN_ORIGIN_TTL_MS = 60000;
+
+/** Source column of a result field, with its nullability */
+interface SourceColumn extends ColumnOrigin {
+  nullable: boolean;
+}
+
+interface CachedColumnOrigin {
+  origin: SourceColumn;
+  expiresAt: number;
+}
+
+/** Rows fetched from an export cursor at a time; also the Parquet row group size */
+const EXPORT_BATCH_ROWS = 10000;
+
+function toQueryField(field: FieldDef): QueryField {
+  return {
+    name: field.name,
+    dataTypeID: field.dataTypeID,
+    tableID: field.tableID,
+    columnID: field.columnID,
+  };
+}
+
+/**
+ * Key a transaction is pinned to: the MCP session in stateful HTTP mode,
+ * or the process for stdio, which serves a single client
+ * @throws Error for HTTP requests without a session
+ */
+function transactionOwner(): string {
+  const context = getRequestContext();
+  if (context?.session) {
+    return `session:${context.session}`;
+  }
+  if (context?.client) {
+    throw new Error(
+      'Transactions need a stateful MCP session and are not available with MCP_STATELESS=true.'
+    );
+  }
+  return 'process';
+}
+
+/**
+ * Key a held cursor is pinned to: the MCP session, else the client (token
+ * subject or address) in stateless HTTP mode, else the stdio process
+ */
+function cursorOwner(): string {
+  const context = getRequestContext();
+  if (context?.session) {
+    return `session:${context.session}`;
+  }
+  if (context?.client) {
+    return `client:${context.client}`;
+  }
+  return 'process';
+}
+
+export interface QueryOptions {
+  /** Keep the cursor of a truncated result open for fetchMore() */
+  resumable?: boolean;
+  /** Check relations and functions referenced by the SQL against the access policy */
+  enforceAccessPolicy?: boolean;
+  /** Add type names, source columns and nullability to the result fields */
+  describeFields?: boolean;
+  /**
+   * Queue writes for approval when the profile requires it, instead of
+   * rejecting them
+   */
+  queueWrites?: boolean;
+  /** Run in a transaction opened with beginTransaction() */
+  transactionId?: string;
+  /**
+   * Return the result unmasked. For the server's own catalog queries only,
+   * never for SQL supplied by a caller.
+   */
+  skipMasking?: boolean;
+}
+
+export interface TransactionOptions {
+  isolationLevel?: IsolationLevel;
+  /** Defaults to read-only unless the caller may write */
+  readOnly?: boolean;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** File name inside the export directory; generated when omitted */
+  fileName?: string;
+}
+
+export interface PreviewOptions {
+  /** Affected rows to return (capped at maxRows) */
+  sampleSize?: number;
+  /** Also list triggers and foreign key actions the statement would fire */
+  effects?: boolean;
+}
+
+/** Trigger event bits of pg_trigger.tgtype */
+const TRIGGER_EVENT_BITS: Record<'INSERT' | 'UPDATE' | 'DELETE', number> = {
+  INSERT: 4,
+  DELETE: 8,
+  UPDATE: 16,
+};
+
+const REFERENTIAL_ACTIONS: Record<string, CascadeEffect['action']> = {
+  c: 'CASCADE',
+  n: 'SET NULL',
+  d: 'SET DEFAULT',
+};
+
+export interface ConnectionManagerOptions {
+  /** Profile name recorded in audit events and metrics */
+  name?: string;
+  audit?: AuditLogger;
+  metrics?: ServerMetrics;
+  /** Queue that writes needing approval are submitted to */
+  changes?: ChangeQueue;
+}
+
 export class ConnectionManager {
   private pool: Pool | null = null;
   private tunnelManager: SSHTunnelManager | null = null;
@@ -27,13 +217,49 @@ export class ConnectionManager {
   private sslEnabled = false;
   private inFlightQueries = 0;
   private readonly maxConcurrentQueries: number;
-  private queryWaiters: Array<() => void> = [];
+  private readonly queryWaiters = new FairQueue<() => void>();
   private readonly poolDrainTimeoutMs: number;
-
-  constructor(config: ParsedConfig) {
+  private heldCursors = new Map<string, HeldCursor>();
+  private heldTransactions = new Map<string, HeldTransaction>();
+  private readonly masker: ResultMasker | null;
+  private columnOrigins = new Map<string, CachedColumnOrigin>();
+  private readonly typeNames = new Map<number, string>(
+    Object.entries(BUILTIN_TYPE_NAMES).map(([oid, name]) => [Number(oid), name])
+  );
+  private readonly policy: AccessPolicy | null;
+  private readonly audit: AuditLogger | null;
+  private readonly metrics: ServerMetrics | null;
+  private readonly changes: ChangeQueue | null;
+  private readonly name: string;
+
+  constructor(config: ParsedConfig, options: ConnectionManagerOptions = {}) {
     this.config = config;
+    this.audit = options.audit ?? null;
+    this.metrics = options.metrics ?? null;
+    this.changes = options.changes ?? null;
+    this.name = options.name ?? 'default';
     this.maxConcurrentQueries = config.maxConcurrentQueries;
     this.poolDrainTimeoutMs = config.poolDrainTimeoutMs;
+    this.masker = config.maskingPolicy
+      ? new ResultMasker(config.maskingPolicy, (refs) =>
+          this.resolveColumnOrigins(refs)
+        )
+      : null;
+    this.policy = config.accessPolicy
+      ? new AccessPolicy(config.accessPolicy)
+      : null;
+  }
+
+  get usesSshTunnel(): boolean {
+    return this.config.ssh !== undefined;
+  }
+
+  /**
+   * Configured schema/relation access policy, for tools that check their
+   * arguments instead of user SQL
+   */
+  get accessPolicy(): AccessPolicy | null {
+    return this.policy;
   }
 
   async initialize(): Promise<void> {
@@ -52,6 +278,8 @@ export class ConnectionManager {
       this.tunnelManager.on('disconnecting', () => {
         console.error('[DB] Tunnel disconnecting, queries may fail...');
         this.isReconnecting = true;
+        void this.closeAllCursors();
+        void this.rollbackAllTransactions();
       });
 
       this.tunnelManager.on(
@@ -124,6 +352,8 @@ export class ConnectionManager {
     );
 
     this.sslEnabled = sslConfig !== false;
+    // A new pool may reach a different server, e.g. after a failover
+    this.columnOrigins.clear();
 
     this.pool = new Pool({
       host,
@@ -131,11 +361,12 @@ export class ConnectionManager {
       database: this.config.database.database,
       user: this.config.database.user,
       password: this.config.database.password,
-      max: 10,
+      max: this.config.poolSize,
       idleTimeoutMillis: 30000,
       connectionTimeoutMillis: 10000,
       statement_timeout: this.config.queryTimeout,
       ssl: sslConfig,
+      types: createTypeParsers(this.config.valueEncoding),
     });
 
     this.pool.on('error', (err) => {
@@ -145,6 +376,14 @@ export class ConnectionManager {
       );
     });
 
+    this.pool.on('connect', (client) => {
+      traceClientQueries(client, {
+        database: this.config.database.database,
+        host: this.config.database.host,
+        port: this.config.database.port,
+      });
+    });
+
     const client = await this.pool.connect();
     try {
       await client.query('SELECT 1');
@@ -183,9 +422,113 @@ export class ConnectionManager {
     console.error('[DB] Pool recreated successfully');
   }
 
+  /**
+   * Run a statement, in a held transaction when `transactionId` is set. On a
+   * profile with WRITE_APPROVAL, statements that are not read-only are
+   * queued as pending changes when `queueWrites` is set and rejected
+   * otherwise.
+   */
   async executeQuery(
     sql: string,
-    params?: unknown[]
+    params?: unknown[],
+    options: QueryOptions = {}
+  ): Promise<QueryResultWithMeta> {
+    const { transactionId } = options;
+    if (transactionId) {
+      return this.instrumentQuery(sql, params, () =>
+        this.runInTransaction(transactionId, sql, params || [], options)
+      );
+    }
+    if (this.requiresApproval(sql)) {
+      if (!options.queueWrites) {
+        throw new Error(
+          `Writes to database "${this.name}" require approval. Submit them with execute_query.`
+        );
+      }
+      return this.submitChange(sql, params || []);
+    }
+    return this.instrumentQuery(sql, params, () =>
+      this.runQuery(sql, params, options)
+    );
+  }
+
+  /**
+   * Run a change a reviewer approved. It runs with the reviewer's query
+   * mode and is checked against the access policy like any other query.
+   */
+  async executeApprovedChange(change: PendingChange): Promise<QueryResultWithMeta> {
+    return this.instrumentQuery(change.sql, change.params, () =>
+      this.runQuery(change.sql, change.params, { enforceAccessPolicy: true }, true)
+    );
+  }
+
+  /**
+   * Whether the statement must wait for approval: the profile requires it,
+   * the caller may write and the statement is not read-only
+   * @throws Error if the SQL does not parse
+   */
+  private requiresApproval(sql: string): boolean {
+    if (
+      !this.config.writeApproval ||
+      this.config.readOnly ||
+      getRequestContext()?.access?.mode === 'read-only'
+    ) {
+      return false;
+    }
+    parseSql(sql);
+    try {
+      validateReadOnlyStatement(sql);
+      return false;
+    } catch {
+      return true;
+    }
+  }
+
+  private submitChange(sql: string, params: unknown[]): QueryResultWithMeta {
+    if (!this.changes) {
+      throw new Error('Write approval is enabled but no change queue is configured.');
+    }
+    const pendingChange = this.changes.submit({
+      database: this.name,
+      sql,
+      params,
+      submittedBy: getRequestContext()?.subject,
+    });
+    return { rows: [], rowCount: 0, truncated: false, pendingChange };
+  }
+
+  /**
+   * Run database work for a statement, recording it in the audit log and
+   * the query metrics
+   */
+  private async instrumentQuery<T extends { rowCount: number; truncated: boolean }>(
+    sql: string,
+    params: unknown[] | undefined,
+    run: () => Promise<T>
+  ): Promise<T> {
+    if (!this.audit && !this.metrics) {
+      return run();
+    }
+
+    const startedAt = performance.now();
+    const entry = { database: this.name, sql, params, startedAt };
+    try {
+      const result = await run();
+      this.audit?.recordQuery({ ...entry, result });
+      this.metrics?.recordQuery(this.name, performance.now() - startedAt);
+      return result;
+    } catch (err) {
+      this.audit?.recordQuery({ ...entry, error: err });
+      this.metrics?.recordQuery(this.name, performance.now() - startedAt, err);
+      throw err;
+    }
+  }
+
+  private async runQuery(
+    sql: string,
+    params: unknown[] | undefined,
+    options: QueryOptions,
+    approved = false
   ): Promise<QueryResultWithMeta> {
     if (!this.pool) {
       if (this.isReconnecting) {
@@ -194,34 +537,596 @@ export class ConnectionManager {
       throw new Error('Connection not initialized');
     }
 
-    if (this.config.readOnly) {
+    let result: QueryResultWithMeta;
+    const mask = async (raw: QueryResultWithMeta) =>
+      options.skipMasking ? raw : this.applyMasking(raw);
+
+    // READ_ONLY=true is a ceiling; a caller's grants can only narrow it.
+    // With WRITE_APPROVAL only approved changes leave the read-only path.
+    if (
+      this.config.readOnly ||
+      getRequestContext()?.access?.mode === 'read-only' ||
+      (this.config.writeApproval && !approved)
+    ) {
       validateReadOnlyStatement(sql);
-      await this.acquireQuerySlot();
-      try {
-        return await this.executeReadOnlyQuery(sql, params || []);
-      } finally {
-        this.releaseQuerySlot();
-      }
+      result = await this.runInQuerySlot(async () =>
+        mask(await this.executeReadOnlyQuery(sql, params || [], options))
+      );
+    } else {
+      result = await this.runInQuerySlot(async () =>
+        mask(await this.executeWriteQuery(sql, params || [], options))
+      );
     }
 
+    return options.describeFields ? this.describeResult(result) : result;
+  }
+
+  /**
+   * Run database work in a query slot, charging the time it held the slot
+   * and the rows it returned to the caller's quota
+   */
+  private async runInQuerySlot<T extends { rows?: unknown[]; rowCount: number }>(
+    run: () => Promise<T>
+  ): Promise<T> {
     await this.acquireQuerySlot();
+    const quota = getRequestContext()?.quota;
+    const startedAt = performance.now();
+    let rows = 0;
     try {
-      return await this.executeWriteQuery(sql, params || []);
+      const result = await run();
+      rows = result.rows?.length ?? result.rowCount;
+      return result;
     } finally {
       this.releaseQuerySlot();
+      quota?.recordQuery(performance.now() - startedAt, rows);
+    }
+  }
+
+  /**
+   * Stream the rows of a SELECT into a file in the export directory. The
+   * query runs like a read-only query whatever the server mode, is checked
+   * against the access policy and masked, and is cut off after
+   * MAX_EXPORT_ROWS instead of MAX_ROWS.
+   * @throws Error if exports are disabled or the SQL is not a single SELECT
+   */
+  async exportQuery(
+    sql: string,
+    params: unknown[] | undefined,
+    options: ExportOptions
+  ): Promise<ExportResult> {
+    const directory = this.config.exportDir;
+    if (!directory) {
+      throw new Error('Exports are disabled. Set EXPORT_DIR to enable export_query.');
+    }
+    const pool = this.pool;
+    if (!pool) {
+      if (this.isReconnecting) {
+        throw new Error('Database connection lost, reconnecting...');
+      }
+      throw new Error('Connection not initialized');
+    }
+
+    validateReadOnlyStatement(sql);
+    if (!this.shouldUseCursorLimiting(sql)) {
+      throw new Error('export_query only supports a single SELECT, VALUES or WITH query.');
+    }
+    const path = exportFilePath(directory, options.format, options.fileName);
+    await mkdir(directory, { recursive: true });
+
+    return this.instrumentQuery(sql, params, () =>
+      this.runInQuerySlot(() =>
+        this.streamExport(pool, sql, params || [], options.format, path)
+      )
+    );
+  }
+
+  private async streamExport(
+    pool: Pool,
+    sql: string,
+    params: unknown[],
+    format: ExportFormat,
+    path: string
+  ): Promise<ExportResult> {
+    const client = await pool.connect();
+    const cursorName = `mcp_export_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+    const maxRows = this.config.maxExportRows;
+    let writer: ExportWriter | undefined;
+
+    try {
+      await client.query('BEGIN TRANSACTION READ ONLY');
+      await this.checkAccessPolicy(client, sql);
+      await client.query(`DECLARE ${cursorName} NO SCROLL CURSOR FOR ${sql}`, params);
+
+      let rowCount = 0;
+      let truncated = false;
+      let maskedColumns: string[] | undefined;
+      let columns = exportColumns([]);
+
+      for (;;) {
+        // One row past the cap tells whether the export was cut off
+        const requested = Math.min(EXPORT_BATCH_ROWS, maxRows + 1 - rowCount);
+        const batch = await client.query(`FETCH ${requested} FROM ${cursorName}`);
+        const fields = batch.fields?.map(toQueryField) ?? [];
+        truncated = rowCount + batch.rows.length > maxRows;
+        const masked = await this.applyMasking({
+          rows: truncated ? batch.rows.slice(0, maxRows - rowCount) : batch.rows,
+          rowCount: batch.rows.length,
+          truncated: false,
+          fields,
+        });
+
+        if (!writer) {
+          columns = exportColumns(await this.describeFields(fields));
+          maskedColumns = masked.maskedColumns;
+          writer = await createExportWriter(format, path, columns, new Set(maskedColumns));
+        }
+        await writer.write(masked.rows);
+        rowCount += masked.rows.length;
+
+        if (truncated || batch.rows.length < requested) {
+          break;
+        }
+      }
+
+      await client.query(`CLOSE ${cursorName}`);
+      await client.query('ROLLBACK');
+      const bytes = await writer.finish();
+
+      return {
+        path,
+        format,
+        bytes,
+        rowCount,
+        truncated,
+        columns,
+        ...(maskedColumns && { maskedColumns }),
+      };
+    } catch (err) {
+      await writer?.abort();
+      await client.query('ROLLBACK').catch(() => {});
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Run an INSERT, UPDATE, DELETE or MERGE in a transaction that is always
+   * rolled back and report what it would have done: the affected row count
+   * and a sample of the affected rows (`RETURNING *` is added unless the
+   * statement has its own RETURNING clause). The statement really executes,
+   * so it takes locks and advances sequences like the real write would;
+   * profiles with WRITE_APPROVAL therefore refuse it.
+   * @throws Error in read-only mode, on a profile requiring approval or for
+   * any other kind of statement
+   */
+  async previewWrite(
+    sql: string,
+    params: unknown[] | undefined,
+    options: PreviewOptions = {}
+  ): Promise<WritePreview> {
+    if (
+      this.config.readOnly ||
+      getRequestContext()?.access?.mode === 'read-only'
+    ) {
+      throw new Error('Write previews are not available in read-only mode.');
+    }
+    if (this.config.writeApproval) {
+      throw new Error(
+        `Writes to database "${this.name}" require approval. Write previews are not available.`
+      );
+    }
+    const pool = this.pool;
+    if (!pool) {
+      if (this.isReconnecting) {
+        throw new Error('Database connection lost, reconnecting...');
+      }
+      throw new Error('Connection not initialized');
+    }
+
+    const statement = parseWriteStatement(sql);
+    const sampleSize = Math.min(options.sampleSize ?? this.config.maxRows, this.config.maxRows);
+    if (!Number.isInteger(sampleSize) || sampleSize < 1) {
+      throw new Error('sampleSize must be a positive integer');
+    }
+
+    return this.instrumentQuery(sql, params, () =>
+      this.runInQuerySlot(() =>
+        this.runPreview(pool, statement, sql, params || [], sampleSize, options.effects ?? false)
+      )
+    );
+  }
+
+  private async runPreview(
+    pool: Pool,
+    statement: WriteStatement,
+    sql: string,
+    params: unknown[],
+    sampleSize: number,
+    includeEffects: boolean
+  ): Promise<WritePreview> {
+    const client = await pool.connect();
+
+    try {
+      await client.query('BEGIN');
+      await this.checkAccessPolicy(client, sql);
+
+      // MERGE ... RETURNING needs PostgreSQL 17
+      const addReturning =
+        !statement.hasReturning &&
+        (statement.command !== 'MERGE' || (await this.serverVersion(client)) >= 170000);
+      const result = await client.query(
+        addReturning ? `${statement.text}\nRETURNING *` : statement.text,
+        params
+      );
+
+      const rows = result.rows ?? [];
+      const truncated = rows.length > sampleSize;
+      const masked = await this.applyMasking({
+        rows: truncated ? rows.slice(0, sampleSize) : rows,
+        rowCount: result.rowCount ?? 0,
+        truncated,
+        fields: result.fields?.map(toQueryField),
+      });
+      const fields = masked.fields && (await this.describeFields(masked.fields));
+
+      return {
+        command: result.command,
+        rowCount: masked.rowCount,
+        rows: masked.rows,
+        truncated,
+        ...(fields && fields.length > 0 && { fields }),
+        ...(masked.maskedColumns && { maskedColumns: masked.maskedColumns }),
+        ...(includeEffects && (await this.writeEffects(client, statement))),
+      };
+    } finally {
+      // Never leave the transaction open; a client that cannot roll back is discarded
+      try {
+        await client.query('ROLLBACK');
+        client.release();
+      } catch (err) {
+        client.release(err instanceof Error ? err : true);
+      }
+    }
+  }
+
+  private async serverVersion(client: PoolClient): Promise<number> {
+    const result = await client.query(
+      "SELECT pg_catalog.current_setting('server_version_num')::int AS version"
+    );
+    return result.rows[0]?.version ?? 0;
+  }
+
+  /**
+   * Triggers on the target table that the statement's events fire, and
+   * foreign keys referencing it whose ON UPDATE/ON DELETE action would
+   * change other tables. Only direct effects are listed.
+   */
+  private async writeEffects(
+    client: PoolClient,
+    statement: WriteStatement
+  ): Promise<{ triggers: TriggerEffect[]; cascades: CascadeEffect[] }> {
+    const target = statement.target.schema
+      ? quoteQualifiedName(statement.target.schema, statement.target.name)
+      : quoteIdentifier(statement.target.name);
+    const eventBits = statement.events.reduce(
+      (bits, event) => bits | TRIGGER_EVENT_BITS[event],
+      0
+    );
+
+    const triggers = await client.query(
+      `SELECT
+         t.tgname AS name,
+         CASE
+           WHEN t.tgtype & 2 <> 0 THEN 'BEFORE'
+           WHEN t.tgtype & 64 <> 0 THEN 'INSTEAD OF'
+           ELSE 'AFTER'
+         END AS timing,
+         CASE WHEN t.tgtype & 1 <> 0 THEN 'ROW' ELSE 'STATEMENT' END AS level,
+         pg_catalog.array_remove(ARRAY[
+           CASE WHEN t.tgtype & 4 <> 0 THEN 'INSERT' END,
+           CASE WHEN t.tgtype & 16 <> 0 THEN 'UPDATE' END,
+           CASE WHEN t.tgtype & 8 <> 0 THEN 'DELETE' END
+         ], NULL) AS events,
+         t.tgfoid::regprocedure::text AS function
+       FROM pg_catalog.pg_trigger t
+       WHERE t.tgrelid = $1::regclass
+         AND NOT t.tgisinternal
+         AND t.tgenabled IN ('O', 'A')
+         AND t.tgtype & $2 <> 0
+       ORDER BY t.tgname`,
+      [target, eventBits]
+    );
+
+    const foreignKeys = await client.query(
+      `SELECT
+         con.conname AS constraint_name,
+         n.nspname AS schema_name,
+         c.relname AS table_name,
+         con.confupdtype AS on_update,
+         con.confdeltype AS on_delete
+       FROM pg_catalog.pg_constraint con
+       JOIN pg_catalog.pg_class c ON c.oid = con.conrelid
+       JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+       WHERE con.contype = 'f' AND con.confrelid = $1::regclass
+       ORDER BY n.nspname, c.relname, con.conname`,
+      [target]
+    );
+
+    const cascades: CascadeEffect[] = [];
+    for (const row of foreignKeys.rows) {
+      for (const event of ['UPDATE', 'DELETE'] as const) {
+        const action = REFERENTIAL_ACTIONS[event === 'UPDATE' ? row.on_update : row.on_delete];
+        if (action && statement.events.includes(event)) {
+          cascades.push({
+            constraint: row.constraint_name,
+            table: `${row.schema_name}.${row.table_name}`,
+            event,
+            action,
+          });
+        }
+      }
+    }
+
+    return { triggers: triggers.rows, cascades };
+  }
+
+  /**
+   * Open a transaction on a dedicated client. Statements run in it when
+   * executeQuery() is given its ID; it belongs to the caller's MCP session
+   * (or the stdio process) and is rolled back after
+   * TRANSACTION_IDLE_TIMEOUT_MS without a statement.
+   * @throws Error if transactions are disabled, the limit overall or for the
+   * session is reached or the caller may not open a read-write transaction
+   */
+  async beginTransaction(options: TransactionOptions = {}): Promise<TransactionInfo> {
+    if (!this.pool) {
+      if (this.isReconnecting) {
+        throw new Error('Database connection lost, reconnecting...');
+      }
+      throw new Error('Connection not initialized');
+    }
+
+    const owner = transactionOwner();
+    const limit = this.config.maxOpenTransactions;
+    if (limit < 1) {
+      throw new Error('Transactions are disabled. Set MAX_OPEN_TRANSACTIONS to enable them.');
+    }
+    if (this.heldTransactions.size >= limit) {
+      throw new Error(
+        `Open transaction limit (${limit}) reached. Commit or roll back a transaction first.`
+      );
+    }
+    const ownLimit = this.config.maxSessionTransactions;
+    const owned = Array.from(this.heldTransactions.values()).filter(
+      (transaction) => transaction.owner === owner
+    ).length;
+    if (owned >= ownLimit) {
+      throw new Error(
+        `Open transaction limit per session (${ownLimit}) reached. Commit or roll back a transaction first.`
+      );
+    }
+
+    const writable =
+      !this.config.readOnly &&
+      getRequestContext()?.access?.mode !== 'read-only' &&
+      !this.config.writeApproval;
+    const readOnly = options.readOnly ?? !writable;
+    if (!readOnly && !writable) {
+      throw new Error(
+        this.config.writeApproval
+          ? `Writes to database "${this.name}" require approval. Only read-only transactions can be opened.`
+          : 'Read-write transactions are not available in read-only mode.'
+      );
+    }
+    const isolationLevel = options.isolationLevel ?? 'read committed';
+
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `BEGIN ISOLATION LEVEL ${isolationLevel.toUpperCase()} ${readOnly ? 'READ ONLY' : 'READ WRITE'}`
+      );
+    } catch (err) {
+      client.release(err instanceof Error ? err : true);
+      throw err;
+    }
+
+    const info: TransactionInfo = {
+      transactionId: randomBytes(18).toString('base64url'),
+      database: this.name,
+      isolationLevel,
+      readOnly,
+      idleTimeoutMs: this.config.transactionIdleTimeoutMs,
+    };
+    const transaction: HeldTransaction = {
+      client,
+      owner,
+      info,
+      busy: false,
+      idleTimer: null,
+    };
+    this.heldTransactions.set(info.transactionId, transaction);
+    this.scheduleTransactionExpiry(transaction);
+    return { ...info };
+  }
+
+  /**
+   * Whether a transaction ID belongs to this connection
+   */
+  hasTransaction(transactionId: string): boolean {
+    return this.heldTransactions.has(transactionId);
+  }
+
+  /**
+   * Commit a held transaction and release its client
+   * @throws Error if the transaction is unknown or busy, or PostgreSQL
+   * rolled it back instead because a statement in it failed
+   */
+  async commitTransaction(transactionId: string): Promise<void> {
+    const transaction = this.claimTransaction(transactionId);
+    let command: string;
+    try {
+      ({ command } = await transaction.client.query('COMMIT'));
+    } catch (err) {
+      this.releaseTransaction(transactionId, err);
+      throw err;
+    }
+    this.releaseTransaction(transactionId);
+    if (command === 'ROLLBACK') {
+      throw new Error(
+        'The transaction was rolled back because a statement in it failed.'
+      );
+    }
+  }
+
+  /**
+   * Roll back a held transaction and release its client
+   * @throws Error if the transaction is unknown or busy
+   */
+  async rollbackTransaction(transactionId: string): Promise<void> {
+    this.claimTransaction(transactionId);
+    await this.rollbackHeldTransaction(transactionId);
+  }
+
+  /**
+   * Roll back every transaction and close every held cursor of an MCP
+   * session that has ended
+   */
+  async endSession(sessionId: string): Promise<void> {
+    const owner = `session:${sessionId}`;
+    await Promise.all([
+      ...Array.from(this.heldTransactions)
+        .filter(([, transaction]) => transaction.owner === owner)
+        .map(([transactionId]) => this.rollbackHeldTransaction(transactionId)),
+      ...Array.from(this.heldCursors)
+        .filter(([, cursor]) => cursor.owner === owner)
+        .map(([token]) => this.releaseCursor(token, false)),
+    ]);
+  }
+
+  private async runInTransaction(
+    transactionId: string,
+    sql: string,
+    params: unknown[],
+    options: QueryOptions
+  ): Promise<QueryResultWithMeta> {
+    const transaction = this.claimTransaction(transactionId);
+    const { client } = transaction;
+
+    try {
+      validateTransactionStatement(sql);
+      if (transaction.info.readOnly) {
+        validateReadOnlyStatement(sql);
+      }
+
+      const result = await this.runInQuerySlot(async () => {
+        if (options.enforceAccessPolicy) {
+          await this.checkAccessPolicy(client, sql);
+        }
+        // The open transaction keeps the cursor from needing one of its own
+        return this.applyMasking(
+          this.shouldUseCursorLimiting(sql)
+            ? await this.executeQueryWithLimit(
+                client,
+                sql,
+                params,
+                this.config.maxRows,
+                true,
+                false
+              )
+            : await this.runStatement(client, sql, params)
+        );
+      });
+
+      return options.describeFields ? this.describeResult(result) : result;
+    } finally {
+      if (this.heldTransactions.get(transactionId) === transaction) {
+        transaction.busy = false;
+        this.scheduleTransactionExpiry(transaction);
+      }
+    }
+  }
+
+  /**
+   * Take a held transaction for one operation, stopping its idle timer
+   * @throws Error if the caller does not own the transaction or it is busy
+   */
+  private claimTransaction(transactionId: string): HeldTransaction {
+    const transaction = this.heldTransactions.get(transactionId);
+    if (!transaction || transaction.owner !== transactionOwner()) {
+      throw new Error(
+        'Transaction not found or expired. It may have been rolled back after being idle.'
+      );
+    }
+    if (transaction.busy) {
+      throw new Error('Another statement is already running in this transaction.');
+    }
+    transaction.busy = true;
+    if (transaction.idleTimer) {
+      clearTimeout(transaction.idleTimer);
+      transaction.idleTimer = null;
+    }
+    return transaction;
+  }
+
+  private scheduleTransactionExpiry(transaction: HeldTransaction): void {
+    transaction.idleTimer = setTimeout(() => {
+      console.error('[DB] Rolling back idle transaction after timeout');
+      void this.rollbackHeldTransaction(transaction.info.transactionId);
+    }, this.config.transactionIdleTimeoutMs);
+    transaction.idleTimer.unref?.();
+  }
+
+  private async rollbackHeldTransaction(transactionId: string): Promise<void> {
+    const transaction = this.heldTransactions.get(transactionId);
+    if (!transaction) {
+      return;
+    }
+    try {
+      await transaction.client.query('ROLLBACK');
+      this.releaseTransaction(transactionId);
+    } catch (err) {
+      this.releaseTransaction(transactionId, err);
+    }
+  }
+
+  /**
+   * Forget a held transaction and release its client, discarding the
+   * client when ending the transaction failed
+   */
+  private releaseTransaction(transactionId: string, error?: unknown): void {
+    const transaction = this.heldTransactions.get(transactionId);
+    if (!transaction) {
+      return;
+    }
+    this.heldTransactions.delete(transactionId);
+    if (transaction.idleTimer) {
+      clearTimeout(transaction.idleTimer);
+      transaction.idleTimer = null;
+    }
+    if (error === undefined) {
+      transaction.client.release();
+    } else {
+      transaction.client.release(error instanceof Error ? error : true);
     }
   }
 
   private async executeReadOnlyQuery(
     sql: string,
-    params: unknown[]
+    params: unknown[],
+    options: QueryOptions
   ): Promise<QueryResultWithMeta> {
     const client = await this.pool!.connect();
+    let cursorHeld = false;
 
     try {
       await client.query('BEGIN TRANSACTION READ ONLY');
 
       try {
+        if (options.enforceAccessPolicy) {
+          await this.checkAccessPolicy(client, sql);
+        }
+
         let result: QueryResultWithMeta;
 
         if (this.shouldUseCursorLimiting(sql)) {
@@ -230,18 +1135,21 @@ export class ConnectionManager {
             sql,
             params,
             this.config.maxRows,
-            true
+            true,
+            options.resumable ?? false
           );
+
+          if (result.continuationToken) {
+            cursorHeld = true;
+            return result;
+          }
         } else {
           const pgResult = await client.query(sql, params);
           result = {
             rows: pgResult.rows,
             rowCount: pgResult.rowCount || 0,
             truncated: false,
-            fields: pgResult.fields?.map((f) => ({
-              name: f.name,
-              dataTypeID: f.dataTypeID,
-            })),
+            fields: pgResult.fields?.map(toQueryField),
             command: pgResult.command,
           };
         }
@@ -254,56 +1162,84 @@ export class ConnectionManager {
         throw err;
       }
     } finally {
-      client.release();
+      if (!cursorHeld) {
+        client.release();
+      }
     }
   }
 
   private async executeWriteQuery(
     sql: string,
-    params: unknown[]
+    params: unknown[],
+    options: QueryOptions
   ): Promise<QueryResultWithMeta> {
     const client = await this.pool!.connect();
+    let cursorHeld = false;
 
     try {
+      if (options.enforceAccessPolicy) {
+        await this.checkAccessPolicy(client, sql);
+      }
+
       if (this.shouldUseCursorLimiting(sql)) {
-        return await this.executeQueryWithLimit(
+        const result = await this.executeQueryWithLimit(
           client,
           sql,
           params,
           this.config.maxRows,
-          false
+          false,
+          options.resumable ?? false
         );
+        cursorHeld = result.continuationToken !== undefined;
+        return result;
       }
 
-      const pgResult = await client.query(sql, params);
-
-      const truncated =
-        pgResult.rows && pgResult.rows.length > this.config.maxRows;
-      const rows = truncated
-        ? pgResult.rows.slice(0, this.config.maxRows)
-        : pgResult.rows || [];
-
-      return {
-        rows,
-        rowCount: pgResult.rowCount || 0,
-        truncated,
-        fields: pgResult.fields?.map((f) => ({
-          name: f.name,
-          dataTypeID: f.dataTypeID,
-        })),
-        command: pgResult.command,
-      };
+      return await this.runStatement(client, sql, params);
     } finally {
-      client.release();
+      if (!cursorHeld) {
+        client.release();
+      }
     }
   }
 
+  /**
+   * Run a statement as it is, keeping the first maxRows rows of its result
+   */
+  private async runStatement(
+    client: PoolClient,
+    sql: string,
+    params: unknown[]
+  ): Promise<QueryResultWithMeta> {
+    const pgResult = await client.query(sql, params);
+
+    const truncated =
+      pgResult.rows && pgResult.rows.length > this.config.maxRows;
+    const rows = truncated
+      ? pgResult.rows.slice(0, this.config.maxRows)
+      : pgResult.rows || [];
+
+    return {
+      rows,
+      rowCount: pgResult.rowCount || 0,
+      truncated,
+      fields: pgResult.fields?.map(toQueryField),
+      command: pgResult.command,
+    };
+  }
+
+  /**
+   * Run a cursor-limited query. When more rows remain, the query is
+   * resumable and a cursor slot is free, the cursor and its transaction
+   * stay open on the client and the result carries a continuation token;
+   * the caller must not release the client in that case.
+   */
   private async executeQueryWithLimit(
     client: PoolClient,
     sql: string,
     params: unknown[],
     maxRows: number,
-    isReadOnlyMode: boolean
+    isReadOnlyMode: boolean,
+    resumable: boolean
   ): Promise<QueryResultWithMeta> {
     const cursorName = `mcp_cursor_${Date.now()}_${Math.random().toString(36).slice(2)}`;
 
@@ -322,6 +1258,34 @@ export class ConnectionManager {
 
       const truncated = result.rows.length > maxRows;
       const rows = truncated ? result.rows.slice(0, maxRows) : result.rows;
+      const fields = result.fields?.map(toQueryField);
+
+      const owner = cursorOwner();
+      if (truncated && resumable && this.canHoldCursor(owner)) {
+        const continuationToken = this.holdCursor({
+          client,
+          owner,
+          sql,
+          params,
+          cursorName,
+          fields,
+          command: result.command,
+          pending: result.rows.slice(maxRows),
+          rowsFetched: rows.length,
+          endTransaction: isReadOnlyMode ? 'ROLLBACK' : 'COMMIT',
+          busy: false,
+          idleTimer: null,
+        });
+
+        return {
+          rows,
+          rowCount: rows.length,
+          truncated,
+          fields,
+          command: result.command,
+          continuationToken,
+        };
+      }
 
       await client.query(`CLOSE ${cursorName}`);
 
@@ -333,10 +1297,7 @@ export class ConnectionManager {
         rows,
         rowCount: rows.length,
         truncated,
-        fields: result.fields?.map((f) => ({
-          name: f.name,
-          dataTypeID: f.dataTypeID,
-        })),
+        fields,
         command: result.command,
       };
     } catch (err) {
@@ -348,42 +1309,400 @@ export class ConnectionManager {
     }
   }
 
-  private shouldUseCursorLimiting(sql: string): boolean {
-    const firstKeyword = getFirstKeyword(sql);
-    if (!firstKeyword) {
-      return false;
+  /**
+   * Whether a continuation token belongs to this connection
+   */
+  hasContinuation(token: string): boolean {
+    return this.heldCursors.has(token);
+  }
+
+  /**
+   * Fetch the next page of a truncated result from its held cursor. Its
+   * fields are described as with the describeFields query option.
+   * @param token - Continuation token returned with the previous page
+   * @param pageSize - Rows to return (capped at maxRows)
+   * @throws Error if the token is unknown, expired, held by another session
+   * or client, or already in use
+   */
+  async fetchMore(
+    token: string,
+    pageSize?: number
+  ): Promise<QueryResultWithMeta> {
+    const cursor = this.heldCursors.get(token);
+    if (!cursor || cursor.owner !== cursorOwner()) {
+      throw new Error(
+        'Continuation token not found or expired. Re-run the query to start over.'
+      );
+    }
+    if (cursor.busy) {
+      throw new Error('A fetch for this continuation token is already running.');
+    }
+
+    const limit = Math.min(pageSize ?? this.config.maxRows, this.config.maxRows);
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error('pageSize must be a positive integer');
     }
 
-    if (firstKeyword === 'WITH') {
-      if (cteContainsDML(sql)) {
-        return false;
+    cursor.busy = true;
+    if (cursor.idleTimer) {
+      clearTimeout(cursor.idleTimer);
+      cursor.idleTimer = null;
+    }
+
+    return this.instrumentQuery(cursor.sql, cursor.params, async () =>
+      this.describeResult(
+        await this.runInQuerySlot(() => this.fetchPage(token, cursor, limit))
+      )
+    );
+  }
+
+  private async fetchPage(
+    token: string,
+    cursor: HeldCursor,
+    limit: number
+  ): Promise<QueryResultWithMeta> {
+    try {
+      const needed = limit + 1 - cursor.pending.length;
+      const fetched =
+        needed > 0
+          ? (
+              await cursor.client.query(
+                `FETCH ${needed} FROM ${cursor.cursorName}`
+              )
+            ).rows
+          : [];
+
+      const buffer = cursor.pending.concat(fetched);
+      const rows = buffer.slice(0, limit);
+      cursor.pending = buffer.slice(limit);
+      cursor.rowsFetched += rows.length;
+
+      const truncated = cursor.pending.length > 0;
+      const result: QueryResultWithMeta = {
+        rows,
+        rowCount: rows.length,
+        truncated,
+        fields: cursor.fields,
+        command: cursor.command,
+        rowsFetched: cursor.rowsFetched,
+      };
+
+      if (!truncated) {
+        await this.releaseCursor(token, false);
+        return await this.applyMasking(result);
       }
 
-      const finalStatement = extractFinalStatementAfterCTEs(sql);
-      if (finalStatement) {
-        const normalizedFinal = stripLeadingComments(finalStatement).trim().toUpperCase();
-        if (
-          normalizedFinal.startsWith('INSERT ') ||
-          normalizedFinal.startsWith('UPDATE ') ||
-          normalizedFinal.startsWith('DELETE ') ||
-          normalizedFinal.startsWith('MERGE ')
-        ) {
-          return false;
-        }
+      cursor.busy = false;
+      this.scheduleCursorExpiry(token, cursor);
+      return await this.applyMasking({ ...result, continuationToken: token });
+    } catch (err) {
+      await this.releaseCursor(token, true);
+      throw err;
+    }
+  }
+
+  private async applyMasking(
+    result: QueryResultWithMeta
+  ): Promise<QueryResultWithMeta> {
+    if (!this.masker) {
+      return result;
+    }
+
+    try {
+      return await this.masker.apply(result);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('[DB] Masking failed:', obfuscateConnectionString(message));
+      throw new Error(
+        'Unable to apply the masking policy to this result; no rows were returned.'
+      );
+    }
+  }
+
+  private async describeResult(
+    result: QueryResultWithMeta
+  ): Promise<QueryResultWithMeta> {
+    if (!result.fields || result.fields.length === 0) {
+      return result;
+    }
+    return { ...result, fields: await this.describeFields(result.fields) };
+  }
+
+  /**
+   * Add type names and, for fields read straight from a table column, the
+   * column and its nullability. A failed lookup leaves the fields as they
+   * are rather than failing the query.
+   */
+  private async describeFields(fields: QueryField[]): Promise<QueryField[]> {
+    try {
+      const unknownTypes = Array.from(
+        new Set(fields.map((field) => field.dataTypeID))
+      ).filter((oid) => !this.typeNames.has(oid));
+      if (unknownTypes.length > 0) {
+        await this.resolveTypeNames(unknownTypes);
       }
 
-      return true;
+      const refs = fields.flatMap(({ tableID, columnID }) =>
+        tableID && columnID && columnID > 0 ? [{ tableID, columnID }] : []
+      );
+      const sources =
+        refs.length > 0 ? await this.resolveColumnOrigins(refs) : new Map<string, SourceColumn>();
+
+      return fields.map((field) => {
+        const source = sources.get(`${field.tableID}:${field.columnID}`);
+        return {
+          ...field,
+          type: this.typeNames.get(field.dataTypeID),
+          ...(source && {
+            origin: { schema: source.schema, table: source.table, column: source.column },
+            nullable: source.nullable,
+          }),
+        };
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('[DB] Field metadata lookup failed:', obfuscateConnectionString(message));
+      return fields;
     }
+  }
 
-    if (
-      firstKeyword === 'SELECT' ||
-      firstKeyword === 'TABLE' ||
-      firstKeyword === 'VALUES'
-    ) {
-      return true;
+  /** Look up type names in pg_type; names are cached by OID */
+  private async resolveTypeNames(oids: number[]): Promise<void> {
+    if (!this.pool) {
+      throw new Error('Connection not initialized');
     }
 
-    return false;
+    const lookup = await this.pool.query(
+      `SELECT oid::int8::text AS oid, pg_catalog.format_type(oid, NULL) AS name
+       FROM pg_catalog.pg_type
+       WHERE oid = ANY ($1::oid[])`,
+      [oids]
+    );
+
+    for (const row of lookup.rows) {
+      this.typeNames.set(Number(row.oid), row.name);
+    }
+  }
+
+  /**
+   * Look up schema, table and column names and nullability for result
+   * fields, caching by table OID and attribute number
+   */
+  private async resolveColumnOrigins(
+    refs: Array<{ tableID: number; columnID: number }>
+  ): Promise<Map<string, SourceColumn>> {
+    const origins = new Map<string, SourceColumn>();
+    const missing: Array<{ tableID: number; columnID: number }> = [];
+
+    for (const ref of refs) {
+      const key = `${ref.tableID}:${ref.columnID}`;
+      const cached = this.columnOrigins.get(key);
+      if (cached && cached.expiresAt > Date.now()) {
+        origins.set(key, cached.origin);
+      } else {
+        missing.push(ref);
+      }
+    }
+
+    if (missing.length === 0) {
+      return origins;
+    }
+
+    if (!this.pool) {
+      throw new Error('Connection not initialized');
+    }
+
+    const lookup = await this.pool.query(
+      `
+        SELECT
+          a.attrelid::bigint AS table_id,
+          a.attnum AS column_id,
+          n.nspname AS schema_name,
+          c.relname AS table_name,
+          a.attname AS column_name,
+          NOT a.attnotnull AS nullable
+        FROM pg_catalog.pg_attribute a
+        JOIN pg_catalog.pg_class c ON c.oid = a.attrelid
+        JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+        WHERE (a.attrelid, a.attnum) IN (
+          SELECT * FROM unnest($1::oid[], $2::int2[])
+        )
+      `,
+      [missing.map((ref) => ref.tableID), missing.map((ref) => ref.columnID)]
+    );
+
+    if (this.columnOrigins.size > MAX_CACHED_COLUMN_ORIGINS) {
+      this.columnOrigins.clear();
+    }
+
+    const expiresAt = Date.now() + COLUMN_ORIGIN_TTL_MS;
+    for (const row of lookup.rows) {
+      const key = `${row.table_id}:${row.column_id}`;
+      const origin: SourceColumn = {
+        schema: row.schema_name,
+        table: row.table_name,
+        column: row.column_name,
+        nullable: row.nullable,
+      };
+      this.columnOrigins.set(key, { origin, expiresAt });
+      origins.set(key, origin);
+    }
+
+    return origins;
+  }
+
+  private canHoldCursor(owner: string): boolean {
+    const limit = this.config.maxOpenCursors;
+    if (limit < 1) {
+      return false;
+    }
+    if (this.heldCursors.size >= limit) {
+      console.error(
+        `[DB] Open cursor limit (${limit}) reached, result will not be resumable`
+      );
+      return false;
+    }
+    const ownLimit = this.config.maxSessionCursors;
+    const owned = Array.from(this.heldCursors.values()).filter(
+      (cursor) => cursor.owner === owner
+    ).length;
+    if (owned >= ownLimit) {
+      console.error(
+        `[DB] Open cursor limit per session (${ownLimit}) reached, result will not be resumable`
+      );
+      return false;
+    }
+    return true;
+  }
+
+  private holdCursor(cursor: HeldCursor): string {
+    const token = randomBytes(18).toString('base64url');
+    this.heldCursors.set(token, cursor);
+    this.scheduleCursorExpiry(token, cursor);
+    return token;
+  }
+
+  private scheduleCursorExpiry(token: string, cursor: HeldCursor): void {
+    cursor.idleTimer = setTimeout(() => {
+      console.error('[DB] Closing idle cursor after timeout');
+      void this.releaseCursor(token, false);
+    }, this.config.cursorIdleTimeoutMs);
+    cursor.idleTimer.unref?.();
+  }
+
+  private async releaseCursor(token: string, failed: boolean): Promise<void> {
+    const cursor = this.heldCursors.get(token);
+    if (!cursor) {
+      return;
+    }
+    this.heldCursors.delete(token);
+
+    if (cursor.idleTimer) {
+      clearTimeout(cursor.idleTimer);
+      cursor.idleTimer = null;
+    }
+
+    try {
+      await cursor.client.query(`CLOSE ${cursor.cursorName}`).catch(() => {});
+      await cursor.client.query(failed ? 'ROLLBACK' : cursor.endTransaction);
+      cursor.client.release();
+    } catch (err) {
+      cursor.client.release(err instanceof Error ? err : true);
+    }
+  }
+
+  private async closeAllCursors(): Promise<void> {
+    await Promise.all(
+      Array.from(this.heldCursors.keys()).map((token) =>
+        this.releaseCursor(token, false)
+      )
+    );
+  }
+
+  private async rollbackAllTransactions(): Promise<void> {
+    await Promise.all(
+      Array.from(this.heldTransactions.keys()).map((transactionId) =>
+        this.rollbackHeldTransaction(transactionId)
+      )
+    );
+  }
+
+  /**
+   * Parse the SQL and reject it if it references a blocked relation or
+   * function. Unqualified names are resolved on the client that will run
+   * the query, so its search_path applies.
+   */
+  private async checkAccessPolicy(client: PoolClient, sql: string): Promise<void> {
+    if (!this.policy) {
+      return;
+    }
+
+    const statements = parseSql(sql);
+    if (statements.length > 1) {
+      throw new Error(
+        'Multiple statements not allowed when an access policy is configured.'
+      );
+    }
+
+    const refs = collectObjectReferences(statements);
+    this.policy.assertReferences(await this.resolveSchemas(client, refs));
+  }
+
+  /**
+   * Resolve the schema of unqualified references through search_path.
+   * Names that do not exist yet resolve to the creation schema.
+   */
+  private async resolveSchemas(
+    client: PoolClient,
+    refs: ObjectReference[]
+  ): Promise<ResolvedObjectReference[]> {
+    const unqualified = refs.filter((ref) => ref.schema === undefined);
+    const resolved = new Map<string, string>();
+
+    if (unqualified.length > 0) {
+      const result = await client.query(
+        `SELECT r.kind, r.name, COALESCE(
+           CASE r.kind
+             WHEN 'relation' THEN (
+               SELECT n.nspname
+               FROM pg_catalog.pg_class c
+               JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+               WHERE c.relname = r.name
+                 AND n.nspname = ANY (pg_catalog.current_schemas(true))
+               ORDER BY pg_catalog.array_position(pg_catalog.current_schemas(true), n.nspname)
+               LIMIT 1)
+             ELSE (
+               SELECT n.nspname
+               FROM pg_catalog.pg_proc p
+               JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+               WHERE p.proname = r.name
+                 AND n.nspname = ANY (pg_catalog.current_schemas(true))
+               ORDER BY pg_catalog.array_position(pg_catalog.current_schemas(true), n.nspname)
+               LIMIT 1)
+           END,
+           pg_catalog.current_schema()) AS schema
+         FROM unnest($1::text[], $2::text[]) AS r(kind, name)`,
+        [unqualified.map((ref) => ref.kind), unqualified.map((ref) => ref.name)]
+      );
+
+      for (const row of result.rows) {
+        resolved.set(`${row.kind}:${row.name}`, row.schema);
+      }
+    }
+
+    return refs.map((ref) => {
+      const schema = ref.schema ?? resolved.get(`${ref.kind}:${ref.name}`);
+      if (!schema) {
+        throw new Error(
+          `Unable to resolve the schema of ${ref.kind} ${ref.name} for the access policy.`
+        );
+      }
+      return { ...ref, schema };
+    });
+  }
+
+  private shouldUseCursorLimiting(sql: string): boolean {
+    return isCursorEligible(sql);
   }
 
   getStatus(): ConnectionStatus {
@@ -408,34 +1727,53 @@ export class ConnectionManager {
       queryTimeout: this.config.queryTimeout,
       maxConcurrentQueries: this.maxConcurrentQueries,
       activeQueries: this.inFlightQueries,
+      openCursors: this.heldCursors.size,
+      openTransactions: this.heldTransactions.size,
     };
   }
 
+  /**
+   * Wait for a query slot. Waiters are queued per client and served in
+   * turn, so one client's backlog does not delay everyone else's queries.
+   */
   private async acquireQuerySlot(): Promise<void> {
     if (this.inFlightQueries < this.maxConcurrentQueries) {
       this.inFlightQueries += 1;
       return;
     }
 
-    await new Promise<void>((resolve) => {
-      this.queryWaiters.push(resolve);
-    });
-
-    this.inFlightQueries += 1;
+    // The releasing query hands its slot over, so inFlightQueries is not
+    // incremented here
+    await withSpan(
+      'acquire query slot',
+      {
+        'pgmcp.query_slots.active': this.inFlightQueries,
+        'pgmcp.query_slots.max': this.maxConcurrentQueries,
+        'pgmcp.query_slots.queued': this.queryWaiters.size,
+      },
+      () =>
+        new Promise<void>((resolve) => {
+          this.queryWaiters.push(getRequestContext()?.client ?? '', resolve);
+        })
+    );
   }
 
   private releaseQuerySlot(): void {
-    this.inFlightQueries = Math.max(0, this.inFlightQueries - 1);
-
     const next = this.queryWaiters.shift();
     if (next) {
       next();
+      return;
     }
+
+    this.inFlightQueries = Math.max(0, this.inFlightQueries - 1);
   }
 
   async close(): Promise<void> {
     console.error('[DB] Closing connection manager...');
 
+    await this.closeAllCursors();
+    await this.rollbackAllTransactions();
+
     if (this.pool) {
       await this.pool.end();
       this.pool = null;
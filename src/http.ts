@@ -1,20 +1,42 @@
 #!/usr/bin/env node
 
-import { parseConfig, parseHttpConfig } from './config.js';
-import { ConnectionManager } from './connection/postgres-pool.js';
+import { createServer as createHttpServer } from 'node:http';
+import {
+  parseProfiles,
+  parseHttpConfig,
+  parseAuditConfig,
+  parseApprovalConfig,
+  parseSchemaPollInterval,
+  parseTracingConfig,
+} from './config.js';
+import { ConnectionRegistry } from './connection/connection-registry.js';
 import { createHttpApp } from './http/app.js';
+import { createTlsServer } from './http/tls.js';
 import { obfuscateConnectionString } from './lib/obfuscate.js';
+import { createAuditLogger } from './lib/audit.js';
+import { ChangeQueue } from './lib/approvals.js';
+import { ServerMetrics } from './lib/metrics.js';
+import { startTracing } from './lib/tracing.js';
 
 async function main(): Promise<void> {
   console.error('[HTTP] Starting MCP HTTP server...');
 
-  const config = parseConfig();
+  const profiles = parseProfiles();
   const httpConfig = parseHttpConfig();
-
-  const connectionManager = new ConnectionManager(config);
+  const stopTracing = startTracing(parseTracingConfig());
+  const audit = createAuditLogger(parseAuditConfig());
+  const metrics = httpConfig.metrics ? new ServerMetrics() : undefined;
+  const changes = new ChangeQueue(parseApprovalConfig(), audit);
+
+  const connections = ConnectionRegistry.fromProfiles(profiles, {
+    audit,
+    metrics,
+    changes,
+    schemaPollIntervalMs: parseSchemaPollInterval(),
+  });
 
   try {
-    await connectionManager.initialize();
+    await connections.initialize();
     console.error('[HTTP] Database connection established');
   } catch (err) {
     const message = err instanceof Error ? err.message : String(err);
@@ -25,19 +47,41 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  const { app, stop } = createHttpApp({
+  const { app, metricsApp, stop } = createHttpApp({
     httpConfig,
-    connectionManager,
+    connections,
   });
 
-  const server = app.listen(httpConfig.port, httpConfig.host, () => {
+  const scheme = httpConfig.tls ? 'https' : 'http';
+  const listener = httpConfig.tls
+    ? createTlsServer(app, httpConfig.tls)
+    : createHttpServer(app);
+
+  const server = listener.listen(httpConfig.port, httpConfig.host, () => {
     console.error(
-      `[HTTP] Server running on http://${httpConfig.host}:${httpConfig.port}`
+      `[HTTP] Server running on ${scheme}://${httpConfig.host}:${httpConfig.port}`
     );
     console.error(
-      `[HTTP] MCP endpoint: http://${httpConfig.host}:${httpConfig.port}/mcp`
+      `[HTTP] MCP endpoint: ${scheme}://${httpConfig.host}:${httpConfig.port}/mcp`
     );
+    if (httpConfig.metrics && !httpConfig.metrics.port) {
+      console.error(
+        `[HTTP] Metrics endpoint: ${scheme}://${httpConfig.host}:${httpConfig.port}/metrics`
+      );
+    }
     console.error(`[HTTP] Auth mode: ${httpConfig.authMode}`);
+    if (httpConfig.tls) {
+      console.error(
+        `[HTTP] TLS: ${httpConfig.tls.minVersion ?? 'TLSv1.2'} minimum, certificate ${httpConfig.tls.certFile}`
+      );
+    } else if (
+      httpConfig.authMode === 'oauth' ||
+      httpConfig.authMode === 'oidc'
+    ) {
+      console.error(
+        '[HTTP] OAuth metadata advertises https:// URLs; terminate TLS in front of this server or set MCP_TLS_CERT_FILE and MCP_TLS_KEY_FILE'
+      );
+    }
     if (httpConfig.allowedOrigins && httpConfig.allowedOrigins.length > 0) {
       console.error(
         `[HTTP] Allowed origins: ${httpConfig.allowedOrigins.join(', ')}`
@@ -48,9 +92,15 @@ async function main(): Promise<void> {
         `[HTTP] Allowed hosts: ${httpConfig.allowedHosts.join(', ')}`
       );
     }
-    console.error(
-      `[HTTP] Database mode: ${config.readOnly ? 'read-only' : 'read-write'}`
-    );
+    for (const { name, config } of profiles) {
+      const label = profiles.length > 1 ? `[HTTP] [${name}]` : '[HTTP]';
+      console.error(
+        `${label} Database mode: ${config.readOnly ? 'read-only' : 'read-write'}`
+      );
+      if (config.ssh) {
+        console.error(`${label} SSH tunnel: enabled`);
+      }
+    }
     console.error(
       `[HTTP] Session mode: ${httpConfig.stateless ? 'stateless' : 'stateful'}`
     );
@@ -66,12 +116,22 @@ async function main(): Promise<void> {
         `[HTTP] Server pool size: ${httpConfig.serverPoolSize}`
       );
     }
-
-    if (config.ssh) {
-      console.error('[HTTP] SSH tunnel: enabled');
-    }
   });
 
+  const metricsConfig = httpConfig.metrics;
+  const metricsServer =
+    metricsApp && metricsConfig?.port
+      ? metricsApp.listen(
+          metricsConfig.port,
+          metricsConfig.host ?? httpConfig.host,
+          () => {
+            console.error(
+              `[HTTP] Metrics endpoint: http://${metricsConfig.host ?? httpConfig.host}:${metricsConfig.port}/metrics`
+            );
+          }
+        )
+      : null;
+
   const shutdown = async (signal: string): Promise<void> => {
     console.error(`[HTTP] Received ${signal}, starting graceful shutdown...`);
 
@@ -80,8 +140,10 @@ async function main(): Promise<void> {
     server.close(() => {
       console.error('[HTTP] Server closed to new connections');
     });
+    metricsServer?.close();
 
-    await connectionManager.close();
+    await connections.close();
+    await stopTracing();
 
     console.error('[HTTP] Graceful shutdown complete');
     process.exit(0);
@@ -1,16 +1,39 @@
-import type { Request, Response } from 'express';
+import express, {
+  type Express,
+  type Request,
+  type RequestHandler,
+  type Response,
+} from 'express';
 import cors from 'cors';
-import { randomUUID } from 'node:crypto';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { createMcpExpressApp } from '@modelcontextprotocol/sdk/server/express.js';
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import type { HttpConfig } from '../types.js';
-import type { ConnectionManager } from '../connection/postgres-pool.js';
-import { createServer } from '../server.js';
-import { createAuthMiddleware } from './auth.js';
+import type { HttpConfig, MetricsConfig, OidcConfig } from '../types.js';
+import type { ConnectionRegistry } from '../connection/connection-registry.js';
+import { createServer, type ServerOptions } from '../server.js';
+import {
+  auth0Preset,
+  createAuthMiddleware,
+  type AuthenticatedRequest,
+} from './auth.js';
+import {
+  createApiKeyMiddleware,
+  createMtlsMiddleware,
+  parseApiKeys,
+  parseCertificateIdentities,
+  ReloadingJsonFile,
+} from './credentials.js';
 import { createOriginGuard, isOriginAllowed } from './origin.js';
+import { createTracingMiddleware } from './tracing.js';
+import { clientKey, createRateLimitMiddleware } from './rate-limit.js';
+import { createApprovalRouter } from './approvals.js';
 import { VERSION } from '../version.js';
+import { runWithRequestContext } from '../lib/request-context.js';
+import { resolveRequestAccess } from '../lib/authorization.js';
+import { ServerMetrics } from '../lib/metrics.js';
+import { RateLimiter } from '../lib/rate-limit.js';
 
 interface Session {
   transport: StreamableHTTPServerTransport;
@@ -33,20 +56,32 @@ const jsonRpcError = (
 export interface HttpAppContext {
   app: ReturnType<typeof createMcpExpressApp>;
   sessions: Map<string, Session>;
+  /** Separate app serving /metrics when MCP_METRICS_PORT is set */
+  metricsApp?: Express;
   stop: () => Promise<void>;
 }
 
 export function createHttpApp(options: {
   httpConfig: HttpConfig;
-  connectionManager: ConnectionManager;
+  connections: ConnectionRegistry;
   enableJsonResponse?: boolean;
 }): HttpAppContext {
-  const { httpConfig, connectionManager, enableJsonResponse } = options;
+  const { httpConfig, connections, enableJsonResponse } = options;
   const stateless = httpConfig.stateless;
   const jsonResponseEnabled = stateless ? true : enableJsonResponse ?? false;
   const sessions = new Map<string, Session>();
+  const endSession = (sessionId: string): void => {
+    connections.endSession(sessionId).catch((err: unknown) => {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error(`[HTTP] Error rolling back transactions of session ${sessionId}:`, message);
+    });
+  };
+  const serverOptions: ServerOptions = {
+    authorizeTools: httpConfig.authMode !== 'none',
+    authorization: httpConfig.authorization,
+  };
   const serverPool = stateless
-    ? createServerPool(httpConfig.serverPoolSize, connectionManager)
+    ? createServerPool(httpConfig.serverPoolSize, connections, serverOptions)
     : null;
   const allowedHostnames = normalizeAllowedHostnames(httpConfig.allowedHosts);
 
@@ -75,7 +110,21 @@ export function createHttpApp(options: {
     })
   );
 
-  if (httpConfig.authMode === 'oauth') {
+  const oidcConfig =
+    httpConfig.authMode === 'oauth'
+      ? auth0Preset({
+          domain: httpConfig.auth0Domain!,
+          audience: httpConfig.auth0Audience!,
+        })
+      : httpConfig.oidc;
+
+  if (oidcConfig) {
+    // Auth0 advertises its tenant URL; other providers their issuer
+    const authorizationServer =
+      httpConfig.authMode === 'oauth'
+        ? `https://${httpConfig.auth0Domain}`
+        : oidcConfig.issuer;
+
     const resolveResourceHost = (req: Request): string | undefined => {
       const hostHeader = req.get('host')?.trim();
       if (hostHeader) {
@@ -92,7 +141,7 @@ export function createHttpApp(options: {
 
     const buildResourceMetadata = (host: string) => ({
       resource: `https://${host}/mcp`,
-      authorization_servers: [`https://${httpConfig.auth0Domain}`],
+      authorization_servers: [authorizationServer],
       scopes_supported: ['openid', 'profile', 'email'],
       bearer_methods_supported: ['header'],
       ...(httpConfig.resourceDocumentation && {
@@ -133,7 +182,7 @@ export function createHttpApp(options: {
 
   app.get('/health/ready', async (_req: Request, res: Response) => {
     try {
-      await connectionManager.healthCheck();
+      await connections.healthCheck();
       res.json({
         status: 'ready',
         database: 'connected',
@@ -150,14 +199,74 @@ export function createHttpApp(options: {
     }
   });
 
+  let metricsApp: Express | undefined;
+  if (httpConfig.metrics) {
+    const metricsHandler = createMetricsHandler(
+      httpConfig.metrics,
+      connections,
+      () => (stateless ? undefined : sessions.size)
+    );
+    if (httpConfig.metrics.port) {
+      metricsApp = express();
+      metricsApp.get('/metrics', metricsHandler);
+    } else {
+      app.get('/metrics', metricsHandler);
+    }
+  }
+
+  app.use('/mcp', createTracingMiddleware());
   app.use('/mcp', createOriginGuard(allowedOrigins));
 
-  if (httpConfig.authMode === 'oauth') {
-    const authMiddleware = createAuthMiddleware({
-      domain: httpConfig.auth0Domain!,
-      audience: httpConfig.auth0Audience!,
-    });
-    app.use('/mcp', authMiddleware);
+  const authenticate = createAuthenticator(httpConfig, oidcConfig);
+  if (authenticate) {
+    app.use('/mcp', authenticate);
+  }
+
+  const limiter = httpConfig.rateLimit
+    ? new RateLimiter(httpConfig.rateLimit)
+    : undefined;
+  if (limiter) {
+    app.use('/mcp', createRateLimitMiddleware(limiter));
+  }
+
+  // Tool handlers run inside this request, so audit events can name the
+  // caller, tool calls are checked against this credential's access,
+  // queries are queued and charged per client, whether the request reuses
+  // a session or not, and transactions are pinned to the session
+  const { authorization } = httpConfig;
+  const requestContext: RequestHandler = (
+    req: AuthenticatedRequest,
+    _res: Response,
+    next
+  ) => {
+    const client = clientKey(req);
+    const quota = limiter?.quotaFor(client);
+    const session = req.headers['mcp-session-id'];
+    runWithRequestContext(
+      {
+        client,
+        ...(quota && { quota }),
+        ...(!stateless && typeof session === 'string' && session && { session }),
+        ...(req.auth && {
+          subject: req.auth.sub,
+          access: resolveRequestAccess(authorization, req.auth, req.restriction),
+        }),
+      },
+      next
+    );
+  };
+  app.use('/mcp', requestContext);
+
+  // Reviewing queued writes needs an identity, so the routes only exist
+  // when requests are authenticated
+  if (authenticate) {
+    app.use(
+      '/admin/changes',
+      createOriginGuard(allowedOrigins),
+      authenticate,
+      requestContext,
+      createApprovalRouter(connections)
+    );
   }
 
   app.post('/mcp', async (req: Request, res: Response) => {
@@ -213,6 +322,7 @@ export function createHttpApp(options: {
         },
         onsessionclosed: (id: string) => {
           sessions.delete(id);
+          endSession(id);
         },
         enableJsonResponse: jsonResponseEnabled,
         enableDnsRebindingProtection: true,
@@ -220,7 +330,7 @@ export function createHttpApp(options: {
         allowedHosts: httpConfig.allowedHosts,
       });
 
-      const { server } = createServer(connectionManager);
+      const { server } = createServer(connections, serverOptions);
       await server.connect(transport);
 
       sessionRef.current = {
@@ -305,6 +415,7 @@ export function createHttpApp(options: {
     try {
       await session.transport.handleRequest(req, res);
       sessions.delete(sessionId);
+      endSession(sessionId);
       console.error(`[HTTP] Session deleted: ${sessionId}`);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unknown error';
@@ -332,6 +443,7 @@ export function createHttpApp(options: {
               /* ignore close errors */
             }
             sessions.delete(sessionId);
+            endSession(sessionId);
             cleanedCount++;
           }
         }
@@ -362,7 +474,66 @@ export function createHttpApp(options: {
     }
   };
 
-  return { app, sessions, stop };
+  return { app, sessions, metricsApp, stop };
+}
+
+function createAuthenticator(
+  httpConfig: HttpConfig,
+  oidcConfig: OidcConfig | undefined
+): RequestHandler | undefined {
+  if (oidcConfig) {
+    return createAuthMiddleware(oidcConfig);
+  }
+  if (httpConfig.authMode === 'apikey') {
+    if (!httpConfig.apiKeysFile) {
+      throw new Error('MCP_API_KEYS_FILE is required when MCP_AUTH_MODE=apikey');
+    }
+    return createApiKeyMiddleware(
+      new ReloadingJsonFile(httpConfig.apiKeysFile, 'MCP_API_KEYS_FILE', parseApiKeys)
+    );
+  }
+  if (httpConfig.authMode === 'mtls') {
+    const identitiesFile = httpConfig.mtls?.identitiesFile;
+    return createMtlsMiddleware(
+      identitiesFile
+        ? new ReloadingJsonFile(
+            identitiesFile,
+            'MCP_MTLS_IDENTITIES_FILE',
+            parseCertificateIdentities
+          )
+        : undefined
+    );
+  }
+  return undefined;
+}
+
+function createMetricsHandler(
+  config: MetricsConfig,
+  connections: ConnectionRegistry,
+  activeSessions: () => number | undefined
+): (req: Request, res: Response) => void {
+  const metrics = connections.metrics ?? new ServerMetrics();
+  const expectedToken = config.token
+    ? createHash('sha256').update(config.token).digest()
+    : null;
+
+  return (req, res) => {
+    if (expectedToken) {
+      const header = req.headers.authorization ?? '';
+      const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+      const actual = createHash('sha256').update(token).digest();
+      if (!timingSafeEqual(actual, expectedToken)) {
+        res.set('WWW-Authenticate', 'Bearer').status(401).json({
+          error: 'Unauthorized',
+        });
+        return;
+      }
+    }
+
+    res
+      .type('text/plain; version=0.0.4; charset=utf-8')
+      .send(metrics.render(connections, activeSessions()));
+  };
 }
 
 interface ServerPool {
@@ -373,14 +544,15 @@ interface ServerPool {
 
 function createServerPool(
   size: number,
-  connectionManager: ConnectionManager
+  connections: ConnectionRegistry,
+  serverOptions: ServerOptions
 ): ServerPool {
   const idle: McpServer[] = [];
   const allServers: McpServer[] = [];
   const waiters: Array<(server: McpServer) => void> = [];
 
   for (let i = 0; i < size; i++) {
-    const { server } = createServer(connectionManager);
+    const { server } = createServer(connections, serverOptions);
     idle.push(server);
     allServers.push(server);
   }
@@ -0,0 +1,117 @@
+import {
+  Router,
+  type NextFunction,
+  type Request,
+  type RequestHandler,
+  type Response,
+} from 'express';
+import type { ConnectionRegistry } from '../connection/connection-registry.js';
+import { getRequestContext } from '../lib/request-context.js';
+import { isToolAllowed } from '../lib/authorization.js';
+import type { ChangeStatus } from '../types.js';
+
+const CHANGE_STATUSES: ReadonlySet<string> = new Set([
+  'pending',
+  'approved',
+  'rejected',
+  'expired',
+  'executed',
+  'failed',
+]);
+
+/**
+ * Only let callers through whose access includes the tool with the same
+ * effect, so one grant governs both the tools and these routes
+ */
+function requireTool(tool: string): RequestHandler {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    const access = getRequestContext()?.access;
+    if (!access || !isToolAllowed(access, tool)) {
+      res.status(403).json({ error: `Access denied to ${tool}` });
+      return;
+    }
+    next();
+  };
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Admin routes for reviewing writes queued by profiles with WRITE_APPROVAL.
+ * Mounted behind the MCP authentication, which supplies the reviewer identity.
+ *
+ * GET  /                list changes (?status=pending by default, ?database=)
+ * GET  /:id             one change
+ * POST /:id/approve     approve and run a pending change
+ * POST /:id/reject      reject a pending change ({"reason": "..."})
+ */
+export function createApprovalRouter(connections: ConnectionRegistry): Router {
+  const router = Router();
+
+  router.get('/', requireTool('list_changes'), (req: Request, res: Response) => {
+    const { status = 'pending', database } = req.query;
+    if (typeof status !== 'string' || !CHANGE_STATUSES.has(status)) {
+      res.status(400).json({ error: `Unknown change status: ${String(status)}` });
+      return;
+    }
+    res.json({
+      changes: connections.changes.list(
+        status as ChangeStatus,
+        typeof database === 'string' ? database : undefined
+      ),
+    });
+  });
+
+  router.get('/:id', requireTool('list_changes'), (req: Request, res: Response) => {
+    try {
+      res.json(connections.changes.get(req.params.id));
+    } catch (err) {
+      res.status(404).json({ error: errorMessage(err) });
+    }
+  });
+
+  router.post(
+    '/:id/approve',
+    requireTool('approve_change'),
+    async (req: Request, res: Response) => {
+      try {
+        connections.changes.get(req.params.id);
+      } catch (err) {
+        res.status(404).json({ error: errorMessage(err) });
+        return;
+      }
+      try {
+        res.json(await connections.approveChange(req.params.id));
+      } catch (err) {
+        res.status(409).json({ error: errorMessage(err) });
+      }
+    }
+  );
+
+  router.post(
+    '/:id/reject',
+    requireTool('reject_change'),
+    (req: Request, res: Response) => {
+      const reason: unknown = req.body?.reason;
+      if (reason !== undefined && typeof reason !== 'string') {
+        res.status(400).json({ error: 'reason must be a string' });
+        return;
+      }
+      try {
+        connections.changes.get(req.params.id);
+      } catch (err) {
+        res.status(404).json({ error: errorMessage(err) });
+        return;
+      }
+      try {
+        res.json(connections.rejectChange(req.params.id, reason));
+      } catch (err) {
+        res.status(409).json({ error: errorMessage(err) });
+      }
+    }
+  );
+
+  return router;
+}
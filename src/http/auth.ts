@@ -1,54 +1,148 @@
 import * as jose from 'jose';
 import type { Request, Response, NextFunction } from 'express';
-import type { Auth0Config } from '../types.js';
+import type {
+  Auth0Config,
+  OidcConfig,
+  RequiredClaim,
+  ToolRestriction,
+} from '../types.js';
 
 export interface AuthenticatedRequest extends Request {
+  /** Verified token claims; API key and mTLS callers get the same shape */
   auth?: jose.JWTPayload;
+  /** Limits configured on the API key or certificate identity */
+  restriction?: ToolRestriction;
 }
 
-let jwksCache: ReturnType<typeof jose.createRemoteJWKSet> | null = null;
-let jwksCacheDomain: string | null = null;
+const jwksCache = new Map<string, ReturnType<typeof jose.createRemoteJWKSet>>();
+const discoveryCache = new Map<string, Promise<string>>();
 
 /**
- * Get or create a cached JWKS fetcher for the given Auth0 domain
+ * Auth0 issues tokens from https://<domain>/ and publishes its keys at a
+ * fixed path, so the preset skips discovery
  */
-function getJWKS(domain: string): ReturnType<typeof jose.createRemoteJWKSet> {
-  if (!jwksCache || jwksCacheDomain !== domain) {
-    const jwksUrl = new URL(`https://${domain}/.well-known/jwks.json`);
-    jwksCache = jose.createRemoteJWKSet(jwksUrl);
-    jwksCacheDomain = domain;
+export function auth0Preset(config: Auth0Config): OidcConfig {
+  return {
+    issuer: `https://${config.domain}/`,
+    audiences: [config.audience],
+    algorithms: ['RS256'],
+    clockToleranceSeconds: 0,
+    requiredClaims: [],
+    jwksUri: `https://${config.domain}/.well-known/jwks.json`,
+  };
+}
+
+/**
+ * Read jwks_uri from the issuer's OpenID Provider Configuration. The lookup
+ * is cached per issuer; a failed lookup is retried on the next request.
+ */
+async function discoverJwksUri(issuer: string): Promise<string> {
+  const url = `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+  const response = await fetch(url, { signal: AbortSignal.timeout(5000) });
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed: ${url} returned ${response.status}`);
+  }
+
+  const metadata = (await response.json()) as { issuer?: unknown; jwks_uri?: unknown };
+  if (metadata.issuer !== issuer) {
+    throw new Error(
+      `OIDC discovery failed: issuer ${String(metadata.issuer)} does not match ${issuer}`
+    );
   }
-  return jwksCache;
+  if (typeof metadata.jwks_uri !== 'string') {
+    throw new Error('OIDC discovery failed: jwks_uri missing from provider configuration');
+  }
+  return metadata.jwks_uri;
 }
 
 /**
- * Verify an Auth0 JWT token
+ * Get or create a cached JWKS fetcher for the issuer's signing keys
+ */
+async function getJWKS(
+  config: OidcConfig
+): Promise<ReturnType<typeof jose.createRemoteJWKSet>> {
+  let jwksUri = config.jwksUri;
+  if (!jwksUri) {
+    let discovery = discoveryCache.get(config.issuer);
+    if (!discovery) {
+      discovery = discoverJwksUri(config.issuer);
+      discoveryCache.set(config.issuer, discovery);
+      discovery.catch(() => discoveryCache.delete(config.issuer));
+    }
+    jwksUri = await discovery;
+  }
+
+  let jwks = jwksCache.get(jwksUri);
+  if (!jwks) {
+    jwks = jose.createRemoteJWKSet(new URL(jwksUri));
+    jwksCache.set(jwksUri, jwks);
+  }
+  return jwks;
+}
+
+function checkClaimValue(payload: jose.JWTPayload, claim: RequiredClaim): void {
+  const actual = payload[claim.name];
+  const matches = Array.isArray(actual)
+    ? actual.includes(claim.value)
+    : actual === claim.value;
+  if (!matches) {
+    throw new Error(`Token claim "${claim.name}" does not have the required value`);
+  }
+}
+
+/**
+ * Verify an access token against an OIDC issuer
  * @param token - The JWT token to verify
- * @param config - Auth0 configuration
+ * @param config - Issuer, audience and algorithm settings
  * @returns The decoded JWT payload
  * @throws Error if verification fails
  */
-export async function verifyAuth0Token(
+export async function verifyAccessToken(
   token: string,
-  config: Auth0Config
+  config: OidcConfig
 ): Promise<jose.JWTPayload> {
-  const JWKS = getJWKS(config.domain);
+  const JWKS = await getJWKS(config);
+  const requiredClaims = config.requiredClaims.map((claim) => claim.name);
 
   const { payload } = await jose.jwtVerify(token, JWKS, {
-    issuer: `https://${config.domain}/`,
-    audience: config.audience,
-    algorithms: ['RS256'],
+    issuer: config.issuer,
+    audience: config.audiences.length === 1 ? config.audiences[0] : config.audiences,
+    algorithms: config.algorithms,
+    ...(config.clockToleranceSeconds > 0 && {
+      clockTolerance: config.clockToleranceSeconds,
+    }),
+    ...(requiredClaims.length > 0 && { requiredClaims }),
   });
 
+  for (const claim of config.requiredClaims) {
+    if (claim.value !== undefined) {
+      checkClaimValue(payload, claim);
+    }
+  }
+
   return payload;
 }
 
 /**
- * Create Express middleware for Auth0 JWT verification
+ * Verify an Auth0 JWT token
+ * @param token - The JWT token to verify
  * @param config - Auth0 configuration
+ * @returns The decoded JWT payload
+ * @throws Error if verification fails
+ */
+export async function verifyAuth0Token(
+  token: string,
+  config: Auth0Config
+): Promise<jose.JWTPayload> {
+  return verifyAccessToken(token, auth0Preset(config));
+}
+
+/**
+ * Create Express middleware for bearer token verification
+ * @param config - OIDC issuer settings (see auth0Preset for Auth0)
  * @returns Express middleware function
  */
-export function createAuthMiddleware(config: Auth0Config) {
+export function createAuthMiddleware(config: OidcConfig) {
   const buildChallenge = (req: Request): string => {
     const rawHost =
       typeof req.get === 'function' ? req.get('host') : req.headers?.host;
@@ -82,7 +176,7 @@ export function createAuthMiddleware(config: Auth0Config) {
     const token = authHeader.slice(7);
 
     try {
-      const payload = await verifyAuth0Token(token, config);
+      const payload = await verifyAccessToken(token, config);
       req.auth = payload;
       next();
     } catch (error) {
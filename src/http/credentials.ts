@@ -0,0 +1,333 @@
+import { createHash } from 'node:crypto';
+import { readFileSync, statSync } from 'node:fs';
+import type { PeerCertificate, TLSSocket } from 'node:tls';
+import type { Response, NextFunction } from 'express';
+import type * as jose from 'jose';
+import { parseToolRestriction } from '../lib/authorization.js';
+import type { ToolRestriction } from '../types.js';
+import type { AuthenticatedRequest } from './auth.js';
+
+/**
+ * Identity shared by API keys and client certificates. `scopes` become the
+ * `scope` claim, so an authorization policy applies to them like to tokens.
+ */
+export interface CredentialIdentity {
+  label: string;
+  scopes?: string[];
+  restriction: ToolRestriction;
+}
+
+export interface ApiKeyEntry extends CredentialIdentity {
+  /** Hex SHA-256 of the key */
+  sha256: string;
+  expiresAt?: Date;
+}
+
+export interface CertificateIdentity extends CredentialIdentity {
+  /** Subject attributes that must all match, e.g. { CN: 'etl', O: 'Example' } */
+  subject: Record<string, string>;
+}
+
+const LABEL_PATTERN = /^[A-Za-z0-9_.@-]+$/;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+/** How often the file's mtime is checked while requests are coming in */
+const RELOAD_CHECK_INTERVAL_MS = 1000;
+
+function readJson(path: string, source: string): unknown {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf8');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Unable to read ${source}: ${message}`);
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error(`${source} must contain valid JSON`);
+  }
+}
+
+/**
+ * JSON file that is parsed again when it changes on disk. A reload that
+ * fails validation keeps the previous contents.
+ */
+export class ReloadingJsonFile<T> {
+  private value: T;
+  private version: string;
+  private checkedAt = 0;
+
+  constructor(
+    private readonly path: string,
+    private readonly source: string,
+    private readonly parse: (raw: unknown, source: string) => T,
+    private readonly checkIntervalMs = RELOAD_CHECK_INTERVAL_MS
+  ) {
+    this.version = this.fileVersion();
+    this.value = this.parse(readJson(path, source), source);
+  }
+
+  current(): T {
+    const now = Date.now();
+    if (now - this.checkedAt >= this.checkIntervalMs) {
+      this.checkedAt = now;
+      this.reloadIfChanged();
+    }
+    return this.value;
+  }
+
+  private fileVersion(): string {
+    try {
+      const { ino, mtimeMs, size } = statSync(this.path);
+      return `${ino}:${mtimeMs}:${size}`;
+    } catch {
+      // Reported by the read that follows
+      return '';
+    }
+  }
+
+  private reloadIfChanged(): void {
+    const version = this.fileVersion();
+    if (version === this.version) {
+      return;
+    }
+    try {
+      this.value = this.parse(readJson(this.path, this.source), this.source);
+      this.version = version;
+      console.error(`[Auth] Reloaded ${this.source}`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[Auth] Keeping previous ${this.source}:`, message);
+    }
+  }
+}
+
+function parseIdentity(
+  entry: Record<string, unknown>,
+  label: string
+): CredentialIdentity {
+  const { label: name, scopes } = entry;
+  if (typeof name !== 'string' || !LABEL_PATTERN.test(name)) {
+    throw new Error(
+      `${label} "label" must contain only letters, digits, ".", "_", "-" and "@"`
+    );
+  }
+  if (
+    scopes !== undefined &&
+    (!Array.isArray(scopes) ||
+      !scopes.every((scope) => typeof scope === 'string' && /^\S+$/.test(scope)))
+  ) {
+    throw new Error(`${label} "scopes" must be an array of scope names`);
+  }
+  return {
+    label: name,
+    ...(scopes !== undefined && { scopes: scopes as string[] }),
+    restriction: parseToolRestriction(entry, label),
+  };
+}
+
+function parseEntries(
+  raw: unknown,
+  source: string,
+  field: string
+): Array<{ entry: Record<string, unknown>; label: string }> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${source} must contain a JSON object`);
+  }
+  const entries = (raw as Record<string, unknown>)[field];
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error(`${source} must contain a non-empty "${field}" array`);
+  }
+  return entries.map((entry: unknown, index) => {
+    const label = `${source} entry ${index + 1}`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new Error(`${label} must be an object`);
+    }
+    return { entry: entry as Record<string, unknown>, label };
+  });
+}
+
+function rejectDuplicateLabels(identities: CredentialIdentity[], source: string): void {
+  const seen = new Set<string>();
+  for (const { label } of identities) {
+    if (seen.has(label)) {
+      throw new Error(`${source} contains duplicate label "${label}"`);
+    }
+    seen.add(label);
+  }
+}
+
+/**
+ * Validate an API key file
+ * @param raw - Parsed JSON document
+ * @param source - Name used in error messages
+ * @throws Error if the document is not a valid key list
+ */
+export function parseApiKeys(raw: unknown, source: string): ApiKeyEntry[] {
+  const keys = parseEntries(raw, source, 'keys').map(({ entry, label }): ApiKeyEntry => {
+    const { sha256, expiresAt } = entry;
+    if (typeof sha256 !== 'string' || !SHA256_PATTERN.test(sha256.toLowerCase())) {
+      throw new Error(`${label} "sha256" must be the hex SHA-256 of the key`);
+    }
+    let expiry: Date | undefined;
+    if (expiresAt !== undefined) {
+      expiry = typeof expiresAt === 'string' ? new Date(expiresAt) : undefined;
+      if (!expiry || isNaN(expiry.getTime())) {
+        throw new Error(`${label} "expiresAt" must be an ISO 8601 timestamp`);
+      }
+    }
+    return {
+      ...parseIdentity(entry, label),
+      sha256: sha256.toLowerCase(),
+      ...(expiry && { expiresAt: expiry }),
+    };
+  });
+  rejectDuplicateLabels(keys, source);
+  return keys;
+}
+
+/**
+ * Parse a subject DN such as `CN=etl,O=Example Corp`; `\,` escapes a comma
+ */
+function parseSubject(subject: string): Record<string, string> | undefined {
+  const attributes: Record<string, string> = {};
+  for (const part of subject.split(/(?<!\\),/)) {
+    const separator = part.indexOf('=');
+    if (separator <= 0) {
+      return undefined;
+    }
+    attributes[part.slice(0, separator).trim()] = part
+      .slice(separator + 1)
+      .trim()
+      .replace(/\\,/g, ',');
+  }
+  return attributes;
+}
+
+/**
+ * Validate a client certificate identity file
+ * @param raw - Parsed JSON document
+ * @param source - Name used in error messages
+ * @throws Error if the document is not a valid identity list
+ */
+export function parseCertificateIdentities(
+  raw: unknown,
+  source: string
+): CertificateIdentity[] {
+  const identities = parseEntries(raw, source, 'identities').map(
+    ({ entry, label }): CertificateIdentity => {
+      const subject =
+        typeof entry.subject === 'string' ? parseSubject(entry.subject) : undefined;
+      if (!subject) {
+        throw new Error(`${label} "subject" must look like CN=name,O=organization`);
+      }
+      return { ...parseIdentity(entry, label), subject };
+    }
+  );
+  rejectDuplicateLabels(identities, source);
+  return identities;
+}
+
+function subjectMatches(
+  expected: Record<string, string>,
+  actual: PeerCertificate['subject']
+): boolean {
+  return Object.entries(expected).every(([name, value]) => {
+    const field = (actual as unknown as Record<string, string | string[] | undefined>)[name];
+    return Array.isArray(field) ? field.includes(value) : field === value;
+  });
+}
+
+function identityClaims(
+  prefix: string,
+  identity: CredentialIdentity
+): jose.JWTPayload {
+  return {
+    sub: `${prefix}:${identity.label}`,
+    ...(identity.scopes && { scope: identity.scopes.join(' ') }),
+  };
+}
+
+function rejectRequest(
+  res: Response,
+  status: number,
+  message: string,
+  challenge?: string
+): void {
+  if (challenge) {
+    res.setHeader('WWW-Authenticate', challenge);
+  }
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: -32001, message },
+    id: null,
+  });
+}
+
+/**
+ * Create Express middleware accepting `Authorization: Bearer <api key>`.
+ * Keys are stored hashed; the file is reloaded when it changes.
+ */
+export function createApiKeyMiddleware(keys: ReloadingJsonFile<ApiKeyEntry[]>) {
+  const challenge = 'Bearer realm="mcp"';
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    const authHeader = req.headers.authorization;
+    if (!authHeader?.startsWith('Bearer ')) {
+      rejectRequest(res, 401, 'Authorization header with Bearer API key required', challenge);
+      return;
+    }
+
+    const digest = createHash('sha256').update(authHeader.slice(7)).digest('hex');
+    const key = keys.current().find((entry) => entry.sha256 === digest);
+    if (!key) {
+      console.error('[Auth] Unknown API key');
+      rejectRequest(res, 401, 'Invalid API key', challenge);
+      return;
+    }
+    if (key.expiresAt && key.expiresAt.getTime() <= Date.now()) {
+      console.error(`[Auth] Expired API key: ${key.label}`);
+      rejectRequest(res, 401, 'API key expired', challenge);
+      return;
+    }
+
+    req.auth = {
+      ...identityClaims('apikey', key),
+      ...(key.expiresAt && { exp: Math.floor(key.expiresAt.getTime() / 1000) }),
+    };
+    req.restriction = key.restriction;
+    next();
+  };
+}
+
+/**
+ * Create Express middleware that identifies callers by the client
+ * certificate the TLS listener verified. Without an identity file the
+ * certificate CN is the identity.
+ */
+export function createMtlsMiddleware(identities?: ReloadingJsonFile<CertificateIdentity[]>) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    const socket = req.socket as Partial<TLSSocket>;
+    if (!socket.encrypted || !socket.authorized || !socket.getPeerCertificate) {
+      rejectRequest(res, 401, 'Trusted client certificate required');
+      return;
+    }
+
+    const { subject } = socket.getPeerCertificate();
+    const identity: CredentialIdentity | undefined = identities
+      ? identities.current().find((entry) => subjectMatches(entry.subject, subject))
+      : typeof subject?.CN === 'string'
+        ? { label: subject.CN, restriction: {} }
+        : undefined;
+    if (!identity) {
+      console.error('[Auth] Client certificate not mapped to an identity');
+      rejectRequest(res, 403, 'Client certificate is not mapped to an identity');
+      return;
+    }
+
+    req.auth = identityClaims('mtls', identity);
+    req.restriction = identity.restriction;
+    next();
+  };
+}
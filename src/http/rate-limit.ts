@@ -0,0 +1,73 @@
+import type { Request, Response, NextFunction } from 'express';
+import { RATE_LIMITED_ERROR_CODE, type RateLimiter } from '../lib/rate-limit.js';
+import type { AuthenticatedRequest } from './auth.js';
+
+/**
+ * Key a request's usage is tracked under: the authenticated subject (an
+ * OAuth `sub`, `apikey:<label>` or `mtls:<label>`), else the MCP session,
+ * else the remote address
+ */
+export function clientKey(req: AuthenticatedRequest): string {
+  if (req.auth?.sub) {
+    return req.auth.sub;
+  }
+  const sessionId = req.headers['mcp-session-id'];
+  if (typeof sessionId === 'string' && sessionId) {
+    return `session:${sessionId}`;
+  }
+  return `ip:${req.ip ?? 'unknown'}`;
+}
+
+/** MCP methods that query the database, charged like tool calls */
+const LIMITED_METHODS: ReadonlySet<string> = new Set([
+  'tools/call',
+  'resources/list',
+  'resources/read',
+]);
+
+function limitedCallIds(body: unknown): Array<string | number | null> {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages
+    .filter(
+      (message): message is { id?: string | number } =>
+        !!message && typeof message === 'object' && LIMITED_METHODS.has(message.method)
+    )
+    .map((message) => message.id ?? null);
+}
+
+/**
+ * Create Express middleware that rejects tool calls and resource list and
+ * read requests over the client's limits with HTTP 429, a Retry-After
+ * header and a JSON-RPC error carrying `retryAfterSeconds`. Other MCP
+ * messages are not limited.
+ */
+export function createRateLimitMiddleware(limiter: RateLimiter) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const ids = req.method === 'POST' ? limitedCallIds(req.body) : [];
+    if (ids.length === 0) {
+      next();
+      return;
+    }
+
+    const client = clientKey(req);
+    for (const id of ids) {
+      const rejection = limiter.admitToolCall(client);
+      if (rejection) {
+        console.error(`[HTTP] Rate limited ${client}: ${rejection.message}`);
+        res.setHeader('Retry-After', String(rejection.retryAfterSeconds));
+        res.status(429).json({
+          jsonrpc: '2.0',
+          error: {
+            code: RATE_LIMITED_ERROR_CODE,
+            message: rejection.message,
+            data: { retryAfterSeconds: rejection.retryAfterSeconds },
+          },
+          id,
+        });
+        return;
+      }
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,85 @@
+import { readFileSync, unwatchFile, watchFile, type Stats } from 'node:fs';
+import { createServer, type Server } from 'node:https';
+import type { RequestListener } from 'node:http';
+import type { SecureContextOptions } from 'node:tls';
+import type { TlsConfig } from '../types.js';
+
+/** How often certificate files are polled for changes */
+const TLS_RELOAD_INTERVAL_MS = 10_000;
+
+function readPem(path: string, name: string): Buffer {
+  try {
+    return readFileSync(path);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`Unable to read ${name}: ${message}`);
+  }
+}
+
+function loadSecureContext(config: TlsConfig): SecureContextOptions {
+  return {
+    cert: readPem(config.certFile, 'MCP_TLS_CERT_FILE'),
+    key: readPem(config.keyFile, 'MCP_TLS_KEY_FILE'),
+    ...(config.clientCaFile && {
+      ca: readPem(config.clientCaFile, 'MCP_TLS_CLIENT_CA_FILE'),
+    }),
+    minVersion: config.minVersion ?? 'TLSv1.2',
+  };
+}
+
+/**
+ * Create an HTTPS server for the app. When a client CA is configured, client
+ * certificates are requested but checked per request by the mTLS middleware,
+ * so /health stays reachable for probes without one.
+ *
+ * Certificate, key and CA files are polled, and the server switches to the
+ * new files once they load; a half-rotated pair (new certificate, old key)
+ * fails to load and the previous context stays in use until both match.
+ */
+export function createTlsServer(
+  app: RequestListener,
+  config: TlsConfig,
+  reloadIntervalMs = TLS_RELOAD_INTERVAL_MS
+): Server {
+  const server = createServer(
+    {
+      ...loadSecureContext(config),
+      ...(config.clientCaFile && {
+        requestCert: true,
+        rejectUnauthorized: false,
+      }),
+    },
+    app
+  );
+
+  const onChange = (current: Stats, previous: Stats): void => {
+    if (
+      current.mtimeMs === previous.mtimeMs &&
+      current.ino === previous.ino &&
+      current.size === previous.size
+    ) {
+      return;
+    }
+    try {
+      server.setSecureContext(loadSecureContext(config));
+      console.error('[HTTP] Reloaded TLS certificate');
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error('[HTTP] TLS reload failed, keeping previous certificate:', message);
+    }
+  };
+
+  const files = [config.certFile, config.keyFile, config.clientCaFile].filter(
+    (file): file is string => file !== undefined
+  );
+  for (const file of files) {
+    watchFile(file, { interval: reloadIntervalMs, persistent: false }, onChange);
+  }
+  server.once('close', () => {
+    for (const file of files) {
+      unwatchFile(file, onChange);
+    }
+  });
+
+  return server;
+}
@@ -0,0 +1,51 @@
+import type { Request, Response, NextFunction } from 'express';
+import { context, propagation, trace, SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_URL_PATH,
+} from '@opentelemetry/semantic-conventions';
+import { getTracer } from '../lib/tracing.js';
+
+/**
+ * Open a server span for each /mcp request, continuing the trace from an
+ * incoming `traceparent` header. Tool and query spans started while the
+ * request is handled become its children.
+ */
+export function createTracingMiddleware() {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const parent = propagation.extract(context.active(), req.headers);
+    const sessionId = req.headers['mcp-session-id'];
+    const span = getTracer().startSpan(
+      `${req.method} /mcp`,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          [ATTR_HTTP_REQUEST_METHOD]: req.method,
+          [ATTR_HTTP_ROUTE]: '/mcp',
+          [ATTR_URL_PATH]: req.originalUrl.split('?')[0],
+          ...(typeof sessionId === 'string' && { 'mcp.session.id': sessionId }),
+        },
+      },
+      parent
+    );
+
+    let ended = false;
+    const end = (): void => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+      if (res.statusCode >= 500) {
+        span.setStatus({ code: SpanStatusCode.ERROR });
+      }
+      span.end();
+    };
+    res.once('finish', end);
+    res.once('close', end);
+
+    context.with(trace.setSpan(parent, span), next);
+  };
+}
@@ -1,10 +1,19 @@
 #!/usr/bin/env node
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { parseConfig } from './config.js';
-import { ConnectionManager } from './connection/postgres-pool.js';
+import {
+  parseProfiles,
+  parseAuditConfig,
+  parseApprovalConfig,
+  parseSchemaPollInterval,
+  parseTracingConfig,
+} from './config.js';
+import { ConnectionRegistry } from './connection/connection-registry.js';
 import { createServer } from './server.js';
 import { obfuscateConnectionString } from './lib/obfuscate.js';
+import { createAuditLogger } from './lib/audit.js';
+import { ChangeQueue } from './lib/approvals.js';
+import { startTracing } from './lib/tracing.js';
 
 async function main(): Promise<void> {
   console.error('[postgresql-ssh-mcp] Starting server...');
@@ -14,17 +23,27 @@ async function main(): Promise<void> {
   let isShuttingDown = false;
 
   try {
-    const config = parseConfig();
+    const profiles = parseProfiles();
 
-    const connectionManager = new ConnectionManager(config);
+    const audit = createAuditLogger(parseAuditConfig());
+    const stopTracing = startTracing(parseTracingConfig());
 
-    const { server, cleanup: serverCleanup } = createServer(connectionManager);
+    const changes = new ChangeQueue(parseApprovalConfig(), audit);
+
+    const connections = ConnectionRegistry.fromProfiles(profiles, {
+      audit,
+      changes,
+      schemaPollIntervalMs: parseSchemaPollInterval(),
+    });
+
+    const { server, cleanup: serverCleanup } = createServer(connections);
     cleanup = async () => {
       if (retryTimer) {
         clearTimeout(retryTimer);
         retryTimer = null;
       }
       await serverCleanup();
+      await stopTracing();
     };
 
     const handleShutdown = async (signal: string): Promise<void> => {
@@ -68,13 +87,17 @@ async function main(): Promise<void> {
     await server.connect(transport);
 
     console.error('[postgresql-ssh-mcp] Server running on STDIO');
-    console.error(
-      `[postgresql-ssh-mcp] Mode: ${config.readOnly ? 'read-only' : 'read-write'}`
-    );
-    console.error(`[postgresql-ssh-mcp] Max rows per query: ${config.maxRows}`);
+    for (const { name, config } of profiles) {
+      const label =
+        profiles.length > 1 ? `[postgresql-ssh-mcp] [${name}]` : '[postgresql-ssh-mcp]';
+      console.error(
+        `${label} Mode: ${config.readOnly ? 'read-only' : 'read-write'}`
+      );
+      console.error(`${label} Max rows per query: ${config.maxRows}`);
 
-    if (config.ssh) {
-      console.error('[postgresql-ssh-mcp] SSH tunnel: enabled');
+      if (config.ssh) {
+        console.error(`${label} SSH tunnel: enabled`);
+      }
     }
 
     const retryIntervalMs = 5000;
@@ -86,7 +109,7 @@ async function main(): Promise<void> {
       }
 
       try {
-        await connectionManager.initialize();
+        await connections.initialize();
         console.error('[postgresql-ssh-mcp] Database connection established');
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
@@ -95,10 +118,6 @@ async function main(): Promise<void> {
           obfuscateConnectionString(message)
         );
 
-        try {
-          await connectionManager.close();
-        } catch {}
-
         attempts += 1;
         console.error(
           `[postgresql-ssh-mcp] Retrying connection in ${retryIntervalMs}ms (attempt ${attempts})`
@@ -0,0 +1,311 @@
+import type { CommonTableExpr, Node, RangeVar, RawStmt, WithClause } from 'libpg-query';
+import type { AccessPolicyConfig } from '../types.js';
+
+export type ObjectKind = 'relation' | 'function';
+
+export interface ObjectReference {
+  kind: ObjectKind;
+  /** Undefined when the name was not schema-qualified in the SQL */
+  schema?: string;
+  name: string;
+}
+
+export interface ResolvedObjectReference extends ObjectReference {
+  schema: string;
+}
+
+const DROPPED_RELATION_TYPES: ReadonlySet<string> = new Set([
+  'OBJECT_TABLE',
+  'OBJECT_VIEW',
+  'OBJECT_MATVIEW',
+  'OBJECT_SEQUENCE',
+  'OBJECT_FOREIGN_TABLE',
+]);
+
+/** Keys under which a RangeVar appears, wrapped in FROM items or bare in statement fields */
+const RANGE_VAR_FIELDS: ReadonlySet<string> = new Set([
+  'RangeVar',
+  'relation',
+  'rel',
+  'constrrel',
+  'pktable',
+  'sequence',
+  'identitySequence',
+  'table',
+  'typevar',
+  'view',
+  'name',
+]);
+
+/** Built-in functions are only subject to DENIED_FUNCTIONS */
+const BUILTIN_FUNCTION_SCHEMA = 'pg_catalog';
+
+/**
+ * Collect the relations and functions referenced by parsed statements.
+ * Unqualified references to a CTE in scope are not relations and are skipped;
+ * a non-recursive CTE only shadows names in the CTEs after it and in the
+ * statement body.
+ */
+export function collectObjectReferences(statements: RawStmt[]): ObjectReference[] {
+  const refs = new Map<string, ObjectReference>();
+  for (const { stmt } of statements) {
+    visitNode(stmt, new Set(), refs);
+  }
+  return Array.from(refs.values());
+}
+
+function visitNode(
+  node: unknown,
+  ctes: ReadonlySet<string>,
+  refs: Map<string, ObjectReference>
+): void {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      visitNode(item, ctes, refs);
+    }
+    return;
+  }
+  if (!node || typeof node !== 'object') {
+    return;
+  }
+
+  const body = node as Record<string, unknown>;
+  const scope = body.withClause
+    ? visitWithClause(body.withClause as WithClause, ctes, refs)
+    : ctes;
+
+  for (const [key, value] of Object.entries(body)) {
+    if (key === 'withClause' || !value || typeof value !== 'object') {
+      continue;
+    }
+
+    const { schemaname, relname } = value as RangeVar;
+    if (RANGE_VAR_FIELDS.has(key) && typeof relname === 'string') {
+      // Only FROM items can name a CTE; DML targets are always relations
+      if (schemaname || key !== 'RangeVar' || !scope.has(relname)) {
+        addReference(refs, { kind: 'relation', schema: schemaname, name: relname });
+      }
+      continue;
+    }
+
+    if (key === 'FuncCall') {
+      const ref = nameFromList('function', (value as { funcname?: Node[] }).funcname);
+      if (ref) {
+        addReference(refs, ref);
+      }
+    }
+
+    if (key === 'DropStmt') {
+      const { objects, removeType } = value as { objects?: Node[]; removeType?: string };
+      if (removeType && DROPPED_RELATION_TYPES.has(removeType)) {
+        for (const object of objects ?? []) {
+          const ref = nameFromList(
+            'relation',
+            (object as { List?: { items?: Node[] } }).List?.items
+          );
+          if (ref) {
+            addReference(refs, ref);
+          }
+        }
+      }
+      continue;
+    }
+
+    visitNode(value, scope, refs);
+  }
+}
+
+function visitWithClause(
+  withClause: WithClause,
+  outer: ReadonlySet<string>,
+  refs: Map<string, ObjectReference>
+): ReadonlySet<string> {
+  const ctes = (withClause.ctes ?? []).flatMap((node) => {
+    const cte = (node as { CommonTableExpr?: CommonTableExpr }).CommonTableExpr;
+    return cte?.ctename ? [cte] : [];
+  });
+  const scope = new Set(outer);
+
+  if (withClause.recursive) {
+    for (const cte of ctes) {
+      scope.add(cte.ctename as string);
+    }
+    for (const cte of ctes) {
+      visitNode(cte.ctequery, scope, refs);
+    }
+    return scope;
+  }
+
+  for (const cte of ctes) {
+    visitNode(cte.ctequery, new Set(scope), refs);
+    scope.add(cte.ctename as string);
+  }
+  return scope;
+}
+
+function nameFromList(kind: ObjectKind, items: Node[] | undefined): ObjectReference | null {
+  const parts = (items ?? []).flatMap((item) => {
+    const sval = (item as { String?: { sval?: string } }).String?.sval;
+    return sval === undefined ? [] : [sval];
+  });
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const name = parts[parts.length - 1];
+  const schema = parts.length > 1 ? parts[parts.length - 2] : undefined;
+  return { kind, name, ...(schema !== undefined && { schema }) };
+}
+
+function addReference(refs: Map<string, ObjectReference>, ref: ObjectReference): void {
+  refs.set(`${ref.kind}:${ref.schema ?? ''}.${ref.name}`, ref);
+}
+
+/**
+ * Schema and relation allow/deny lists. Denials always win; when any allow
+ * list is set, a relation must be in an allowed schema or match an allowed
+ * relation. Function calls are checked against the schema lists (except
+ * built-ins in pg_catalog) and DENIED_FUNCTIONS.
+ */
+export class AccessPolicy {
+  private readonly allowedSchemas: ReadonlySet<string> | null;
+  private readonly deniedSchemas: ReadonlySet<string>;
+  private readonly allowedRelations: Array<[string, string]> | null;
+  private readonly deniedRelations: Array<[string, string]>;
+  private readonly deniedFunctions: Array<[string, string]>;
+
+  constructor(config: AccessPolicyConfig) {
+    this.allowedSchemas = config.allowedSchemas
+      ? new Set(config.allowedSchemas)
+      : null;
+    this.deniedSchemas = new Set(config.deniedSchemas ?? []);
+    this.allowedRelations = config.allowedRelations
+      ? config.allowedRelations.map(splitQualifiedName)
+      : null;
+    this.deniedRelations = (config.deniedRelations ?? []).map(splitQualifiedName);
+    this.deniedFunctions = (config.deniedFunctions ?? []).map(splitQualifiedName);
+  }
+
+  /**
+   * Whether anything in the schema may be accessed (used to filter listings)
+   */
+  allowsSchema(schema: string): boolean {
+    return this.schemaDenial(schema) === null;
+  }
+
+  allowsRelation(schema: string, name: string): boolean {
+    return this.relationDenial(schema, name) === null;
+  }
+
+  allowsFunction(schema: string, name: string): boolean {
+    return this.functionDenial(schema, name) === null;
+  }
+
+  /**
+   * @throws Error naming the schema if nothing in it may be accessed
+   */
+  assertSchema(schema: string): void {
+    const reason = this.schemaDenial(schema);
+    if (reason) {
+      throw new Error(`Access denied to schema ${schema} (${reason})`);
+    }
+  }
+
+  /**
+   * @throws Error naming the relation if it may not be accessed
+   */
+  assertRelation(schema: string, name: string): void {
+    const reason = this.relationDenial(schema, name);
+    if (reason) {
+      throw new Error(`Access denied to relation ${schema}.${name} (${reason})`);
+    }
+  }
+
+  /**
+   * @throws Error naming the function if it may not be called
+   */
+  assertFunction(schema: string, name: string): void {
+    const reason = this.functionDenial(schema, name);
+    if (reason) {
+      throw new Error(`Access denied to function ${schema}.${name} (${reason})`);
+    }
+  }
+
+  /**
+   * @throws Error naming the first blocked object
+   */
+  assertReferences(refs: ResolvedObjectReference[]): void {
+    for (const ref of refs) {
+      if (ref.kind === 'relation') {
+        this.assertRelation(ref.schema, ref.name);
+        continue;
+      }
+
+      this.assertFunction(ref.schema, ref.name);
+    }
+  }
+
+  private schemaDenial(schema: string): string | null {
+    if (this.deniedSchemas.has(schema)) {
+      return 'schema is in DENIED_SCHEMAS';
+    }
+    if (!this.allowedSchemas && !this.allowedRelations) {
+      return null;
+    }
+    if (
+      this.allowedSchemas?.has(schema) ||
+      this.allowedRelations?.some(([s]) => matchSegment(s, schema))
+    ) {
+      return null;
+    }
+    return 'not in ALLOWED_SCHEMAS or ALLOWED_RELATIONS';
+  }
+
+  private relationDenial(schema: string, name: string): string | null {
+    if (this.deniedRelations.some((entry) => matchName(entry, schema, name))) {
+      return 'matches DENIED_RELATIONS';
+    }
+    if (this.deniedSchemas.has(schema)) {
+      return `schema ${schema} is in DENIED_SCHEMAS`;
+    }
+    if (!this.allowedSchemas && !this.allowedRelations) {
+      return null;
+    }
+    if (
+      this.allowedSchemas?.has(schema) ||
+      this.allowedRelations?.some((entry) => matchName(entry, schema, name))
+    ) {
+      return null;
+    }
+    return 'not in ALLOWED_SCHEMAS or ALLOWED_RELATIONS';
+  }
+
+  private functionDenial(schema: string, name: string): string | null {
+    if (this.deniedFunctions.some((entry) => matchName(entry, schema, name))) {
+      return 'matches DENIED_FUNCTIONS';
+    }
+    if (schema === BUILTIN_FUNCTION_SCHEMA) {
+      return null;
+    }
+    if (this.deniedSchemas.has(schema)) {
+      return `schema ${schema} is in DENIED_SCHEMAS`;
+    }
+    if (this.allowedSchemas && !this.allowedSchemas.has(schema)) {
+      return 'schema is not in ALLOWED_SCHEMAS';
+    }
+    return null;
+  }
+}
+
+function splitQualifiedName(entry: string): [string, string] {
+  const [schema, name] = entry.split('.');
+  return [schema, name];
+}
+
+function matchName([schema, name]: [string, string], s: string, n: string): boolean {
+  return matchSegment(schema, s) && matchSegment(name, n);
+}
+
+function matchSegment(pattern: string, value: string): boolean {
+  return pattern === '*' || pattern === value;
+}
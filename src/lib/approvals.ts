@@ -0,0 +1,168 @@
+import { randomUUID } from 'node:crypto';
+import { obfuscateConnectionString } from './obfuscate.js';
+import type { AuditLogger } from './audit.js';
+import type {
+  ApprovalConfig,
+  ChangeStatus,
+  PendingChange,
+  QueryResultWithMeta,
+} from '../types.js';
+
+const DEFAULT_APPROVAL_CONFIG: ApprovalConfig = {
+  ttlMs: 24 * 60 * 60 * 1000,
+  maxPending: 100,
+};
+
+/**
+ * In-memory queue of write statements waiting for a reviewer. Pending
+ * changes expire after the TTL; decided changes are kept for one more TTL
+ * so their outcome can still be looked up. Nothing survives a restart.
+ */
+export class ChangeQueue {
+  private readonly changes = new Map<string, PendingChange>();
+
+  constructor(
+    private readonly config: ApprovalConfig = DEFAULT_APPROVAL_CONFIG,
+    private readonly audit?: AuditLogger
+  ) {}
+
+  /**
+   * Queue a statement for review
+   * @throws Error if MAX_PENDING_CHANGES changes are already pending
+   */
+  submit(change: {
+    database: string;
+    sql: string;
+    params: unknown[];
+    submittedBy?: string;
+  }): PendingChange {
+    const pending = this.list('pending');
+    if (pending.length >= this.config.maxPending) {
+      throw new Error(
+        `Too many pending changes (${this.config.maxPending}). Wait for a reviewer to approve or reject some.`
+      );
+    }
+
+    const now = Date.now();
+    const queued: PendingChange = {
+      id: randomUUID(),
+      database: change.database,
+      sql: change.sql,
+      params: change.params,
+      status: 'pending',
+      ...(change.submittedBy && { submittedBy: change.submittedBy }),
+      submittedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.config.ttlMs).toISOString(),
+    };
+    this.changes.set(queued.id, queued);
+    this.audit?.recordChange(queued);
+    return { ...queued };
+  }
+
+  /** Changes, oldest first, optionally only those with the given status */
+  list(status?: ChangeStatus, database?: string): PendingChange[] {
+    this.sweep();
+    return Array.from(this.changes.values())
+      .filter(
+        (change) =>
+          (!status || change.status === status) &&
+          (!database || change.database === database)
+      )
+      .map((change) => ({ ...change }));
+  }
+
+  /**
+   * @throws Error if the change does not exist or was already removed
+   */
+  get(id: string): PendingChange {
+    return { ...this.find(id) };
+  }
+
+  /**
+   * Mark a pending change approved so it can be executed. The reviewer
+   * must be an authenticated identity other than the submitter.
+   * @throws Error if the change is not pending or the reviewer may not decide it
+   */
+  approve(id: string, reviewer: string | undefined): PendingChange {
+    const change = this.review(id, reviewer);
+    change.status = 'approved';
+    this.audit?.recordChange(change);
+    return { ...change };
+  }
+
+  /**
+   * @throws Error if the change is not pending or the reviewer may not decide it
+   */
+  reject(id: string, reviewer: string | undefined, reason?: string): PendingChange {
+    const change = this.review(id, reviewer);
+    change.status = 'rejected';
+    if (reason) {
+      change.reason = reason;
+    }
+    this.audit?.recordChange(change);
+    return { ...change };
+  }
+
+  /**
+   * Record the outcome of running an approved change
+   */
+  complete(
+    id: string,
+    outcome: { result?: QueryResultWithMeta; error?: unknown }
+  ): PendingChange {
+    const change = this.find(id);
+    if (outcome.error !== undefined) {
+      const message =
+        outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+      change.status = 'failed';
+      change.error = obfuscateConnectionString(message);
+    } else {
+      change.status = 'executed';
+      change.result = {
+        ...(outcome.result?.command && { command: outcome.result.command }),
+        rowCount: outcome.result?.rowCount ?? 0,
+      };
+    }
+    this.audit?.recordChange(change);
+    return { ...change };
+  }
+
+  private find(id: string): PendingChange {
+    this.sweep();
+    const change = this.changes.get(id);
+    if (!change) {
+      throw new Error(`Change ${id} not found. It may have expired.`);
+    }
+    return change;
+  }
+
+  private review(id: string, reviewer: string | undefined): PendingChange {
+    const change = this.find(id);
+    if (change.status !== 'pending') {
+      throw new Error(`Change ${id} is ${change.status}, not pending.`);
+    }
+    if (!reviewer) {
+      throw new Error('Reviewing a change requires an authenticated identity.');
+    }
+    if (reviewer === change.submittedBy) {
+      throw new Error('A change must be reviewed by someone other than its submitter.');
+    }
+    change.reviewedBy = reviewer;
+    change.reviewedAt = new Date().toISOString();
+    return change;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [id, change] of this.changes) {
+      if (change.status === 'pending' && Date.parse(change.expiresAt) <= now) {
+        change.status = 'expired';
+      }
+      const finished = change.status !== 'pending' && change.status !== 'approved';
+      const decidedAt = Date.parse(change.reviewedAt ?? change.expiresAt);
+      if (finished && decidedAt + this.config.ttlMs <= now) {
+        this.changes.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,327 @@
+import { createHash } from 'node:crypto';
+import { createSocket, type Socket } from 'node:dgram';
+import {
+  closeSync,
+  existsSync,
+  fstatSync,
+  openSync,
+  renameSync,
+  rmSync,
+  writeSync,
+} from 'node:fs';
+import { hostname } from 'node:os';
+import { normalizeSql } from './sql-validator.js';
+import { obfuscateConnectionString } from './obfuscate.js';
+import { getRequestContext, runWithRequestContext } from './request-context.js';
+import type {
+  AuditConfig,
+  AuditFileConfig,
+  AuditSyslogConfig,
+  ChangeStatus,
+  PendingChange,
+  QueryResultWithMeta,
+  ToolResponse,
+} from '../types.js';
+
+export interface AuditEvent {
+  timestamp: string;
+  /**
+   * `query` for each executeQuery() call, `tool` once per tool call,
+   * `resource` once per resources/list or resources/read request, `change`
+   * when a write awaiting approval is queued, decided or run
+   */
+  type: 'query' | 'tool' | 'resource' | 'change';
+  /** Tool name, or the MCP method of a resource request */
+  tool?: string;
+  /** URI of a resources/read request */
+  resource?: string;
+  /** `sub` claim of the OAuth token, when the request was authenticated */
+  subject?: string;
+  /** Database profile the query ran against */
+  database?: string;
+  sql?: string;
+  /** SHA-256 of the JSON-encoded query parameters */
+  paramsHash?: string;
+  /** Approval queue ID and new status of a `change` event */
+  changeId?: string;
+  status?: ChangeStatus;
+  /** Absent on `change` events */
+  durationMs?: number;
+  rowCount?: number;
+  truncated?: boolean;
+  error?: string;
+}
+
+export interface AuditSink {
+  write(event: AuditEvent): void;
+  close?(): Promise<void> | void;
+}
+
+export function hashParams(params: unknown[] | undefined): string | undefined {
+  if (!params || params.length === 0) {
+    return undefined;
+  }
+  const json = JSON.stringify(params, (_key, value: unknown) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+  return createHash('sha256').update(json).digest('hex');
+}
+
+function errorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return obfuscateConnectionString(message);
+}
+
+export class AuditLogger {
+  constructor(private readonly sinks: AuditSink[]) {}
+
+  /**
+   * Write an event to every sink, adding the timestamp and the current
+   * tool and subject. A failing sink is reported but never fails the caller.
+   */
+  record(event: Omit<AuditEvent, 'timestamp'>): void {
+    const context = getRequestContext();
+    const full: AuditEvent = {
+      timestamp: new Date().toISOString(),
+      ...(context?.tool && { tool: context.tool }),
+      ...(context?.subject && { subject: context.subject }),
+      ...event,
+    };
+
+    for (const sink of this.sinks) {
+      try {
+        sink.write(full);
+      } catch (err) {
+        console.error('[Audit] Sink write failed:', errorMessage(err));
+      }
+    }
+  }
+
+  recordQuery(query: {
+    database?: string;
+    sql: string;
+    params?: unknown[];
+    startedAt: number;
+    result?: Pick<QueryResultWithMeta, 'rowCount' | 'truncated'>;
+    error?: unknown;
+  }): void {
+    const { result } = query;
+    const paramsHash = hashParams(query.params);
+    this.record({
+      type: 'query',
+      ...(query.database && { database: query.database }),
+      sql: normalizeSql(query.sql),
+      ...(paramsHash && { paramsHash }),
+      durationMs: Math.round(performance.now() - query.startedAt),
+      ...(result && { rowCount: result.rowCount, truncated: result.truncated }),
+      ...(query.error !== undefined && { error: errorMessage(query.error) }),
+    });
+  }
+
+  recordChange(change: PendingChange): void {
+    const paramsHash = hashParams(change.params);
+    this.record({
+      type: 'change',
+      database: change.database,
+      sql: normalizeSql(change.sql),
+      ...(paramsHash && { paramsHash }),
+      changeId: change.id,
+      status: change.status,
+      ...(change.result && { rowCount: change.result.rowCount }),
+      ...(change.error && { error: change.error }),
+    });
+  }
+
+  async close(): Promise<void> {
+    for (const sink of this.sinks) {
+      try {
+        await sink.close?.();
+      } catch (err) {
+        console.error('[Audit] Sink close failed:', errorMessage(err));
+      }
+    }
+  }
+}
+
+/**
+ * Wrap a tool handler so queries it runs are attributed to the tool and
+ * the call itself is recorded with its duration and outcome
+ */
+export function auditToolHandler<Args extends unknown[]>(
+  tool: string,
+  handler: (...args: Args) => ToolResponse | Promise<ToolResponse>,
+  audit: AuditLogger
+): (...args: Args) => Promise<ToolResponse> {
+  return (...args: Args) =>
+    runWithRequestContext({ tool }, async () => {
+      const startedAt = performance.now();
+      let error: string | undefined;
+      try {
+        const response = await handler(...args);
+        if (response.isError) {
+          error = response.content[0]?.text.replace(/^Error: /, '') ?? 'Tool error';
+        }
+        return response;
+      } catch (err) {
+        error = errorMessage(err);
+        throw err;
+      } finally {
+        audit.record({
+          type: 'tool',
+          durationMs: Math.round(performance.now() - startedAt),
+          ...(error !== undefined && { error }),
+        });
+      }
+    });
+}
+
+/**
+ * Run a resources/list or resources/read request so queries it runs are
+ * attributed to the method, and record the request with its duration and
+ * outcome
+ */
+export function auditResourceRequest<T>(
+  method: 'resources/list' | 'resources/read',
+  uri: string | undefined,
+  handler: () => Promise<T>,
+  audit: AuditLogger
+): Promise<T> {
+  return runWithRequestContext({ tool: method }, async () => {
+    const startedAt = performance.now();
+    let error: string | undefined;
+    try {
+      return await handler();
+    } catch (err) {
+      error = errorMessage(err);
+      throw err;
+    } finally {
+      audit.record({
+        type: 'resource',
+        ...(uri !== undefined && { resource: uri }),
+        durationMs: Math.round(performance.now() - startedAt),
+        ...(error !== undefined && { error }),
+      });
+    }
+  });
+}
+
+export class StderrAuditSink implements AuditSink {
+  write(event: AuditEvent): void {
+    process.stderr.write(`${JSON.stringify(event)}\n`);
+  }
+}
+
+/**
+ * JSON Lines file rotated by size: path -> path.1 -> ... -> path.maxFiles.
+ * Writes are synchronous so events are on disk before the tool returns.
+ */
+export class RotatingFileAuditSink implements AuditSink {
+  private fd: number | null = null;
+  private size = 0;
+
+  constructor(private readonly config: AuditFileConfig) {
+    this.open();
+  }
+
+  write(event: AuditEvent): void {
+    const line = Buffer.from(`${JSON.stringify(event)}\n`);
+    if (this.size > 0 && this.size + line.length > this.config.maxBytes) {
+      this.rotate();
+    }
+    writeSync(this.fd ?? this.open(), line);
+    this.size += line.length;
+  }
+
+  close(): void {
+    if (this.fd !== null) {
+      closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private open(): number {
+    const fd = openSync(this.config.path, 'a', 0o600);
+    this.fd = fd;
+    this.size = fstatSync(fd).size;
+    return fd;
+  }
+
+  private rotate(): void {
+    this.close();
+    const { path, maxFiles } = this.config;
+    rmSync(`${path}.${maxFiles}`, { force: true });
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      if (existsSync(`${path}.${i}`)) {
+        renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+      }
+    }
+    renameSync(path, `${path}.1`);
+    this.open();
+  }
+}
+
+const SYSLOG_SEVERITY_WARNING = 4;
+const SYSLOG_SEVERITY_INFO = 6;
+
+/**
+ * RFC 5424 messages over UDP with the JSON event as the message body.
+ * Failed events are logged at warning severity, the rest at info.
+ */
+export class SyslogAuditSink implements AuditSink {
+  private readonly socket: Socket;
+  private readonly hostname = hostname() || '-';
+
+  constructor(private readonly config: AuditSyslogConfig) {
+    this.socket = createSocket(config.host.includes(':') ? 'udp6' : 'udp4');
+    this.socket.on('error', (err) => {
+      console.error('[Audit] Syslog socket error:', err.message);
+    });
+    this.socket.unref();
+  }
+
+  write(event: AuditEvent): void {
+    this.socket.send(this.format(event), this.config.port, this.config.host);
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.socket.close(() => resolve()));
+  }
+
+  format(event: AuditEvent): string {
+    const severity = event.error
+      ? SYSLOG_SEVERITY_WARNING
+      : SYSLOG_SEVERITY_INFO;
+    const priority = this.config.facility * 8 + severity;
+    return (
+      `<${priority}>1 ${event.timestamp} ${this.hostname} ${this.config.appName} ` +
+      `${process.pid} ${event.type} - ${JSON.stringify(event)}`
+    );
+  }
+}
+
+export function createAuditLogger(
+  config: AuditConfig | undefined
+): AuditLogger | undefined {
+  if (!config) {
+    return undefined;
+  }
+
+  const sinks = config.sinks.map((type): AuditSink => {
+    switch (type) {
+      case 'stderr':
+        return new StderrAuditSink();
+      case 'file':
+        if (!config.file) {
+          throw new Error('Audit file sink requires AUDIT_LOG_FILE');
+        }
+        return new RotatingFileAuditSink(config.file);
+      case 'syslog':
+        if (!config.syslog) {
+          throw new Error('Audit syslog sink requires syslog settings');
+        }
+        return new SyslogAuditSink(config.syslog);
+    }
+  });
+
+  return new AuditLogger(sinks);
+}
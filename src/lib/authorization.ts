@@ -0,0 +1,218 @@
+import { errorResponseFromError } from './tool-response.js';
+import { getRequestContext } from './request-context.js';
+import type {
+  AuthorizationPolicy,
+  QueryMode,
+  ToolAccess,
+  ToolGrant,
+  ToolResponse,
+  ToolRestriction,
+} from '../types.js';
+
+const DEFAULT_CLAIMS = ['scope', 'permissions', 'roles'];
+
+const QUERY_MODES: ReadonlySet<string> = new Set(['read-only', 'read-write']);
+
+/**
+ * Validate an authorization policy document
+ * @param raw - Parsed JSON document
+ * @param source - Name used in error messages
+ * @throws Error if the document is not a valid policy
+ */
+export function parseAuthorizationPolicy(
+  raw: unknown,
+  source: string
+): AuthorizationPolicy {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${source} must contain a JSON object`);
+  }
+
+  const { claims, grants } = raw as { claims?: unknown; grants?: unknown };
+
+  if (
+    claims !== undefined &&
+    (!Array.isArray(claims) ||
+      claims.length === 0 ||
+      !claims.every((claim) => typeof claim === 'string' && claim.length > 0))
+  ) {
+    throw new Error(`${source} "claims" must be a non-empty array of claim names`);
+  }
+  if (
+    !grants ||
+    typeof grants !== 'object' ||
+    Array.isArray(grants) ||
+    Object.keys(grants).length === 0
+  ) {
+    throw new Error(`${source} must contain a non-empty "grants" object`);
+  }
+
+  const parsed: Record<string, ToolGrant> = {};
+  for (const [name, grant] of Object.entries(grants)) {
+    const label = `${source} grant "${name}"`;
+    if (!grant || typeof grant !== 'object' || Array.isArray(grant)) {
+      throw new Error(`${label} must be an object`);
+    }
+
+    const { tools, mode } = grant as { tools?: unknown; mode?: unknown };
+    if (
+      !Array.isArray(tools) ||
+      tools.length === 0 ||
+      !tools.every((tool) => typeof tool === 'string' && tool.length > 0)
+    ) {
+      throw new Error(`${label} "tools" must be a non-empty array of tool names`);
+    }
+    if (mode !== undefined && (typeof mode !== 'string' || !QUERY_MODES.has(mode))) {
+      throw new Error(`${label} "mode" must be "read-only" or "read-write"`);
+    }
+
+    parsed[name] = {
+      tools: tools as string[],
+      mode: (mode as QueryMode | undefined) ?? 'read-only',
+    };
+  }
+
+  return { claims: (claims as string[] | undefined) ?? DEFAULT_CLAIMS, grants: parsed };
+}
+
+/**
+ * Values of a token claim. OAuth `scope` is a space-separated string;
+ * permissions and roles claims are usually arrays.
+ */
+function claimValues(payload: Record<string, unknown>, claim: string): string[] {
+  const value = payload[claim];
+  if (typeof value === 'string') {
+    return value.split(/\s+/).filter(Boolean);
+  }
+  if (Array.isArray(value)) {
+    return value.filter((entry): entry is string => typeof entry === 'string');
+  }
+  return [];
+}
+
+/**
+ * Resolve the tools and query mode granted to a verified token. Tokens
+ * matching no grant get no tools; the mode is read-write only when a
+ * matched grant allows it.
+ */
+export function resolveToolAccess(
+  policy: AuthorizationPolicy,
+  payload: Record<string, unknown>
+): ToolAccess {
+  const values = new Set(policy.claims.flatMap((claim) => claimValues(payload, claim)));
+  const grants = Object.keys(policy.grants).filter((name) => values.has(name));
+  const matched = grants.map((name) => policy.grants[name]);
+
+  return {
+    grants,
+    tools: Array.from(new Set(matched.flatMap((grant) => grant.tools))),
+    mode: matched.some((grant) => grant.mode === 'read-write') ? 'read-write' : 'read-only',
+  };
+}
+
+function matchesTool(pattern: string, tool: string): boolean {
+  if (!pattern.includes('*')) {
+    return pattern === tool;
+  }
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(tool);
+}
+
+/**
+ * Access for an authenticated request: the policy's grants for the token
+ * (every tool when there is no policy), narrowed by any limits on the
+ * credential itself
+ */
+export function resolveRequestAccess(
+  policy: AuthorizationPolicy | undefined,
+  payload: Record<string, unknown>,
+  restriction?: ToolRestriction
+): ToolAccess {
+  const access: ToolAccess = policy
+    ? resolveToolAccess(policy, payload)
+    : { grants: [], tools: ['*'], mode: 'read-write' };
+  if (!restriction) {
+    return access;
+  }
+  return {
+    ...access,
+    ...(restriction.tools && { restrictTo: restriction.tools }),
+    mode: restriction.mode === 'read-only' ? 'read-only' : access.mode,
+  };
+}
+
+export function isToolAllowed(access: ToolAccess, tool: string): boolean {
+  return (
+    access.tools.some((pattern) => matchesTool(pattern, tool)) &&
+    (!access.restrictTo || access.restrictTo.some((pattern) => matchesTool(pattern, tool)))
+  );
+}
+
+/**
+ * Validate the optional `tools` and `mode` limits of a credential entry
+ */
+export function parseToolRestriction(
+  entry: Record<string, unknown>,
+  label: string
+): ToolRestriction {
+  const { tools, mode } = entry;
+  if (
+    tools !== undefined &&
+    (!Array.isArray(tools) ||
+      tools.length === 0 ||
+      !tools.every((tool) => typeof tool === 'string' && tool.length > 0))
+  ) {
+    throw new Error(`${label} "tools" must be a non-empty array of tool names`);
+  }
+  if (mode !== undefined && (typeof mode !== 'string' || !QUERY_MODES.has(mode))) {
+    throw new Error(`${label} "mode" must be "read-only" or "read-write"`);
+  }
+  return {
+    ...(tools !== undefined && { tools: tools as string[] }),
+    ...(mode !== undefined && { mode: mode as QueryMode }),
+  };
+}
+
+function denialReason(
+  access: ToolAccess | undefined,
+  tool: string,
+  required: string[]
+): string | undefined {
+  if (!access) {
+    return 'no authenticated caller';
+  }
+  if (!access.tools.some((pattern) => matchesTool(pattern, tool))) {
+    return required.length > 0
+      ? `requires one of ${required.join(', ')}`
+      : 'not granted by the authorization policy';
+  }
+  if (!isToolAllowed(access, tool)) {
+    return 'not permitted for this credential';
+  }
+  return undefined;
+}
+
+/**
+ * Wrap a tool handler so it only runs for callers whose access includes the
+ * tool. Calls outside an authenticated request are rejected, so a missing
+ * middleware fails closed.
+ */
+export function authorizeToolHandler<Args extends unknown[]>(
+  tool: string,
+  handler: (...args: Args) => ToolResponse | Promise<ToolResponse>,
+  policy?: AuthorizationPolicy
+): (...args: Args) => Promise<ToolResponse> {
+  const required = Object.entries(policy?.grants ?? {})
+    .filter(([, grant]) => grant.tools.some((pattern) => matchesTool(pattern, tool)))
+    .map(([name]) => name);
+
+  return async (...args: Args) => {
+    const reason = denialReason(getRequestContext()?.access, tool, required);
+    if (reason) {
+      return errorResponseFromError(new Error(`Access denied to tool ${tool}: ${reason}`));
+    }
+    return handler(...args);
+  };
+}
@@ -0,0 +1,427 @@
+import type { ConnectionManager } from '../connection/postgres-pool.js';
+import type {
+  ExtensionInfo,
+  FunctionDescription,
+  FunctionDetail,
+  FunctionSummary,
+  MaterializedViewInfo,
+  SequenceInfo,
+  TriggerInfo,
+  TypeInfo,
+  UserTypeKind,
+} from '../types.js';
+
+/** pg_type.typtype of each kind of user-defined type */
+const TYPE_CODES: Record<UserTypeKind, string> = {
+  enum: 'e',
+  domain: 'd',
+  composite: 'c',
+  range: 'r',
+};
+
+/**
+ * Whether the object `objid` of catalog `catalog` belongs to an extension,
+ * so listings can leave out what CREATE EXTENSION installed
+ */
+export const extensionMember = (catalog: string, objid: string) => `
+  EXISTS (
+    SELECT 1 FROM pg_depend d
+    WHERE d.classid = '${catalog}'::regclass
+      AND d.objid = ${objid}
+      AND d.deptype = 'e'
+  )
+`;
+
+const FUNCTION_FIELDS = `
+  'schema', n.nspname,
+  'name', p.proname,
+  'kind', CASE p.prokind
+    WHEN 'p' THEN 'procedure'
+    WHEN 'a' THEN 'aggregate'
+    WHEN 'w' THEN 'window'
+    ELSE 'function'
+  END,
+  'arguments', pg_get_function_arguments(p.oid),
+  'returns', CASE WHEN p.prokind <> 'p' THEN pg_get_function_result(p.oid) END,
+  'language', l.lanname,
+  'volatility', CASE p.provolatile
+    WHEN 'i' THEN 'immutable'
+    WHEN 's' THEN 'stable'
+    ELSE 'volatile'
+  END,
+  'securityDefiner', p.prosecdef,
+  'comment', obj_description(p.oid, 'pg_proc')
+`;
+
+/**
+ * Functions, procedures and aggregates of the schema $1 as one JSON row,
+ * with extension members only when $2 is true
+ */
+const FUNCTIONS_SQL = `
+  SELECT COALESCE(json_agg(json_build_object(${FUNCTION_FIELDS})
+    ORDER BY p.proname, pg_get_function_identity_arguments(p.oid)), '[]'::json) AS functions
+  FROM pg_proc p
+  JOIN pg_namespace n ON n.oid = p.pronamespace
+  JOIN pg_language l ON l.oid = p.prolang
+  WHERE n.nspname = $1
+    AND ($2::boolean OR NOT ${extensionMember('pg_proc', 'p.oid')})
+`;
+
+/** Every overload of the function $1.$2 as one JSON row */
+const FUNCTION_DETAIL_SQL = `
+  SELECT COALESCE(json_agg(json_build_object(
+    ${FUNCTION_FIELDS},
+    'identityArguments', pg_get_function_identity_arguments(p.oid),
+    'parameters', COALESCE((
+      SELECT json_agg(json_build_object(
+        'name', COALESCE(p.proargnames[u.ord], ''),
+        'type', format_type(u.typid, NULL),
+        'mode', CASE COALESCE(p.proargmodes[u.ord], 'i')
+          WHEN 'o' THEN 'out'
+          WHEN 'b' THEN 'inout'
+          WHEN 'v' THEN 'variadic'
+          WHEN 't' THEN 'table'
+          ELSE 'in'
+        END
+      ) ORDER BY u.ord)
+      FROM unnest(COALESCE(p.proallargtypes, p.proargtypes::oid[])) WITH ORDINALITY u(typid, ord)
+    ), '[]'::json),
+    'owner', pg_get_userbyid(p.proowner),
+    'strict', p.proisstrict,
+    'parallel', CASE p.proparallel
+      WHEN 's' THEN 'safe'
+      WHEN 'r' THEN 'restricted'
+      ELSE 'unsafe'
+    END,
+    'cost', p.procost,
+    'rows', CASE WHEN p.proretset THEN p.prorows END,
+    'config', COALESCE(to_json(p.proconfig), '[]'::json),
+    'definition', CASE WHEN p.prokind <> 'a' THEN pg_get_functiondef(p.oid) END
+  ) ORDER BY pg_get_function_identity_arguments(p.oid)), '[]'::json) AS overloads
+  FROM pg_proc p
+  JOIN pg_namespace n ON n.oid = p.pronamespace
+  JOIN pg_language l ON l.oid = p.prolang
+  WHERE n.nspname = $1 AND p.proname = $2
+`;
+
+/**
+ * User triggers in the schema $1, on the table $2 only unless it is NULL,
+ * as one JSON row. tgtype bits: 1 row, 2 before, 4 insert, 8 delete,
+ * 16 update, 32 truncate, 64 instead of.
+ */
+const TRIGGERS_SQL = `
+  SELECT COALESCE(json_agg(json_build_object(
+    'schema', n.nspname,
+    'table', c.relname,
+    'name', g.tgname,
+    'timing', CASE
+      WHEN g.tgtype & 2 <> 0 THEN 'BEFORE'
+      WHEN g.tgtype & 64 <> 0 THEN 'INSTEAD OF'
+      ELSE 'AFTER'
+    END,
+    'events', (
+      SELECT json_agg(e.event ORDER BY e.flag)
+      FROM (VALUES (4, 'INSERT'), (8, 'DELETE'), (16, 'UPDATE'), (32, 'TRUNCATE')) AS e(flag, event)
+      WHERE g.tgtype & e.flag <> 0
+    ),
+    'level', CASE WHEN g.tgtype & 1 <> 0 THEN 'ROW' ELSE 'STATEMENT' END,
+    'function', pn.nspname || '.' || p.proname,
+    'enabled', CASE g.tgenabled
+      WHEN 'O' THEN 'origin'
+      WHEN 'R' THEN 'replica'
+      WHEN 'A' THEN 'always'
+      ELSE 'disabled'
+    END,
+    'definition', pg_get_triggerdef(g.oid)
+  ) ORDER BY c.relname, g.tgname), '[]'::json) AS triggers
+  FROM pg_trigger g
+  JOIN pg_class c ON c.oid = g.tgrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  JOIN pg_proc p ON p.oid = g.tgfoid
+  JOIN pg_namespace pn ON pn.oid = p.pronamespace
+  WHERE NOT g.tgisinternal
+    AND n.nspname = $1
+    AND ($2::text IS NULL OR c.relname = $2)
+`;
+
+/**
+ * Enums, domains, standalone composite types and ranges of the schema $1,
+ * of the typtype $2 only unless it is NULL, as one JSON row. Only the
+ * fields of each type's kind are set. Extension members are included only
+ * when $3 is true.
+ */
+const TYPES_SQL = `
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object(
+      'schema', n.nspname,
+      'name', t.typname,
+      'kind', CASE t.typtype
+        WHEN 'e' THEN 'enum'
+        WHEN 'd' THEN 'domain'
+        WHEN 'c' THEN 'composite'
+        ELSE 'range'
+      END,
+      'owner', pg_get_userbyid(t.typowner),
+      'comment', obj_description(t.oid, 'pg_type')
+    ) || CASE t.typtype
+      WHEN 'e' THEN jsonb_build_object(
+        'values', COALESCE((
+          SELECT jsonb_agg(e.enumlabel ORDER BY e.enumsortorder)
+          FROM pg_enum e
+          WHERE e.enumtypid = t.oid
+        ), '[]'::jsonb)
+      )
+      WHEN 'd' THEN jsonb_build_object(
+        'baseType', format_type(t.typbasetype, t.typtypmod),
+        'notNull', t.typnotnull,
+        'default', t.typdefault,
+        'constraints', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'name', k.conname,
+            'definition', pg_get_constraintdef(k.oid)
+          ) ORDER BY k.conname)
+          FROM pg_constraint k
+          WHERE k.contypid = t.oid AND k.contype = 'c'
+        ), '[]'::jsonb)
+      )
+      WHEN 'c' THEN jsonb_build_object(
+        'attributes', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'name', a.attname,
+            'type', format_type(a.atttypid, a.atttypmod)
+          ) ORDER BY a.attnum)
+          FROM pg_attribute a
+          WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+        ), '[]'::jsonb)
+      )
+      ELSE jsonb_build_object(
+        'subtype', (SELECT format_type(r.rngsubtype, NULL) FROM pg_range r WHERE r.rngtypid = t.oid)
+      )
+    END
+    ORDER BY t.typname
+  ), '[]'::jsonb) AS types
+  FROM pg_type t
+  JOIN pg_namespace n ON n.oid = t.typnamespace
+  LEFT JOIN pg_class c ON c.oid = t.typrelid
+  WHERE n.nspname = $1
+    AND t.typtype IN ('e', 'd', 'c', 'r')
+    AND (t.typtype <> 'c' OR c.relkind = 'c')
+    AND ($2::text IS NULL OR t.typtype = $2)
+    AND ($3::boolean OR NOT ${extensionMember('pg_type', 't.oid')})
+`;
+
+/**
+ * Installed extensions, plus those available to install when $1 is true,
+ * as one JSON row
+ */
+const EXTENSIONS_SQL = `
+  SELECT COALESCE(json_agg(json_build_object(
+    'name', COALESCE(e.extname, a.name),
+    'installedVersion', e.extversion,
+    'defaultVersion', a.default_version,
+    'schema', n.nspname,
+    'description', COALESCE(obj_description(e.oid, 'pg_extension'), a.comment)
+  ) ORDER BY COALESCE(e.extname, a.name)), '[]'::json) AS extensions
+  FROM pg_extension e
+  FULL JOIN pg_available_extensions a ON a.name = e.extname
+  LEFT JOIN pg_namespace n ON n.oid = e.extnamespace
+  WHERE $1::boolean OR e.oid IS NOT NULL
+`;
+
+/**
+ * Sequences of the schema $1 as one JSON row. pg_sequences hides the last
+ * value from roles without USAGE or SELECT on the sequence.
+ */
+const SEQUENCES_SQL = `
+  SELECT COALESCE(json_agg(json_build_object(
+    'schema', n.nspname,
+    'name', c.relname,
+    'owner', pg_get_userbyid(c.relowner),
+    'dataType', format_type(s.seqtypid, NULL),
+    'start', s.seqstart::text,
+    'increment', s.seqincrement::text,
+    'min', s.seqmin::text,
+    'max', s.seqmax::text,
+    'cache', s.seqcache::text,
+    'cycle', s.seqcycle,
+    'lastValue', (
+      SELECT q.last_value::text
+      FROM pg_sequences q
+      WHERE q.schemaname = n.nspname AND q.sequencename = c.relname
+    ),
+    'ownedBy', (
+      SELECT t.relname || '.' || a.attname
+      FROM pg_depend d
+      JOIN pg_class t ON t.oid = d.refobjid
+      JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+      WHERE d.classid = 'pg_class'::regclass
+        AND d.objid = c.oid
+        AND d.refclassid = 'pg_class'::regclass
+        AND d.deptype IN ('a', 'i')
+    )
+  ) ORDER BY c.relname), '[]'::json) AS sequences
+  FROM pg_sequence s
+  JOIN pg_class c ON c.oid = s.seqrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = $1
+`;
+
+/** Materialized views of the schema $1 as one JSON row */
+const MATERIALIZED_VIEWS_SQL = `
+  SELECT COALESCE(json_agg(json_build_object(
+    'schema', n.nspname,
+    'name', c.relname,
+    'owner', pg_get_userbyid(c.relowner),
+    'populated', c.relispopulated,
+    'size', pg_size_pretty(pg_total_relation_size(c.oid)),
+    'indexes', COALESCE((
+      SELECT json_agg(i.relname ORDER BY i.relname)
+      FROM pg_index x
+      JOIN pg_class i ON i.oid = x.indexrelid
+      WHERE x.indrelid = c.oid
+    ), '[]'::json),
+    'definition', pg_get_viewdef(c.oid),
+    'comment', obj_description(c.oid, 'pg_class')
+  ) ORDER BY c.relname), '[]'::json) AS materialized_views
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE c.relkind = 'm' AND n.nspname = $1
+`;
+
+/**
+ * Functions, procedures, aggregates and window functions of a schema,
+ * leaving out those the access policy blocks
+ * @param includeExtensionObjects - Also list functions installed by extensions
+ * @throws Error if the schema is blocked
+ */
+export async function listFunctions(
+  manager: ConnectionManager,
+  schema: string,
+  includeExtensionObjects = false
+): Promise<FunctionSummary[]> {
+  const policy = manager.accessPolicy;
+  policy?.assertSchema(schema);
+  const result = await manager.executeQuery(
+    FUNCTIONS_SQL,
+    [schema, includeExtensionObjects],
+    { skipMasking: true }
+  );
+  const functions = result.rows[0].functions as FunctionSummary[];
+  return policy ? functions.filter((fn) => policy.allowsFunction(fn.schema, fn.name)) : functions;
+}
+
+/**
+ * Signature, properties and definition of every overload of a function
+ * @throws Error if the function is blocked or does not exist
+ */
+export async function describeFunction(
+  manager: ConnectionManager,
+  schema: string,
+  name: string
+): Promise<FunctionDescription> {
+  manager.accessPolicy?.assertFunction(schema, name);
+  const result = await manager.executeQuery(FUNCTION_DETAIL_SQL, [schema, name], {
+    skipMasking: true,
+  });
+  const overloads = result.rows[0].overloads as FunctionDetail[];
+  if (overloads.length === 0) {
+    throw new Error(`Function "${schema}.${name}" does not exist`);
+  }
+  return { schema, name, overloads };
+}
+
+/**
+ * Triggers of a schema or of one table, excluding the internal ones
+ * behind foreign keys. Triggers on blocked relations are left out.
+ * @throws Error if the schema or table is blocked
+ */
+export async function listTriggers(
+  manager: ConnectionManager,
+  schema: string,
+  table?: string
+): Promise<TriggerInfo[]> {
+  const policy = manager.accessPolicy;
+  if (table !== undefined) {
+    policy?.assertRelation(schema, table);
+  } else {
+    policy?.assertSchema(schema);
+  }
+  const result = await manager.executeQuery(TRIGGERS_SQL, [schema, table ?? null], {
+    skipMasking: true,
+  });
+  const triggers = result.rows[0].triggers as TriggerInfo[];
+  return policy
+    ? triggers.filter((trigger) => policy.allowsRelation(trigger.schema, trigger.table))
+    : triggers;
+}
+
+/**
+ * Enums (with their values), domains, standalone composite types and range
+ * types of a schema
+ * @param kind - Only types of this kind
+ * @param includeExtensionObjects - Also list types installed by extensions
+ * @throws Error if the schema is blocked
+ */
+export async function listTypes(
+  manager: ConnectionManager,
+  schema: string,
+  kind?: UserTypeKind,
+  includeExtensionObjects = false
+): Promise<TypeInfo[]> {
+  manager.accessPolicy?.assertSchema(schema);
+  const result = await manager.executeQuery(
+    TYPES_SQL,
+    [schema, kind ? TYPE_CODES[kind] : null, includeExtensionObjects],
+    { skipMasking: true }
+  );
+  return result.rows[0].types as TypeInfo[];
+}
+
+/**
+ * Installed extensions, and optionally those the server could install
+ */
+export async function listExtensions(
+  manager: ConnectionManager,
+  includeAvailable = false
+): Promise<ExtensionInfo[]> {
+  const result = await manager.executeQuery(EXTENSIONS_SQL, [includeAvailable], {
+    skipMasking: true,
+  });
+  return result.rows[0].extensions as ExtensionInfo[];
+}
+
+/**
+ * Sequences of a schema with their settings, current value and owning
+ * column, leaving out those the access policy blocks
+ * @throws Error if the schema is blocked
+ */
+export async function listSequences(
+  manager: ConnectionManager,
+  schema: string
+): Promise<SequenceInfo[]> {
+  const policy = manager.accessPolicy;
+  policy?.assertSchema(schema);
+  const result = await manager.executeQuery(SEQUENCES_SQL, [schema], { skipMasking: true });
+  const sequences = result.rows[0].sequences as SequenceInfo[];
+  return policy
+    ? sequences.filter((sequence) => policy.allowsRelation(sequence.schema, sequence.name))
+    : sequences;
+}
+
+/**
+ * Materialized views of a schema with their state, size, indexes and
+ * query, leaving out those the access policy blocks
+ * @throws Error if the schema is blocked
+ */
+export async function listMaterializedViews(
+  manager: ConnectionManager,
+  schema: string
+): Promise<MaterializedViewInfo[]> {
+  const policy = manager.accessPolicy;
+  policy?.assertSchema(schema);
+  const result = await manager.executeQuery(MATERIALIZED_VIEWS_SQL, [schema], {
+    skipMasking: true,
+  });
+  const views = result.rows[0].materialized_views as MaterializedViewInfo[];
+  return policy ? views.filter((view) => policy.allowsRelation(view.schema, view.name)) : views;
+}
@@ -0,0 +1,689 @@
+import type { ConnectionManager } from '../connection/postgres-pool.js';
+import type { DdlObjectKind, ObjectDdl } from '../types.js';
+import { quoteIdentifier, quoteLiteral, quoteQualifiedName } from './identifiers.js';
+
+const DDL_OBJECT_KINDS: readonly DdlObjectKind[] = [
+  'table',
+  'view',
+  'materialized view',
+  'sequence',
+  'function',
+  'procedure',
+  'type',
+  'trigger',
+  'policy',
+];
+
+interface Grant {
+  /** Role name, or null for PUBLIC */
+  grantee: string | null;
+  privilege: string;
+  grantable: boolean;
+}
+
+interface QualifiedName {
+  schema: string;
+  name: string;
+}
+
+interface PolicyRow {
+  name: string;
+  schema: string;
+  table: string;
+  permissive: boolean;
+  command: string;
+  /** Role names, null for PUBLIC */
+  roles: Array<string | null>;
+  using: string | null;
+  withCheck: string | null;
+}
+
+interface RelationRow {
+  name: string;
+  kind: 'r' | 'p' | 'v' | 'm';
+  persistence: string;
+  owner: string;
+  comment: string | null;
+  options: string[] | null;
+  parents: QualifiedName[];
+  partitionOf: QualifiedName | null;
+  partitionBound: string | null;
+  partitionKey: string | null;
+  partitions: Array<QualifiedName & { bound: string }>;
+  viewDefinition: string | null;
+  columns: Array<{
+    name: string;
+    type: string;
+    notNull: boolean;
+    default: string | null;
+    identity: string;
+    generated: string;
+    local: boolean;
+    comment: string | null;
+    grants: Grant[];
+  }>;
+  constraints: Array<{ name: string; definition: string; local: boolean }>;
+  indexes: string[];
+  triggers: string[];
+  rowSecurity: boolean;
+  forceRowSecurity: boolean;
+  policies: PolicyRow[];
+  grants: Grant[];
+}
+
+/**
+ * Grants of an ACL column as JSON, leaving out the owner's own privileges,
+ * which are implicit
+ */
+const grantsJson = (acl: string, owner: string) => `
+  (
+    SELECT COALESCE(json_agg(json_build_object(
+      'grantee', CASE WHEN g.grantee = 0 THEN NULL ELSE pg_get_userbyid(g.grantee) END,
+      'privilege', g.privilege_type,
+      'grantable', g.is_grantable
+    ) ORDER BY g.grantee, g.privilege_type), '[]'::json)
+    FROM aclexplode(${acl}) g
+    WHERE g.grantee <> ${owner}
+  )`;
+
+/** Columns of pg_policy `o` on table `c` in namespace `n`, as JSON */
+const POLICY_JSON = `
+  json_build_object(
+    'name', o.polname,
+    'schema', n.nspname,
+    'table', c.relname,
+    'permissive', o.polpermissive,
+    'command', CASE o.polcmd
+      WHEN 'r' THEN 'SELECT' WHEN 'a' THEN 'INSERT'
+      WHEN 'w' THEN 'UPDATE' WHEN 'd' THEN 'DELETE' ELSE 'ALL' END,
+    'roles', (
+      SELECT json_agg(CASE WHEN r = 0 THEN NULL ELSE pg_get_userbyid(r) END)
+      FROM unnest(o.polroles) r
+    ),
+    'using', pg_get_expr(o.polqual, o.polrelid),
+    'withCheck', pg_get_expr(o.polwithcheck, o.polrelid)
+  )`;
+
+const RESOLVE_SQL = `
+  SELECT
+    CASE c.relkind
+      WHEN 'v' THEN 'view'
+      WHEN 'm' THEN 'materialized view'
+      WHEN 'S' THEN 'sequence'
+      ELSE 'table'
+    END AS kind,
+    c.oid::text AS oid
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'p', 'v', 'm', 'S')
+  UNION ALL
+  SELECT CASE p.prokind WHEN 'p' THEN 'procedure' ELSE 'function' END, p.oid::text
+  FROM pg_proc p
+  JOIN pg_namespace n ON n.oid = p.pronamespace
+  WHERE n.nspname = $1 AND p.proname = $2 AND p.prokind IN ('f', 'p')
+  UNION ALL
+  SELECT 'type', t.oid::text
+  FROM pg_type t
+  JOIN pg_namespace n ON n.oid = t.typnamespace
+  LEFT JOIN pg_class r ON r.oid = t.typrelid
+  WHERE n.nspname = $1 AND t.typname = $2
+    AND t.typtype IN ('e', 'd', 'r', 'c')
+    AND (t.typtype <> 'c' OR r.relkind = 'c')
+  UNION ALL
+  SELECT 'trigger', g.oid::text
+  FROM pg_trigger g
+  JOIN pg_class c ON c.oid = g.tgrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = $1 AND g.tgname = $2 AND NOT g.tgisinternal
+  UNION ALL
+  SELECT 'policy', o.oid::text
+  FROM pg_policy o
+  JOIN pg_class c ON c.oid = o.polrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = $1 AND o.polname = $2
+`;
+
+const RELATION_SQL = `
+  SELECT json_build_object(
+    'name', c.relname,
+    'kind', c.relkind,
+    'persistence', c.relpersistence,
+    'owner', pg_get_userbyid(c.relowner),
+    'comment', obj_description(c.oid, 'pg_class'),
+    'options', c.reloptions,
+    'parents', (
+      SELECT COALESCE(json_agg(json_build_object('schema', pn.nspname, 'name', p.relname)
+        ORDER BY i.inhseqno), '[]'::json)
+      FROM pg_inherits i
+      JOIN pg_class p ON p.oid = i.inhparent
+      JOIN pg_namespace pn ON pn.oid = p.relnamespace
+      WHERE i.inhrelid = c.oid AND NOT c.relispartition
+    ),
+    'partitionOf', (
+      SELECT json_build_object('schema', pn.nspname, 'name', p.relname)
+      FROM pg_inherits i
+      JOIN pg_class p ON p.oid = i.inhparent
+      JOIN pg_namespace pn ON pn.oid = p.relnamespace
+      WHERE i.inhrelid = c.oid AND c.relispartition
+    ),
+    'partitionBound', CASE WHEN c.relispartition THEN pg_get_expr(c.relpartbound, c.oid) END,
+    'partitionKey', CASE WHEN c.relkind = 'p' THEN pg_get_partkeydef(c.oid) END,
+    'partitions', (
+      SELECT COALESCE(json_agg(json_build_object(
+        'schema', pn.nspname,
+        'name', p.relname,
+        'bound', pg_get_expr(p.relpartbound, p.oid)
+      ) ORDER BY pn.nspname, p.relname), '[]'::json)
+      FROM pg_inherits i
+      JOIN pg_class p ON p.oid = i.inhrelid
+      JOIN pg_namespace pn ON pn.oid = p.relnamespace
+      WHERE i.inhparent = c.oid AND p.relispartition
+    ),
+    'viewDefinition', CASE WHEN c.relkind IN ('v', 'm') THEN pg_get_viewdef(c.oid, true) END,
+    'columns', (
+      SELECT COALESCE(json_agg(json_build_object(
+        'name', a.attname,
+        'type', format_type(a.atttypid, a.atttypmod),
+        'notNull', a.attnotnull,
+        'default', pg_get_expr(d.adbin, d.adrelid),
+        'identity', a.attidentity,
+        'generated', a.attgenerated,
+        'local', a.attislocal,
+        'comment', col_description(c.oid, a.attnum),
+        'grants', ${grantsJson('a.attacl', 'c.relowner')}
+      ) ORDER BY a.attnum), '[]'::json)
+      FROM pg_attribute a
+      LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+    ),
+    'constraints', (
+      SELECT COALESCE(json_agg(json_build_object(
+        'name', k.conname,
+        'definition', pg_get_constraintdef(k.oid),
+        'local', k.conislocal
+      ) ORDER BY k.contype = 'f', k.conname), '[]'::json)
+      FROM pg_constraint k
+      WHERE k.conrelid = c.oid AND k.contype <> 'n'
+    ),
+    'indexes', (
+      SELECT COALESCE(json_agg(pg_get_indexdef(x.indexrelid) ORDER BY i.relname), '[]'::json)
+      FROM pg_index x
+      JOIN pg_class i ON i.oid = x.indexrelid
+      WHERE x.indrelid = c.oid
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_constraint k
+          WHERE k.conindid = x.indexrelid
+            AND k.conrelid = x.indrelid
+            AND k.contype IN ('p', 'u', 'x')
+        )
+    ),
+    'triggers', (
+      SELECT COALESCE(json_agg(pg_get_triggerdef(g.oid) ORDER BY g.tgname), '[]'::json)
+      FROM pg_trigger g
+      WHERE g.tgrelid = c.oid AND NOT g.tgisinternal
+    ),
+    'rowSecurity', c.relrowsecurity,
+    'forceRowSecurity', c.relforcerowsecurity,
+    'policies', (
+      SELECT COALESCE(json_agg(${POLICY_JSON} ORDER BY o.polname), '[]'::json)
+      FROM pg_policy o
+      WHERE o.polrelid = c.oid
+    ),
+    'grants', ${grantsJson('c.relacl', 'c.relowner')}
+  ) AS relation
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE c.oid = $1::oid
+`;
+
+const SEQUENCE_SQL = `
+  SELECT
+    c.relname AS name,
+    pg_get_userbyid(c.relowner) AS owner,
+    obj_description(c.oid, 'pg_class') AS comment,
+    format_type(s.seqtypid, NULL) AS data_type,
+    s.seqstart::text AS start,
+    s.seqincrement::text AS increment,
+    s.seqmin::text AS min,
+    s.seqmax::text AS max,
+    s.seqcache::text AS cache,
+    s.seqcycle AS cycle,
+    (
+      SELECT json_build_object(
+        'schema', tn.nspname,
+        'table', t.relname,
+        'column', a.attname,
+        'identity', d.deptype = 'i'
+      )
+      FROM pg_depend d
+      JOIN pg_class t ON t.oid = d.refobjid
+      JOIN pg_namespace tn ON tn.oid = t.relnamespace
+      JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+      WHERE d.classid = 'pg_class'::regclass
+        AND d.objid = c.oid
+        AND d.refclassid = 'pg_class'::regclass
+        AND d.deptype IN ('a', 'i')
+    ) AS owned_by,
+    ${grantsJson('c.relacl', 'c.relowner')} AS grants
+  FROM pg_sequence s
+  JOIN pg_class c ON c.oid = s.seqrelid
+  WHERE c.oid = $1::oid
+`;
+
+const FUNCTION_SQL = `
+  SELECT
+    pg_get_functiondef(p.oid) AS definition,
+    CASE p.prokind WHEN 'p' THEN 'PROCEDURE' ELSE 'FUNCTION' END AS kind,
+    p.proname AS name,
+    pg_get_function_identity_arguments(p.oid) AS arguments,
+    pg_get_userbyid(p.proowner) AS owner,
+    obj_description(p.oid, 'pg_proc') AS comment,
+    ${grantsJson('p.proacl', 'p.proowner')} AS grants
+  FROM pg_proc p
+  WHERE p.oid = ANY($1::oid[])
+  ORDER BY p.oid
+`;
+
+const TYPE_SQL = `
+  SELECT
+    t.typtype AS type,
+    pg_get_userbyid(t.typowner) AS owner,
+    obj_description(t.oid, 'pg_type') AS comment,
+    (
+      SELECT json_agg(e.enumlabel ORDER BY e.enumsortorder)
+      FROM pg_enum e
+      WHERE e.enumtypid = t.oid
+    ) AS labels,
+    (
+      SELECT json_agg(json_build_object(
+        'name', a.attname,
+        'type', format_type(a.atttypid, a.atttypmod)
+      ) ORDER BY a.attnum)
+      FROM pg_attribute a
+      WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+    ) AS attributes,
+    format_type(t.typbasetype, t.typtypmod) AS base_type,
+    t.typdefault AS default_value,
+    t.typnotnull AS not_null,
+    (
+      SELECT json_agg(json_build_object(
+        'name', k.conname,
+        'definition', pg_get_constraintdef(k.oid)
+      ) ORDER BY k.conname)
+      FROM pg_constraint k
+      WHERE k.contypid = t.oid AND k.contype = 'c'
+    ) AS checks,
+    (SELECT format_type(r.rngsubtype, NULL) FROM pg_range r WHERE r.rngtypid = t.oid) AS subtype,
+    ${grantsJson('t.typacl', 't.typowner')} AS grants
+  FROM pg_type t
+  WHERE t.oid = $1::oid
+`;
+
+const TRIGGER_SQL = `
+  SELECT
+    pg_get_triggerdef(g.oid) AS definition,
+    g.tgname AS name,
+    n.nspname AS schema,
+    c.relname AS table,
+    obj_description(g.oid, 'pg_trigger') AS comment
+  FROM pg_trigger g
+  JOIN pg_class c ON c.oid = g.tgrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE g.oid = ANY($1::oid[])
+  ORDER BY c.relname
+`;
+
+const POLICY_SQL = `
+  SELECT ${POLICY_JSON} AS policy
+  FROM pg_policy o
+  JOIN pg_class c ON c.oid = o.polrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE o.oid = ANY($1::oid[])
+  ORDER BY c.relname
+`;
+
+function role(name: string | null): string {
+  return name === null ? 'PUBLIC' : quoteIdentifier(name);
+}
+
+/**
+ * GRANT statements, one per grantee and grant option
+ * @param target - Object as GRANT names it, e.g. `TABLE "public"."users"`
+ * @param columns - Column list for column privileges, e.g. `("email")`
+ */
+function grantStatements(grants: Grant[], target: string, columns = ''): string[] {
+  const groups = new Map<string, { grantee: string | null; grantable: boolean; privileges: string[] }>();
+  for (const grant of grants) {
+    const key = `${grant.grantee ?? ''}\u0000${grant.grantable}`;
+    const group = groups.get(key) ?? {
+      grantee: grant.grantee,
+      grantable: grant.grantable,
+      privileges: [],
+    };
+    group.privileges.push(`${grant.privilege}${columns}`);
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).map(
+    ({ grantee, grantable, privileges }) =>
+      `GRANT ${privileges.join(', ')} ON ${target} TO ${role(grantee)}` +
+      `${grantable ? ' WITH GRANT OPTION' : ''};`
+  );
+}
+
+function commentStatement(target: string, comment: string | null): string[] {
+  return comment === null ? [] : [`COMMENT ON ${target} IS ${quoteLiteral(comment)};`];
+}
+
+function policyStatement(policy: PolicyRow): string {
+  let sql =
+    `CREATE POLICY ${quoteIdentifier(policy.name)} ON ${quoteQualifiedName(policy.schema, policy.table)}` +
+    `\n    AS ${policy.permissive ? 'PERMISSIVE' : 'RESTRICTIVE'}` +
+    `\n    FOR ${policy.command}` +
+    `\n    TO ${policy.roles.map(role).join(', ')}`;
+  if (policy.using !== null) {
+    sql += `\n    USING (${policy.using})`;
+  }
+  if (policy.withCheck !== null) {
+    sql += `\n    WITH CHECK (${policy.withCheck})`;
+  }
+  return `${sql};`;
+}
+
+/**
+ * A column as CREATE TABLE and ADD COLUMN spell it. `default` holds the
+ * expression of a generated column.
+ */
+export function columnClause(column: {
+  name: string;
+  type: string;
+  notNull: boolean;
+  default: string | null;
+  identity: string;
+  generated: string;
+}): string {
+  let sql = `${quoteIdentifier(column.name)} ${column.type}`;
+  if (column.generated === 's') {
+    sql += ` GENERATED ALWAYS AS (${column.default}) STORED`;
+  } else if (column.generated === 'v') {
+    sql += ` GENERATED ALWAYS AS (${column.default}) VIRTUAL`;
+  } else if (column.identity) {
+    sql += ` GENERATED ${column.identity === 'a' ? 'ALWAYS' : 'BY DEFAULT'} AS IDENTITY`;
+  } else if (column.default !== null) {
+    sql += ` DEFAULT ${column.default}`;
+  }
+  if (column.notNull) {
+    sql += ' NOT NULL';
+  }
+  return sql;
+}
+
+/**
+ * CREATE TABLE, partitions included, followed by the statements pg_dump
+ * would emit for the table: owner, comments, grants, indexes, triggers,
+ * row level security and policies
+ */
+function relationDdl(schema: string, relation: RelationRow): string[] {
+  const qualified = quoteQualifiedName(schema, relation.name);
+  const statements: string[] = [];
+  const withOptions = relation.options?.length ? ` WITH (${relation.options.join(', ')})` : '';
+
+  if (relation.kind === 'v' || relation.kind === 'm') {
+    const query = (relation.viewDefinition ?? '').trim().replace(/;$/, '');
+    statements.push(
+      relation.kind === 'v'
+        ? `CREATE VIEW ${qualified}${withOptions} AS\n${query};`
+        : `CREATE MATERIALIZED VIEW ${qualified}${withOptions} AS\n${query}\nWITH NO DATA;`
+    );
+  } else {
+    const constraints = relation.constraints
+      .filter((constraint) => constraint.local)
+      .map(
+        (constraint) =>
+          `CONSTRAINT ${quoteIdentifier(constraint.name)} ${constraint.definition}`
+      );
+    const unlogged = relation.persistence === 'u' ? 'UNLOGGED ' : '';
+    if (relation.partitionOf) {
+      const parent = quoteQualifiedName(relation.partitionOf.schema, relation.partitionOf.name);
+      const body = constraints.length
+        ? ` (\n    ${constraints.join(',\n    ')}\n)`
+        : '';
+      statements.push(
+        `CREATE ${unlogged}TABLE ${qualified} PARTITION OF ${parent}${body}\n${relation.partitionBound}${withOptions};`
+      );
+    } else {
+      const elements = [
+        ...relation.columns
+          .filter((column) => column.local || relation.parents.length === 0)
+          .map(columnClause),
+        ...constraints,
+      ];
+      let sql = `CREATE ${unlogged}TABLE ${qualified} (\n    ${elements.join(',\n    ')}\n)`;
+      if (relation.parents.length) {
+        sql += `\nINHERITS (${relation.parents
+          .map((parent) => quoteQualifiedName(parent.schema, parent.name))
+          .join(', ')})`;
+      }
+      if (relation.partitionKey) {
+        sql += `\nPARTITION BY ${relation.partitionKey}`;
+      }
+      statements.push(`${sql}${withOptions};`);
+    }
+    for (const partition of relation.partitions) {
+      statements.push(
+        `CREATE TABLE ${quoteQualifiedName(partition.schema, partition.name)} PARTITION OF ${qualified}\n${partition.bound};`
+      );
+    }
+  }
+
+  const kind =
+    relation.kind === 'v' ? 'VIEW' : relation.kind === 'm' ? 'MATERIALIZED VIEW' : 'TABLE';
+  statements.push(`ALTER ${kind} ${qualified} OWNER TO ${quoteIdentifier(relation.owner)};`);
+  statements.push(...commentStatement(`${kind} ${qualified}`, relation.comment));
+  for (const column of relation.columns) {
+    statements.push(
+      ...commentStatement(`COLUMN ${qualified}.${quoteIdentifier(column.name)}`, column.comment)
+    );
+  }
+  statements.push(...grantStatements(relation.grants, `TABLE ${qualified}`));
+  for (const column of relation.columns) {
+    statements.push(
+      ...grantStatements(column.grants, `TABLE ${qualified}`, ` (${quoteIdentifier(column.name)})`)
+    );
+  }
+  statements.push(...relation.indexes.map((index) => `${index};`));
+  statements.push(...relation.triggers.map((trigger) => `${trigger};`));
+  if (relation.rowSecurity) {
+    statements.push(`ALTER TABLE ${qualified} ENABLE ROW LEVEL SECURITY;`);
+  }
+  if (relation.forceRowSecurity) {
+    statements.push(`ALTER TABLE ${qualified} FORCE ROW LEVEL SECURITY;`);
+  }
+  statements.push(...relation.policies.map(policyStatement));
+  return statements;
+}
+
+function sequenceDdl(schema: string, row: Record<string, unknown>): string[] {
+  const qualified = quoteQualifiedName(schema, row.name as string);
+  const ownedBy = row.owned_by as
+    | { schema: string; table: string; column: string; identity: boolean }
+    | null;
+  const column = ownedBy
+    ? `${quoteQualifiedName(ownedBy.schema, ownedBy.table)}.${quoteIdentifier(ownedBy.column)}`
+    : null;
+  const statements: string[] = [];
+
+  if (ownedBy?.identity) {
+    statements.push(`-- Sequence of the identity column ${column}, created along with it`);
+  }
+  statements.push(
+    `CREATE SEQUENCE ${qualified}` +
+      `\n    AS ${row.data_type as string}` +
+      `\n    START WITH ${row.start as string}` +
+      `\n    INCREMENT BY ${row.increment as string}` +
+      `\n    MINVALUE ${row.min as string}` +
+      `\n    MAXVALUE ${row.max as string}` +
+      `\n    CACHE ${row.cache as string}` +
+      `${row.cycle ? '\n    CYCLE' : ''};`
+  );
+  if (column && !ownedBy?.identity) {
+    statements.push(`ALTER SEQUENCE ${qualified} OWNED BY ${column};`);
+  }
+  statements.push(`ALTER SEQUENCE ${qualified} OWNER TO ${quoteIdentifier(row.owner as string)};`);
+  statements.push(...commentStatement(`SEQUENCE ${qualified}`, row.comment as string | null));
+  statements.push(...grantStatements(row.grants as Grant[], `SEQUENCE ${qualified}`));
+  return statements;
+}
+
+function functionDdl(schema: string, rows: Record<string, unknown>[]): string[] {
+  return rows.flatMap((row) => {
+    const kind = row.kind as string;
+    const signature = `${quoteQualifiedName(schema, row.name as string)}(${row.arguments as string})`;
+    return [
+      `${(row.definition as string).trim()};`,
+      `ALTER ${kind} ${signature} OWNER TO ${quoteIdentifier(row.owner as string)};`,
+      ...commentStatement(`${kind} ${signature}`, row.comment as string | null),
+      ...grantStatements(row.grants as Grant[], `${kind} ${signature}`),
+    ];
+  });
+}
+
+function typeDdl(schema: string, name: string, row: Record<string, unknown>): string[] {
+  const qualified = quoteQualifiedName(schema, name);
+  const kind = row.type === 'd' ? 'DOMAIN' : 'TYPE';
+  let create: string;
+
+  switch (row.type) {
+    case 'e': {
+      const labels = (row.labels as string[] | null) ?? [];
+      create = `CREATE TYPE ${qualified} AS ENUM (\n    ${labels.map(quoteLiteral).join(',\n    ')}\n);`;
+      break;
+    }
+    case 'c': {
+      const attributes = (row.attributes as Array<{ name: string; type: string }> | null) ?? [];
+      create = `CREATE TYPE ${qualified} AS (\n    ${attributes
+        .map((attribute) => `${quoteIdentifier(attribute.name)} ${attribute.type}`)
+        .join(',\n    ')}\n);`;
+      break;
+    }
+    case 'r':
+      create = `CREATE TYPE ${qualified} AS RANGE (\n    subtype = ${row.subtype as string}\n);`;
+      break;
+    default: {
+      create = `CREATE DOMAIN ${qualified} AS ${row.base_type as string}`;
+      if (row.default_value !== null) {
+        create += `\n    DEFAULT ${row.default_value as string}`;
+      }
+      if (row.not_null) {
+        create += '\n    NOT NULL';
+      }
+      for (const check of (row.checks as Array<{ name: string; definition: string }> | null) ?? []) {
+        create += `\n    CONSTRAINT ${quoteIdentifier(check.name)} ${check.definition}`;
+      }
+      create += ';';
+    }
+  }
+
+  return [
+    create,
+    `ALTER ${kind} ${qualified} OWNER TO ${quoteIdentifier(row.owner as string)};`,
+    ...commentStatement(`${kind} ${qualified}`, row.comment as string | null),
+    ...grantStatements(row.grants as Grant[], `${kind} ${qualified}`),
+  ];
+}
+
+function triggerDdl(rows: Record<string, unknown>[]): string[] {
+  return rows.flatMap((row) => [
+    `${row.definition as string};`,
+    ...commentStatement(
+      `TRIGGER ${quoteIdentifier(row.name as string)} ON ${quoteQualifiedName(
+        row.schema as string,
+        row.table as string
+      )}`,
+      row.comment as string | null
+    ),
+  ]);
+}
+
+/**
+ * Reconstruct the DDL of one object from the catalog, like
+ * `pg_dump --schema-only` limited to that object. A name shared by function
+ * overloads, or by triggers or policies on different tables, returns all
+ * of them.
+ * @param kind - Object kind, required when the name matches more than one kind
+ * @throws Error if no object matches, several kinds match, or the access
+ * policy blocks the object
+ */
+export async function readObjectDdl(
+  manager: ConnectionManager,
+  schema: string,
+  name: string,
+  kind?: DdlObjectKind
+): Promise<ObjectDdl> {
+  const policy = manager.accessPolicy;
+  policy?.assertSchema(schema);
+
+  const resolved = await manager.executeQuery(RESOLVE_SQL, [schema, name], { skipMasking: true });
+  const matches = resolved.rows.filter((row) => !kind || row.kind === kind);
+  const kinds = Array.from(new Set(matches.map((row) => row.kind as DdlObjectKind)));
+  if (kinds.length === 0) {
+    throw new Error(
+      `No ${kind ?? DDL_OBJECT_KINDS.join(', ')} named "${name}" in schema "${schema}"`
+    );
+  }
+  if (kinds.length > 1) {
+    throw new Error(
+      `"${schema}.${name}" names more than one kind of object (${kinds.join(', ')}). Pass type to choose one.`
+    );
+  }
+  const [found] = kinds;
+  const oids = matches.map((row) => row.oid as string);
+  let statements: string[];
+
+  switch (found) {
+    case 'table':
+    case 'view':
+    case 'materialized view': {
+      policy?.assertRelation(schema, name);
+      const result = await manager.executeQuery(RELATION_SQL, [oids[0]], { skipMasking: true });
+      statements = relationDdl(schema, result.rows[0].relation as RelationRow);
+      break;
+    }
+    case 'sequence': {
+      policy?.assertRelation(schema, name);
+      const result = await manager.executeQuery(SEQUENCE_SQL, [oids[0]], { skipMasking: true });
+      statements = sequenceDdl(schema, result.rows[0]);
+      break;
+    }
+    case 'function':
+    case 'procedure': {
+      policy?.assertFunction(schema, name);
+      const { rows } = await manager.executeQuery(FUNCTION_SQL, [oids], { skipMasking: true });
+      statements = functionDdl(schema, rows);
+      break;
+    }
+    case 'type': {
+      const result = await manager.executeQuery(TYPE_SQL, [oids[0]], { skipMasking: true });
+      statements = typeDdl(schema, name, result.rows[0]);
+      break;
+    }
+    case 'trigger': {
+      const { rows } = await manager.executeQuery(TRIGGER_SQL, [oids], { skipMasking: true });
+      for (const row of rows) {
+        policy?.assertRelation(schema, row.table as string);
+      }
+      statements = triggerDdl(rows);
+      break;
+    }
+    case 'policy': {
+      const { rows } = await manager.executeQuery(POLICY_SQL, [oids], { skipMasking: true });
+      const policies = rows.map((row) => row.policy as PolicyRow);
+      for (const entry of policies) {
+        policy?.assertRelation(schema, entry.table);
+      }
+      statements = policies.map(policyStatement);
+      break;
+    }
+  }
+
+  return { schema, name, kind: found, ddl: statements.join('\n\n') };
+}
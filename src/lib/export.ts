@@ -0,0 +1,248 @@
+import { createWriteStream, closeSync, openSync, type WriteStream } from 'node:fs';
+import { stat, unlink } from 'node:fs/promises';
+import { once } from 'node:events';
+import { randomBytes } from 'node:crypto';
+import { join } from 'node:path';
+import {
+  ParquetWriter,
+  fileWriter,
+  schemaFromColumnData,
+  type BasicType,
+} from 'hyparquet-writer';
+import type { ExportColumn, ExportFormat, QueryField } from '../types.js';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['csv', 'ndjson', 'parquet'];
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: '.csv',
+  ndjson: '.ndjson',
+  parquet: '.parquet',
+};
+
+const FILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+const TIMESTAMP_OID = 1114;
+
+/**
+ * Parquet types for built-in PostgreSQL types by OID. Anything else,
+ * including bytea in its configured text encoding, is written as text.
+ */
+const PARQUET_TYPES: Record<number, BasicType> = {
+  16: 'BOOLEAN',
+  20: 'INT64',
+  21: 'INT32',
+  23: 'INT32',
+  26: 'INT64',
+  114: 'JSON',
+  700: 'DOUBLE',
+  701: 'DOUBLE',
+  1114: 'TIMESTAMP',
+  1184: 'TIMESTAMP',
+  3802: 'JSON',
+};
+
+export interface ExportWriter {
+  write(rows: Record<string, unknown>[]): Promise<void>;
+  /** Flush and close the file; resolves to its size in bytes */
+  finish(): Promise<number>;
+  /** Close and delete a partially written file */
+  abort(): Promise<void>;
+}
+
+/**
+ * Path for a new export file. A caller-chosen name gets the format's
+ * extension and may not leave the export directory.
+ * @throws Error if the name is not a plain file name
+ */
+export function exportFilePath(
+  directory: string,
+  format: ExportFormat,
+  fileName?: string
+): string {
+  const extension = FILE_EXTENSIONS[format];
+  if (fileName === undefined) {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..*$/, '');
+    return join(directory, `export-${stamp}-${randomBytes(4).toString('hex')}${extension}`);
+  }
+  if (!FILE_NAME_PATTERN.test(fileName)) {
+    throw new Error(
+      'fileName must contain only letters, digits, ".", "_" and "-", and start with a letter or digit'
+    );
+  }
+  return join(directory, fileName.endsWith(extension) ? fileName : `${fileName}${extension}`);
+}
+
+/**
+ * Output columns of described fields. Duplicate names collapse to the
+ * first, as they do in the row objects.
+ */
+export function exportColumns(fields: QueryField[]): ExportColumn[] {
+  const seen = new Set<string>();
+  return fields.flatMap((field) => {
+    if (seen.has(field.name)) {
+      return [];
+    }
+    seen.add(field.name);
+    return [
+      {
+        name: field.name,
+        type: field.type ?? 'unknown',
+        dataTypeID: field.dataTypeID,
+      },
+    ];
+  });
+}
+
+function textValue(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function csvField(value: string | null): string {
+  if (value === null) {
+    return '';
+  }
+  if (value === '' || /[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+async function createTextWriter(
+  path: string,
+  formatRow: (row: Record<string, unknown>) => string,
+  header?: string
+): Promise<ExportWriter> {
+  const stream: WriteStream = createWriteStream(path, { flags: 'wx' });
+  await once(stream, 'open');
+
+  const append = async (chunk: string) => {
+    if (!stream.write(chunk)) {
+      await once(stream, 'drain');
+    }
+  };
+
+  if (header !== undefined) {
+    await append(header);
+  }
+
+  return {
+    write: (rows) => append(rows.map(formatRow).join('')),
+    finish: async () => {
+      await new Promise<void>((resolve, reject) => {
+        stream.once('error', reject);
+        stream.end(resolve);
+      });
+      return (await stat(path)).size;
+    },
+    abort: async () => {
+      stream.destroy();
+      await unlink(path).catch(() => {});
+    },
+  };
+}
+
+function parquetValue(value: unknown, type: BasicType, column: ExportColumn): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (type) {
+    case 'INT64':
+      return BigInt(value as string | number);
+    case 'INT32':
+    case 'DOUBLE':
+      return Number(value);
+    case 'TIMESTAMP': {
+      // Timestamps without time zone are written as UTC wall-clock times;
+      // 'infinity' and BC values have no Parquet timestamp
+      const text = String(value);
+      const date = new Date(column.dataTypeID === TIMESTAMP_OID ? `${text}Z` : text);
+      return isNaN(date.getTime()) ? null : date;
+    }
+    case 'STRING':
+      return textValue(value);
+    default:
+      return value;
+  }
+}
+
+function createParquetWriter(
+  path: string,
+  columns: ExportColumn[],
+  textColumns: ReadonlySet<string>
+): ExportWriter {
+  // fileWriter truncates; claim the name first so an existing file is not replaced
+  closeSync(openSync(path, 'wx'));
+
+  const types = columns.map((column): BasicType =>
+    textColumns.has(column.name) ? 'STRING' : (PARQUET_TYPES[column.dataTypeID] ?? 'STRING')
+  );
+  const writer = new ParquetWriter({
+    writer: fileWriter(path),
+    schema: schemaFromColumnData({
+      columnData: columns.map((column, index) => ({
+        name: column.name,
+        data: [],
+        type: types[index],
+      })),
+    }),
+  });
+
+  return {
+    write: async (rows) => {
+      if (rows.length === 0) {
+        return;
+      }
+      await writer.write({
+        columnData: columns.map((column, index) => ({
+          name: column.name,
+          data: rows.map((row) => parquetValue(row[column.name], types[index], column)),
+        })),
+        rowGroupSize: rows.length,
+      });
+    },
+    finish: async () => {
+      await writer.finish();
+      return (await stat(path)).size;
+    },
+    abort: async () => {
+      await unlink(path).catch(() => {});
+    },
+  };
+}
+
+/**
+ * Open a new export file. Columns listed in `textColumns` (masked ones,
+ * whose values no longer match their type) are written as text.
+ */
+export async function createExportWriter(
+  format: ExportFormat,
+  path: string,
+  columns: ExportColumn[],
+  textColumns: ReadonlySet<string> = new Set()
+): Promise<ExportWriter> {
+  switch (format) {
+    case 'csv':
+      return createTextWriter(
+        path,
+        (row) =>
+          `${columns.map((column) => csvField(textValue(row[column.name]))).join(',')}\r\n`,
+        `${columns.map((column) => csvField(column.name)).join(',')}\r\n`
+      );
+    case 'ndjson':
+      return createTextWriter(path, (row) => {
+        const line: Record<string, unknown> = {};
+        for (const column of columns) {
+          line[column.name] = row[column.name] ?? null;
+        }
+        return `${JSON.stringify(line)}\n`;
+      });
+    case 'parquet':
+      return createParquetWriter(path, columns, textColumns);
+  }
+}
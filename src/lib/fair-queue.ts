@@ -0,0 +1,41 @@
+/**
+ * Waiters grouped by client and served round-robin, so a client with many
+ * queued requests cannot hold back the others
+ */
+export class FairQueue<T> {
+  // Map iteration follows insertion order; a served client is re-inserted
+  // at the end, which makes the order round-robin
+  private readonly queues = new Map<string, T[]>();
+  private count = 0;
+
+  get size(): number {
+    return this.count;
+  }
+
+  push(client: string, waiter: T): void {
+    const queue = this.queues.get(client);
+    if (queue) {
+      queue.push(waiter);
+    } else {
+      this.queues.set(client, [waiter]);
+    }
+    this.count += 1;
+  }
+
+  /** Oldest waiter of the client whose turn it is */
+  shift(): T | undefined {
+    const next = this.queues.entries().next();
+    if (next.done) {
+      return undefined;
+    }
+
+    const [client, queue] = next.value;
+    const waiter = queue.shift();
+    this.queues.delete(client);
+    if (queue.length > 0) {
+      this.queues.set(client, queue);
+    }
+    this.count -= 1;
+    return waiter;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Quote a PostgreSQL identifier, doubling embedded double quotes
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote a schema-qualified relation name
+ */
+export function quoteQualifiedName(schema: string, name: string): string {
+  return `${quoteIdentifier(schema)}.${quoteIdentifier(name)}`;
+}
+
+/**
+ * Quote a string literal, doubling embedded single quotes
+ */
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
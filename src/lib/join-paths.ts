@@ -0,0 +1,295 @@
+import type { ConnectionManager } from '../connection/postgres-pool.js';
+import type { JoinPath, JoinStep, JoinSuggestion } from '../types.js';
+import { quoteIdentifier, quoteQualifiedName } from './identifiers.js';
+import { assertTablesExist, readForeignKeys } from './relationships.js';
+
+/** Paths collected before ranking, so dense schemas stay cheap */
+const MAX_CANDIDATE_PATHS = 100;
+
+/**
+ * `<name>_id` columns and single-column primary keys in the schemas $1,
+ * as one JSON row
+ */
+const INFERENCE_SQL = `
+  SELECT
+    (
+      SELECT COALESCE(json_agg(json_build_object(
+        'schema', n.nspname,
+        'table', c.relname,
+        'column', a.attname,
+        'type', format_type(a.atttypid, a.atttypmod)
+      )), '[]'::json)
+      FROM pg_attribute a
+      JOIN pg_class c ON c.oid = a.attrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = ANY($1::text[])
+        AND c.relkind IN ('r', 'p')
+        AND a.attnum > 0
+        AND NOT a.attisdropped
+        AND a.attname LIKE '%\\_id'
+    ) AS id_columns,
+    (
+      SELECT COALESCE(json_agg(json_build_object(
+        'schema', n.nspname,
+        'table', c.relname,
+        'column', a.attname,
+        'type', format_type(a.atttypid, a.atttypmod)
+      )), '[]'::json)
+      FROM pg_constraint k
+      JOIN pg_class c ON c.oid = k.conrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_attribute a ON a.attrelid = k.conrelid AND a.attnum = k.conkey[1]
+      WHERE k.contype = 'p'
+        AND cardinality(k.conkey) = 1
+        AND n.nspname = ANY($1::text[])
+    ) AS primary_keys
+`;
+
+interface TableColumn {
+  schema: string;
+  table: string;
+  column: string;
+  type: string;
+}
+
+interface TableRef {
+  schema: string;
+  table: string;
+}
+
+/** A join usable in both directions */
+interface Link {
+  from: TableRef;
+  fromColumns: string[];
+  to: TableRef;
+  toColumns: string[];
+  constraint?: string;
+}
+
+export interface JoinPathOptions {
+  from: TableRef;
+  to: TableRef;
+  /** Longest path to consider, in joins */
+  maxHops: number;
+  /** Also join `<name>_id` columns to the primary key of a table named after them */
+  includeInferred: boolean;
+  /** Paths to return */
+  limit: number;
+}
+
+const tableId = ({ schema, table }: TableRef) => `${schema}.${table}`;
+
+/**
+ * Table names a `<name>_id` column may refer to: the name itself and its
+ * common English plurals
+ */
+function referencedNames(column: string): string[] {
+  const name = column.slice(0, -'_id'.length);
+  const names = [name, `${name}s`, `${name}es`];
+  if (name.endsWith('y')) {
+    names.push(`${name.slice(0, -1)}ies`);
+  }
+  return names;
+}
+
+/**
+ * Links from `<name>_id` columns to the single-column primary key, of the
+ * same type, of a table named after them. Columns a foreign key already
+ * covers are skipped.
+ */
+function inferLinks(
+  idColumns: TableColumn[],
+  primaryKeys: TableColumn[],
+  declared: Link[]
+): Link[] {
+  const covered = new Set(
+    declared
+      .filter((link) => link.fromColumns.length === 1)
+      .map((link) => `${tableId(link.from)}.${link.fromColumns[0]}`)
+  );
+  const links: Link[] = [];
+  for (const column of idColumns) {
+    if (covered.has(`${tableId(column)}.${column.column}`)) {
+      continue;
+    }
+    const names = referencedNames(column.column);
+    for (const key of primaryKeys) {
+      const matches =
+        names.includes(key.table) &&
+        (key.column === 'id' || key.column === column.column) &&
+        key.type === column.type &&
+        tableId(key) !== tableId(column);
+      if (matches) {
+        links.push({
+          from: { schema: column.schema, table: column.table },
+          fromColumns: [column.column],
+          to: { schema: key.schema, table: key.table },
+          toColumns: [key.column],
+        });
+      }
+    }
+  }
+  return links;
+}
+
+/**
+ * Simple paths from `start` to `goal` no longer than the shortest one plus
+ * a join, and never longer than `maxHops`
+ */
+function findPaths(links: Link[], start: string, goal: string, maxHops: number): JoinStep[][] {
+  const adjacent = new Map<string, JoinStep[]>();
+  const add = (step: JoinStep) => {
+    const steps = adjacent.get(step.from) ?? [];
+    steps.push(step);
+    adjacent.set(step.from, steps);
+  };
+  for (const link of links) {
+    const inferred = link.constraint === undefined;
+    const forward: JoinStep = {
+      from: tableId(link.from),
+      to: tableId(link.to),
+      fromColumns: link.fromColumns,
+      toColumns: link.toColumns,
+      inferred,
+    };
+    if (!inferred) {
+      forward.constraint = link.constraint;
+    }
+    add(forward);
+    add({
+      ...forward,
+      from: forward.to,
+      to: forward.from,
+      fromColumns: forward.toColumns,
+      toColumns: forward.fromColumns,
+    });
+  }
+
+  // Hops from each table to the goal, to prune paths that cannot arrive in time
+  const distance = new Map([[goal, 0]]);
+  let frontier = [goal];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const table of frontier) {
+      for (const step of adjacent.get(table) ?? []) {
+        if (!distance.has(step.to)) {
+          distance.set(step.to, (distance.get(table) ?? 0) + 1);
+          next.push(step.to);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  const shortest = distance.get(start);
+  if (shortest === undefined || shortest > maxHops) {
+    return [];
+  }
+  const longest = Math.min(maxHops, shortest + 1);
+  const paths: JoinStep[][] = [];
+  // One pass per length, so the cap never crowds out a shorter path
+  const visit = (table: string, path: JoinStep[], seen: Set<string>, length: number) => {
+    if (paths.length >= MAX_CANDIDATE_PATHS) {
+      return;
+    }
+    if (table === goal) {
+      if (path.length === length) {
+        paths.push(path);
+      }
+      return;
+    }
+    for (const step of adjacent.get(table) ?? []) {
+      const remaining = distance.get(step.to);
+      if (
+        remaining !== undefined &&
+        !seen.has(step.to) &&
+        path.length + 1 + remaining <= length
+      ) {
+        visit(step.to, [...path, step], new Set([...seen, step.to]), length);
+      }
+    }
+  };
+  for (let length = shortest; length <= longest; length++) {
+    visit(start, [], new Set([start]), length);
+  }
+  return paths;
+}
+
+function joinSql(steps: JoinStep[], tables: Map<string, TableRef>): string {
+  const name = (id: string) => {
+    const ref = tables.get(id);
+    return ref ? quoteQualifiedName(ref.schema, ref.table) : id;
+  };
+  const lines = [`FROM ${name(steps[0].from)} t1`];
+  steps.forEach((step, index) => {
+    const left = `t${index + 1}`;
+    const right = `t${index + 2}`;
+    const conditions = step.toColumns.map(
+      (column, i) =>
+        `${right}.${quoteIdentifier(column)} = ${left}.${quoteIdentifier(step.fromColumns[i])}`
+    );
+    lines.push(`JOIN ${name(step.to)} ${right} ON ${conditions.join(' AND ')}`);
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Rank join paths between two tables along foreign keys, and optionally
+ * along joins inferred from column names. Relations the access policy
+ * blocks are never joined through.
+ * @throws Error if either table is blocked or does not exist
+ */
+export async function suggestJoins(
+  manager: ConnectionManager,
+  { from, to, maxHops, includeInferred, limit }: JoinPathOptions
+): Promise<JoinSuggestion> {
+  const policy = manager.accessPolicy;
+  policy?.assertRelation(from.schema, from.table);
+  policy?.assertRelation(to.schema, to.table);
+  if (tableId(from) === tableId(to)) {
+    throw new Error(
+      'Pick two different tables. get_relationships lists self-referencing foreign keys.'
+    );
+  }
+  await assertTablesExist(manager, [from, to]);
+
+  const links: Link[] = (await readForeignKeys(manager, null)).map((fk) => ({
+    from: { schema: fk.fromSchema, table: fk.fromTable },
+    fromColumns: fk.fromColumns,
+    to: { schema: fk.toSchema, table: fk.toTable },
+    toColumns: fk.toColumns,
+    constraint: fk.name,
+  }));
+  if (includeInferred) {
+    const schemas = Array.from(new Set([from.schema, to.schema]));
+    const result = await manager.executeQuery(INFERENCE_SQL, [schemas], { skipMasking: true });
+    const row = result.rows[0];
+    const allowed = (column: TableColumn) =>
+      !policy || policy.allowsRelation(column.schema, column.table);
+    links.push(
+      ...inferLinks(
+        (row.id_columns as TableColumn[]).filter(allowed),
+        (row.primary_keys as TableColumn[]).filter(allowed),
+        links
+      )
+    );
+  }
+
+  const tables = new Map<string, TableRef>();
+  for (const link of links) {
+    tables.set(tableId(link.from), link.from);
+    tables.set(tableId(link.to), link.to);
+  }
+  const inferredSteps = (steps: JoinStep[]) => steps.filter((step) => step.inferred).length;
+  const paths: JoinPath[] = findPaths(links, tableId(from), tableId(to), maxHops)
+    .sort((a, b) => a.length - b.length || inferredSteps(a) - inferredSteps(b))
+    .slice(0, limit)
+    .map((steps) => ({
+      length: steps.length,
+      inferred: inferredSteps(steps) > 0,
+      steps,
+      sql: joinSql(steps, tables),
+    }));
+
+  return { from: tableId(from), to: tableId(to), paths };
+}
@@ -0,0 +1,271 @@
+import { createHash } from 'node:crypto';
+import type {
+  MaskingAction,
+  MaskingPolicy,
+  MaskingRule,
+  QueryField,
+  QueryResultWithMeta,
+} from '../types.js';
+
+const MASKING_ACTIONS: ReadonlySet<string> = new Set([
+  'redact',
+  'hash',
+  'partial',
+  'null',
+]);
+
+const REDACTED_VALUE = '[REDACTED]';
+const DEFAULT_VISIBLE_CHARS = 4;
+
+/**
+ * Applied to result columns with no source column and no matching rule.
+ * Their name is chosen by the query, so no rule can be relied on to catch
+ * an expression over a masked column.
+ */
+const UNRESOLVED_COLUMN_RULE: MaskingRule = { action: 'redact' };
+
+export interface ColumnOrigin {
+  schema: string;
+  table: string;
+  column: string;
+}
+
+/**
+ * Resolve (tableID, columnID) pairs from result metadata to source columns.
+ * Keys of the returned map are `${tableID}:${columnID}`.
+ */
+export type ColumnOriginResolver = (
+  refs: Array<{ tableID: number; columnID: number }>
+) => Promise<Map<string, ColumnOrigin>>;
+
+/**
+ * Validate a masking policy document
+ * @param raw - Parsed JSON document
+ * @param source - Name used in error messages
+ * @throws Error if the document is not a valid policy
+ */
+export function parseMaskingPolicy(raw: unknown, source: string): MaskingPolicy {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${source} must contain a JSON object`);
+  }
+
+  const { rules, hashSalt } = raw as { rules?: unknown; hashSalt?: unknown };
+
+  if (!Array.isArray(rules) || rules.length === 0) {
+    throw new Error(`${source} must contain a non-empty "rules" array`);
+  }
+  if (hashSalt !== undefined && typeof hashSalt !== 'string') {
+    throw new Error(`${source} "hashSalt" must be a string`);
+  }
+
+  const parsed = rules.map((rule, index): MaskingRule => {
+    const label = `${source} rule ${index + 1}`;
+    if (!rule || typeof rule !== 'object') {
+      throw new Error(`${label} must be an object`);
+    }
+
+    const { column, pattern, action, visibleChars } = rule as Record<
+      string,
+      unknown
+    >;
+
+    if (typeof action !== 'string' || !MASKING_ACTIONS.has(action)) {
+      throw new Error(
+        `${label} "action" must be one of: redact, hash, partial, null`
+      );
+    }
+    if ((column === undefined) === (pattern === undefined)) {
+      throw new Error(`${label} must set exactly one of "column" or "pattern"`);
+    }
+    if (
+      visibleChars !== undefined &&
+      (typeof visibleChars !== 'number' ||
+        !Number.isInteger(visibleChars) ||
+        visibleChars < 0)
+    ) {
+      throw new Error(`${label} "visibleChars" must be a non-negative integer`);
+    }
+
+    if (column !== undefined) {
+      if (typeof column !== 'string' || column.split('.').length !== 3) {
+        throw new Error(
+          `${label} "column" must look like schema.table.column (use * as a wildcard)`
+        );
+      }
+      return {
+        column,
+        action: action as MaskingAction,
+        ...(visibleChars !== undefined && { visibleChars }),
+      };
+    }
+
+    if (typeof pattern !== 'string') {
+      throw new Error(`${label} "pattern" must be a string`);
+    }
+    try {
+      new RegExp(pattern, 'i');
+    } catch {
+      throw new Error(`${label} "pattern" is not a valid regular expression`);
+    }
+    return {
+      pattern,
+      action: action as MaskingAction,
+      ...(visibleChars !== undefined && { visibleChars }),
+    };
+  });
+
+  return { rules: parsed, ...(hashSalt !== undefined && { hashSalt }) };
+}
+
+interface CompiledRule {
+  rule: MaskingRule;
+  segments?: [string, string, string];
+  regex?: RegExp;
+}
+
+/**
+ * Applies a masking policy to query results. Qualified `column` rules match
+ * the source column resolved from field metadata; `pattern` rules match
+ * either the output field name or the source column name. Columns computed
+ * by expressions have no source column and are redacted unless a rule
+ * matches them.
+ */
+export class ResultMasker {
+  private readonly rules: CompiledRule[];
+  private readonly hashSalt: string;
+
+  constructor(
+    policy: MaskingPolicy,
+    private readonly resolveOrigins: ColumnOriginResolver
+  ) {
+    this.hashSalt = policy.hashSalt ?? '';
+    this.rules = policy.rules.map((rule) => ({
+      rule,
+      ...(rule.column && {
+        segments: rule.column.split('.') as [string, string, string],
+      }),
+      ...(rule.pattern && { regex: new RegExp(rule.pattern, 'i') }),
+    }));
+  }
+
+  async apply(result: QueryResultWithMeta): Promise<QueryResultWithMeta> {
+    if (!result.fields || result.fields.length === 0 || result.rows.length === 0) {
+      return result;
+    }
+
+    const origins = await this.resolveFieldOrigins(result.fields);
+    const masks = new Map<string, MaskingRule>();
+
+    for (const field of result.fields) {
+      const origin = origins.get(`${field.tableID}:${field.columnID}`);
+      const rule =
+        this.findRule(field.name, origin) ?? (origin ? undefined : UNRESOLVED_COLUMN_RULE);
+      if (rule) {
+        masks.set(field.name, rule);
+      }
+    }
+
+    if (masks.size === 0) {
+      return result;
+    }
+
+    const rows = result.rows.map((row) => {
+      const masked: Record<string, unknown> = { ...row };
+      for (const [name, rule] of masks) {
+        if (name in masked) {
+          masked[name] = this.maskValue(masked[name], rule);
+        }
+      }
+      return masked;
+    });
+
+    return { ...result, rows, maskedColumns: Array.from(masks.keys()) };
+  }
+
+  private async resolveFieldOrigins(
+    fields: QueryField[]
+  ): Promise<Map<string, ColumnOrigin>> {
+    const refs = fields.flatMap(({ tableID, columnID }) =>
+      tableID && columnID && columnID > 0 ? [{ tableID, columnID }] : []
+    );
+
+    if (refs.length === 0) {
+      return new Map();
+    }
+
+    return this.resolveOrigins(refs);
+  }
+
+  private findRule(
+    fieldName: string,
+    origin: ColumnOrigin | undefined
+  ): MaskingRule | undefined {
+    for (const { rule, segments, regex } of this.rules) {
+      if (segments) {
+        if (
+          origin &&
+          matchSegment(segments[0], origin.schema) &&
+          matchSegment(segments[1], origin.table) &&
+          matchSegment(segments[2], origin.column)
+        ) {
+          return rule;
+        }
+        continue;
+      }
+
+      if (
+        regex &&
+        (regex.test(fieldName) || (origin !== undefined && regex.test(origin.column)))
+      ) {
+        return rule;
+      }
+    }
+    return undefined;
+  }
+
+  private maskValue(value: unknown, rule: MaskingRule): unknown {
+    if (value === null || value === undefined) {
+      return value;
+    }
+
+    switch (rule.action) {
+      case 'null':
+        return null;
+      case 'redact':
+        return REDACTED_VALUE;
+      case 'hash':
+        return createHash('sha256')
+          .update(this.hashSalt)
+          .update(stringifyValue(value))
+          .digest('hex');
+      case 'partial': {
+        const text = stringifyValue(value);
+        const visible = rule.visibleChars ?? DEFAULT_VISIBLE_CHARS;
+        if (text.length <= visible) {
+          return '*'.repeat(text.length);
+        }
+        return '*'.repeat(text.length - visible) + text.slice(text.length - visible);
+      }
+    }
+  }
+}
+
+function matchSegment(pattern: string, value: string): boolean {
+  return pattern === '*' || pattern === value;
+}
+
+function stringifyValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return value.toString('hex');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
@@ -0,0 +1,263 @@
+import type { ConnectionRegistry } from '../connection/connection-registry.js';
+import type { ToolResponse, TunnelStatus } from '../types.js';
+
+type Labels = Record<string, string>;
+
+const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+
+const TUNNEL_STATUSES: TunnelStatus[] = [
+  'disconnected',
+  'connecting',
+  'connected',
+  'reconnecting',
+  'failed',
+];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels));
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+class Counter {
+  private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string
+  ) {}
+
+  inc(labels: Labels, value = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, this.help, 'counter'),
+      ...Array.from(this.values.values(), ({ labels, value }) =>
+        `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+class Histogram {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly bounds: number[] = DURATION_BUCKETS
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) {
+        series.buckets[i] += 1;
+      }
+    });
+    series.sum += value;
+    series.count += 1;
+  }
+
+  render(): string[] {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`
+        );
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+function gauge(
+  name: string,
+  help: string,
+  samples: Array<{ labels: Labels; value: number }>
+): string[] {
+  return [
+    ...header(name, help, 'gauge'),
+    ...samples.map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+  ];
+}
+
+/**
+ * SQLSTATE of a PostgreSQL error, or "none" for errors raised before the
+ * query reached the server (validation, access policy, connection state)
+ */
+export function sqlStateOf(error: unknown): string {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && /^[0-9A-Z]{5}$/.test(code) ? code : 'none';
+}
+
+/**
+ * Prometheus metrics for the HTTP transport. Tool calls and queries are
+ * recorded as they happen; pool, tunnel and session gauges are read from
+ * live state on each scrape.
+ */
+export class ServerMetrics {
+  private readonly toolCalls = new Counter(
+    'pgmcp_tool_calls_total',
+    'Tool calls by tool and outcome'
+  );
+  private readonly toolDuration = new Histogram(
+    'pgmcp_tool_duration_seconds',
+    'Tool call latency in seconds'
+  );
+  private readonly queryDuration = new Histogram(
+    'pgmcp_query_duration_seconds',
+    'SQL statement latency in seconds, including queueing for a query slot'
+  );
+  private readonly queryErrors = new Counter(
+    'pgmcp_query_errors_total',
+    'Failed SQL statements by SQLSTATE ("none" when rejected before execution)'
+  );
+
+  /**
+   * Wrap a tool handler to count calls and observe their latency
+   */
+  instrumentTool<Args extends unknown[]>(
+    tool: string,
+    handler: (...args: Args) => ToolResponse | Promise<ToolResponse>
+  ): (...args: Args) => Promise<ToolResponse> {
+    return async (...args: Args) => {
+      const startedAt = performance.now();
+      let status = 'error';
+      try {
+        const response = await handler(...args);
+        status = response.isError ? 'error' : 'success';
+        return response;
+      } finally {
+        this.toolCalls.inc({ tool, status });
+        this.toolDuration.observe(
+          { tool },
+          (performance.now() - startedAt) / 1000
+        );
+      }
+    };
+  }
+
+  recordQuery(database: string, durationMs: number, error?: unknown): void {
+    this.queryDuration.observe({ database }, durationMs / 1000);
+    if (error !== undefined) {
+      this.queryErrors.inc({ database, sqlstate: sqlStateOf(error) });
+    }
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   * @param activeSessions - Open MCP sessions; omitted in stateless mode
+   */
+  render(connections: ConnectionRegistry, activeSessions?: number): string {
+    const statuses = connections
+      .entries()
+      .map(([database, manager]) => ({ database, status: manager.getStatus() }));
+    const perDatabase = (value: (s: (typeof statuses)[number]) => number) =>
+      statuses.map((entry) => ({
+        labels: { database: entry.database },
+        value: value(entry),
+      }));
+    const tunnels = statuses.filter(({ status }) => status.tunnel);
+
+    const lines = [
+      ...this.toolCalls.render(),
+      ...this.toolDuration.render(),
+      ...this.queryDuration.render(),
+      ...this.queryErrors.render(),
+      ...gauge(
+        'pgmcp_pool_total_connections',
+        'Connections held by the pool',
+        perDatabase(({ status }) => status.pool.totalCount)
+      ),
+      ...gauge(
+        'pgmcp_pool_idle_connections',
+        'Idle connections in the pool',
+        perDatabase(({ status }) => status.pool.idleCount)
+      ),
+      ...gauge(
+        'pgmcp_pool_waiting_clients',
+        'Requests waiting for a pool connection',
+        perDatabase(({ status }) => status.pool.waitingCount)
+      ),
+      ...gauge(
+        'pgmcp_active_queries',
+        'Queries currently holding a query slot',
+        perDatabase(({ status }) => status.activeQueries)
+      ),
+      ...gauge(
+        'pgmcp_max_concurrent_queries',
+        'Configured query slot limit (MAX_CONCURRENT_QUERIES)',
+        perDatabase(({ status }) => status.maxConcurrentQueries)
+      ),
+      ...gauge(
+        'pgmcp_tunnel_status',
+        'SSH tunnel status (1 for the current status)',
+        tunnels.flatMap(({ database, status }) =>
+          TUNNEL_STATUSES.map((name) => ({
+            labels: { database, status: name },
+            value: status.tunnel?.status === name ? 1 : 0,
+          }))
+        )
+      ),
+      ...gauge(
+        'pgmcp_tunnel_reconnect_attempts',
+        'Reconnect attempts since the tunnel was last connected',
+        tunnels.map(({ database, status }) => ({
+          labels: { database },
+          value: status.tunnel?.reconnectAttempts ?? 0,
+        }))
+      ),
+    ];
+
+    if (activeSessions !== undefined) {
+      lines.push(
+        ...gauge('pgmcp_sessions_active', 'Open MCP sessions (stateful mode)', [
+          { labels: {}, value: activeSessions },
+        ])
+      );
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+}
@@ -0,0 +1,253 @@
+import type { CustomTypesConfig } from 'pg';
+import { getTypeParser } from 'pg-types';
+import { parse as parseArray } from 'postgres-array';
+import type { ValueEncoding } from '../types.js';
+
+type TextParser = (text: string) => unknown;
+
+/**
+ * Names of common built-in types as format_type() prints them, so results
+ * made of these need no pg_type lookup
+ */
+export const BUILTIN_TYPE_NAMES: Readonly<Record<number, string>> = {
+  16: 'boolean',
+  17: 'bytea',
+  18: '"char"',
+  19: 'name',
+  20: 'bigint',
+  21: 'smallint',
+  23: 'integer',
+  25: 'text',
+  26: 'oid',
+  114: 'json',
+  700: 'real',
+  701: 'double precision',
+  1000: 'boolean[]',
+  1005: 'smallint[]',
+  1007: 'integer[]',
+  1009: 'text[]',
+  1015: 'character varying[]',
+  1016: 'bigint[]',
+  1042: 'character',
+  1043: 'character varying',
+  1082: 'date',
+  1083: 'time without time zone',
+  1114: 'timestamp without time zone',
+  1184: 'timestamp with time zone',
+  1186: 'interval',
+  1266: 'time with time zone',
+  1700: 'numeric',
+  2950: 'uuid',
+  3802: 'jsonb',
+};
+
+/** `string` keeps the text; `number` converts when no digits are lost */
+function numericParser(encoding: ValueEncoding): TextParser {
+  if (encoding.numeric === 'string') {
+    return (text) => text;
+  }
+  return (text) => {
+    const value = Number(text);
+    const canonical = text.includes('.')
+      ? text.replace(/\.?0+$/, '')
+      : text;
+    return Number.isFinite(value) && String(value) === canonical ? value : text;
+  };
+}
+
+/** NaN and the infinities have no JSON number and stay text */
+function parseFloatValue(text: string): number | string {
+  const value = Number(text);
+  return Number.isFinite(value) ? value : text;
+}
+
+function byteaParser(encoding: ValueEncoding): TextParser {
+  // The default parser reads both the hex and the legacy escape output format
+  const decode = getTypeParser(17) as (text: string) => Buffer;
+  return (text) => {
+    const bytes = decode(text);
+    return encoding.bytea === 'base64'
+      ? bytes.toString('base64')
+      : `\\x${bytes.toString('hex')}`;
+  };
+}
+
+/**
+ * ISO 8601 form of a timestamp in the ISO DateStyle. Infinite and BC
+ * values, which ISO 8601 has no plain form for, are left as they are.
+ */
+function parseTimestamp(text: string): string {
+  if (!/^\d{4}-\d{2}-\d{2} /.test(text) || text.endsWith(' BC')) {
+    return text;
+  }
+  return text.replace(' ', 'T').replace(/([+-]\d{2})$/, '$1:00');
+}
+
+const parseInterval = (() => {
+  const parse = getTypeParser(1186) as (text: string) => {
+    toISOString(): string;
+  };
+  return (text: string) => parse(text).toISOString();
+})();
+
+interface Point {
+  x: number | string;
+  y: number | string;
+}
+
+function coordinates(text: string): Array<number | string> {
+  return (text.match(/[^\s,()<>[\]{}]+/g) ?? []).map(parseFloatValue);
+}
+
+function points(values: Array<number | string>): Point[] {
+  const result: Point[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    result.push({ x: values[i], y: values[i + 1] });
+  }
+  return result;
+}
+
+const GEOMETRIC_PARSERS: Record<number, TextParser> = {
+  // point: (x,y)
+  600: (text) => points(coordinates(text))[0],
+  // lseg: [(x1,y1),(x2,y2)]
+  601: (text) => {
+    const [start, end] = points(coordinates(text));
+    return { start, end };
+  },
+  // path: [(x1,y1),...] when open, ((x1,y1),...) when closed
+  602: (text) => ({ closed: text.startsWith('('), points: points(coordinates(text)) }),
+  // box: (high),(low)
+  603: (text) => {
+    const [high, low] = points(coordinates(text));
+    return { high, low };
+  },
+  // polygon: ((x1,y1),...)
+  604: (text) => ({ points: points(coordinates(text)) }),
+  // line: {A,B,C} for Ax + By + C = 0
+  628: (text) => {
+    const [a, b, c] = coordinates(text);
+    return { a, b, c };
+  },
+  // circle: <(x,y),r>
+  718: (text) => {
+    const [x, y, radius] = coordinates(text);
+    return { center: { x, y }, radius };
+  },
+};
+
+/** Read one range bound, which may be double-quoted with backslash escapes */
+function readBound(text: string, start: number): { value: string | null; end: number } {
+  if (text[start] !== '"') {
+    let end = start;
+    while (end < text.length && text[end] !== ',' && text[end] !== ')' && text[end] !== ']') {
+      end += 1;
+    }
+    return { value: end > start ? text.slice(start, end) : null, end };
+  }
+
+  let value = '';
+  let position = start + 1;
+  while (position < text.length) {
+    const char = text[position];
+    if (char === '\\') {
+      value += text[position + 1] ?? '';
+      position += 2;
+    } else if (char === '"' && text[position + 1] === '"') {
+      value += '"';
+      position += 2;
+    } else if (char === '"') {
+      return { value, end: position + 1 };
+    } else {
+      value += char;
+      position += 1;
+    }
+  }
+  throw new Error(`Malformed range literal: ${text}`);
+}
+
+/**
+ * Range as `{ lower, upper, lowerInclusive, upperInclusive }`, with a null
+ * bound when it is unbounded, or `{ empty: true }`
+ */
+function rangeParser(parseBound: TextParser): TextParser {
+  return (text) => {
+    if (text === 'empty') {
+      return { empty: true };
+    }
+    const lower = readBound(text, 1);
+    const upper = readBound(text, lower.end + 1);
+    return {
+      lower: lower.value === null ? null : parseBound(lower.value),
+      upper: upper.value === null ? null : parseBound(upper.value),
+      lowerInclusive: text[0] === '[',
+      upperInclusive: text[upper.end] === ']',
+    };
+  };
+}
+
+/** Array type OID for each element type whose parser is replaced */
+const ARRAY_TYPES: Record<number, number> = {
+  17: 1001,
+  20: 1016,
+  600: 1017,
+  601: 1018,
+  602: 1019,
+  604: 1027,
+  628: 629,
+  700: 1021,
+  701: 1022,
+  718: 719,
+  1082: 1182,
+  1114: 1115,
+  1184: 1185,
+  1186: 1187,
+  1700: 1231,
+  3904: 3905,
+  3906: 3907,
+  3908: 3909,
+  3910: 3911,
+  3912: 3913,
+  3926: 3927,
+};
+
+/**
+ * Text parsers that turn values node-postgres would return as lossy or
+ * opaque objects into JSON values that keep every digit: int8 and numeric
+ * as strings (or numbers when exact), bytea as hex or base64, timestamps as
+ * ISO 8601, intervals as ISO 8601 durations, ranges and geometric types as
+ * objects. Arrays of these types are parsed element by element.
+ */
+export function createTypeParsers(encoding: ValueEncoding): CustomTypesConfig {
+  const numeric = numericParser(encoding);
+  const parsers: Record<number, TextParser> = {
+    17: byteaParser(encoding),
+    20: numeric,
+    700: parseFloatValue,
+    701: parseFloatValue,
+    1082: (text) => text,
+    1114: parseTimestamp,
+    1184: parseTimestamp,
+    1186: parseInterval,
+    1700: numeric,
+    3904: rangeParser((text) => Number(text)),
+    3906: rangeParser(numeric),
+    3908: rangeParser(parseTimestamp),
+    3910: rangeParser(parseTimestamp),
+    3912: rangeParser((text) => text),
+    3926: rangeParser(numeric),
+    ...GEOMETRIC_PARSERS,
+  };
+
+  for (const [element, array] of Object.entries(ARRAY_TYPES)) {
+    const parseElement = parsers[Number(element)];
+    parsers[array] = (text) => parseArray(text, parseElement);
+  }
+
+  return {
+    getTypeParser: ((oid: number, format?: 'text' | 'binary') =>
+      (format ?? 'text') === 'text' && parsers[oid]
+        ? parsers[oid]
+        : getTypeParser(oid, format)) as CustomTypesConfig['getTypeParser'],
+  };
+}
@@ -0,0 +1,166 @@
+import type { RateLimitConfig } from '../types.js';
+
+const MINUTE_MS = 60_000;
+
+/** How often clients whose buckets have refilled are forgotten */
+const SWEEP_INTERVAL_MS = MINUTE_MS;
+
+/** JSON-RPC error code for a rejected request, the counterpart of HTTP 429 */
+export const RATE_LIMITED_ERROR_CODE = -32029;
+
+export interface RateLimitRejection {
+  message: string;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Query cost charged to a client after each query, since time and rows are
+ * only known once the query has run
+ */
+export interface QueryQuota {
+  recordQuery(durationMs: number, rows: number): void;
+}
+
+/**
+ * Holds up to `capacity` tokens and refills the whole capacity per minute.
+ * Charges may overdraw it; the debt is paid back by refilling.
+ */
+class TokenBucket {
+  private tokens: number;
+
+  constructor(
+    private readonly capacity: number,
+    private updatedAt: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  /** Milliseconds until `amount` tokens are available; 0 when they already are */
+  waitMs(amount: number, now: number): number {
+    this.refill(now);
+    if (this.tokens >= amount) {
+      return 0;
+    }
+    return Math.ceil(((amount - this.tokens) * MINUTE_MS) / this.capacity);
+  }
+
+  take(amount: number, now: number): void {
+    this.refill(now);
+    this.tokens -= amount;
+  }
+
+  isFull(now: number): boolean {
+    this.refill(now);
+    return this.tokens >= this.capacity;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (elapsed * this.capacity) / MINUTE_MS
+    );
+    this.updatedAt = now;
+  }
+}
+
+interface ClientBuckets {
+  calls?: TokenBucket;
+  queryMs?: TokenBucket;
+  rows?: TokenBucket;
+}
+
+/**
+ * Per-client token buckets for tool calls, query time and rows returned.
+ * Clients are keyed by whatever identifies them to the transport (token
+ * subject, session id or address).
+ */
+export class RateLimiter {
+  private readonly clients = new Map<string, ClientBuckets>();
+  private sweptAt: number;
+
+  constructor(
+    private readonly config: RateLimitConfig,
+    private readonly now: () => number = Date.now
+  ) {
+    this.sweptAt = now();
+  }
+
+  /**
+   * Admit a tool call, charging it to the client's call budget. A call is
+   * rejected while any budget is exhausted, with the time until all of them
+   * have recovered.
+   */
+  admitToolCall(client: string): RateLimitRejection | undefined {
+    const now = this.now();
+    this.sweep(now);
+    const buckets = this.bucketsFor(client, now);
+    const { toolCallsPerMinute, querySecondsPerMinute, rowsPerMinute } = this.config;
+
+    const exhausted = [
+      { waitMs: buckets.calls?.waitMs(1, now) ?? 0, limit: `${toolCallsPerMinute} tool calls` },
+      { waitMs: buckets.queryMs?.waitMs(1, now) ?? 0, limit: `${querySecondsPerMinute} seconds of query time` },
+      { waitMs: buckets.rows?.waitMs(1, now) ?? 0, limit: `${rowsPerMinute} rows` },
+    ].filter((entry) => entry.waitMs > 0);
+
+    if (exhausted.length > 0) {
+      const waitMs = Math.max(...exhausted.map((entry) => entry.waitMs));
+      const retryAfterSeconds = Math.max(1, Math.ceil(waitMs / 1000));
+      const limits = exhausted.map((entry) => entry.limit).join(' and ');
+      return {
+        message: `Rate limit exceeded: ${limits} per minute. Retry after ${retryAfterSeconds} seconds.`,
+        retryAfterSeconds,
+      };
+    }
+
+    buckets.calls?.take(1, now);
+    return undefined;
+  }
+
+  /**
+   * Account that the client's queries are charged to; undefined when no
+   * query quota is configured
+   */
+  quotaFor(client: string): QueryQuota | undefined {
+    if (!this.config.querySecondsPerMinute && !this.config.rowsPerMinute) {
+      return undefined;
+    }
+    return {
+      recordQuery: (durationMs, rows) => {
+        const now = this.now();
+        const buckets = this.bucketsFor(client, now);
+        buckets.queryMs?.take(durationMs, now);
+        buckets.rows?.take(rows, now);
+      },
+    };
+  }
+
+  private bucketsFor(client: string, now: number): ClientBuckets {
+    let buckets = this.clients.get(client);
+    if (!buckets) {
+      const { toolCallsPerMinute, querySecondsPerMinute, rowsPerMinute } = this.config;
+      buckets = {
+        ...(toolCallsPerMinute && { calls: new TokenBucket(toolCallsPerMinute, now) }),
+        ...(querySecondsPerMinute && {
+          queryMs: new TokenBucket(querySecondsPerMinute * 1000, now),
+        }),
+        ...(rowsPerMinute && { rows: new TokenBucket(rowsPerMinute, now) }),
+      };
+      this.clients.set(client, buckets);
+    }
+    return buckets;
+  }
+
+  /** A client with full buckets is indistinguishable from a new one */
+  private sweep(now: number): void {
+    if (now - this.sweptAt < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.sweptAt = now;
+    for (const [client, buckets] of this.clients) {
+      if (Object.values(buckets).every((bucket: TokenBucket) => bucket.isFull(now))) {
+        this.clients.delete(client);
+      }
+    }
+  }
+}
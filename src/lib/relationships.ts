@@ -0,0 +1,281 @@
+import type { ConnectionManager } from '../connection/postgres-pool.js';
+import type {
+  RelationshipEdge,
+  RelationshipGraph,
+  RelationshipNode,
+} from '../types.js';
+
+/**
+ * Foreign keys touching a schema, or all of them when $1 is NULL, as one
+ * JSON row. Constraints a partition inherits from its parent are left out.
+ * The referencing columns are unique when a unique index without predicate
+ * or expressions covers a subset of them.
+ */
+const FOREIGN_KEYS_SQL = `
+  SELECT
+    COALESCE(json_agg(json_build_object(
+      'name', k.conname,
+      'fromSchema', fn.nspname,
+      'fromTable', f.relname,
+      'fromColumns', (
+        SELECT json_agg(a.attname ORDER BY u.ord)
+        FROM unnest(k.conkey) WITH ORDINALITY u(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = k.conrelid AND a.attnum = u.attnum
+      ),
+      'toSchema', tn.nspname,
+      'toTable', t.relname,
+      'toColumns', (
+        SELECT json_agg(a.attname ORDER BY u.ord)
+        FROM unnest(k.confkey) WITH ORDINALITY u(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = k.confrelid AND a.attnum = u.attnum
+      ),
+      'optional', EXISTS (
+        SELECT 1
+        FROM unnest(k.conkey) u(attnum)
+        JOIN pg_attribute a ON a.attrelid = k.conrelid AND a.attnum = u.attnum
+        WHERE NOT a.attnotnull
+      ),
+      'unique', EXISTS (
+        SELECT 1 FROM pg_index x
+        WHERE x.indrelid = k.conrelid
+          AND x.indisunique
+          AND x.indpred IS NULL
+          AND x.indexprs IS NULL
+          AND (x.indkey::int2[])[0:x.indnkeyatts - 1] <@ k.conkey
+      )
+    ) ORDER BY fn.nspname, f.relname, k.conname), '[]'::json) AS foreign_keys
+  FROM pg_constraint k
+  JOIN pg_class f ON f.oid = k.conrelid
+  JOIN pg_namespace fn ON fn.oid = f.relnamespace
+  JOIN pg_class t ON t.oid = k.confrelid
+  JOIN pg_namespace tn ON tn.oid = t.relnamespace
+  WHERE k.contype = 'f'
+    AND k.conparentid = 0
+    AND ($1::text IS NULL OR fn.nspname = $1 OR tn.nspname = $1)
+`;
+
+/** Tables of the pairs ($1[i], $2[i]) that do not exist */
+const MISSING_TABLES_SQL = `
+  SELECT s.schema_name, s.table_name
+  FROM unnest($1::text[], $2::text[]) AS s(schema_name, table_name)
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = s.schema_name
+      AND c.relname = s.table_name
+      AND c.relkind IN ('r', 'p')
+  )
+`;
+
+export interface ForeignKey {
+  name: string;
+  fromSchema: string;
+  fromTable: string;
+  fromColumns: string[];
+  toSchema: string;
+  toTable: string;
+  toColumns: string[];
+  optional: boolean;
+  unique: boolean;
+}
+
+export interface RelationshipOptions {
+  schema: string;
+  /** Only the neighbourhood of this table in `schema` */
+  table?: string;
+  /** Foreign key hops to follow from `table`, in either direction */
+  depth?: number;
+}
+
+const nodeId = (schema: string, table: string) => `${schema}.${table}`;
+
+/**
+ * Keep the edges within `depth` hops of `start`, following foreign keys in
+ * both directions, plus every edge between the tables reached
+ */
+function neighbourhood(
+  edges: RelationshipEdge[],
+  start: string,
+  depth: number
+): RelationshipEdge[] {
+  const reached = new Set([start]);
+  let frontier = [start];
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const edge of edges) {
+      for (const [near, far] of [
+        [edge.from, edge.to],
+        [edge.to, edge.from],
+      ]) {
+        if (frontier.includes(near) && !reached.has(far)) {
+          reached.add(far);
+          next.push(far);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return edges.filter((edge) => reached.has(edge.from) && reached.has(edge.to));
+}
+
+function columnList(columns: string[]): string {
+  return columns.length === 1 ? columns[0] : `(${columns.join(', ')})`;
+}
+
+/**
+ * Mermaid erDiagram with the referenced table on the left. Tables outside
+ * `schema` keep their schema prefix.
+ */
+function renderMermaid(
+  graph: Pick<RelationshipGraph, 'nodes' | 'edges'>,
+  schema: string
+): string {
+  const labels = new Map(
+    graph.nodes.map((node) => [node.id, node.schema === schema ? node.table : node.id])
+  );
+  const entity = (id: string) => {
+    const label = labels.get(id) ?? id;
+    return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(label)
+      ? label
+      : `"${label.replace(/"/g, '#quot;')}"`;
+  };
+  const connected = new Set(graph.edges.flatMap((edge) => [edge.from, edge.to]));
+
+  const lines = ['erDiagram'];
+  for (const node of graph.nodes) {
+    if (!connected.has(node.id)) {
+      lines.push(`  ${entity(node.id)}`);
+    }
+  }
+  for (const edge of graph.edges) {
+    const parent = edge.optional ? '|o' : '||';
+    const child = edge.cardinality === 'one-to-one' ? 'o|' : 'o{';
+    const label = `${columnList(edge.fromColumns)} → ${columnList(edge.toColumns)}`;
+    lines.push(
+      `  ${entity(edge.to)} ${parent}--${child} ${entity(edge.from)} : "${label.replace(/"/g, '#quot;')}"`
+    );
+  }
+  return lines.join('\n');
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Graphviz digraph with an edge from each referencing table to the table it
+ * references, labelled with the columns and cardinality
+ */
+function renderDot(graph: Pick<RelationshipGraph, 'nodes' | 'edges'>): string {
+  const lines = ['digraph relationships {', '  rankdir=LR;', '  node [shape=box];'];
+  for (const node of graph.nodes) {
+    lines.push(`  ${dotString(node.id)};`);
+  }
+  for (const edge of graph.edges) {
+    const label = `${columnList(edge.fromColumns)} → ${columnList(edge.toColumns)}`;
+    const tail = edge.cardinality === 'one-to-one' ? '1' : 'N';
+    const head = edge.optional ? '0..1' : '1';
+    lines.push(
+      `  ${dotString(edge.from)} -> ${dotString(edge.to)} ` +
+        `[label=${dotString(label)}, taillabel=${dotString(tail)}, headlabel=${dotString(head)}];`
+    );
+  }
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Foreign keys touching `schema`, or every foreign key when it is null,
+ * leaving out those to or from relations the access policy blocks
+ */
+export async function readForeignKeys(
+  manager: ConnectionManager,
+  schema: string | null
+): Promise<ForeignKey[]> {
+  const policy = manager.accessPolicy;
+  const result = await manager.executeQuery(FOREIGN_KEYS_SQL, [schema], { skipMasking: true });
+  const allowed = (fkSchema: string, fkTable: string) =>
+    !policy || policy.allowsRelation(fkSchema, fkTable);
+  return (result.rows[0].foreign_keys as ForeignKey[]).filter(
+    (fk) => allowed(fk.fromSchema, fk.fromTable) && allowed(fk.toSchema, fk.toTable)
+  );
+}
+
+/**
+ * @throws Error naming the first of the tables that does not exist
+ */
+export async function assertTablesExist(
+  manager: ConnectionManager,
+  tables: Array<{ schema: string; table: string }>
+): Promise<void> {
+  const result = await manager.executeQuery(
+    MISSING_TABLES_SQL,
+    [tables.map(({ schema }) => schema), tables.map(({ table }) => table)],
+    { skipMasking: true }
+  );
+  const missing = result.rows[0];
+  if (missing) {
+    throw new Error(
+      `Table "${missing.schema_name as string}.${missing.table_name as string}" does not exist`
+    );
+  }
+}
+
+/**
+ * Foreign key graph of a schema, or of the tables within `depth` hops of
+ * one table. Edges to relations the profile's access policy blocks are
+ * left out.
+ * @throws Error if the schema or table is blocked, or the table does not exist
+ */
+export async function readRelationships(
+  manager: ConnectionManager,
+  { schema, table, depth = 1 }: RelationshipOptions
+): Promise<RelationshipGraph> {
+  const policy = manager.accessPolicy;
+  if (table !== undefined) {
+    policy?.assertRelation(schema, table);
+    await assertTablesExist(manager, [{ schema, table }]);
+  } else {
+    policy?.assertSchema(schema);
+  }
+  const foreignKeys = await readForeignKeys(manager, table === undefined ? schema : null);
+
+  const nodes = new Map<string, RelationshipNode>();
+  const addNode = (nodeSchema: string, nodeTable: string) => {
+    const id = nodeId(nodeSchema, nodeTable);
+    nodes.set(id, { id, schema: nodeSchema, table: nodeTable });
+    return id;
+  };
+
+  let edges: RelationshipEdge[] = foreignKeys.map((fk) => {
+    const from = addNode(fk.fromSchema, fk.fromTable);
+    const to = addNode(fk.toSchema, fk.toTable);
+    return {
+      name: fk.name,
+      from,
+      fromColumns: fk.fromColumns,
+      to,
+      toColumns: fk.toColumns,
+      cardinality: fk.unique ? 'one-to-one' : 'many-to-one',
+      optional: fk.optional,
+      selfReference: from === to,
+    };
+  });
+  if (table !== undefined) {
+    const start = addNode(schema, table);
+    edges = neighbourhood(edges, start, depth);
+    const reached = new Set([start, ...edges.flatMap((edge) => [edge.from, edge.to])]);
+    for (const id of nodes.keys()) {
+      if (!reached.has(id)) {
+        nodes.delete(id);
+      }
+    }
+  }
+
+  const graph = {
+    nodes: Array.from(nodes.values()).sort((a, b) => a.id.localeCompare(b.id)),
+    edges,
+  };
+  return { ...graph, mermaid: renderMermaid(graph, schema), dot: renderDot(graph) };
+}
@@ -0,0 +1,35 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { ToolAccess } from '../types.js';
+import type { QueryQuota } from './rate-limit.js';
+
+/**
+ * Request-scoped values that tool wrappers, the audit log and the
+ * connection manager read without threading them through every call
+ */
+export interface RequestContext {
+  tool?: string;
+  /** `sub` claim of the OAuth token, when the request was authenticated */
+  subject?: string;
+  /** Tools and query mode granted to the caller by the authorization policy */
+  access?: ToolAccess;
+  /** Key that query slots are shared out by (token subject, session or address) */
+  client?: string;
+  /** MCP session ID in stateful HTTP mode, which transactions are pinned to */
+  session?: string;
+  /** Per-client budget that query time and rows are charged to */
+  quota?: QueryQuota;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn` with additional request context; values from an enclosing
+ * context are kept unless overridden
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,471 @@
+import type { ConnectionManager } from '../connection/postgres-pool.js';
+import type {
+  ColumnDefinition,
+  ConstraintDefinition,
+  FunctionDefinition,
+  IndexDefinition,
+  ObjectChanges,
+  SchemaDiff,
+  SchemaSnapshot,
+  SequenceDefinition,
+  TableChanges,
+  TableDefinition,
+  ViewDefinition,
+} from '../types.js';
+import { columnClause } from './ddl.js';
+import { quoteIdentifier } from './identifiers.js';
+
+/**
+ * One row with every object kind aggregated to JSON, so MAX_ROWS cannot cut
+ * a snapshot short. NOT NULL constraints (PostgreSQL 18+) are left to the
+ * columns, indexes backing constraints to the constraints and identity
+ * sequences to their columns.
+ */
+const SNAPSHOT_SQL = `
+  SELECT
+    quote_ident(n.nspname) AS quoted_schema,
+    (
+      SELECT COALESCE(json_agg(json_build_object(
+        'name', c.relname,
+        'columns', (
+          SELECT COALESCE(json_agg(json_build_object(
+            'name', a.attname,
+            'type', format_type(a.atttypid, a.atttypmod),
+            'nullable', NOT a.attnotnull,
+            'default', pg_get_expr(d.adbin, d.adrelid),
+            'identity', a.attidentity,
+            'generated', a.attgenerated
+          ) ORDER BY a.attnum), '[]'::json)
+          FROM pg_attribute a
+          LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+          WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+        ),
+        'constraints', (
+          SELECT COALESCE(json_agg(json_build_object(
+            'name', k.conname,
+            'definition', pg_get_constraintdef(k.oid)
+          ) ORDER BY k.conname), '[]'::json)
+          FROM pg_constraint k
+          WHERE k.conrelid = c.oid AND k.contype <> 'n'
+        )
+      ) ORDER BY c.relname), '[]'::json)
+      FROM pg_class c
+      WHERE c.relnamespace = n.oid AND c.relkind IN ('r', 'p')
+    ) AS tables,
+    (
+      SELECT COALESCE(json_agg(json_build_object(
+        'name', i.relname,
+        'table', t.relname,
+        'definition', pg_get_indexdef(i.oid)
+      ) ORDER BY i.relname), '[]'::json)
+      FROM pg_index x
+      JOIN pg_class i ON i.oid = x.indexrelid
+      JOIN pg_class t ON t.oid = x.indrelid
+      WHERE t.relnamespace = n.oid
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_constraint k
+          WHERE k.conindid = x.indexrelid
+            AND k.conrelid = x.indrelid
+            AND k.contype IN ('p', 'u', 'x')
+        )
+    ) AS indexes,
+    (
+      SELECT COALESCE(json_agg(json_build_object(
+        'name', v.relname,
+        'materialized', v.relkind = 'm',
+        'definition', pg_get_viewdef(v.oid, true)
+      ) ORDER BY v.relname), '[]'::json)
+      FROM pg_class v
+      WHERE v.relnamespace = n.oid AND v.relkind IN ('v', 'm')
+    ) AS views,
+    (
+      SELECT COALESCE(json_agg(json_build_object(
+        'name', p.proname,
+        'arguments', pg_get_function_identity_arguments(p.oid),
+        'kind', CASE p.prokind WHEN 'p' THEN 'procedure' ELSE 'function' END,
+        'definition', pg_get_functiondef(p.oid)
+      ) ORDER BY p.proname), '[]'::json)
+      FROM pg_proc p
+      WHERE p.pronamespace = n.oid
+        AND p.prokind IN ('f', 'p')
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_depend e
+          WHERE e.classid = 'pg_proc'::regclass AND e.objid = p.oid AND e.deptype = 'e'
+        )
+    ) AS functions,
+    (
+      SELECT COALESCE(json_agg(json_build_object(
+        'name', c.relname,
+        'dataType', format_type(s.seqtypid, NULL),
+        'start', s.seqstart::text,
+        'increment', s.seqincrement::text,
+        'min', s.seqmin::text,
+        'max', s.seqmax::text,
+        'cycle', s.seqcycle
+      ) ORDER BY c.relname), '[]'::json)
+      FROM pg_sequence s
+      JOIN pg_class c ON c.oid = s.seqrelid
+      WHERE c.relnamespace = n.oid
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_depend e
+          WHERE e.classid = 'pg_class'::regclass AND e.objid = s.seqrelid AND e.deptype = 'i'
+        )
+    ) AS sequences
+  FROM pg_namespace n
+  WHERE n.nspname = $1
+`;
+
+/**
+ * Remove the schema qualification PostgreSQL prints for objects outside the
+ * search path, e.g. `app.users` or `'app.users_id_seq'::regclass`
+ */
+function unqualify(text: string, quotedSchema: string): string {
+  const escaped = quotedSchema.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return text.replace(new RegExp(`(?<![\\w$"])${escaped}\\.`, 'g'), '');
+}
+
+/**
+ * Read the objects of a schema, leaving out relations and functions the
+ * profile's access policy blocks
+ * @throws Error if the schema is blocked or does not exist
+ */
+export async function readSchemaSnapshot(
+  manager: ConnectionManager,
+  schema: string
+): Promise<SchemaSnapshot> {
+  const policy = manager.accessPolicy;
+  policy?.assertSchema(schema);
+
+  const result = await manager.executeQuery(SNAPSHOT_SQL, [schema], { skipMasking: true });
+  const row = result.rows[0];
+  if (!row) {
+    throw new Error(`Schema "${schema}" does not exist`);
+  }
+
+  const quotedSchema = row.quoted_schema as string;
+  const local = (text: string) => unqualify(text, quotedSchema);
+  const allowed = (name: string) => !policy || policy.allowsRelation(schema, name);
+
+  return {
+    tables: (row.tables as TableDefinition[])
+      .filter((table) => allowed(table.name))
+      .map((table) => ({
+        name: table.name,
+        columns: table.columns.map((column) => ({
+          ...column,
+          type: local(column.type),
+          default: column.default === null ? null : local(column.default),
+        })),
+        constraints: table.constraints.map((constraint) => ({
+          ...constraint,
+          definition: local(constraint.definition),
+        })),
+      })),
+    indexes: (row.indexes as IndexDefinition[])
+      .filter((index) => allowed(index.table))
+      .map((index) => ({ ...index, definition: local(index.definition) })),
+    views: (row.views as ViewDefinition[])
+      .filter((view) => allowed(view.name))
+      .map((view) => ({ ...view, definition: local(view.definition) })),
+    functions: (row.functions as FunctionDefinition[])
+      .filter((fn) => !policy || policy.allowsFunction(schema, fn.name))
+      .map((fn) => ({
+        ...fn,
+        arguments: local(fn.arguments),
+        definition: local(fn.definition),
+      })),
+    sequences: (row.sequences as SequenceDefinition[]).filter((sequence) =>
+      allowed(sequence.name)
+    ),
+  };
+}
+
+function functionKey(fn: FunctionDefinition): string {
+  return `${fn.name}(${fn.arguments})`;
+}
+
+function diffObjects<T>(
+  source: T[],
+  target: T[],
+  key: (item: T) => string,
+  equal: (a: T, b: T) => boolean
+): ObjectChanges<T> {
+  const targets = new Map(target.map((item) => [key(item), item]));
+  const sources = new Set(source.map(key));
+  const changes: ObjectChanges<T> = { added: [], removed: [], changed: [] };
+
+  for (const item of source) {
+    const name = key(item);
+    const other = targets.get(name);
+    if (other === undefined) {
+      changes.added.push(item);
+    } else if (!equal(item, other)) {
+      changes.changed.push({ name, source: item, target: other });
+    }
+  }
+  changes.removed = target.filter((item) => !sources.has(key(item)));
+  return changes;
+}
+
+function isEmpty(changes: ObjectChanges<unknown>): boolean {
+  return (
+    changes.added.length === 0 &&
+    changes.removed.length === 0 &&
+    changes.changed.length === 0
+  );
+}
+
+const byName = (item: { name: string }) => item.name;
+
+const sameDefinition = (
+  a: { definition: string },
+  b: { definition: string }
+) => a.definition === b.definition;
+
+const sameColumn = (a: ColumnDefinition, b: ColumnDefinition) =>
+  a.type === b.type &&
+  a.nullable === b.nullable &&
+  a.default === b.default &&
+  a.identity === b.identity &&
+  a.generated === b.generated;
+
+const sameView = (a: ViewDefinition, b: ViewDefinition) =>
+  a.materialized === b.materialized && a.definition === b.definition;
+
+const sameSequence = (a: SequenceDefinition, b: SequenceDefinition) =>
+  a.dataType === b.dataType &&
+  a.start === b.start &&
+  a.increment === b.increment &&
+  a.min === b.min &&
+  a.max === b.max &&
+  a.cycle === b.cycle;
+
+/**
+ * Compare two schema snapshots. Changes are described from the target's
+ * point of view: `added` objects exist only in the source.
+ */
+export function diffSchemas(
+  source: SchemaSnapshot,
+  target: SchemaSnapshot,
+  refs: Pick<SchemaDiff, 'source' | 'target'>
+): SchemaDiff {
+  const tables = diffObjects(source.tables, target.tables, byName, () => true);
+  const changedTables: TableChanges[] = [];
+  const targetTables = new Map(target.tables.map((table) => [table.name, table]));
+
+  for (const table of source.tables) {
+    const other = targetTables.get(table.name);
+    if (!other) {
+      continue;
+    }
+    const changes: TableChanges = {
+      name: table.name,
+      columns: diffObjects(table.columns, other.columns, byName, sameColumn),
+      constraints: diffObjects(
+        table.constraints,
+        other.constraints,
+        byName,
+        sameDefinition
+      ),
+    };
+    if (!isEmpty(changes.columns) || !isEmpty(changes.constraints)) {
+      changedTables.push(changes);
+    }
+  }
+
+  const diff: SchemaDiff = {
+    ...refs,
+    identical: false,
+    tables: { added: tables.added, removed: tables.removed, changed: changedTables },
+    indexes: diffObjects(source.indexes, target.indexes, byName, sameDefinition),
+    views: diffObjects(source.views, target.views, byName, sameView),
+    functions: diffObjects(source.functions, target.functions, functionKey, sameDefinition),
+    sequences: diffObjects(source.sequences, target.sequences, byName, sameSequence),
+  };
+  diff.identical =
+    tables.added.length === 0 &&
+    tables.removed.length === 0 &&
+    changedTables.length === 0 &&
+    isEmpty(diff.indexes) &&
+    isEmpty(diff.views) &&
+    isEmpty(diff.functions) &&
+    isEmpty(diff.sequences);
+  return diff;
+}
+
+function columnSql(column: ColumnDefinition): string {
+  return columnClause({ ...column, notNull: !column.nullable });
+}
+
+function sequenceOptions(sequence: SequenceDefinition): string {
+  return (
+    `AS ${sequence.dataType} INCREMENT BY ${sequence.increment} ` +
+    `MINVALUE ${sequence.min} MAXVALUE ${sequence.max} START WITH ${sequence.start} ` +
+    (sequence.cycle ? 'CYCLE' : 'NO CYCLE')
+  );
+}
+
+function viewKind(view: ViewDefinition): string {
+  return view.materialized ? 'MATERIALIZED VIEW' : 'VIEW';
+}
+
+function functionSignature(fn: FunctionDefinition): string {
+  return `${fn.kind.toUpperCase()} ${quoteIdentifier(fn.name)}(${fn.arguments})`;
+}
+
+function columnChangeSql(
+  table: string,
+  { name, source, target }: { name: string; source: ColumnDefinition; target: ColumnDefinition }
+): string[] {
+  const column = quoteIdentifier(name);
+  if (
+    source.generated !== target.generated &&
+    (source.generated || target.generated === 'v')
+  ) {
+    // Only a stored generated column can become a plain one in place
+    return [
+      `ALTER TABLE ${table} DROP COLUMN ${column};`,
+      `ALTER TABLE ${table} ADD COLUMN ${columnSql(source)};`,
+    ];
+  }
+
+  const alter = `ALTER TABLE ${table} ALTER COLUMN ${column}`;
+  const statements: string[] = [];
+  if (source.type !== target.type) {
+    statements.push(`${alter} TYPE ${source.type};`);
+  }
+  if (source.generated) {
+    if (source.default !== target.default) {
+      statements.push(`${alter} SET EXPRESSION AS (${source.default});`);
+    }
+  } else {
+    if (target.generated) {
+      statements.push(`${alter} DROP EXPRESSION;`);
+    }
+    if (target.identity && !source.identity) {
+      statements.push(`${alter} DROP IDENTITY;`);
+    }
+    const targetDefault = target.generated ? null : target.default;
+    if (source.default !== targetDefault) {
+      statements.push(
+        source.default === null
+          ? `${alter} DROP DEFAULT;`
+          : `${alter} SET DEFAULT ${source.default};`
+      );
+    }
+  }
+  if (source.nullable !== target.nullable) {
+    statements.push(`${alter} ${source.nullable ? 'DROP' : 'SET'} NOT NULL;`);
+  }
+  if (source.identity && source.identity !== target.identity) {
+    const kind = source.identity === 'a' ? 'ALWAYS' : 'BY DEFAULT';
+    statements.push(
+      target.identity
+        ? `${alter} SET GENERATED ${kind};`
+        : `${alter} ADD GENERATED ${kind} AS IDENTITY;`
+    );
+  }
+  return statements;
+}
+
+/**
+ * Statements that would make the target schema match the source: drops
+ * first, then creates, with foreign keys after the keys they reference.
+ * Names are unqualified and resolved through the search path the first
+ * statement sets. Meant for review, not to run unchecked: dropped objects
+ * lose their data and dependent objects are not followed.
+ */
+export function migrationSql(diff: SchemaDiff): string[] {
+  const { schema } = diff.target;
+  const statements = [
+    schema === 'public'
+      ? 'SET search_path TO public;'
+      : `SET search_path TO ${quoteIdentifier(schema)}, public;`,
+  ];
+  const { tables, indexes, views, functions, sequences } = diff;
+  const replacedViews = views.changed.map(({ source }) => source);
+  const replacedIndexes = indexes.changed.map(({ source }) => source);
+
+  for (const view of [...views.removed, ...views.changed.map(({ target }) => target)]) {
+    statements.push(`DROP ${viewKind(view)} ${quoteIdentifier(view.name)};`);
+  }
+  for (const index of [...indexes.removed, ...replacedIndexes]) {
+    statements.push(`DROP INDEX ${quoteIdentifier(index.name)};`);
+  }
+  for (const table of tables.changed) {
+    const name = quoteIdentifier(table.name);
+    const dropped = [
+      ...table.constraints.removed,
+      ...table.constraints.changed.map(({ target }) => target),
+    ];
+    for (const constraint of dropped) {
+      statements.push(`ALTER TABLE ${name} DROP CONSTRAINT ${quoteIdentifier(constraint.name)};`);
+    }
+    for (const column of table.columns.removed) {
+      statements.push(`ALTER TABLE ${name} DROP COLUMN ${quoteIdentifier(column.name)};`);
+    }
+  }
+  for (const table of tables.removed) {
+    statements.push(`DROP TABLE ${quoteIdentifier(table.name)};`);
+  }
+  for (const fn of functions.removed) {
+    statements.push(`DROP ${functionSignature(fn)};`);
+  }
+  for (const sequence of sequences.removed) {
+    // Sequences owned by a dropped column or table are already gone
+    statements.push(`DROP SEQUENCE IF EXISTS ${quoteIdentifier(sequence.name)};`);
+  }
+
+  for (const sequence of sequences.added) {
+    statements.push(`CREATE SEQUENCE ${quoteIdentifier(sequence.name)} ${sequenceOptions(sequence)};`);
+  }
+  for (const { source } of sequences.changed) {
+    statements.push(`ALTER SEQUENCE ${quoteIdentifier(source.name)} ${sequenceOptions(source)};`);
+  }
+  for (const fn of [...functions.added, ...functions.changed.map(({ source }) => source)]) {
+    statements.push(`${fn.definition.trim()};`);
+  }
+
+  const constraints: Array<{ table: string; constraint: ConstraintDefinition }> = [];
+  for (const table of tables.added) {
+    const columns = table.columns.map((column) => `  ${columnSql(column)}`);
+    statements.push(`CREATE TABLE ${quoteIdentifier(table.name)} (\n${columns.join(',\n')}\n);`);
+    constraints.push(
+      ...table.constraints.map((constraint) => ({ table: table.name, constraint }))
+    );
+  }
+  for (const table of tables.changed) {
+    const name = quoteIdentifier(table.name);
+    for (const column of table.columns.added) {
+      statements.push(`ALTER TABLE ${name} ADD COLUMN ${columnSql(column)};`);
+    }
+    for (const change of table.columns.changed) {
+      statements.push(...columnChangeSql(name, change));
+    }
+    constraints.push(
+      ...[
+        ...table.constraints.added,
+        ...table.constraints.changed.map(({ source }) => source),
+      ].map((constraint) => ({ table: table.name, constraint }))
+    );
+  }
+  const isForeignKey = ({ constraint }: { constraint: ConstraintDefinition }) =>
+    constraint.definition.startsWith('FOREIGN KEY');
+  for (const { table, constraint } of [
+    ...constraints.filter((entry) => !isForeignKey(entry)),
+    ...constraints.filter(isForeignKey),
+  ]) {
+    statements.push(
+      `ALTER TABLE ${quoteIdentifier(table)} ADD CONSTRAINT ${quoteIdentifier(constraint.name)} ${constraint.definition};`
+    );
+  }
+
+  for (const index of [...indexes.added, ...replacedIndexes]) {
+    statements.push(`${index.definition};`);
+  }
+  for (const view of [...views.added, ...replacedViews]) {
+    const query = view.definition.trim().replace(/;$/, '');
+    statements.push(`CREATE ${viewKind(view)} ${quoteIdentifier(view.name)} AS\n${query};`);
+  }
+  return statements;
+}
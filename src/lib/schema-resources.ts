@@ -0,0 +1,109 @@
+import type { ConnectionManager } from '../connection/postgres-pool.js';
+import type { RelationKind, RelationResource } from '../types.js';
+import { extensionMember } from './catalog.js';
+
+/**
+ * Tables, views and materialized views outside system schemas as one JSON
+ * row. Partitions and extension members are left out, like in
+ * search_schema.
+ */
+const RELATIONS_SQL = `
+  SELECT COALESCE(json_agg(json_build_object(
+    'schema', n.nspname,
+    'name', c.relname,
+    'kind', CASE c.relkind
+      WHEN 'v' THEN 'view'
+      WHEN 'm' THEN 'materialized view'
+      ELSE 'table'
+    END,
+    'comment', obj_description(c.oid, 'pg_class')
+  ) ORDER BY n.nspname, c.relname), '[]'::json) AS relations
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE c.relkind IN ('r', 'p', 'v', 'm')
+    AND NOT c.relispartition
+    AND n.nspname NOT LIKE 'pg\\_%'
+    AND n.nspname <> 'information_schema'
+    AND NOT ${extensionMember('pg_class', 'c.oid')}
+`;
+
+/** The relation $1.$2 with its columns, or no row */
+const RELATION_SQL = `
+  SELECT
+    CASE c.relkind
+      WHEN 'v' THEN 'view'
+      WHEN 'm' THEN 'materialized view'
+      ELSE 'table'
+    END AS kind,
+    obj_description(c.oid, 'pg_class') AS comment,
+    COALESCE((
+      SELECT json_agg(json_build_object(
+        'name', a.attname,
+        'type', format_type(a.atttypid, a.atttypmod),
+        'nullable', NOT a.attnotnull,
+        'default', pg_get_expr(d.adbin, d.adrelid),
+        'comment', col_description(c.oid, a.attnum)
+      ) ORDER BY a.attnum)
+      FROM pg_attribute a
+      LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+      WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+    ), '[]'::json) AS columns
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = $1
+    AND c.relname = $2
+    AND c.relkind IN ('r', 'p', 'v', 'm')
+`;
+
+export interface RelationSummary {
+  schema: string;
+  name: string;
+  kind: RelationKind;
+  comment: string | null;
+}
+
+/**
+ * URI of a relation's resource; append `/ddl` for its DDL
+ */
+export function relationUri(database: string, schema: string, name: string): string {
+  return `postgres://${[database, schema, name].map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * Relations outside system schemas, leaving out those the access policy
+ * blocks
+ */
+export async function listRelations(manager: ConnectionManager): Promise<RelationSummary[]> {
+  const policy = manager.accessPolicy;
+  const result = await manager.executeQuery(RELATIONS_SQL, [], { skipMasking: true });
+  const relations = result.rows[0].relations as RelationSummary[];
+  return policy
+    ? relations.filter((relation) => policy.allowsRelation(relation.schema, relation.name))
+    : relations;
+}
+
+/**
+ * Kind, comment and columns of a table or view
+ * @throws Error if the relation is blocked or does not exist
+ */
+export async function readRelation(
+  manager: ConnectionManager,
+  database: string,
+  schema: string,
+  name: string
+): Promise<RelationResource> {
+  manager.accessPolicy?.assertRelation(schema, name);
+  const result = await manager.executeQuery(RELATION_SQL, [schema, name], { skipMasking: true });
+  const row = result.rows[0];
+  if (!row) {
+    throw new Error(`Table or view "${schema}.${name}" does not exist`);
+  }
+  return {
+    database,
+    schema,
+    name,
+    kind: row.kind as RelationKind,
+    comment: row.comment as string | null,
+    columns: row.columns as RelationResource['columns'],
+  };
+}
@@ -0,0 +1,324 @@
+import type { ConnectionManager } from '../connection/postgres-pool.js';
+import type {
+  SchemaSearchHit,
+  SchemaSearchKind,
+  SchemaSearchResult,
+} from '../types.js';
+import { extensionMember } from './catalog.js';
+
+/**
+ * Candidates of each kind fetched for ranking; bounds the JSON row. Name
+ * matches and shorter names are kept first when there are more.
+ */
+const MAX_CANDIDATES = 2000;
+
+/** Hits scoring below this are dropped, like pg_trgm's similarity_threshold */
+const MIN_SCORE = 0.3;
+
+/** A term matching only the comment counts for this much of a name match */
+const COMMENT_WEIGHT = 0.6;
+
+/** A term matching the table of a column counts for this much of a column match */
+const TABLE_WEIGHT = 0.8;
+
+const KIND_ORDER: readonly SchemaSearchKind[] = [
+  'table',
+  'view',
+  'materialized view',
+  'foreign table',
+  'column',
+  'function',
+];
+
+/** Question words and filler dropped from natural-language queries */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'can', 'do', 'does', 'find', 'for', 'from',
+  'how', 'i', 'in', 'is', 'it', 'kept', 'keep', 'of', 'on', 'or', 'our',
+  'show', 'store', 'stored', 'the', 'their', 'to', 'us', 'we', 'what',
+  'where', 'which', 'who', 'with',
+]);
+
+/**
+ * Non-system schema names as one JSON row, for applying the access policy
+ * before searching
+ */
+const SCHEMAS_SQL = `
+  SELECT COALESCE(json_agg(nspname), '[]'::json) AS schemas
+  FROM pg_namespace
+  WHERE nspname NOT LIKE 'pg\\_%' AND nspname <> 'information_schema'
+`;
+
+/**
+ * Relations, columns and functions outside system schemas (only in the
+ * schemas $2 unless it is NULL) whose name or comment matches one of the
+ * ILIKE patterns $1, as one JSON row. Only kinds in $3 are searched unless
+ * it is NULL. Each kind stops one candidate past MAX_CANDIDATES, so
+ * callers can tell when some were cut. Partitions and extension members
+ * are left out.
+ */
+const SEARCH_SQL = `
+  WITH relations AS (
+    SELECT
+      c.oid,
+      n.nspname,
+      c.relname,
+      CASE c.relkind
+        WHEN 'v' THEN 'view'
+        WHEN 'm' THEN 'materialized view'
+        WHEN 'f' THEN 'foreign table'
+        ELSE 'table'
+      END AS kind,
+      obj_description(c.oid, 'pg_class') AS comment
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE c.relkind IN ('r', 'p', 'v', 'm', 'f')
+      AND NOT c.relispartition
+      AND n.nspname NOT LIKE 'pg\\_%'
+      AND n.nspname <> 'information_schema'
+      AND ($2::text[] IS NULL OR n.nspname = ANY($2::text[]))
+      AND NOT ${extensionMember('pg_class', 'c.oid')}
+  )
+  SELECT
+    (
+      SELECT COALESCE(json_agg(json_build_object(
+        'kind', r.kind,
+        'schema', r.nspname,
+        'name', r.relname,
+        'comment', r.comment
+      )), '[]'::json)
+      FROM (
+        SELECT * FROM relations
+        WHERE ($3::text[] IS NULL OR kind = ANY($3::text[]))
+          AND (relname ILIKE ANY($1::text[]) OR comment ILIKE ANY($1::text[]))
+        ORDER BY relname ILIKE ANY($1::text[]) DESC, length(relname), relname
+        LIMIT ${MAX_CANDIDATES + 1}
+      ) r
+    ) AS relations,
+    (
+      SELECT COALESCE(json_agg(json_build_object(
+        'kind', 'column',
+        'schema', m.nspname,
+        'table', m.relname,
+        'name', m.attname,
+        'dataType', m.data_type,
+        'comment', m.comment
+      )), '[]'::json)
+      FROM (
+        SELECT
+          r.nspname,
+          r.relname,
+          a.attname,
+          format_type(a.atttypid, a.atttypmod) AS data_type,
+          col_description(r.oid, a.attnum) AS comment
+        FROM relations r
+        JOIN pg_attribute a ON a.attrelid = r.oid AND a.attnum > 0 AND NOT a.attisdropped
+        WHERE ($3::text[] IS NULL OR 'column' = ANY($3::text[]))
+          AND (
+            a.attname ILIKE ANY($1::text[])
+            OR col_description(r.oid, a.attnum) ILIKE ANY($1::text[])
+          )
+        ORDER BY a.attname ILIKE ANY($1::text[]) DESC, length(a.attname), a.attname, r.relname
+        LIMIT ${MAX_CANDIDATES + 1}
+      ) m
+    ) AS columns,
+    (
+      SELECT COALESCE(json_agg(json_build_object(
+        'kind', 'function',
+        'schema', f.nspname,
+        'name', f.proname,
+        'comment', f.comment
+      )), '[]'::json)
+      FROM (
+        SELECT * FROM (
+          SELECT DISTINCT n.nspname, p.proname, obj_description(p.oid, 'pg_proc') AS comment
+          FROM pg_proc p
+          JOIN pg_namespace n ON n.oid = p.pronamespace
+          WHERE ($3::text[] IS NULL OR 'function' = ANY($3::text[]))
+            AND p.prokind IN ('f', 'p')
+            AND n.nspname NOT LIKE 'pg\\_%'
+            AND n.nspname <> 'information_schema'
+            AND ($2::text[] IS NULL OR n.nspname = ANY($2::text[]))
+            AND NOT ${extensionMember('pg_proc', 'p.oid')}
+            AND (p.proname ILIKE ANY($1::text[]) OR obj_description(p.oid, 'pg_proc') ILIKE ANY($1::text[]))
+        ) d
+        ORDER BY proname ILIKE ANY($1::text[]) DESC, length(proname), proname, nspname
+        LIMIT ${MAX_CANDIDATES + 1}
+      ) f
+    ) AS functions
+`;
+
+type Candidate = Omit<SchemaSearchHit, 'score'>;
+
+export interface SchemaSearchOptions {
+  /** Only search this schema */
+  schema?: string;
+  /** Only return objects of these kinds */
+  kinds?: SchemaSearchKind[];
+  limit: number;
+}
+
+/**
+ * Lowercase words of an identifier or text, splitting snake_case and
+ * camelCase
+ */
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Search terms of a query: its words without stop words or duplicates
+ */
+export function searchTerms(query: string): string[] {
+  return Array.from(new Set(words(query).filter((word) => !STOP_WORDS.has(word))));
+}
+
+/**
+ * ILIKE patterns selecting candidates: each term, and for longer terms its
+ * first and last four letters, so plurals and small typos still match
+ */
+function candidatePatterns(terms: string[]): string[] {
+  const fragments = terms.flatMap((term) =>
+    term.length > 4 ? [term.slice(0, 4), term.slice(-4)] : [term]
+  );
+  return Array.from(new Set(fragments)).map((fragment) => `%${fragment}%`);
+}
+
+/** Trigrams of a word, padded like pg_trgm does */
+function trigrams(word: string): Set<string> {
+  const padded = `  ${word} `;
+  const result = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+/**
+ * Shared trigrams over all distinct trigrams of the two words, as pg_trgm's
+ * similarity() computes it
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const trigram of a) {
+    if (b.has(trigram)) {
+      shared++;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/** Best similarity of a term to any of the words */
+function bestMatch(term: Set<string>, candidates: Set<string>[]): number {
+  return candidates.reduce((best, word) => Math.max(best, similarity(term, word)), 0);
+}
+
+/**
+ * Mean over the terms of their best match against the candidate's name,
+ * its table for a column, or its comment at a discount
+ */
+function score(terms: Set<string>[], candidate: Candidate): number {
+  const toTrigrams = (text: string) => words(text).map(trigrams);
+  const name = toTrigrams(candidate.name);
+  const table = candidate.table ? toTrigrams(candidate.table) : [];
+  const comment = candidate.comment ? toTrigrams(candidate.comment) : [];
+  const total = terms.reduce(
+    (sum, term) =>
+      sum +
+      Math.max(
+        bestMatch(term, name),
+        TABLE_WEIGHT * bestMatch(term, table),
+        COMMENT_WEIGHT * bestMatch(term, comment)
+      ),
+    0
+  );
+  return total / terms.length;
+}
+
+/**
+ * Schemas to search: the one asked for, or every non-system schema the
+ * access policy allows. Null searches all of them.
+ */
+async function searchedSchemas(
+  manager: ConnectionManager,
+  schema: string | undefined
+): Promise<string[] | null> {
+  const policy = manager.accessPolicy;
+  if (schema !== undefined) {
+    return [schema];
+  }
+  if (!policy) {
+    return null;
+  }
+  const result = await manager.executeQuery(SCHEMAS_SQL, [], { skipMasking: true });
+  return (result.rows[0].schemas as string[]).filter((name) => policy.allowsSchema(name));
+}
+
+/**
+ * Search table, view, column and function names and their comments for the
+ * words of a query, ranked by trigram similarity. Objects the access policy
+ * blocks are left out. `truncated` is set when a kind had more than
+ * MAX_CANDIDATES matching objects, so weaker matches may be missing.
+ * @throws Error if the schema is blocked or the query has no searchable words
+ */
+export async function searchSchema(
+  manager: ConnectionManager,
+  query: string,
+  { schema, kinds, limit }: SchemaSearchOptions
+): Promise<SchemaSearchResult> {
+  const policy = manager.accessPolicy;
+  if (schema !== undefined) {
+    policy?.assertSchema(schema);
+  }
+  const terms = searchTerms(query);
+  if (terms.length === 0) {
+    throw new Error(`Query "${query}" has no words to search for`);
+  }
+  const schemas = await searchedSchemas(manager, schema);
+
+  const result = await manager.executeQuery(
+    SEARCH_SQL,
+    [candidatePatterns(terms), schemas, kinds ?? null],
+    { skipMasking: true }
+  );
+  const row = result.rows[0];
+  const fetched = [
+    row.relations as Candidate[],
+    row.columns as Candidate[],
+    row.functions as Candidate[],
+  ];
+  const truncated = fetched.some((group) => group.length > MAX_CANDIDATES);
+  const candidates = fetched
+    .flatMap((group) => group.slice(0, MAX_CANDIDATES))
+    .filter((candidate) => {
+      if (!policy) {
+        return true;
+      }
+      if (candidate.kind === 'function') {
+        return policy.allowsFunction(candidate.schema, candidate.name);
+      }
+      return policy.allowsRelation(candidate.schema, candidate.table ?? candidate.name);
+    });
+
+  const termTrigrams = terms.map(trigrams);
+  const results = candidates
+    .map((candidate) => ({
+      ...candidate,
+      score: Math.round(score(termTrigrams, candidate) * 1000) / 1000,
+    }))
+    .filter((hit) => hit.score >= MIN_SCORE)
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+        `${a.schema}.${a.table ?? ''}.${a.name}`.localeCompare(
+          `${b.schema}.${b.table ?? ''}.${b.name}`
+        )
+    )
+    .slice(0, limit);
+
+  return { terms, results, truncated };
+}
@@ -0,0 +1,112 @@
+import type { ConnectionRegistry } from '../connection/connection-registry.js';
+import { obfuscateConnectionString } from './obfuscate.js';
+
+/**
+ * Hash of the relations outside system schemas, their comments and their
+ * columns. It changes with any CREATE, DROP, RENAME, COMMENT ON or column
+ * change that alters what the schema resources list or contain.
+ */
+const FINGERPRINT_SQL = `
+  SELECT md5(COALESCE(string_agg(
+    n.nspname || '.' || c.relname || ':' || c.relkind ||
+    '#' || COALESCE(md5(obj_description(c.oid, 'pg_class')), '') || '(' || (
+      SELECT COALESCE(string_agg(
+        a.attname || ' ' || format_type(a.atttypid, a.atttypmod) || CASE WHEN a.attnotnull THEN '!' ELSE '' END,
+        ',' ORDER BY a.attnum
+      ), '')
+      FROM pg_attribute a
+      WHERE a.attrelid = c.oid AND a.attnum > 0 AND NOT a.attisdropped
+    ) || ')',
+    ';' ORDER BY n.nspname, c.relname
+  ), '')) AS fingerprint
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE c.relkind IN ('r', 'p', 'v', 'm')
+    AND NOT c.relispartition
+    AND n.nspname NOT LIKE 'pg\\_%'
+    AND n.nspname <> 'information_schema'
+`;
+
+/** Called with the profile whose schema changed */
+export type SchemaChangeListener = (database: string) => void;
+
+/**
+ * Polls the catalog fingerprint of every initialized profile and tells
+ * listeners when one changes. One watcher serves every MCP server of the
+ * process; it only polls while someone is listening.
+ */
+export class SchemaWatcher {
+  private readonly listeners = new Set<SchemaChangeListener>();
+  private readonly fingerprints = new Map<string, string>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly connections: ConnectionRegistry,
+    private readonly intervalMs: number
+  ) {}
+
+  /**
+   * @returns Function removing the listener again
+   */
+  subscribe(listener: SchemaChangeListener): () => void {
+    this.listeners.add(listener);
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        void this.poll();
+      }, this.intervalMs);
+      this.timer.unref();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  /**
+   * Check each initialized profile once. The first fingerprint of a
+   * profile is only recorded; later differences notify the listeners.
+   * A profile that fails is skipped until the next poll.
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      for (const [name, manager] of this.connections.entries()) {
+        if (!manager.getStatus().initialized) {
+          continue;
+        }
+        try {
+          const result = await manager.executeQuery(FINGERPRINT_SQL, [], { skipMasking: true });
+          const fingerprint = result.rows[0].fingerprint as string;
+          const previous = this.fingerprints.get(name);
+          this.fingerprints.set(name, fingerprint);
+          if (previous !== undefined && previous !== fingerprint) {
+            for (const listener of this.listeners) {
+              listener(name);
+            }
+          }
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          console.error(
+            `[Schema] Error checking profile ${name} for schema changes:`,
+            obfuscateConnectionString(message)
+          );
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
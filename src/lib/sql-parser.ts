@@ -0,0 +1,24 @@
+import { loadModule, parseSync, type ParseResult, type RawStmt } from 'libpg-query';
+
+await loadModule();
+
+/**
+ * Parse SQL with the PostgreSQL grammar (libpg_query)
+ * @returns One raw statement per statement in the input
+ * @throws Error with the parser message if the SQL is not valid
+ */
+export function parseSql(sql: string): RawStmt[] {
+  if (sql.trim() === '') {
+    return [];
+  }
+
+  let result: ParseResult;
+  try {
+    result = parseSync(sql) as ParseResult;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`SQL syntax error: ${message}`);
+  }
+  return result.stmts ?? [];
+}
+
@@ -1,48 +1,77 @@
-const READ_ONLY_BLOCKED_KEYWORDS = new Set([
-  'COPY',
-  'TRUNCATE',
-  'LOCK',
-  'GRANT',
-  'REVOKE',
-  'PREPARE',
-  'EXECUTE',
+import type {
+  CommonTableExpr,
+  DefElem,
+  ExplainStmt,
+  InsertStmt,
+  MergeStmt,
+  MergeWhenClause,
+  Node,
+  SelectStmt,
+} from 'libpg-query';
+import { parseSql } from './sql-parser.js';
+
+const READ_ONLY_BLOCKED_STATEMENTS: Record<string, string> = {
+  CopyStmt: 'COPY',
+  TruncateStmt: 'TRUNCATE',
+  LockStmt: 'LOCK',
+  PrepareStmt: 'PREPARE',
+  ExecuteStmt: 'EXECUTE',
+};
+
+const DATA_MODIFYING_STATEMENTS: ReadonlySet<string> = new Set([
+  'InsertStmt',
+  'UpdateStmt',
+  'DeleteStmt',
+  'MergeStmt',
 ]);
 
+/**
+ * Reject SQL that could modify data or server state. The statement is parsed
+ * with the PostgreSQL grammar, so comments, quoting and nesting cannot hide
+ * anything from the check.
+ * @throws Error describing why the statement is not allowed
+ */
 export function validateReadOnlyStatement(sql: string): void {
-  if (containsMultipleStatements(sql)) {
-    throw new Error(
-      'Multiple statements not allowed. Submit one statement at a time.'
-    );
-  }
-
-  const strippedSql = stripLeadingComments(sql);
-  const normalized = strippedSql.trim().toUpperCase();
-  const firstKeyword = getFirstKeyword(strippedSql);
-
-  if (!firstKeyword) {
+  const statement = parseSingleStatement(sql);
+  if (!statement) {
     throw new Error('Empty SQL statement.');
   }
 
-  if (READ_ONLY_BLOCKED_KEYWORDS.has(firstKeyword)) {
+  const [type, body] = unwrapNode(statement);
+
+  const blockedKeyword =
+    type === 'GrantStmt'
+      ? (body as { is_grant?: boolean }).is_grant
+        ? 'GRANT'
+        : 'REVOKE'
+      : READ_ONLY_BLOCKED_STATEMENTS[type];
+  if (blockedKeyword) {
     throw new Error(
-      `${firstKeyword} statements are not allowed in read-only mode.`
+      `${blockedKeyword} statements are not allowed in read-only mode.`
     );
   }
 
-  if (firstKeyword === 'CALL') {
+  if (type === 'CallStmt') {
     throw new Error(
       'CALL statements not allowed in read-only mode (procedures may modify data).'
     );
   }
 
-  if (firstKeyword === 'DO') {
+  if (type === 'DoStmt') {
     throw new Error(
       'DO statements not allowed in read-only mode (anonymous blocks may modify data).'
     );
   }
 
-  if (firstKeyword === 'SELECT') {
-    if (containsSelectInto(strippedSql)) {
+  if (type === 'SelectStmt') {
+    const select = body as SelectStmt;
+    if (
+      containsDataModifyingCte(select) ||
+      (select.withClause && containsSelectInto(select))
+    ) {
+      throw withStatementError();
+    }
+    if (containsSelectInto(select)) {
       throw new Error(
         'SELECT INTO not allowed in read-only mode (creates tables). Use SELECT without INTO.'
       );
@@ -50,33 +79,20 @@ export function validateReadOnlyStatement(sql: string): void {
     return;
   }
 
-  if (firstKeyword === 'EXPLAIN') {
-    validateExplainStatement(strippedSql);
+  if (type === 'ExplainStmt') {
+    validateExplainStatement(body as ExplainStmt);
     return;
   }
 
-  if (firstKeyword === 'SHOW') {
+  if (type === 'VariableShowStmt') {
     return;
   }
 
-  if (firstKeyword === 'VALUES') {
-    return;
-  }
-
-  if (firstKeyword === 'TABLE') {
-    return;
-  }
-
-  if (firstKeyword === 'WITH') {
-    if (validateWithStatement(strippedSql)) {
-      return;
-    }
-    throw new Error(
-      'WITH statements only allowed when final statement is SELECT. ' +
-        'WITH ... INSERT/UPDATE/DELETE/MERGE not permitted in read-only mode.'
-    );
+  if (DATA_MODIFYING_STATEMENTS.has(type) && (body as SelectStmt).withClause) {
+    throw withStatementError();
   }
 
+  const normalized = stripLeadingComments(sql).trim().toUpperCase();
   throw new Error(
     `Statement type not allowed in read-only mode. ` +
       `Allowed: SELECT, EXPLAIN (without ANALYZE on DML), SHOW, VALUES, TABLE, WITH...SELECT. ` +
@@ -84,507 +100,389 @@ export function validateReadOnlyStatement(sql: string): void {
   );
 }
 
-function containsSelectInto(sql: string): boolean {
-  const tokens = tokenizeSimple(sql);
+/**
+ * Whether the SQL is a single plain query that can run through a cursor
+ * (SELECT, VALUES, TABLE or WITH...SELECT without data-modifying CTEs)
+ */
+export function isCursorEligible(sql: string): boolean {
+  let statement: Node | null;
+  try {
+    statement = parseSingleStatement(sql);
+  } catch {
+    return false;
+  }
+  if (!statement) {
+    return false;
+  }
 
-  let depth = 0;
+  const [type, body] = unwrapNode(statement);
+  return (
+    type === 'SelectStmt' &&
+    !containsSelectInto(body) &&
+    !containsDataModifyingCte(body)
+  );
+}
 
-  for (let i = 0; i < tokens.length; i++) {
-    const token = tokens[i].toUpperCase();
+/**
+ * Whether any CTE in the statement, at any depth, is INSERT/UPDATE/DELETE/MERGE
+ * @throws Error if the SQL does not parse
+ */
+export function cteContainsDML(sql: string): boolean {
+  return parseSql(sql).some(({ stmt }) => containsDataModifyingCte(stmt));
+}
 
-    if (token === '(') depth++;
-    else if (token === ')') depth--;
+/** Transaction statements that stay inside the current transaction */
+const SAVEPOINT_KINDS: ReadonlySet<string> = new Set([
+  'TRANS_STMT_SAVEPOINT',
+  'TRANS_STMT_RELEASE',
+  'TRANS_STMT_ROLLBACK_TO',
+]);
 
-    if (token === 'INTO' && depth === 0) {
-      return true;
+/**
+ * Reject statements that would end or replace an open transaction, such as
+ * COMMIT, ROLLBACK or PREPARE TRANSACTION. Savepoints are allowed.
+ * @throws Error if the SQL does not parse or ends the transaction
+ */
+export function validateTransactionStatement(sql: string): void {
+  for (const { stmt } of parseSql(sql)) {
+    if (!stmt) {
+      continue;
+    }
+    const [type, body] = unwrapNode(stmt);
+    if (
+      type === 'TransactionStmt' &&
+      !SAVEPOINT_KINDS.has((body as { kind?: string }).kind ?? '')
+    ) {
+      throw new Error(
+        'Transaction control statements are not allowed in a transaction. ' +
+          'Use commit_transaction or rollback_transaction.'
+      );
     }
   }
-
-  return false;
 }
 
-function validateExplainStatement(sql: string): void {
-  const normalized = stripLeadingComments(sql).trim().toUpperCase();
+export type WriteCommand = 'INSERT' | 'UPDATE' | 'DELETE' | 'MERGE';
+
+export interface WriteStatement {
+  command: WriteCommand;
+  /** Target table; `schema` is absent when the name is unqualified */
+  target: { schema?: string; name: string };
+  /** Row events the statement can cause on the target table */
+  events: Array<'INSERT' | 'UPDATE' | 'DELETE'>;
+  /** Whether the statement already has a RETURNING clause */
+  hasReturning: boolean;
+  /** Statement text without a trailing semicolon */
+  text: string;
+}
 
-  let remaining = normalized.slice('EXPLAIN'.length);
-  remaining = stripLeadingComments(remaining).trim();
+const WRITE_COMMANDS: Record<string, WriteCommand> = {
+  InsertStmt: 'INSERT',
+  UpdateStmt: 'UPDATE',
+  DeleteStmt: 'DELETE',
+  MergeStmt: 'MERGE',
+};
+
+const MERGE_ACTIONS: Partial<Record<string, 'INSERT' | 'UPDATE' | 'DELETE'>> = {
+  CMD_INSERT: 'INSERT',
+  CMD_UPDATE: 'UPDATE',
+  CMD_DELETE: 'DELETE',
+};
+
+/**
+ * Parse a single INSERT, UPDATE, DELETE or MERGE statement
+ * @throws Error if the SQL is anything else
+ */
+export function parseWriteStatement(sql: string): WriteStatement {
+  const statements = parseSql(sql);
+  const [raw] = statements;
+  const [type, body] = raw?.stmt ? unwrapNode(raw.stmt) : ['', undefined];
+  const command = WRITE_COMMANDS[type];
+  if (statements.length !== 1 || !command) {
+    throw new Error('Expected a single INSERT, UPDATE, DELETE or MERGE statement.');
+  }
 
-  let hasAnalyze = false;
+  // Statement offsets are in UTF-8 bytes; a zero length runs to the end
+  const bytes = Buffer.from(sql, 'utf8');
+  const start = raw.stmt_location ?? 0;
+  const end = raw.stmt_len ? start + raw.stmt_len : bytes.length;
+
+  const { relation, returningList } = body as InsertStmt;
+  return {
+    command,
+    target: {
+      ...(relation?.schemaname && { schema: relation.schemaname }),
+      name: relation?.relname ?? '',
+    },
+    events: writeEvents(command, body),
+    hasReturning: (returningList?.length ?? 0) > 0,
+    text: bytes.subarray(start, end).toString('utf8').trim(),
+  };
+}
 
-  if (remaining.startsWith('(')) {
-    const closeParenIndex = remaining.indexOf(')');
-    if (closeParenIndex > 0) {
-      const options = remaining.slice(1, closeParenIndex).toUpperCase();
-      hasAnalyze = options.includes('ANALYZE');
-      remaining = remaining.slice(closeParenIndex + 1);
-      remaining = stripLeadingComments(remaining).trim();
-    }
+function writeEvents(
+  command: WriteCommand,
+  body: unknown
+): WriteStatement['events'] {
+  if (command === 'INSERT') {
+    return (body as InsertStmt).onConflictClause?.action === 'ONCONFLICT_UPDATE'
+      ? ['INSERT', 'UPDATE']
+      : ['INSERT'];
   }
-
-  if (
-    remaining.startsWith('ANALYZE ') ||
-    remaining.startsWith('ANALYZE\n') ||
-    remaining.startsWith('ANALYZE\t')
-  ) {
-    hasAnalyze = true;
-    remaining = remaining.slice('ANALYZE'.length);
-    remaining = stripLeadingComments(remaining).trim();
+  if (command !== 'MERGE') {
+    return [command];
   }
 
-  const skipKeywords = [
-    'VERBOSE',
-    'COSTS',
-    'SETTINGS',
-    'BUFFERS',
-    'WAL',
-    'TIMING',
-    'SUMMARY',
-    'FORMAT',
-  ];
-  let changed = true;
-  while (changed) {
-    changed = false;
-    remaining = stripLeadingComments(remaining).trim();
-    for (const kw of skipKeywords) {
-      if (
-        remaining.startsWith(kw + ' ') ||
-        remaining.startsWith(kw + '\n') ||
-        remaining.startsWith(kw + '\t')
-      ) {
-        remaining = remaining.slice(kw.length);
-        remaining = stripLeadingComments(remaining).trim();
-        changed = true;
-      }
-    }
-    const formatTypes = ['TEXT', 'JSON', 'XML', 'YAML'];
-    for (const ft of formatTypes) {
-      if (
-        remaining.startsWith(ft + ' ') ||
-        remaining.startsWith(ft + '\n') ||
-        remaining.startsWith(ft + '\t') ||
-        remaining.startsWith(ft + ')')
-      ) {
-        remaining = remaining.slice(ft.length);
-        remaining = stripLeadingComments(remaining).trim();
-        changed = true;
-      }
+  const events = new Set<'INSERT' | 'UPDATE' | 'DELETE'>();
+  for (const node of (body as MergeStmt).mergeWhenClauses ?? []) {
+    const clause = (node as { MergeWhenClause?: MergeWhenClause }).MergeWhenClause;
+    const event = clause?.commandType && MERGE_ACTIONS[clause.commandType];
+    if (event) {
+      events.add(event);
     }
   }
+  return Array.from(events);
+}
 
-  const innerStatement = remaining;
-  const innerKeyword = getFirstKeyword(innerStatement);
-  if (innerKeyword && READ_ONLY_BLOCKED_KEYWORDS.has(innerKeyword)) {
+function parseSingleStatement(sql: string): Node | null {
+  const statements = parseSql(sql);
+  if (statements.length > 1) {
     throw new Error(
-      `EXPLAIN of ${innerKeyword} not allowed in read-only mode.`
+      'Multiple statements not allowed. Submit one statement at a time.'
     );
   }
+  return statements[0]?.stmt ?? null;
+}
 
-  if (hasAnalyze) {
-    const normalizedInner = stripLeadingComments(innerStatement).trim().toUpperCase();
-
-    const safeForAnalyze =
-      normalizedInner.startsWith('SELECT ') ||
-      normalizedInner.startsWith('SELECT\n') ||
-      normalizedInner.startsWith('SELECT\t') ||
-      normalizedInner.startsWith('TABLE ') ||
-      normalizedInner.startsWith('VALUES ') ||
-      normalizedInner.startsWith('VALUES(') ||
-      normalizedInner.startsWith('WITH ') ||
-      normalizedInner.startsWith('WITH\n');
-
-    if (!safeForAnalyze) {
-      throw new Error(
-        'EXPLAIN ANALYZE not allowed for INSERT/UPDATE/DELETE/MERGE in read-only mode. ' +
-          'ANALYZE actually executes the statement! Use EXPLAIN without ANALYZE.'
-      );
-    }
+function validateExplainStatement(explain: ExplainStmt): void {
+  if (!explain.query || !hasAnalyzeOption(explain.options)) {
+    return;
+  }
 
-    if (normalizedInner.startsWith('WITH ') || normalizedInner.startsWith('WITH\n')) {
-      const finalStatement = extractFinalStatementAfterCTEs(innerStatement);
-      if (finalStatement === null) {
-        throw new Error(
-          'EXPLAIN ANALYZE WITH ... must end with SELECT. ' +
-            'Could not parse CTE structure.'
-        );
-      }
+  const [type, body] = unwrapNode(explain.query);
 
-      const normalizedFinal = stripLeadingComments(finalStatement).trim().toUpperCase();
-
-      const isSafeFinalStatement =
-        normalizedFinal.startsWith('SELECT ') ||
-        normalizedFinal.startsWith('SELECT\n') ||
-        normalizedFinal.startsWith('SELECT\t') ||
-        normalizedFinal.startsWith('TABLE ') ||
-        normalizedFinal.startsWith('VALUES ') ||
-        normalizedFinal.startsWith('VALUES(');
-
-      if (!isSafeFinalStatement) {
-        throw new Error(
-          'EXPLAIN ANALYZE WITH ... must end with SELECT. ' +
-            'ANALYZE on WITH...INSERT/UPDATE/DELETE will execute the statement! ' +
-            `Found final statement starting with: ${normalizedFinal.slice(0, 30)}...`
-        );
-      }
+  if (type !== 'SelectStmt' || containsSelectInto(body)) {
+    throw new Error(
+      'EXPLAIN ANALYZE not allowed for INSERT/UPDATE/DELETE/MERGE in read-only mode. ' +
+        'ANALYZE actually executes the statement! Use EXPLAIN without ANALYZE.'
+    );
+  }
 
-      if (cteContainsDML(innerStatement)) {
-        throw new Error(
-          'EXPLAIN ANALYZE not allowed on data-modifying CTEs. ' +
-            'CTEs containing INSERT/UPDATE/DELETE will execute when using ANALYZE.'
-        );
-      }
-    }
+  if (containsDataModifyingCte(body)) {
+    throw new Error(
+      'EXPLAIN ANALYZE not allowed on data-modifying CTEs. ' +
+        'CTEs containing INSERT/UPDATE/DELETE will execute when using ANALYZE.'
+    );
   }
+}
 
-  const blocked = ['CALL ', 'DO '];
-  for (const prefix of blocked) {
-    if (innerStatement.startsWith(prefix)) {
-      throw new Error(
-        `EXPLAIN of ${prefix.trim()} not allowed in read-only mode.`
-      );
+function hasAnalyzeOption(options: Node[] | undefined): boolean {
+  return (options ?? []).some((option) => {
+    const def = (option as { DefElem?: DefElem }).DefElem;
+    if (def?.defname !== 'analyze') {
+      return false;
     }
-  }
+    const value = (def.arg as { String?: { sval?: string } } | undefined)?.String
+      ?.sval;
+    return value === undefined || !['false', 'off', '0'].includes(value.toLowerCase());
+  });
 }
 
-function validateWithStatement(sql: string): boolean {
-  if (cteContainsDML(sql)) {
-    return false;
-  }
+function withStatementError(): Error {
+  return new Error(
+    'WITH statements only allowed when final statement is SELECT. ' +
+      'WITH ... INSERT/UPDATE/DELETE/MERGE not permitted in read-only mode.'
+  );
+}
 
-  const finalStatement = extractFinalStatementAfterCTEs(sql);
-  if (!finalStatement) return false;
+function unwrapNode(node: Node): [string, unknown] {
+  const [entry] = Object.entries(node);
+  return entry ?? ['', undefined];
+}
 
-  const normalized = stripLeadingComments(finalStatement).trim().toUpperCase();
+function containsDataModifyingCte(tree: unknown): boolean {
+  return someNode(tree, (key, value) => {
+    if (key !== 'CommonTableExpr') {
+      return false;
+    }
+    const query = (value as CommonTableExpr).ctequery;
+    return query !== undefined && DATA_MODIFYING_STATEMENTS.has(unwrapNode(query)[0]);
+  });
+}
 
-  const isAllowed =
-    normalized.startsWith('SELECT ') ||
-    normalized.startsWith('SELECT\n') ||
-    normalized.startsWith('SELECT\t') ||
-    normalized.startsWith('TABLE ') ||
-    normalized.startsWith('VALUES ') ||
-    normalized.startsWith('VALUES(');
+function containsSelectInto(tree: unknown): boolean {
+  return someNode(tree, (key, value) => key === 'intoClause' && value !== undefined);
+}
 
-  if (!isAllowed) {
+/**
+ * Depth-first search over every property of a parse tree
+ */
+function someNode(
+  tree: unknown,
+  predicate: (key: string, value: unknown) => boolean
+): boolean {
+  if (Array.isArray(tree)) {
+    return tree.some((item) => someNode(item, predicate));
+  }
+  if (!tree || typeof tree !== 'object') {
     return false;
   }
 
-  if (normalized.startsWith('SELECT')) {
-    return !containsSelectInto(finalStatement);
-  }
+  return Object.entries(tree).some(
+    ([key, value]) => predicate(key, value) || someNode(value, predicate)
+  );
+}
 
-  return true;
+interface Token {
+  text: string;
+  start: number;
+  word: boolean;
+  /** String, dollar-quoted or numeric constant */
+  literal?: boolean;
 }
 
-function skipWhitespaceAndComments(sql: string, start: number): number {
-  let i = start;
+const NUMBER_PATTERN =
+  /^(?:0[xX][0-9a-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?)/;
+
+/**
+ * Split SQL into words and punctuation, skipping comments and treating
+ * quoted strings, quoted identifiers, dollar-quoted bodies, numbers and
+ * parameter references as opaque tokens. Used only for lexical helpers;
+ * validation works on the parse tree.
+ */
+function scanTokens(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
 
   while (i < sql.length) {
     const char = sql[i];
-    const nextChar = sql[i + 1] || '';
+    const next = sql[i + 1] ?? '';
 
     if (/\s/.test(char)) {
       i++;
       continue;
     }
 
-    if (char === '-' && nextChar === '-') {
-      i += 2;
-      while (i < sql.length && sql[i] !== '\n') {
-        i++;
-      }
-      if (i < sql.length) i++;
+    if (char === '-' && next === '-') {
+      const newline = sql.indexOf('\n', i);
+      i = newline === -1 ? sql.length : newline + 1;
       continue;
     }
 
-    if (char === '/' && nextChar === '*') {
+    if (char === '/' && next === '*') {
+      let depth = 1;
       i += 2;
-      while (i < sql.length - 1) {
-        if (sql[i] === '*' && sql[i + 1] === '/') {
+      while (i < sql.length && depth > 0) {
+        if (sql.startsWith('/*', i)) {
+          depth++;
           i += 2;
-          break;
+        } else if (sql.startsWith('*/', i)) {
+          depth--;
+          i += 2;
+        } else {
+          i++;
         }
-        i++;
       }
       continue;
     }
 
-    break;
-  }
-
-  return i;
-}
-
-export function cteContainsDML(sql: string): boolean {
-  const upperSql = sql.toUpperCase();
-
-  let searchStart = 0;
-
-  while (true) {
-    const asIndex = upperSql.indexOf('AS', searchStart);
-    if (asIndex === -1) break;
-
-    const charBefore = asIndex > 0 ? upperSql[asIndex - 1] : ' ';
-    const charAfter = upperSql[asIndex + 2] || ' ';
-    if (/[A-Z0-9_]/.test(charBefore) || /[A-Z0-9_]/.test(charAfter)) {
-      searchStart = asIndex + 2;
-      continue;
-    }
-
-    const parenStart = skipWhitespaceAndComments(sql, asIndex + 2);
-
-    if (parenStart >= sql.length || sql[parenStart] !== '(') {
-      searchStart = parenStart > asIndex + 2 ? parenStart : asIndex + 2;
-      continue;
-    }
-
-    const cteBody = extractParenthesizedContent(sql, parenStart);
-    if (cteBody === null) {
-      searchStart = parenStart + 1;
-      continue;
-    }
-
-    const strippedBody = stripLeadingComments(cteBody).trim().toUpperCase();
-
-    const tokens = tokenizeSimple(strippedBody);
-    for (const token of tokens) {
-      const upper = token.toUpperCase();
-      if (
-        upper === 'INSERT' ||
-        upper === 'UPDATE' ||
-        upper === 'DELETE' ||
-        upper === 'MERGE'
-      ) {
-        return true;
-      }
-    }
-
-    searchStart = parenStart + cteBody.length + 2;
-  }
-
-  return false;
-}
-
-function extractParenthesizedContent(
-  sql: string,
-  openParenIndex: number
-): string | null {
-  if (sql[openParenIndex] !== '(') return null;
-
-  let depth = 1;
-  let i = openParenIndex + 1;
-  let inSingleQuote = false;
-  let inDoubleQuote = false;
-  let inDollarQuote = false;
-  let dollarTag = '';
-  let inLineComment = false;
-  let inBlockComment = false;
-
-  while (i < sql.length && depth > 0) {
-    const char = sql[i];
-    const nextChar = sql[i + 1] || '';
-
-    if (!inSingleQuote && !inDoubleQuote && !inDollarQuote && !inBlockComment) {
-      if (char === '-' && nextChar === '-') {
-        inLineComment = true;
-        i += 2;
-        continue;
-      }
-    }
-    if (inLineComment) {
-      if (char === '\n') inLineComment = false;
+    if (char === "'" || char === '"') {
+      const start = i;
       i++;
-      continue;
-    }
-
-    if (!inSingleQuote && !inDoubleQuote && !inDollarQuote) {
-      if (char === '/' && nextChar === '*') {
-        inBlockComment = true;
-        i += 2;
-        continue;
-      }
-    }
-    if (inBlockComment) {
-      if (char === '*' && nextChar === '/') {
-        inBlockComment = false;
-        i += 2;
-        continue;
+      while (i < sql.length) {
+        if (sql[i] === char) {
+          if (sql[i + 1] === char) {
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        i++;
       }
-      i++;
+      tokens.push({ text: sql.slice(start, i), start, word: false, literal: char === "'" });
       continue;
     }
 
-    if (char === '$' && !inSingleQuote && !inDoubleQuote) {
-      if (!inDollarQuote) {
-        const tagMatch = sql.slice(i).match(/^\$([a-zA-Z0-9_]*)\$/);
-        if (tagMatch) {
-          dollarTag = tagMatch[0];
-          inDollarQuote = true;
-          i += dollarTag.length;
-          continue;
-        }
-      } else if (sql.slice(i, i + dollarTag.length) === dollarTag) {
-        inDollarQuote = false;
-        i += dollarTag.length;
-        continue;
-      }
-    }
-    if (inDollarQuote) {
-      i++;
+    const param = char === '$' ? sql.slice(i).match(/^\$\d+/) : null;
+    if (param) {
+      tokens.push({ text: param[0], start: i, word: false });
+      i += param[0].length;
       continue;
     }
 
-    if (char === "'" && !inDoubleQuote) {
-      if (inSingleQuote && nextChar === "'") {
-        i += 2;
-        continue;
-      }
-      inSingleQuote = !inSingleQuote;
-      i++;
+    const dollarTag = char === '$' ? sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/) : null;
+    if (dollarTag) {
+      const start = i;
+      const close = sql.indexOf(dollarTag[0], i + dollarTag[0].length);
+      i = close === -1 ? sql.length : close + dollarTag[0].length;
+      tokens.push({ text: sql.slice(start, i), start, word: false, literal: true });
       continue;
     }
 
-    if (char === '"' && !inSingleQuote) {
-      if (inDoubleQuote && nextChar === '"') {
-        i += 2;
-        continue;
-      }
-      inDoubleQuote = !inDoubleQuote;
-      i++;
+    const number = sql.slice(i).match(NUMBER_PATTERN);
+    if (number) {
+      tokens.push({ text: number[0], start: i, word: false, literal: true });
+      i += number[0].length;
       continue;
     }
 
-    if (inSingleQuote || inDoubleQuote) {
-      i++;
+    const word = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_$]*/);
+    if (word) {
+      tokens.push({ text: word[0], start: i, word: true });
+      i += word[0].length;
       continue;
     }
 
-    if (char === '(') depth++;
-    else if (char === ')') depth--;
-
+    tokens.push({ text: char, start: i, word: false });
     i++;
   }
 
-  if (depth !== 0) return null;
-
-  return sql.slice(openParenIndex + 1, i - 1);
+  return tokens;
 }
 
+/**
+ * Return the text of the statement that follows a WITH clause's CTE list
+ * @returns null if the SQL has no WITH clause
+ */
 export function extractFinalStatementAfterCTEs(sql: string): string | null {
-  let depth = 0;
-  let lastCTEEnd = -1;
-  let inSingleQuote = false;
-  let inDoubleQuote = false;
-  let inDollarQuote = false;
-  let inLineComment = false;
-  let inBlockComment = false;
-  let dollarTag = '';
-
-  const upperSql = sql.toUpperCase();
-  let startIdx = upperSql.indexOf('WITH');
-  if (startIdx === -1) return null;
-  startIdx += 4;
-
-  for (let i = startIdx; i < sql.length; i++) {
-    const char = sql[i];
-    const nextChar = sql[i + 1] || '';
+  const tokens = scanTokens(sql);
+  const withIndex = tokens.findIndex(
+    (token) => token.word && token.text.toUpperCase() === 'WITH'
+  );
+  if (withIndex === -1) {
+    return null;
+  }
 
-    if (!inSingleQuote && !inDoubleQuote && !inDollarQuote && !inBlockComment) {
-      if (char === '-' && nextChar === '-') {
-        inLineComment = true;
-        i++;
-        continue;
-      }
-    }
-    if (inLineComment) {
-      if (char === '\n') inLineComment = false;
-      continue;
-    }
+  let depth = 0;
+  let lastCloseParen: Token | null = null;
 
-    if (!inSingleQuote && !inDoubleQuote && !inDollarQuote) {
-      if (char === '/' && nextChar === '*') {
-        inBlockComment = true;
-        i++;
-        continue;
-      }
-    }
-    if (inBlockComment) {
-      if (char === '*' && nextChar === '/') {
-        inBlockComment = false;
-        i++;
-      }
+  for (let i = withIndex + 1; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.text === '(') {
+      depth++;
       continue;
     }
-
-    if (char === '$' && !inSingleQuote && !inDoubleQuote && !inDollarQuote) {
-      const tagMatch = sql.slice(i).match(/^\$([a-zA-Z0-9_]*)\$/);
-      if (tagMatch) {
-        dollarTag = tagMatch[0];
-        inDollarQuote = true;
-        i += dollarTag.length - 1;
-        continue;
-      }
-    } else if (inDollarQuote && sql.slice(i, i + dollarTag.length) === dollarTag) {
-      inDollarQuote = false;
-      i += dollarTag.length - 1;
+    if (token.text !== ')') {
       continue;
     }
-    if (inDollarQuote) continue;
 
-    if (char === "'" && !inDoubleQuote) {
-      if (inSingleQuote && nextChar === "'") {
-        i++;
-        continue;
-      }
-      inSingleQuote = !inSingleQuote;
+    depth--;
+    if (depth !== 0) {
       continue;
     }
 
-    if (char === '"' && !inSingleQuote) {
-      if (inDoubleQuote && nextChar === '"') {
-        i++;
-        continue;
-      }
-      inDoubleQuote = !inDoubleQuote;
-      continue;
+    lastCloseParen = token;
+    const next = tokens[i + 1];
+    if (!next) {
+      break;
     }
-
-    if (inSingleQuote || inDoubleQuote) continue;
-
-    if (char === '(') {
-      depth++;
-    } else if (char === ')') {
-      depth--;
-      if (depth === 0) {
-        lastCTEEnd = i;
-
-        let j = i + 1;
-        while (j < sql.length && /\s/.test(sql[j])) j++;
-
-        while (j < sql.length) {
-          if (sql.slice(j, j + 2) === '--') {
-            const nl = sql.indexOf('\n', j);
-            j = nl === -1 ? sql.length : nl + 1;
-            while (j < sql.length && /\s/.test(sql[j])) j++;
-          } else if (sql.slice(j, j + 2) === '/*') {
-            const end = sql.indexOf('*/', j);
-            j = end === -1 ? sql.length : end + 2;
-            while (j < sql.length && /\s/.test(sql[j])) j++;
-          } else {
-            break;
-          }
-        }
-
-        if (j < sql.length && sql[j] !== ',') {
-          return sql.slice(j);
-        }
-      }
+    // A column list, e.g. cte(a, b) AS (...), is followed by AS
+    if (next.text !== ',' && next.text.toUpperCase() !== 'AS') {
+      return sql.slice(next.start);
     }
   }
 
-  if (lastCTEEnd !== -1) {
-    return sql.slice(lastCTEEnd + 1);
-  }
-
-  return null;
+  return lastCloseParen ? sql.slice(lastCloseParen.start + 1) : null;
 }
 
 export function stripLeadingComments(sql: string): string {
@@ -611,206 +509,34 @@ export function stripLeadingComments(sql: string): string {
   return result;
 }
 
-function containsMultipleStatements(sql: string): boolean {
-  let inSingleQuote = false;
-  let inDoubleQuote = false;
-  let inDollarQuote = false;
-  let inLineComment = false;
-  let inBlockComment = false;
-  let dollarTag = '';
-  let semicolonCount = 0;
-  let lastSemicolonIndex = -1;
-
-  for (let i = 0; i < sql.length; i++) {
-    const char = sql[i];
-    const nextChar = sql[i + 1] || '';
-
-    if (!inSingleQuote && !inDoubleQuote && !inDollarQuote && !inBlockComment) {
-      if (char === '-' && nextChar === '-') {
-        inLineComment = true;
-        i++;
-        continue;
-      }
-    }
-    if (inLineComment) {
-      if (char === '\n') inLineComment = false;
-      continue;
-    }
-
-    if (!inSingleQuote && !inDoubleQuote && !inDollarQuote && !inLineComment) {
-      if (char === '/' && nextChar === '*') {
-        inBlockComment = true;
-        i++;
-        continue;
-      }
-    }
-    if (inBlockComment) {
-      if (char === '*' && nextChar === '/') {
-        inBlockComment = false;
-        i++;
-      }
-      continue;
-    }
-
-    if (char === '$' && !inSingleQuote && !inDoubleQuote) {
-      if (!inDollarQuote) {
-        const tagMatch = sql.slice(i).match(/^\$([a-zA-Z0-9_]*)\$/);
-        if (tagMatch) {
-          dollarTag = tagMatch[0];
-          inDollarQuote = true;
-          i += dollarTag.length - 1;
-          continue;
-        }
-      } else if (sql.slice(i, i + dollarTag.length) === dollarTag) {
-        inDollarQuote = false;
-        i += dollarTag.length - 1;
-        continue;
-      }
-    }
-    if (inDollarQuote) continue;
-
-    if (char === "'" && !inDoubleQuote) {
-      if (inSingleQuote && nextChar === "'") {
-        i++;
-        continue;
-      }
-      inSingleQuote = !inSingleQuote;
-      continue;
-    }
-
-    if (char === '"' && !inSingleQuote) {
-      if (inDoubleQuote && nextChar === '"') {
-        i++;
-        continue;
-      }
-      inDoubleQuote = !inDoubleQuote;
-      continue;
-    }
-
-    if (inSingleQuote || inDoubleQuote) continue;
-
-    if (char === ';') {
-      semicolonCount++;
-      lastSemicolonIndex = i;
-      if (semicolonCount > 1) return true;
-    }
-  }
-
-  if (lastSemicolonIndex > -1) {
-    const afterSemicolon = stripLeadingComments(
-      sql.slice(lastSemicolonIndex + 1)
-    ).trim();
-    if (afterSemicolon.length > 0) {
-      return true;
-    }
-  }
-
-  return false;
+export function getFirstKeyword(sql: string): string | null {
+  const word = scanTokens(sql).find((token) => token.word);
+  return word ? word.text.toUpperCase() : null;
 }
 
-function tokenizeSimple(sql: string): string[] {
-  const tokens: string[] = [];
-  let current = '';
-  let inString = false;
-  let stringChar = '';
-  let inDollarQuote = false;
-  let dollarTag = '';
-  let inLineComment = false;
-  let inBlockComment = false;
-
-  for (let i = 0; i < sql.length; i++) {
-    const char = sql[i];
-    const nextChar = sql[i + 1] || '';
-
-    if (!inString && !inDollarQuote && !inBlockComment && char === '-' && nextChar === '-') {
-      if (current) tokens.push(current);
-      current = '';
-      inLineComment = true;
-      i++;
-      continue;
-    }
-    if (inLineComment) {
-      if (char === '\n') inLineComment = false;
-      continue;
-    }
-
-    if (!inString && !inDollarQuote && !inLineComment && char === '/' && nextChar === '*') {
-      if (current) tokens.push(current);
-      current = '';
-      inBlockComment = true;
-      i++;
-      continue;
-    }
-    if (inBlockComment) {
-      if (char === '*' && nextChar === '/') {
-        inBlockComment = false;
-        i++;
-      }
-      continue;
-    }
-
-    if (char === '$' && !inString) {
-      if (!inDollarQuote) {
-        const match = sql.slice(i).match(/^\$([a-zA-Z0-9_]*)\$/);
-        if (match) {
-          if (current) tokens.push(current);
-          current = '';
-          dollarTag = match[0];
-          inDollarQuote = true;
-          i += dollarTag.length - 1;
-          continue;
-        }
-      } else if (sql.slice(i, i + dollarTag.length) === dollarTag) {
-        inDollarQuote = false;
-        i += dollarTag.length - 1;
-        continue;
-      }
-    }
-    if (inDollarQuote) continue;
-
-    if ((char === "'" || char === '"') && !inString) {
-      if (current) tokens.push(current);
-      current = '';
-      inString = true;
-      stringChar = char;
-      continue;
-    }
-    if (inString && char === stringChar) {
-      if (sql[i + 1] === stringChar) {
-        i++;
-        continue;
-      }
-      inString = false;
-      continue;
-    }
-    if (inString) continue;
-
-    if (/\s/.test(char)) {
-      if (current) tokens.push(current);
-      current = '';
-      continue;
-    }
-
-    if ('(),;'.includes(char)) {
-      if (current) tokens.push(current);
-      tokens.push(char);
-      current = '';
-      continue;
-    }
-
-    current += char;
+/**
+ * Collapse SQL to a single line for logging: comments are dropped, runs of
+ * whitespace become one space and trailing semicolons are removed. String,
+ * dollar-quoted and numeric constants become `?` so logged statements do
+ * not carry the values they compare against.
+ */
+export function normalizeSql(sql: string): string {
+  let result = '';
+  let previousEnd = -1;
+
+  for (const token of scanTokens(sql)) {
+    const adjacent = token.start === previousEnd;
+    if (previousEnd !== -1 && token.start > previousEnd) {
+      result += ' ';
+    }
+    if (token.literal) {
+      // E'...', B'...', X'...', N'...' and U&'...' prefixes belong to the literal
+      result = (adjacent ? result.replace(/(?<![\w$])(?:U&|[EBXN])$/i, '') : result) + '?';
+    } else {
+      result += token.text;
+    }
+    previousEnd = token.start + token.text.length;
   }
 
-  if (current) tokens.push(current);
-  return tokens;
-}
-
-export function getFirstKeyword(sql: string): string | null {
-  const tokens = tokenizeSimple(sql);
-  for (const token of tokens) {
-    if (/^[A-Za-z_]/.test(token)) {
-      return token.toUpperCase();
-    }
-  }
-  return null;
+  return result.replace(/[\s;]+$/, '');
 }
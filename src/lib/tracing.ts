@@ -0,0 +1,212 @@
+import {
+  context,
+  propagation,
+  trace,
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type Span,
+  type Tracer,
+} from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  NodeTracerProvider,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-node';
+import {
+  ATTR_DB_NAMESPACE,
+  ATTR_DB_OPERATION_NAME,
+  ATTR_DB_QUERY_TEXT,
+  ATTR_DB_SYSTEM_NAME,
+  ATTR_ERROR_TYPE,
+  ATTR_SERVER_ADDRESS,
+  ATTR_SERVER_PORT,
+  ATTR_SERVICE_NAME,
+  ATTR_SERVICE_VERSION,
+  DB_SYSTEM_NAME_VALUE_POSTGRESQL,
+} from '@opentelemetry/semantic-conventions';
+import type { PoolClient } from 'pg';
+import { obfuscateConnectionString } from './obfuscate.js';
+import { getFirstKeyword, normalizeSql } from './sql-validator.js';
+import { VERSION } from '../version.js';
+import type { ToolResponse, TracingConfig } from '../types.js';
+
+/**
+ * Spans are created through the global API, so they are no-ops until
+ * startTracing() registers a provider. The tracer is looked up on each use
+ * because a tracer obtained before registration can stay a no-op when the
+ * SDK loads a separate copy of the API module.
+ */
+export function getTracer(): Tracer {
+  return trace.getTracer('postgresql-ssh-mcp', VERSION);
+}
+
+let tracingEnabled = false;
+
+/**
+ * Register the global tracer provider and W3C trace context propagator.
+ * The default OTLP exporter reads its endpoint, headers and timeouts from
+ * the standard OTEL_EXPORTER_OTLP_* variables.
+ * @returns Function that flushes pending spans and stops exporting
+ */
+export function startTracing(
+  config: TracingConfig | undefined,
+  exporter?: SpanExporter
+): () => Promise<void> {
+  if (!config) {
+    return async () => {};
+  }
+
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: config.serviceName,
+      [ATTR_SERVICE_VERSION]: VERSION,
+    }),
+    spanProcessors: [
+      new BatchSpanProcessor(exporter ?? new OTLPTraceExporter()),
+    ],
+  });
+  provider.register();
+  tracingEnabled = true;
+
+  return async () => {
+    tracingEnabled = false;
+    await provider.shutdown();
+    trace.disable();
+    context.disable();
+    propagation.disable();
+  };
+}
+
+/**
+ * Mark a span as failed without leaking credentials from the error message
+ */
+export function recordSpanError(span: Span, error: unknown): void {
+  const message = obfuscateConnectionString(
+    error instanceof Error ? error.message : String(error)
+  );
+  const name = error instanceof Error ? error.name : 'Error';
+  span.recordException({ name, message });
+  span.setAttribute(ATTR_ERROR_TYPE, (error as { code?: string })?.code ?? name);
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
+/**
+ * Run `fn` inside an active span that ends when it settles
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  return getTracer().startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (err) {
+      recordSpanError(span, err);
+      throw err;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Wrap a tool handler in a `tools/call <name>` span; error responses mark
+ * the span as failed
+ */
+export function traceToolHandler<Args extends unknown[]>(
+  tool: string,
+  handler: (...args: Args) => ToolResponse | Promise<ToolResponse>
+): (...args: Args) => Promise<ToolResponse> {
+  return (...args: Args) =>
+    withSpan(
+      `tools/call ${tool}`,
+      { 'mcp.method.name': 'tools/call', 'gen_ai.tool.name': tool },
+      async (span) => {
+        const response = await handler(...args);
+        if (response.isError) {
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: obfuscateConnectionString(response.content[0]?.text ?? ''),
+          });
+        }
+        return response;
+      }
+    );
+}
+
+export interface QueryTarget {
+  database: string;
+  host: string;
+  port: number;
+}
+
+type QueryCallback = (err: Error | null, result: unknown) => void;
+
+/**
+ * Give every query on this client its own span. Called once per pooled
+ * connection, so each statement (BEGIN, DECLARE, FETCH, ROLLBACK, ...)
+ * shows up under the tool call that issued it.
+ */
+export function traceClientQueries(client: PoolClient, target: QueryTarget): void {
+  if (!tracingEnabled) {
+    return;
+  }
+
+  const query = client.query.bind(client) as (...args: unknown[]) => unknown;
+  const traced = (...args: unknown[]): unknown => {
+    const [text] = args;
+    if (typeof text !== 'string') {
+      return query(...args);
+    }
+
+    const operation = getFirstKeyword(text) ?? 'QUERY';
+    const span = getTracer().startSpan(
+      operation,
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          [ATTR_DB_SYSTEM_NAME]: DB_SYSTEM_NAME_VALUE_POSTGRESQL,
+          [ATTR_DB_NAMESPACE]: target.database,
+          [ATTR_DB_OPERATION_NAME]: operation,
+          [ATTR_DB_QUERY_TEXT]: obfuscateConnectionString(normalizeSql(text)),
+          [ATTR_SERVER_ADDRESS]: target.host,
+          [ATTR_SERVER_PORT]: target.port,
+        },
+      },
+      context.active()
+    );
+    const finish = (err: unknown): void => {
+      if (err) {
+        recordSpanError(span, err);
+      }
+      span.end();
+    };
+
+    const callbackIndex = args.findIndex((arg) => typeof arg === 'function');
+    if (callbackIndex !== -1) {
+      const callback = args[callbackIndex] as QueryCallback;
+      args[callbackIndex] = (err: Error | null, result: unknown) => {
+        finish(err);
+        callback(err, result);
+      };
+      return query(...args);
+    }
+
+    return (query(...args) as Promise<unknown>).then(
+      (result) => {
+        finish(null);
+        return result;
+      },
+      (err: unknown) => {
+        finish(err);
+        throw err;
+      }
+    );
+  };
+
+  client.query = traced as PoolClient['query'];
+}
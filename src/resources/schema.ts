@@ -0,0 +1,156 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Resource } from '@modelcontextprotocol/sdk/types.js';
+import type { ConnectionRegistry } from '../connection/connection-registry.js';
+import { auditResourceRequest } from '../lib/audit.js';
+import { isToolAllowed } from '../lib/authorization.js';
+import { readObjectDdl } from '../lib/ddl.js';
+import { obfuscateConnectionString } from '../lib/obfuscate.js';
+import { getRequestContext } from '../lib/request-context.js';
+import { listRelations, readRelation, relationUri } from '../lib/schema-resources.js';
+
+export interface SchemaResourceOptions {
+  /**
+   * Only serve callers whose access includes the tool a resource mirrors:
+   * describe_table for a relation, get_object_ddl for its DDL
+   */
+  authorize?: boolean;
+}
+
+/** A URI template variable, percent-decoded */
+function variable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Expose the tables and views of every profile as resources,
+ * postgres://<database>/<schema>/<table> for their columns and
+ * postgres://<database>/<schema>/<table>/ddl for their DDL, and announce
+ * schema changes the registry's watcher sees as resources/list_changed
+ */
+export function registerSchemaResources(
+  server: McpServer,
+  connections: ConnectionRegistry,
+  options: SchemaResourceOptions = {}
+): void {
+  const allows = (tool: string) => {
+    if (!options.authorize) {
+      return true;
+    }
+    const access = getRequestContext()?.access;
+    return access !== undefined && isToolAllowed(access, tool);
+  };
+  const assertAllowed = (tool: string) => {
+    if (!allows(tool)) {
+      throw new Error(`Access denied to resource: requires the ${tool} tool`);
+    }
+  };
+  const { audit } = connections;
+  const audited = <T>(
+    method: 'resources/list' | 'resources/read',
+    uri: string | undefined,
+    handler: () => Promise<T>
+  ): Promise<T> =>
+    audit ? auditResourceRequest(method, uri, handler, audit) : handler();
+
+  server.registerResource(
+    'relation',
+    new ResourceTemplate('postgres://{database}/{schema}/{table}', {
+      list: () => audited('resources/list', undefined, async () => {
+        if (!allows('describe_table')) {
+          return { resources: [] };
+        }
+        const resources: Resource[] = [];
+        for (const [database, manager] of connections.entries()) {
+          if (!manager.getStatus().initialized) {
+            continue;
+          }
+          try {
+            for (const relation of await listRelations(manager)) {
+              resources.push({
+                uri: relationUri(database, relation.schema, relation.name),
+                name: `${database}/${relation.schema}.${relation.name}`,
+                description:
+                  relation.comment ?? `${relation.kind} ${relation.schema}.${relation.name}`,
+                mimeType: 'application/json',
+              });
+            }
+          } catch (err) {
+            const message = err instanceof Error ? err.message : String(err);
+            console.error(
+              `[Resources] Error listing relations of profile ${database}:`,
+              obfuscateConnectionString(message)
+            );
+          }
+        }
+        return { resources };
+      }),
+    }),
+    {
+      title: 'Table or view',
+      description:
+        'Kind, comment and columns (type, nullability, default, comment) of a table, view or ' +
+          'materialized view. Append /ddl to the URI for its CREATE statements.',
+      mimeType: 'application/json',
+    },
+    (uri, variables) => audited('resources/read', uri.href, async () => {
+      assertAllowed('describe_table');
+      const database = variable(variables.database);
+      const relation = await readRelation(
+        connections.get(database),
+        database,
+        variable(variables.schema),
+        variable(variables.table)
+      );
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(relation, null, 2),
+          },
+        ],
+      };
+    })
+  );
+
+  server.registerResource(
+    'relation-ddl',
+    new ResourceTemplate('postgres://{database}/{schema}/{table}/ddl', { list: undefined }),
+    {
+      title: 'Table or view DDL',
+      description:
+        'CREATE statements of a table (with indexes, triggers, policies, comments and grants), ' +
+          'view or materialized view, as get_object_ddl returns them.',
+      mimeType: 'application/sql',
+    },
+    (uri, variables) => audited('resources/read', uri.href, async () => {
+      assertAllowed('get_object_ddl');
+      const database = variable(variables.database);
+      const schema = variable(variables.schema);
+      const table = variable(variables.table);
+      const manager = connections.get(database);
+      const { kind } = await readRelation(manager, database, schema, table);
+      const { ddl } = await readObjectDdl(manager, schema, table, kind);
+      return {
+        contents: [{ uri: uri.href, mimeType: 'application/sql', text: ddl }],
+      };
+    })
+  );
+
+  const unsubscribe = connections.schemaWatcher?.subscribe(() => {
+    if (!server.isConnected()) {
+      return;
+    }
+    server.server.sendResourceListChanged().catch((err: unknown) => {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      console.error('[Resources] Error sending resources/list_changed:', message);
+    });
+  });
+  if (unsubscribe) {
+    const onclose = server.server.onclose;
+    server.server.onclose = () => {
+      unsubscribe();
+      onclose?.();
+    };
+  }
+}
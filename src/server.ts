@@ -1,17 +1,33 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { ConnectionManager } from './connection/postgres-pool.js';
+import type { ConnectionRegistry } from './connection/connection-registry.js';
 import { registerQueryTools } from './tools/query.js';
 import { registerSchemaTools } from './tools/schema.js';
+import { registerCatalogTools } from './tools/catalog.js';
 import { registerAdminTools } from './tools/admin.js';
+import { registerApprovalTools } from './tools/approvals.js';
+import { registerTransactionTools } from './tools/transactions.js';
+import { registerSchemaResources } from './resources/schema.js';
 import { VERSION } from './version.js';
+import { auditToolHandler } from './lib/audit.js';
+import { traceToolHandler } from './lib/tracing.js';
+import { authorizeToolHandler } from './lib/authorization.js';
+import type { AuthorizationPolicy, ToolHandlerWrapper } from './types.js';
 
 export interface ServerFactoryResponse {
   server: McpServer;
   cleanup: () => Promise<void>;
 }
 
+export interface ServerOptions {
+  /** Reject tool calls outside the caller's resolved access */
+  authorizeTools?: boolean;
+  /** Grants named in access denied errors */
+  authorization?: AuthorizationPolicy;
+}
+
 export function createServer(
-  connectionManager: ConnectionManager
+  connections: ConnectionRegistry,
+  options: ServerOptions = {}
 ): ServerFactoryResponse {
   const server = new McpServer(
     {
@@ -21,18 +37,51 @@ export function createServer(
     {
       capabilities: {
         tools: { listChanged: true },
+        resources: { listChanged: true },
       },
     }
   );
 
-  registerQueryTools(server, connectionManager);
-  registerSchemaTools(server, connectionManager);
-  registerAdminTools(server, connectionManager);
+  const wrap = toolHandlerWrapper(connections, options);
+  registerQueryTools(server, connections, wrap);
+  registerTransactionTools(server, connections, wrap);
+  registerSchemaTools(server, connections, wrap);
+  registerCatalogTools(server, connections, wrap);
+  registerAdminTools(server, connections, wrap);
+  registerApprovalTools(server, connections, wrap);
+  registerSchemaResources(server, connections, {
+    authorize: options.authorizeTools,
+  });
 
   return {
     server,
     cleanup: async () => {
-      await connectionManager.close();
+      await connections.close();
     },
   };
 }
+
+/**
+ * Tracing, audit, metrics and authorization around each tool handler, in
+ * that order from the outside in
+ */
+function toolHandlerWrapper(
+  connections: ConnectionRegistry,
+  options: ServerOptions
+): ToolHandlerWrapper {
+  const { audit, metrics } = connections;
+
+  return (name, handler) => {
+    let wrapped = handler;
+    if (options.authorizeTools) {
+      wrapped = authorizeToolHandler(name, wrapped, options.authorization);
+    }
+    if (metrics) {
+      wrapped = metrics.instrumentTool(name, wrapped);
+    }
+    if (audit) {
+      wrapped = auditToolHandler(name, wrapped, audit);
+    }
+    return traceToolHandler(name, wrapped);
+  };
+}
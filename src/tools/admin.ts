@@ -1,11 +1,13 @@
 import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { ConnectionManager } from '../connection/postgres-pool.js';
+import type { ConnectionRegistry } from '../connection/connection-registry.js';
+import type { ToolHandlerWrapper } from '../types.js';
 import {
   successResponse,
   errorResponseFromError,
   wrapToolOutputSchema,
 } from '../lib/tool-response.js';
+import { DatabaseProfileArg } from './shared.js';
 
 const NullableNumber = z.union([z.number(), z.string(), z.null()]);
 const TimestampSchema = z.union([z.string(), z.date()]);
@@ -49,6 +51,25 @@ const ConnectionStatusSchema = z
     queryTimeout: z.number(),
     maxConcurrentQueries: z.number(),
     activeQueries: z.number(),
+    openCursors: z.number(),
+    openTransactions: z.number(),
+  })
+  .passthrough();
+
+const ConnectionSummarySchema = z
+  .object({
+    name: z.string(),
+    isDefault: z.boolean(),
+    initialized: z.boolean(),
+    reconnecting: z.boolean(),
+    host: z.string(),
+    port: z.number(),
+    database: z.string(),
+    user: z.string(),
+    ssl: z.boolean(),
+    sshTunnel: z.boolean(),
+    tunnelStatus: z.string().optional(),
+    mode: z.enum(['read-only', 'read-write']),
   })
   .passthrough();
 
@@ -129,6 +150,9 @@ const TableStatsResultSchema = z.union([
 const ConnectionStatusOutputSchema = wrapToolOutputSchema(
   ConnectionStatusSchema
 );
+const ListConnectionsOutputSchema = wrapToolOutputSchema(
+  z.array(ConnectionSummarySchema)
+);
 const ActiveConnectionsOutputSchema = wrapToolOutputSchema(
   z.array(ActiveConnectionRowSchema)
 );
@@ -143,20 +167,40 @@ const TableStatsOutputSchema = wrapToolOutputSchema(TableStatsResultSchema);
 
 export function registerAdminTools(
   server: McpServer,
-  connectionManager: ConnectionManager
+  connections: ConnectionRegistry,
+  wrap: ToolHandlerWrapper
 ): void {
   server.registerTool(
     'get_connection_status',
     {
       description:
         'Get connection status, pool stats, and tunnel state.',
-      inputSchema: {},
+      inputSchema: {
+        database: DatabaseProfileArg,
+      },
       outputSchema: ConnectionStatusOutputSchema,
     },
-    async () => {
-      const status = connectionManager.getStatus();
-      return successResponse(status);
-    }
+    wrap('get_connection_status', async ({ database }) => {
+      try {
+        const status = connections.get(database).getStatus();
+        return successResponse(status);
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'list_connections',
+    {
+      description:
+        'List configured database profiles with target, mode, and connection state.',
+      inputSchema: {},
+      outputSchema: ListConnectionsOutputSchema,
+    },
+    wrap('list_connections', async () => {
+      return successResponse(connections.summaries());
+    })
   );
 
   server.registerTool(
@@ -170,11 +214,13 @@ export function registerAdminTools(
           .optional()
           .default(false)
           .describe('Include idle connections in the listing'),
+        database: DatabaseProfileArg,
       },
       outputSchema: ActiveConnectionsOutputSchema,
     },
-    async ({ includeIdle }) => {
+    wrap('list_active_connections', async ({ includeIdle, database }) => {
       try {
+        const connectionManager = connections.get(database);
         let sql = `
           SELECT
             pid,
@@ -196,12 +242,12 @@ export function registerAdminTools(
 
         sql += ' ORDER BY query_start DESC NULLS LAST';
 
-        const result = await connectionManager.executeQuery(sql);
+        const result = await connectionManager.executeQuery(sql, [], { skipMasking: true });
         return successResponse(result.rows);
       } catch (error) {
         return errorResponseFromError(error);
       }
-    }
+    })
   );
 
   server.registerTool(
@@ -215,11 +261,13 @@ export function registerAdminTools(
           .optional()
           .default(5)
           .describe('Minimum duration in seconds (default: 5)'),
+        database: DatabaseProfileArg,
       },
       outputSchema: LongRunningQueriesOutputSchema,
     },
-    async ({ minDurationSeconds }) => {
+    wrap('list_long_running_queries', async ({ minDurationSeconds, database }) => {
       try {
+        const connectionManager = connections.get(database);
         const sql = `
           SELECT
             pid,
@@ -237,31 +285,36 @@ export function registerAdminTools(
           ORDER BY query_start ASC
         `;
 
-        const result = await connectionManager.executeQuery(sql, [
-          minDurationSeconds,
-        ]);
+        const result = await connectionManager.executeQuery(sql, [minDurationSeconds], {
+          skipMasking: true,
+        });
         return successResponse(result.rows);
       } catch (error) {
         return errorResponseFromError(error);
       }
-    }
+    })
   );
 
   server.registerTool(
     'get_database_version',
     {
       description: 'Get PostgreSQL server version.',
-      inputSchema: {},
+      inputSchema: {
+        database: DatabaseProfileArg,
+      },
       outputSchema: DatabaseVersionOutputSchema,
     },
-    async () => {
+    wrap('get_database_version', async ({ database }) => {
       try {
-        const result = await connectionManager.executeQuery('SELECT version()');
+        const connectionManager = connections.get(database);
+        const result = await connectionManager.executeQuery('SELECT version()', [], {
+          skipMasking: true,
+        });
         return successResponse(result.rows[0]?.version || 'Unknown');
       } catch (error) {
         return errorResponseFromError(error);
       }
-    }
+    })
   );
 
   server.registerTool(
@@ -274,11 +327,13 @@ export function registerAdminTools(
           .optional()
           .default(10)
           .describe('Number of largest tables to return (default: 10)'),
+        database: DatabaseProfileArg,
       },
       outputSchema: DatabaseSizeOutputSchema,
     },
-    async ({ limit }) => {
+    wrap('get_database_size', async ({ limit, database }) => {
       try {
+        const connectionManager = connections.get(database);
         const dbSizeSql = `
           SELECT
             pg_size_pretty(pg_database_size(current_database())) as database_size,
@@ -298,8 +353,8 @@ export function registerAdminTools(
         `;
 
         const [dbResult, tablesResult] = await Promise.all([
-          connectionManager.executeQuery(dbSizeSql),
-          connectionManager.executeQuery(tablesSql, [limit]),
+          connectionManager.executeQuery(dbSizeSql, [], { skipMasking: true }),
+          connectionManager.executeQuery(tablesSql, [limit], { skipMasking: true }),
         ]);
 
         return successResponse({
@@ -309,7 +364,7 @@ export function registerAdminTools(
       } catch (error) {
         return errorResponseFromError(error);
       }
-    }
+    })
   );
 
   server.registerTool(
@@ -324,11 +379,15 @@ export function registerAdminTools(
           .default('public')
           .describe('Schema name (default: public)'),
         table: z.string().describe('Table name'),
+        database: DatabaseProfileArg,
       },
       outputSchema: TableStatsOutputSchema,
     },
-    async ({ schema, table }) => {
+    wrap('get_table_stats', async ({ schema, table, database }) => {
       try {
+        const connectionManager = connections.get(database);
+        connectionManager.accessPolicy?.assertRelation(schema, table);
+
         const sql = `
           SELECT
             schemaname,
@@ -351,10 +410,9 @@ export function registerAdminTools(
           WHERE schemaname = $1 AND relname = $2
         `;
 
-        const result = await connectionManager.executeQuery(sql, [
-          schema,
-          table,
-        ]);
+        const result = await connectionManager.executeQuery(sql, [schema, table], {
+          skipMasking: true,
+        });
 
         if (result.rows.length === 0) {
           return successResponse({
@@ -366,6 +424,6 @@ export function registerAdminTools(
       } catch (error) {
         return errorResponseFromError(error);
       }
-    }
+    })
   );
 }
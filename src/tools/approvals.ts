@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ConnectionRegistry } from '../connection/connection-registry.js';
+import type { ToolHandlerWrapper } from '../types.js';
+import {
+  successResponse,
+  errorResponseFromError,
+  wrapToolOutputSchema,
+} from '../lib/tool-response.js';
+import { DatabaseProfileArg, PendingChangeSchema } from './shared.js';
+
+const ListChangesOutputSchema = wrapToolOutputSchema(z.array(PendingChangeSchema));
+const ChangeOutputSchema = wrapToolOutputSchema(PendingChangeSchema);
+
+const ChangeIdArg = z.string().describe('Change ID from execute_query or list_changes');
+
+export function registerApprovalTools(
+  server: McpServer,
+  connections: ConnectionRegistry,
+  wrap: ToolHandlerWrapper
+): void {
+  server.registerTool(
+    'list_changes',
+    {
+      description:
+        'List write statements queued for approval on databases with WRITE_APPROVAL, oldest first.',
+      inputSchema: {
+        status: z
+          .enum(['pending', 'approved', 'rejected', 'expired', 'executed', 'failed'])
+          .optional()
+          .default('pending')
+          .describe('Only list changes with this status'),
+        database: DatabaseProfileArg,
+      },
+      outputSchema: ListChangesOutputSchema,
+    },
+    wrap('list_changes', async ({ status, database }) => {
+      try {
+        return successResponse(connections.changes.list(status, database));
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'approve_change',
+    {
+      description:
+        'Approve a pending change and run it. The reviewer must be an authenticated identity other than ' +
+          'the submitter and needs read-write access. Returns the change with its outcome.',
+      inputSchema: {
+        id: ChangeIdArg,
+      },
+      outputSchema: ChangeOutputSchema,
+    },
+    wrap('approve_change', async ({ id }) => {
+      try {
+        return successResponse(await connections.approveChange(id));
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'reject_change',
+    {
+      description:
+        'Reject a pending change so it never runs. The reviewer must be an authenticated identity other than the submitter.',
+      inputSchema: {
+        id: ChangeIdArg,
+        reason: z.string().optional().describe('Reason recorded with the change'),
+      },
+      outputSchema: ChangeOutputSchema,
+    },
+    wrap('reject_change', async ({ id, reason }) => {
+      try {
+        return successResponse(connections.rejectChange(id, reason));
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+}
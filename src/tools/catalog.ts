@@ -0,0 +1,308 @@
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ConnectionRegistry } from '../connection/connection-registry.js';
+import type { ToolHandlerWrapper } from '../types.js';
+import {
+  successResponse,
+  errorResponseFromError,
+  wrapToolOutputSchema,
+} from '../lib/tool-response.js';
+import {
+  describeFunction,
+  listExtensions,
+  listFunctions,
+  listMaterializedViews,
+  listSequences,
+  listTriggers,
+  listTypes,
+} from '../lib/catalog.js';
+import { DatabaseProfileArg } from './shared.js';
+
+const FunctionSummarySchema = z.object({
+  schema: z.string(),
+  name: z.string(),
+  kind: z.enum(['function', 'procedure', 'aggregate', 'window']),
+  arguments: z.string(),
+  returns: z.string().nullable(),
+  language: z.string(),
+  volatility: z.enum(['immutable', 'stable', 'volatile']),
+  securityDefiner: z.boolean(),
+  comment: z.string().nullable(),
+});
+
+const FunctionDescriptionSchema = z.object({
+  schema: z.string(),
+  name: z.string(),
+  overloads: z.array(
+    FunctionSummarySchema.extend({
+      identityArguments: z.string(),
+      parameters: z.array(
+        z.object({
+          name: z.string(),
+          type: z.string(),
+          mode: z.enum(['in', 'out', 'inout', 'variadic', 'table']),
+        })
+      ),
+      owner: z.string(),
+      strict: z.boolean(),
+      parallel: z.enum(['safe', 'restricted', 'unsafe']),
+      cost: z.number(),
+      rows: z.number().nullable(),
+      config: z.array(z.string()),
+      definition: z.string().nullable(),
+    })
+  ),
+});
+
+const TriggerSchema = z.object({
+  schema: z.string(),
+  table: z.string(),
+  name: z.string(),
+  timing: z.enum(['BEFORE', 'AFTER', 'INSTEAD OF']),
+  events: z.array(z.enum(['INSERT', 'UPDATE', 'DELETE', 'TRUNCATE'])),
+  level: z.enum(['ROW', 'STATEMENT']),
+  function: z.string(),
+  enabled: z.enum(['origin', 'replica', 'always', 'disabled']),
+  definition: z.string(),
+});
+
+const UserTypeKindSchema = z.enum(['enum', 'domain', 'composite', 'range']);
+
+const TypeSchema = z.object({
+  schema: z.string(),
+  name: z.string(),
+  kind: UserTypeKindSchema,
+  owner: z.string(),
+  comment: z.string().nullable(),
+  values: z.array(z.string()).optional(),
+  baseType: z.string().optional(),
+  notNull: z.boolean().optional(),
+  default: z.string().nullable().optional(),
+  constraints: z.array(z.object({ name: z.string(), definition: z.string() })).optional(),
+  attributes: z.array(z.object({ name: z.string(), type: z.string() })).optional(),
+  subtype: z.string().optional(),
+});
+
+const ExtensionSchema = z.object({
+  name: z.string(),
+  installedVersion: z.string().nullable(),
+  defaultVersion: z.string().nullable(),
+  schema: z.string().nullable(),
+  description: z.string().nullable(),
+});
+
+const SequenceSchema = z.object({
+  schema: z.string(),
+  name: z.string(),
+  owner: z.string(),
+  dataType: z.string(),
+  start: z.string(),
+  increment: z.string(),
+  min: z.string(),
+  max: z.string(),
+  cache: z.string(),
+  cycle: z.boolean(),
+  lastValue: z.string().nullable(),
+  ownedBy: z.string().nullable(),
+});
+
+const MaterializedViewSchema = z.object({
+  schema: z.string(),
+  name: z.string(),
+  owner: z.string(),
+  populated: z.boolean(),
+  size: z.string(),
+  indexes: z.array(z.string()),
+  definition: z.string(),
+  comment: z.string().nullable(),
+});
+
+const ListFunctionsOutputSchema = wrapToolOutputSchema(z.array(FunctionSummarySchema));
+const DescribeFunctionOutputSchema = wrapToolOutputSchema(FunctionDescriptionSchema);
+const ListTriggersOutputSchema = wrapToolOutputSchema(z.array(TriggerSchema));
+const ListTypesOutputSchema = wrapToolOutputSchema(z.array(TypeSchema));
+const ListExtensionsOutputSchema = wrapToolOutputSchema(z.array(ExtensionSchema));
+const ListSequencesOutputSchema = wrapToolOutputSchema(z.array(SequenceSchema));
+const ListMaterializedViewsOutputSchema = wrapToolOutputSchema(
+  z.array(MaterializedViewSchema)
+);
+
+const SchemaArg = z
+  .string()
+  .optional()
+  .default('public')
+  .describe('Schema name (default: public)');
+
+const IncludeExtensionObjectsArg = z
+  .boolean()
+  .optional()
+  .default(false)
+  .describe('Include objects installed by extensions (e.g. PostGIS functions)');
+
+export function registerCatalogTools(
+  server: McpServer,
+  connections: ConnectionRegistry,
+  wrap: ToolHandlerWrapper
+): void {
+  server.registerTool(
+    'list_functions',
+    {
+      description:
+        'List functions, procedures, aggregates and window functions in a schema with their arguments, ' +
+          'return type, language and volatility.',
+      inputSchema: {
+        schema: SchemaArg,
+        includeExtensionObjects: IncludeExtensionObjectsArg,
+        database: DatabaseProfileArg,
+      },
+      outputSchema: ListFunctionsOutputSchema,
+    },
+    wrap('list_functions', async ({ schema, includeExtensionObjects, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        return successResponse(
+          await listFunctions(connectionManager, schema, includeExtensionObjects)
+        );
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'describe_function',
+    {
+      description:
+        'Describe a function or procedure: every overload with its parameters, return type, ' +
+          'properties (volatility, strictness, parallel safety, security definer, SET options) and source.',
+      inputSchema: {
+        schema: SchemaArg,
+        name: z.string().describe('Function or procedure name'),
+        database: DatabaseProfileArg,
+      },
+      outputSchema: DescribeFunctionOutputSchema,
+    },
+    wrap('describe_function', async ({ schema, name, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        return successResponse(await describeFunction(connectionManager, schema, name));
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'list_triggers',
+    {
+      description:
+        'List triggers in a schema or on one table with their timing, events, level, function and enabled state.',
+      inputSchema: {
+        schema: SchemaArg,
+        table: z.string().optional().describe('Only list triggers on this table'),
+        database: DatabaseProfileArg,
+      },
+      outputSchema: ListTriggersOutputSchema,
+    },
+    wrap('list_triggers', async ({ schema, table, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        return successResponse(await listTriggers(connectionManager, schema, table));
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'list_types',
+    {
+      description:
+        'List user-defined types in a schema: enums with their values, domains with their base type and checks, ' +
+          'composite types with their attributes, and range types.',
+      inputSchema: {
+        schema: SchemaArg,
+        kind: UserTypeKindSchema.optional().describe('Only list types of this kind'),
+        includeExtensionObjects: IncludeExtensionObjectsArg,
+        database: DatabaseProfileArg,
+      },
+      outputSchema: ListTypesOutputSchema,
+    },
+    wrap('list_types', async ({ schema, kind, includeExtensionObjects, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        return successResponse(
+          await listTypes(connectionManager, schema, kind, includeExtensionObjects)
+        );
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'list_extensions',
+    {
+      description: 'List installed extensions with their version and schema.',
+      inputSchema: {
+        includeAvailable: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe('Also list extensions the server can install'),
+        database: DatabaseProfileArg,
+      },
+      outputSchema: ListExtensionsOutputSchema,
+    },
+    wrap('list_extensions', async ({ includeAvailable, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        return successResponse(await listExtensions(connectionManager, includeAvailable));
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'list_sequences',
+    {
+      description:
+        'List sequences in a schema with their type, bounds, increment, last value and owning column.',
+      inputSchema: {
+        schema: SchemaArg,
+        database: DatabaseProfileArg,
+      },
+      outputSchema: ListSequencesOutputSchema,
+    },
+    wrap('list_sequences', async ({ schema, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        return successResponse(await listSequences(connectionManager, schema));
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'list_materialized_views',
+    {
+      description:
+        'List materialized views in a schema with whether they are populated, their size, indexes and query.',
+      inputSchema: {
+        schema: SchemaArg,
+        database: DatabaseProfileArg,
+      },
+      outputSchema: ListMaterializedViewsOutputSchema,
+    },
+    wrap('list_materialized_views', async ({ schema, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        return successResponse(await listMaterializedViews(connectionManager, schema));
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+}
@@ -1,15 +1,24 @@
 import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { ConnectionManager } from '../connection/postgres-pool.js';
+import type { ConnectionRegistry } from '../connection/connection-registry.js';
+import type { ToolHandlerWrapper } from '../types.js';
 import {
   successResponse,
   errorResponseFromError,
   wrapToolOutputSchema,
 } from '../lib/tool-response.js';
+import { DatabaseProfileArg, PendingChangeSchema } from './shared.js';
 
 const QueryFieldSchema = z.object({
   name: z.string(),
   dataTypeID: z.number(),
+  type: z.string().optional(),
+  tableID: z.number().optional(),
+  columnID: z.number().optional(),
+  origin: z
+    .object({ schema: z.string(), table: z.string(), column: z.string() })
+    .optional(),
+  nullable: z.boolean().optional(),
 });
 
 const ExecuteQueryResultSchema = z.object({
@@ -17,45 +26,178 @@ const ExecuteQueryResultSchema = z.object({
   rowCount: z.number(),
   truncated: z.boolean(),
   fields: z.array(QueryFieldSchema).optional(),
+  continuationToken: z.string().optional(),
+  maskedColumns: z.array(z.string()).optional(),
 });
 
-const ExecuteQueryOutputSchema = wrapToolOutputSchema(ExecuteQueryResultSchema);
+const FetchMoreResultSchema = ExecuteQueryResultSchema.extend({
+  rowsFetched: z.number(),
+});
+
+const ExecuteQueryOutputResultSchema = ExecuteQueryResultSchema.extend({
+  pendingChange: PendingChangeSchema.optional(),
+});
+
+const ExecuteQueryOutputSchema = wrapToolOutputSchema(ExecuteQueryOutputResultSchema);
+const FetchMoreOutputSchema = wrapToolOutputSchema(FetchMoreResultSchema);
 const ExplainQueryOutputSchema = wrapToolOutputSchema(z.string());
 
+const ExportQueryResultSchema = z.object({
+  path: z.string(),
+  format: z.enum(['csv', 'ndjson', 'parquet']),
+  bytes: z.number(),
+  rowCount: z.number(),
+  truncated: z.boolean(),
+  columns: z.array(
+    z.object({
+      name: z.string(),
+      type: z.string(),
+      dataTypeID: z.number(),
+    })
+  ),
+  maskedColumns: z.array(z.string()).optional(),
+});
+
+const ExportQueryOutputSchema = wrapToolOutputSchema(ExportQueryResultSchema);
+
+const PreviewWriteResultSchema = z.object({
+  command: z.string(),
+  rowCount: z.number(),
+  rows: z.array(z.record(z.string(), z.unknown())),
+  truncated: z.boolean(),
+  fields: z.array(QueryFieldSchema).optional(),
+  maskedColumns: z.array(z.string()).optional(),
+  triggers: z
+    .array(
+      z.object({
+        name: z.string(),
+        timing: z.enum(['BEFORE', 'AFTER', 'INSTEAD OF']),
+        level: z.enum(['ROW', 'STATEMENT']),
+        events: z.array(z.string()),
+        function: z.string(),
+      })
+    )
+    .optional(),
+  cascades: z
+    .array(
+      z.object({
+        constraint: z.string(),
+        table: z.string(),
+        event: z.enum(['UPDATE', 'DELETE']),
+        action: z.enum(['CASCADE', 'SET NULL', 'SET DEFAULT']),
+      })
+    )
+    .optional(),
+});
+
+const PreviewWriteOutputSchema = wrapToolOutputSchema(PreviewWriteResultSchema);
+
 export function registerQueryTools(
   server: McpServer,
-  connectionManager: ConnectionManager
+  connections: ConnectionRegistry,
+  wrap: ToolHandlerWrapper
 ): void {
   server.registerTool(
     'execute_query',
     {
       description:
-        'Execute SQL with optional parameters. Results are capped by MAX_ROWS and include a truncated flag.',
+        'Execute SQL with optional parameters. Results are capped by MAX_ROWS and include a truncated flag. ' +
+          'Truncated SELECT results may include a continuationToken for fetch_more. ' +
+          'Fields carry type names and, for table columns, the source column and its nullability. ' +
+          'On databases that require write approval, writes are not run: they are queued and ' +
+          'returned as a pendingChange for another identity to approve. ' +
+          'Pass a transactionId from begin_transaction to run inside that transaction.',
       inputSchema: {
         sql: z.string().describe('SQL to execute'),
         params: z
           .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
           .optional()
           .describe('Parameters for $1, $2, ...'),
+        transactionId: z
+          .string()
+          .optional()
+          .describe('Run in this transaction from begin_transaction (database is then ignored)'),
+        database: DatabaseProfileArg,
       },
       outputSchema: ExecuteQueryOutputSchema,
     },
-    async ({ sql, params }) => {
+    wrap('execute_query', async ({ sql, params, transactionId, database }) => {
+      try {
+        const connectionManager = transactionId
+          ? connections.getByTransaction(transactionId)
+          : connections.get(database);
+        const result = await connectionManager.executeQuery(sql, params, {
+          resumable: true,
+          enforceAccessPolicy: true,
+          describeFields: true,
+          queueWrites: true,
+          transactionId,
+        });
+
+        const output = {
+          rows: result.rows,
+          rowCount: result.rowCount,
+          truncated: result.truncated,
+          fields: result.fields,
+          ...(result.continuationToken && {
+            continuationToken: result.continuationToken,
+          }),
+          ...(result.maskedColumns && { maskedColumns: result.maskedColumns }),
+          ...(result.pendingChange && { pendingChange: result.pendingChange }),
+        };
+
+        return successResponse(output);
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'fetch_more',
+    {
+      description:
+        'Fetch the next page of a truncated execute_query result from the same snapshot. ' +
+          'Tokens expire after a period of inactivity.',
+      inputSchema: {
+        continuationToken: z
+          .string()
+          .describe('continuationToken from execute_query or a previous fetch_more'),
+        pageSize: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('Rows to return (default and maximum: MAX_ROWS)'),
+      },
+      outputSchema: FetchMoreOutputSchema,
+    },
+    wrap('fetch_more', async ({ continuationToken, pageSize }) => {
       try {
-        const result = await connectionManager.executeQuery(sql, params);
+        const connectionManager =
+          connections.getByContinuation(continuationToken);
+        const result = await connectionManager.fetchMore(
+          continuationToken,
+          pageSize
+        );
 
         const output = {
           rows: result.rows,
           rowCount: result.rowCount,
           truncated: result.truncated,
           fields: result.fields,
+          rowsFetched: result.rowsFetched ?? result.rowCount,
+          ...(result.continuationToken && {
+            continuationToken: result.continuationToken,
+          }),
+          ...(result.maskedColumns && { maskedColumns: result.maskedColumns }),
         };
 
         return successResponse(output);
       } catch (error) {
         return errorResponseFromError(error);
       }
-    }
+    })
   );
 
   server.registerTool(
@@ -77,18 +219,24 @@ export function registerQueryTools(
           .optional()
           .default('text')
           .describe('Output format for the execution plan'),
+        database: DatabaseProfileArg,
       },
       outputSchema: ExplainQueryOutputSchema,
     },
-    async ({ sql, analyze, format }) => {
+    wrap('explain_query', async ({ sql, analyze, format, database }) => {
       try {
+        const connectionManager = connections.get(database);
         const options = [`FORMAT ${format.toUpperCase()}`];
         if (analyze) {
           options.push('ANALYZE');
         }
 
         const explainSql = `EXPLAIN (${options.join(', ')}) ${sql}`;
-        const result = await connectionManager.executeQuery(explainSql);
+        const result = await connectionManager.executeQuery(
+          explainSql,
+          [],
+          { enforceAccessPolicy: true, skipMasking: true }
+        );
 
         let output: string;
         if (format === 'json') {
@@ -101,6 +249,90 @@ export function registerQueryTools(
       } catch (error) {
         return errorResponseFromError(error);
       }
-    }
+    })
+  );
+
+  server.registerTool(
+    'export_query',
+    {
+      description:
+        'Stream the full result of a SELECT into a CSV, NDJSON or Parquet file in the export directory. ' +
+          'Not capped by MAX_ROWS (MAX_EXPORT_ROWS applies). Returns the file path, size, row count and column types.',
+      inputSchema: {
+        sql: z.string().describe('SELECT, VALUES or WITH query to export'),
+        params: z
+          .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+          .optional()
+          .describe('Parameters for $1, $2, ...'),
+        format: z
+          .enum(['csv', 'ndjson', 'parquet'])
+          .optional()
+          .default('csv')
+          .describe('File format'),
+        fileName: z
+          .string()
+          .optional()
+          .describe('File name inside the export directory (default: generated)'),
+        database: DatabaseProfileArg,
+      },
+      outputSchema: ExportQueryOutputSchema,
+    },
+    wrap('export_query', async ({ sql, params, format, fileName, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        const result = await connectionManager.exportQuery(sql, params, {
+          format,
+          fileName,
+        });
+
+        return successResponse(result);
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'preview_write',
+    {
+      description:
+        'Dry-run an INSERT, UPDATE, DELETE or MERGE: it executes in a transaction that is always rolled back ' +
+          'and returns the affected row count and a sample of the affected rows. ' +
+          'Optionally lists the triggers and foreign key cascades it would fire. Requires read-write mode ' +
+          'without write approval.',
+      inputSchema: {
+        sql: z.string().describe('INSERT, UPDATE, DELETE or MERGE statement to preview'),
+        params: z
+          .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+          .optional()
+          .describe('Parameters for $1, $2, ...'),
+        sampleSize: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe('Affected rows to return (default and maximum: MAX_ROWS)'),
+        includeEffects: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe('Also list triggers and foreign key cascades on the target table'),
+        database: DatabaseProfileArg,
+      },
+      outputSchema: PreviewWriteOutputSchema,
+    },
+    wrap('preview_write', async ({ sql, params, sampleSize, includeEffects, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        const result = await connectionManager.previewWrite(sql, params, {
+          sampleSize,
+          effects: includeEffects,
+        });
+
+        return successResponse(result);
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
   );
 }
@@ -1,11 +1,23 @@
 import { z } from 'zod';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { ConnectionManager } from '../connection/postgres-pool.js';
+import type { ConnectionRegistry } from '../connection/connection-registry.js';
+import type { ToolHandlerWrapper } from '../types.js';
 import {
   successResponse,
   errorResponseFromError,
   wrapToolOutputSchema,
 } from '../lib/tool-response.js';
+import { quoteQualifiedName } from '../lib/identifiers.js';
+import { readObjectDdl } from '../lib/ddl.js';
+import { readRelationships } from '../lib/relationships.js';
+import { suggestJoins } from '../lib/join-paths.js';
+import { searchSchema } from '../lib/schema-search.js';
+import {
+  diffSchemas,
+  migrationSql,
+  readSchemaSnapshot,
+} from '../lib/schema-diff.js';
+import { DatabaseProfileArg } from './shared.js';
 
 const SchemaRowSchema = z
   .object({
@@ -63,6 +75,12 @@ const DescribeTableResultSchema = z
     columns: z.array(ColumnSchema),
     constraints: z.array(ConstraintSchema),
     indexes: z.array(IndexSchema),
+    sample: z
+      .object({
+        rows: z.array(z.record(z.string(), z.unknown())),
+        maskedColumns: z.array(z.string()).optional(),
+      })
+      .optional(),
   })
   .passthrough();
 
@@ -76,6 +94,172 @@ const DatabaseRowSchema = z
   })
   .passthrough();
 
+const ColumnDefinitionSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  nullable: z.boolean(),
+  default: z.string().nullable(),
+  identity: z.string().describe("'a' (always), 'd' (by default) or '' for identity columns"),
+  generated: z.string().describe("'s' (stored), 'v' (virtual) or '' for generated columns"),
+});
+
+const ConstraintDefinitionSchema = z.object({
+  name: z.string(),
+  definition: z.string(),
+});
+
+const TableDefinitionSchema = z.object({
+  name: z.string(),
+  columns: z.array(ColumnDefinitionSchema),
+  constraints: z.array(ConstraintDefinitionSchema),
+});
+
+const IndexDefinitionSchema = z.object({
+  name: z.string(),
+  table: z.string(),
+  definition: z.string(),
+});
+
+const ViewDefinitionSchema = z.object({
+  name: z.string(),
+  materialized: z.boolean(),
+  definition: z.string(),
+});
+
+const FunctionDefinitionSchema = z.object({
+  name: z.string(),
+  arguments: z.string(),
+  kind: z.enum(['function', 'procedure']),
+  definition: z.string(),
+});
+
+const SequenceDefinitionSchema = z.object({
+  name: z.string(),
+  dataType: z.string(),
+  start: z.string(),
+  increment: z.string(),
+  min: z.string(),
+  max: z.string(),
+  cycle: z.boolean(),
+});
+
+const objectChangesSchema = <T extends z.ZodTypeAny>(item: T) =>
+  z.object({
+    added: z.array(item),
+    removed: z.array(item),
+    changed: z.array(z.object({ name: z.string(), source: item, target: item })),
+  });
+
+const SchemaRefSchema = z.object({ database: z.string(), schema: z.string() });
+
+const SchemaDiffSchema = z.object({
+  source: SchemaRefSchema,
+  target: SchemaRefSchema,
+  identical: z.boolean(),
+  tables: z.object({
+    added: z.array(TableDefinitionSchema),
+    removed: z.array(TableDefinitionSchema),
+    changed: z.array(
+      z.object({
+        name: z.string(),
+        columns: objectChangesSchema(ColumnDefinitionSchema),
+        constraints: objectChangesSchema(ConstraintDefinitionSchema),
+      })
+    ),
+  }),
+  indexes: objectChangesSchema(IndexDefinitionSchema),
+  views: objectChangesSchema(ViewDefinitionSchema),
+  functions: objectChangesSchema(FunctionDefinitionSchema),
+  sequences: objectChangesSchema(SequenceDefinitionSchema),
+  migration: z.array(z.string()).optional(),
+});
+
+const DdlObjectKindSchema = z.enum([
+  'table',
+  'view',
+  'materialized view',
+  'sequence',
+  'function',
+  'procedure',
+  'type',
+  'trigger',
+  'policy',
+]);
+
+const ObjectDdlSchema = z.object({
+  schema: z.string(),
+  name: z.string(),
+  kind: DdlObjectKindSchema,
+  ddl: z.string(),
+});
+
+const RelationshipGraphSchema = z.object({
+  nodes: z.array(
+    z.object({ id: z.string(), schema: z.string(), table: z.string() })
+  ),
+  edges: z.array(
+    z.object({
+      name: z.string(),
+      from: z.string(),
+      fromColumns: z.array(z.string()),
+      to: z.string(),
+      toColumns: z.array(z.string()),
+      cardinality: z.enum(['many-to-one', 'one-to-one']),
+      optional: z.boolean(),
+      selfReference: z.boolean(),
+    })
+  ),
+  mermaid: z.string(),
+  dot: z.string(),
+});
+
+const JoinSuggestionSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  paths: z.array(
+    z.object({
+      length: z.number(),
+      inferred: z.boolean(),
+      steps: z.array(
+        z.object({
+          from: z.string(),
+          to: z.string(),
+          fromColumns: z.array(z.string()),
+          toColumns: z.array(z.string()),
+          constraint: z.string().optional(),
+          inferred: z.boolean(),
+        })
+      ),
+      sql: z.string(),
+    })
+  ),
+});
+
+const SchemaSearchKindSchema = z.enum([
+  'table',
+  'view',
+  'materialized view',
+  'foreign table',
+  'column',
+  'function',
+]);
+
+const SchemaSearchResultSchema = z.object({
+  terms: z.array(z.string()),
+  results: z.array(
+    z.object({
+      kind: SchemaSearchKindSchema,
+      schema: z.string(),
+      table: z.string().optional(),
+      name: z.string(),
+      dataType: z.string().optional(),
+      comment: z.string().nullable(),
+      score: z.number(),
+    })
+  ),
+  truncated: z.boolean(),
+});
+
 const ListSchemasOutputSchema = wrapToolOutputSchema(z.array(SchemaRowSchema));
 const ListTablesOutputSchema = wrapToolOutputSchema(z.array(TableRowSchema));
 const DescribeTableOutputSchema = wrapToolOutputSchema(
@@ -84,10 +268,16 @@ const DescribeTableOutputSchema = wrapToolOutputSchema(
 const ListDatabasesOutputSchema = wrapToolOutputSchema(
   z.array(DatabaseRowSchema)
 );
+const DiffSchemaOutputSchema = wrapToolOutputSchema(SchemaDiffSchema);
+const ObjectDdlOutputSchema = wrapToolOutputSchema(ObjectDdlSchema);
+const RelationshipsOutputSchema = wrapToolOutputSchema(RelationshipGraphSchema);
+const SuggestJoinOutputSchema = wrapToolOutputSchema(JoinSuggestionSchema);
+const SearchSchemaOutputSchema = wrapToolOutputSchema(SchemaSearchResultSchema);
 
 export function registerSchemaTools(
   server: McpServer,
-  connectionManager: ConnectionManager
+  connections: ConnectionRegistry,
+  wrap: ToolHandlerWrapper
 ): void {
   server.registerTool(
     'list_schemas',
@@ -99,11 +289,13 @@ export function registerSchemaTools(
           .optional()
           .default(false)
           .describe('Include system schemas (pg_*, information_schema)'),
+        database: DatabaseProfileArg,
       },
       outputSchema: ListSchemasOutputSchema,
     },
-    async ({ includeSystem }) => {
+    wrap('list_schemas', async ({ includeSystem, database }) => {
       try {
+        const connectionManager = connections.get(database);
         let sql = `
           SELECT
             schema_name,
@@ -123,12 +315,18 @@ export function registerSchemaTools(
 
         sql += ' ORDER BY schema_type, schema_name';
 
-        const result = await connectionManager.executeQuery(sql);
-        return successResponse(result.rows);
+        const result = await connectionManager.executeQuery(sql, [], { skipMasking: true });
+        const policy = connectionManager.accessPolicy;
+        const rows = policy
+          ? result.rows.filter((row) =>
+              policy.allowsSchema(row.schema_name as string)
+            )
+          : result.rows;
+        return successResponse(rows);
       } catch (error) {
         return errorResponseFromError(error);
       }
-    }
+    })
   );
 
   server.registerTool(
@@ -147,11 +345,16 @@ export function registerSchemaTools(
           .optional()
           .default(false)
           .describe('Include views in the listing'),
+        database: DatabaseProfileArg,
       },
       outputSchema: ListTablesOutputSchema,
     },
-    async ({ schema, includeViews }) => {
+    wrap('list_tables', async ({ schema, includeViews, database }) => {
       try {
+        const connectionManager = connections.get(database);
+        const policy = connectionManager.accessPolicy;
+        policy?.assertSchema(schema);
+
         const tableTypes = includeViews
           ? "'BASE TABLE', 'VIEW'"
           : "'BASE TABLE'";
@@ -171,18 +374,64 @@ export function registerSchemaTools(
           ORDER BY t.table_name
         `;
 
-        const result = await connectionManager.executeQuery(sql, [schema]);
-        return successResponse(result.rows);
+        const result = await connectionManager.executeQuery(sql, [schema], { skipMasking: true });
+        const rows = policy
+          ? result.rows.filter((row) =>
+              policy.allowsRelation(schema, row.table_name as string)
+            )
+          : result.rows;
+        return successResponse(rows);
       } catch (error) {
         return errorResponseFromError(error);
       }
-    }
+    })
+  );
+
+  server.registerTool(
+    'search_schema',
+    {
+      description:
+        'Search table, view, column and function names and their comments across permitted schemas, ' +
+          'ranked by fuzzy (trigram) similarity to the words of a query such as "invoice due dates".',
+      inputSchema: {
+        query: z.string().min(1).describe('Words or question to search for'),
+        schema: z
+          .string()
+          .optional()
+          .describe('Only search this schema (default: all non-system schemas)'),
+        kinds: z
+          .array(SchemaSearchKindSchema)
+          .optional()
+          .describe('Only return objects of these kinds'),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .optional()
+          .default(20)
+          .describe('Results to return (default: 20, max: 100)'),
+        database: DatabaseProfileArg,
+      },
+      outputSchema: SearchSchemaOutputSchema,
+    },
+    wrap('search_schema', async ({ query, schema, kinds, limit, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        return successResponse(
+          await searchSchema(connectionManager, query, { schema, kinds, limit })
+        );
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
   );
 
   server.registerTool(
     'describe_table',
     {
-      description: 'Describe a table (columns, constraints, indexes).',
+      description:
+        'Describe a table (columns, constraints, indexes), optionally with masked sample rows.',
       inputSchema: {
         schema: z
           .string()
@@ -190,11 +439,23 @@ export function registerSchemaTools(
           .default('public')
           .describe('Schema name (default: public)'),
         table: z.string().describe('Table name to describe'),
+        sampleRows: z
+          .number()
+          .int()
+          .min(0)
+          .max(100)
+          .optional()
+          .default(0)
+          .describe('Number of sample rows to include (default: 0, max: 100)'),
+        database: DatabaseProfileArg,
       },
       outputSchema: DescribeTableOutputSchema,
     },
-    async ({ schema, table }) => {
+    wrap('describe_table', async ({ schema, table, sampleRows, database }) => {
       try {
+        const connectionManager = connections.get(database);
+        connectionManager.accessPolicy?.assertRelation(schema, table);
+
         const columnsSql = `
           SELECT
             column_name,
@@ -239,9 +500,9 @@ export function registerSchemaTools(
 
         const [columnsResult, constraintsResult, indexesResult] =
           await Promise.all([
-            connectionManager.executeQuery(columnsSql, [schema, table]),
-            connectionManager.executeQuery(constraintsSql, [schema, table]),
-            connectionManager.executeQuery(indexesSql, [schema, table]),
+            connectionManager.executeQuery(columnsSql, [schema, table], { skipMasking: true }),
+            connectionManager.executeQuery(constraintsSql, [schema, table], { skipMasking: true }),
+            connectionManager.executeQuery(indexesSql, [schema, table], { skipMasking: true }),
           ]);
 
         const constraints: Record<
@@ -297,22 +558,235 @@ export function registerSchemaTools(
           indexes: indexesResult.rows,
         };
 
+        if (sampleRows > 0 && columnsResult.rows.length > 0) {
+          const sampleResult = await connectionManager.executeQuery(
+            `SELECT * FROM ${quoteQualifiedName(schema, table)} LIMIT ${sampleRows}`
+          );
+          return successResponse({
+            ...output,
+            sample: {
+              rows: sampleResult.rows,
+              ...(sampleResult.maskedColumns && {
+                maskedColumns: sampleResult.maskedColumns,
+              }),
+            },
+          });
+        }
+
         return successResponse(output);
       } catch (error) {
         return errorResponseFromError(error);
       }
-    }
+    })
+  );
+
+  server.registerTool(
+    'get_object_ddl',
+    {
+      description:
+        'Reconstruct the DDL of a table (with partitions, indexes, triggers, policies, comments, owner and grants), ' +
+          'view, materialized view, sequence, function or procedure (all overloads), type, trigger or policy, ' +
+          'like pg_dump --schema-only for that object.',
+      inputSchema: {
+        schema: z
+          .string()
+          .optional()
+          .default('public')
+          .describe('Schema name (default: public)'),
+        name: z.string().describe('Object name'),
+        type: DdlObjectKindSchema.optional()
+          .describe('Object kind, needed when the name matches more than one kind of object'),
+        database: DatabaseProfileArg,
+      },
+      outputSchema: ObjectDdlOutputSchema,
+    },
+    wrap('get_object_ddl', async ({ schema, name, type, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        return successResponse(
+          await readObjectDdl(connectionManager, schema, name, type)
+        );
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'get_relationships',
+    {
+      description:
+        'Foreign key graph of a schema, or of the tables within depth hops of one table, as nodes and edges ' +
+          '(composite keys, one-to-one vs many-to-one, optional, self-references) plus Mermaid and Graphviz DOT renderings.',
+      inputSchema: {
+        schema: z
+          .string()
+          .optional()
+          .default('public')
+          .describe('Schema name (default: public)'),
+        table: z
+          .string()
+          .optional()
+          .describe('Only show tables around this one instead of the whole schema'),
+        depth: z
+          .number()
+          .int()
+          .min(1)
+          .max(5)
+          .optional()
+          .default(1)
+          .describe('Foreign key hops to follow from table (default: 1, max: 5)'),
+        database: DatabaseProfileArg,
+      },
+      outputSchema: RelationshipsOutputSchema,
+    },
+    wrap('get_relationships', async ({ schema, table, depth, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        return successResponse(
+          await readRelationships(connectionManager, { schema, table, depth })
+        );
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'suggest_join',
+    {
+      description:
+        'Find the shortest foreign key paths between two tables and return them as ready-to-use FROM/JOIN clauses, ' +
+          'shortest first. Optionally also joins <name>_id columns to the primary key of a table named after them.',
+      inputSchema: {
+        schema: z
+          .string()
+          .optional()
+          .default('public')
+          .describe('Schema of fromTable (default: public)'),
+        fromTable: z.string().describe('Table to start from'),
+        toTable: z.string().describe('Table to reach'),
+        toSchema: z
+          .string()
+          .optional()
+          .describe('Schema of toTable (default: same as schema)'),
+        maxHops: z
+          .number()
+          .int()
+          .min(1)
+          .max(6)
+          .optional()
+          .default(4)
+          .describe('Longest path to consider, in joins (default: 4, max: 6)'),
+        includeInferred: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe('Also use joins inferred from <name>_id column names and types'),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(10)
+          .optional()
+          .default(3)
+          .describe('Paths to return (default: 3, max: 10)'),
+        database: DatabaseProfileArg,
+      },
+      outputSchema: SuggestJoinOutputSchema,
+    },
+    wrap('suggest_join', async ({ schema, fromTable, toTable, toSchema, maxHops, includeInferred, limit, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        return successResponse(
+          await suggestJoins(connectionManager, {
+            from: { schema, table: fromTable },
+            to: { schema: toSchema ?? schema, table: toTable },
+            maxHops,
+            includeInferred,
+            limit,
+          })
+        );
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'diff_schema',
+    {
+      description:
+        'Compare tables, columns, constraints, indexes, views, functions and sequences of two schemas, ' +
+          'in one database or across two profiles. "added" objects exist only in the source, "removed" only ' +
+          'in the target. Optionally returns migration SQL that would make the target match the source.',
+      inputSchema: {
+        schema: z
+          .string()
+          .optional()
+          .default('public')
+          .describe('Source schema (default: public)'),
+        targetSchema: z
+          .string()
+          .optional()
+          .describe('Target schema (default: same as schema)'),
+        database: DatabaseProfileArg,
+        targetDatabase: z
+          .string()
+          .optional()
+          .describe('Target database profile (default: same as database)'),
+        includeMigration: z
+          .boolean()
+          .optional()
+          .default(false)
+          .describe('Include statements that would make the target match the source'),
+      },
+      outputSchema: DiffSchemaOutputSchema,
+    },
+    wrap('diff_schema', async ({ schema, targetSchema, database, targetDatabase, includeMigration }) => {
+      try {
+        const sourceDatabase = database ?? connections.defaultName;
+        const targetProfile = targetDatabase ?? sourceDatabase;
+        const otherSchema = targetSchema ?? schema;
+        const sourceManager = connections.get(database);
+        const targetManager = connections.get(targetProfile);
+        if (sourceManager === targetManager && schema === otherSchema) {
+          throw new Error(
+            'Nothing to compare: pass a different targetSchema or targetDatabase.'
+          );
+        }
+
+        const [source, target] = await Promise.all([
+          readSchemaSnapshot(sourceManager, schema),
+          readSchemaSnapshot(targetManager, otherSchema),
+        ]);
+        const diff = diffSchemas(source, target, {
+          source: { database: sourceDatabase, schema },
+          target: { database: targetProfile, schema: otherSchema },
+        });
+        if (includeMigration) {
+          diff.migration = migrationSql(diff);
+        }
+
+        return successResponse(diff);
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
   );
 
   server.registerTool(
     'list_databases',
     {
       description: 'List databases with owner, encoding, and size.',
-      inputSchema: {},
+      inputSchema: {
+        database: DatabaseProfileArg,
+      },
       outputSchema: ListDatabasesOutputSchema,
     },
-    async () => {
+    wrap('list_databases', async ({ database }) => {
       try {
+        const connectionManager = connections.get(database);
         const sql = `
           SELECT
             datname as name,
@@ -325,11 +799,11 @@ export function registerSchemaTools(
           ORDER BY datname
         `;
 
-        const result = await connectionManager.executeQuery(sql);
+        const result = await connectionManager.executeQuery(sql, [], { skipMasking: true });
         return successResponse(result.rows);
       } catch (error) {
         return errorResponseFromError(error);
       }
-    }
+    })
   );
 }
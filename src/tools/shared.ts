@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+/**
+ * Optional `database` tool argument selecting a configured profile
+ */
+export const DatabaseProfileArg = z
+  .string()
+  .optional()
+  .describe(
+    'Database profile name (default: the default profile). See list_connections.'
+  );
+
+export const PendingChangeSchema = z.object({
+  id: z.string(),
+  database: z.string(),
+  sql: z.string(),
+  params: z.array(z.unknown()),
+  status: z.enum(['pending', 'approved', 'rejected', 'expired', 'executed', 'failed']),
+  submittedBy: z.string().optional(),
+  submittedAt: z.string(),
+  expiresAt: z.string(),
+  reviewedBy: z.string().optional(),
+  reviewedAt: z.string().optional(),
+  reason: z.string().optional(),
+  result: z
+    .object({ command: z.string().optional(), rowCount: z.number() })
+    .optional(),
+  error: z.string().optional(),
+});
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ConnectionRegistry } from '../connection/connection-registry.js';
+import type { ToolHandlerWrapper } from '../types.js';
+import {
+  successResponse,
+  errorResponseFromError,
+  wrapToolOutputSchema,
+} from '../lib/tool-response.js';
+import { DatabaseProfileArg } from './shared.js';
+
+const IsolationLevelSchema = z.enum(['read committed', 'repeatable read', 'serializable']);
+
+const TransactionInfoSchema = z.object({
+  transactionId: z.string(),
+  database: z.string(),
+  isolationLevel: IsolationLevelSchema,
+  readOnly: z.boolean(),
+  idleTimeoutMs: z.number(),
+});
+
+const TransactionEndSchema = z.object({
+  transactionId: z.string(),
+  status: z.enum(['committed', 'rolled back']),
+});
+
+const BeginTransactionOutputSchema = wrapToolOutputSchema(TransactionInfoSchema);
+const EndTransactionOutputSchema = wrapToolOutputSchema(TransactionEndSchema);
+
+const TransactionIdArg = z.string().describe('transactionId from begin_transaction');
+
+export function registerTransactionTools(
+  server: McpServer,
+  connections: ConnectionRegistry,
+  wrap: ToolHandlerWrapper
+): void {
+  server.registerTool(
+    'begin_transaction',
+    {
+      description:
+        'Open a transaction that later execute_query calls run in by passing its transactionId. ' +
+          'It belongs to this MCP session and is rolled back automatically when idle or when the session ends. ' +
+          'Read-only unless the caller may write and readOnly is false.',
+      inputSchema: {
+        isolationLevel: IsolationLevelSchema.optional()
+          .default('read committed')
+          .describe('Transaction isolation level'),
+        readOnly: z
+          .boolean()
+          .optional()
+          .describe('Open a READ ONLY transaction (default: true unless the caller may write)'),
+        database: DatabaseProfileArg,
+      },
+      outputSchema: BeginTransactionOutputSchema,
+    },
+    wrap('begin_transaction', async ({ isolationLevel, readOnly, database }) => {
+      try {
+        const connectionManager = connections.get(database);
+        const result = await connectionManager.beginTransaction({
+          isolationLevel,
+          readOnly,
+        });
+
+        return successResponse(result);
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'commit_transaction',
+    {
+      description:
+        'Commit a transaction opened with begin_transaction. Fails if a statement in it failed, ' +
+          'in which case PostgreSQL rolls it back instead.',
+      inputSchema: {
+        transactionId: TransactionIdArg,
+      },
+      outputSchema: EndTransactionOutputSchema,
+    },
+    wrap('commit_transaction', async ({ transactionId }) => {
+      try {
+        await connections.getByTransaction(transactionId).commitTransaction(transactionId);
+
+        return successResponse({ transactionId, status: 'committed' });
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+
+  server.registerTool(
+    'rollback_transaction',
+    {
+      description: 'Roll back a transaction opened with begin_transaction.',
+      inputSchema: {
+        transactionId: TransactionIdArg,
+      },
+      outputSchema: EndTransactionOutputSchema,
+    },
+    wrap('rollback_transaction', async ({ transactionId }) => {
+      try {
+        await connections.getByTransaction(transactionId).rollbackTransaction(transactionId);
+
+        return successResponse({ transactionId, status: 'rolled back' });
+      } catch (error) {
+        return errorResponseFromError(error);
+      }
+    })
+  );
+}
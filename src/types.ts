@@ -55,7 +55,70 @@ export interface ParsedConfig {
   queryTimeout: number;
   maxRows: number;
   maxConcurrentQueries: number;
+  /** Connections in the pg pool; more than held cursors and transactions can pin */
+  poolSize: number;
   poolDrainTimeoutMs: number;
+  maxOpenCursors: number;
+  /** Held cursors one MCP session (or stateless client, or the stdio process) may have */
+  maxSessionCursors: number;
+  cursorIdleTimeoutMs: number;
+  /** Transactions held open across tool calls; 0 disables begin_transaction */
+  maxOpenTransactions: number;
+  /** Held transactions one MCP session (or the stdio process) may have */
+  maxSessionTransactions: number;
+  transactionIdleTimeoutMs: number;
+  maskingPolicy?: MaskingPolicy;
+  accessPolicy?: AccessPolicyConfig;
+  /** Directory export_query writes to; exports are disabled without it */
+  exportDir?: string;
+  /** Rows written to an export file before it is cut off */
+  maxExportRows: number;
+  valueEncoding: ValueEncoding;
+  /** Queue writes from execute_query for approval instead of running them */
+  writeApproval?: boolean;
+}
+
+/**
+ * JSON encodings for result values JavaScript cannot hold exactly. int8 and
+ * numeric as `number` are only converted when no digits are lost.
+ */
+export interface ValueEncoding {
+  numeric: 'string' | 'number';
+  bytea: 'hex' | 'base64';
+}
+
+export type MaskingAction = 'redact' | 'hash' | 'partial' | 'null';
+
+export interface MaskingRule {
+  /** Source column as schema.table.column; `*` matches any segment */
+  column?: string;
+  /** Case-insensitive regex on the output field or source column name */
+  pattern?: string;
+  action: MaskingAction;
+  /** Trailing characters left visible by the partial action */
+  visibleChars?: number;
+}
+
+export interface MaskingPolicy {
+  rules: MaskingRule[];
+  hashSalt?: string;
+}
+
+/**
+ * Schema and relation allow/deny lists. Relation and function entries are
+ * schema.name; `*` matches any segment.
+ */
+export interface AccessPolicyConfig {
+  allowedSchemas?: string[];
+  deniedSchemas?: string[];
+  allowedRelations?: string[];
+  deniedRelations?: string[];
+  deniedFunctions?: string[];
+}
+
+export interface DatabaseProfile {
+  name: string;
+  config: ParsedConfig;
 }
 
 export interface ConnectionStatus {
@@ -79,11 +142,23 @@ export interface ConnectionStatus {
   queryTimeout: number;
   maxConcurrentQueries: number;
   activeQueries: number;
+  openCursors: number;
+  openTransactions: number;
 }
 
 export interface QueryField {
   name: string;
   dataTypeID: number;
+  /** PostgreSQL type name as format_type() prints it */
+  type?: string;
+  /** OID of the source table, 0 for computed columns */
+  tableID?: number;
+  /** Attribute number within the source table, 0 for computed columns */
+  columnID?: number;
+  /** Table column the field was read from */
+  origin?: { schema: string; table: string; column: string };
+  /** Whether the source column allows NULL; absent for computed columns */
+  nullable?: boolean;
 }
 
 export interface QueryResultWithMeta {
@@ -92,6 +167,474 @@ export interface QueryResultWithMeta {
   truncated: boolean;
   fields?: QueryField[];
   command?: string;
+  /** Opaque token for fetching the next page of a truncated result */
+  continuationToken?: string;
+  /** Total rows returned so far across pages of a resumed result */
+  rowsFetched?: number;
+  /** Output columns altered by the masking policy */
+  maskedColumns?: string[];
+  /** Change the statement was queued as, when it needs approval to run */
+  pendingChange?: PendingChange;
+}
+
+export type IsolationLevel = 'read committed' | 'repeatable read' | 'serializable';
+
+export interface TransactionInfo {
+  transactionId: string;
+  /** Database profile the transaction runs against */
+  database: string;
+  isolationLevel: IsolationLevel;
+  readOnly: boolean;
+  /** Rolled back automatically after this long without a statement */
+  idleTimeoutMs: number;
+}
+
+export type ChangeStatus =
+  | 'pending'
+  | 'approved'
+  | 'rejected'
+  | 'expired'
+  | 'executed'
+  | 'failed';
+
+/**
+ * Write statement waiting for, or decided by, a reviewer. `approved` lasts
+ * while the statement runs; it then ends as `executed` or `failed`.
+ */
+export interface PendingChange {
+  id: string;
+  /** Database profile the statement runs against */
+  database: string;
+  sql: string;
+  params: unknown[];
+  status: ChangeStatus;
+  /** Identity that submitted the statement, when the request was authenticated */
+  submittedBy?: string;
+  submittedAt: string;
+  /** When a pending change expires unreviewed */
+  expiresAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  /** Reason given when the change was rejected */
+  reason?: string;
+  /** Outcome of an executed change */
+  result?: { command?: string; rowCount: number };
+  /** Error of a failed change */
+  error?: string;
+}
+
+export interface TriggerEffect {
+  name: string;
+  timing: 'BEFORE' | 'AFTER' | 'INSTEAD OF';
+  level: 'ROW' | 'STATEMENT';
+  events: string[];
+  /** Trigger function signature */
+  function: string;
+}
+
+export interface CascadeEffect {
+  constraint: string;
+  /** Referencing table as schema.table */
+  table: string;
+  event: 'UPDATE' | 'DELETE';
+  action: 'CASCADE' | 'SET NULL' | 'SET DEFAULT';
+}
+
+export interface WritePreview {
+  command: string;
+  /** Rows the statement would affect */
+  rowCount: number;
+  /** Affected rows as RETURNING reports them, up to the sample size */
+  rows: Record<string, unknown>[];
+  truncated: boolean;
+  fields?: QueryField[];
+  maskedColumns?: string[];
+  /** Enabled triggers on the target table for the statement's events */
+  triggers?: TriggerEffect[];
+  /** Foreign keys whose referential actions fire from the target table */
+  cascades?: CascadeEffect[];
+}
+
+export type ExportFormat = 'csv' | 'ndjson' | 'parquet';
+
+export interface ExportColumn {
+  name: string;
+  /** PostgreSQL type name, `unknown` if it could not be looked up */
+  type: string;
+  dataTypeID: number;
+}
+
+export interface ExportResult {
+  path: string;
+  format: ExportFormat;
+  bytes: number;
+  rowCount: number;
+  /** More rows remained after MAX_EXPORT_ROWS */
+  truncated: boolean;
+  columns: ExportColumn[];
+  maskedColumns?: string[];
+}
+
+export interface ColumnDefinition {
+  name: string;
+  type: string;
+  nullable: boolean;
+  /** Default, or the expression of a generated column */
+  default: string | null;
+  /** pg_attribute.attidentity: 'a' (always), 'd' (by default) or '' */
+  identity: string;
+  /** pg_attribute.attgenerated: 's' (stored), 'v' (virtual) or '' */
+  generated: string;
+}
+
+export interface ConstraintDefinition {
+  name: string;
+  /** As pg_get_constraintdef() prints it */
+  definition: string;
+}
+
+export interface TableDefinition {
+  name: string;
+  columns: ColumnDefinition[];
+  /** Constraints other than NOT NULL, which columns report as `nullable` */
+  constraints: ConstraintDefinition[];
+}
+
+export interface IndexDefinition {
+  name: string;
+  table: string;
+  definition: string;
+}
+
+export interface ViewDefinition {
+  name: string;
+  materialized: boolean;
+  /** The view's query */
+  definition: string;
+}
+
+export interface FunctionDefinition {
+  name: string;
+  /** Identity arguments, which together with the name identify an overload */
+  arguments: string;
+  kind: 'function' | 'procedure';
+  definition: string;
+}
+
+export interface SequenceDefinition {
+  name: string;
+  dataType: string;
+  start: string;
+  increment: string;
+  min: string;
+  max: string;
+  cycle: boolean;
+}
+
+/**
+ * Objects of one schema. Names of objects in the schema itself are left
+ * unqualified, so snapshots of differently named schemas compare equal.
+ */
+export interface SchemaSnapshot {
+  tables: TableDefinition[];
+  indexes: IndexDefinition[];
+  views: ViewDefinition[];
+  functions: FunctionDefinition[];
+  sequences: SequenceDefinition[];
+}
+
+/**
+ * Differences of one object kind. `added` exist only in the source,
+ * `removed` only in the target.
+ */
+export interface ObjectChanges<T> {
+  added: T[];
+  removed: T[];
+  changed: Array<{ name: string; source: T; target: T }>;
+}
+
+export interface TableChanges {
+  name: string;
+  columns: ObjectChanges<ColumnDefinition>;
+  constraints: ObjectChanges<ConstraintDefinition>;
+}
+
+export interface SchemaDiff {
+  source: { database: string; schema: string };
+  target: { database: string; schema: string };
+  identical: boolean;
+  tables: {
+    added: TableDefinition[];
+    removed: TableDefinition[];
+    changed: TableChanges[];
+  };
+  indexes: ObjectChanges<IndexDefinition>;
+  views: ObjectChanges<ViewDefinition>;
+  functions: ObjectChanges<FunctionDefinition>;
+  sequences: ObjectChanges<SequenceDefinition>;
+  /** Statements that would make the target match the source, for review */
+  migration?: string[];
+}
+
+export interface JoinStep {
+  /** Table joined from, as schema.table */
+  from: string;
+  /** Table joined to, as schema.table */
+  to: string;
+  fromColumns: string[];
+  toColumns: string[];
+  /** Foreign key the step follows; absent for an inferred step */
+  constraint?: string;
+  /** Guessed from a `<name>_id` column matching a primary key, not declared */
+  inferred: boolean;
+}
+
+export interface JoinPath {
+  /** Number of joins */
+  length: number;
+  inferred: boolean;
+  steps: JoinStep[];
+  /** FROM and JOIN clauses, tables aliased t1, t2, ... in path order */
+  sql: string;
+}
+
+export interface JoinSuggestion {
+  from: string;
+  to: string;
+  /** Shortest first; declared foreign keys before inferred joins */
+  paths: JoinPath[];
+}
+
+export type DdlObjectKind =
+  | 'table'
+  | 'view'
+  | 'materialized view'
+  | 'sequence'
+  | 'function'
+  | 'procedure'
+  | 'type'
+  | 'trigger'
+  | 'policy';
+
+export interface RelationshipNode {
+  /** schema.table */
+  id: string;
+  schema: string;
+  table: string;
+}
+
+/**
+ * Foreign key from the referencing table (`from`) to the referenced one
+ * (`to`). `one-to-one` when the referencing columns are unique.
+ */
+export interface RelationshipEdge {
+  /** Constraint name */
+  name: string;
+  from: string;
+  fromColumns: string[];
+  to: string;
+  toColumns: string[];
+  cardinality: 'many-to-one' | 'one-to-one';
+  /** A referencing column allows NULL, so a row may have no parent */
+  optional: boolean;
+  selfReference: boolean;
+}
+
+export interface RelationshipGraph {
+  nodes: RelationshipNode[];
+  edges: RelationshipEdge[];
+  /** Mermaid erDiagram */
+  mermaid: string;
+  /** Graphviz digraph, edges pointing at the referenced table */
+  dot: string;
+}
+
+export interface ObjectDdl {
+  schema: string;
+  name: string;
+  kind: DdlObjectKind;
+  /** Statements separated by blank lines, like pg_dump --schema-only */
+  ddl: string;
+}
+
+export interface FunctionSummary {
+  schema: string;
+  name: string;
+  kind: 'function' | 'procedure' | 'aggregate' | 'window';
+  /** Arguments with modes, names and defaults, as pg_get_function_arguments() prints them */
+  arguments: string;
+  /** Null for procedures */
+  returns: string | null;
+  language: string;
+  volatility: 'immutable' | 'stable' | 'volatile';
+  securityDefiner: boolean;
+  comment: string | null;
+}
+
+export interface FunctionParameter {
+  /** Empty for unnamed parameters */
+  name: string;
+  type: string;
+  mode: 'in' | 'out' | 'inout' | 'variadic' | 'table';
+}
+
+export interface FunctionDetail extends FunctionSummary {
+  /** Identity arguments, which together with the name identify an overload */
+  identityArguments: string;
+  parameters: FunctionParameter[];
+  owner: string;
+  strict: boolean;
+  parallel: 'safe' | 'restricted' | 'unsafe';
+  /** Estimated execution cost, in cpu_operator_cost units */
+  cost: number;
+  /** Estimated rows for set-returning functions, otherwise null */
+  rows: number | null;
+  /** SET clauses, e.g. `search_path=public` */
+  config: string[];
+  /** CREATE statement from pg_get_functiondef(); null for aggregates */
+  definition: string | null;
+}
+
+export interface FunctionDescription {
+  schema: string;
+  name: string;
+  /** One entry per overload */
+  overloads: FunctionDetail[];
+}
+
+export interface TriggerInfo {
+  schema: string;
+  table: string;
+  name: string;
+  timing: 'BEFORE' | 'AFTER' | 'INSTEAD OF';
+  events: Array<'INSERT' | 'UPDATE' | 'DELETE' | 'TRUNCATE'>;
+  level: 'ROW' | 'STATEMENT';
+  /** Trigger function, as schema.name */
+  function: string;
+  /** session_replication_role values the trigger fires in */
+  enabled: 'origin' | 'replica' | 'always' | 'disabled';
+  /** CREATE TRIGGER statement from pg_get_triggerdef() */
+  definition: string;
+}
+
+export type UserTypeKind = 'enum' | 'domain' | 'composite' | 'range';
+
+/**
+ * User-defined type. Which optional fields are set depends on `kind`.
+ */
+export interface TypeInfo {
+  schema: string;
+  name: string;
+  kind: UserTypeKind;
+  owner: string;
+  comment: string | null;
+  /** Enum labels in sort order */
+  values?: string[];
+  /** Domain base type */
+  baseType?: string;
+  notNull?: boolean;
+  default?: string | null;
+  /** Domain CHECK constraints */
+  constraints?: Array<{ name: string; definition: string }>;
+  /** Composite type attributes */
+  attributes?: Array<{ name: string; type: string }>;
+  /** Range element type */
+  subtype?: string;
+}
+
+export interface ExtensionInfo {
+  name: string;
+  /** Null when the extension is available but not installed */
+  installedVersion: string | null;
+  defaultVersion: string | null;
+  /** Schema holding the extension's objects; null when not installed */
+  schema: string | null;
+  description: string | null;
+}
+
+export interface SequenceInfo {
+  schema: string;
+  name: string;
+  owner: string;
+  dataType: string;
+  start: string;
+  increment: string;
+  min: string;
+  max: string;
+  cache: string;
+  cycle: boolean;
+  /** Null before the first nextval() or without USAGE or SELECT on the sequence */
+  lastValue: string | null;
+  /** Column the sequence belongs to, as table.column, e.g. for serial and identity columns */
+  ownedBy: string | null;
+}
+
+export interface MaterializedViewInfo {
+  schema: string;
+  name: string;
+  owner: string;
+  /** False until the first REFRESH when created WITH NO DATA */
+  populated: boolean;
+  /** Total size including indexes, pretty-printed */
+  size: string;
+  indexes: string[];
+  /** The view's query */
+  definition: string;
+  comment: string | null;
+}
+
+export type SchemaSearchKind =
+  | 'table'
+  | 'view'
+  | 'materialized view'
+  | 'foreign table'
+  | 'column'
+  | 'function';
+
+export interface SchemaSearchHit {
+  kind: SchemaSearchKind;
+  schema: string;
+  /** Relation a column belongs to; absent for other kinds */
+  table?: string;
+  name: string;
+  /** Column data type; absent for other kinds */
+  dataType?: string;
+  /** COMMENT ON text */
+  comment: string | null;
+  /** 0 to 1, the mean over search terms of their best word match */
+  score: number;
+}
+
+export interface SchemaSearchResult {
+  /** Words of the query searched for, without stop words */
+  terms: string[];
+  /** Best match first */
+  results: SchemaSearchHit[];
+  /** Some matching objects were not ranked because there were too many */
+  truncated: boolean;
+}
+
+export type RelationKind = 'table' | 'view' | 'materialized view';
+
+export interface RelationColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  comment: string | null;
+}
+
+/**
+ * Contents of a table or view resource, postgres://<database>/<schema>/<name>
+ */
+export interface RelationResource {
+  /** Database profile */
+  database: string;
+  schema: string;
+  name: string;
+  kind: RelationKind;
+  comment: string | null;
+  columns: RelationColumn[];
 }
 
 export interface ToolResponse {
@@ -104,6 +647,15 @@ export interface ToolResponse {
   isError?: boolean;
 }
 
+/**
+ * Decorates a tool handler as it is registered, e.g. to audit or trace its
+ * calls
+ */
+export type ToolHandlerWrapper = <Args extends unknown[]>(
+  tool: string,
+  handler: (...args: Args) => ToolResponse | Promise<ToolResponse>
+) => (...args: Args) => ToolResponse | Promise<ToolResponse>;
+
 export interface KnownHost {
   hostname: string;
   keyType: string;
@@ -115,7 +667,7 @@ export interface HostKeyVerificationResult {
   reason: string;
 }
 
-export type AuthMode = 'none' | 'oauth';
+export type AuthMode = 'none' | 'oauth' | 'oidc' | 'apikey' | 'mtls';
 
 export interface HttpConfig {
   port: number;
@@ -130,9 +682,148 @@ export interface HttpConfig {
   allowedOrigins?: string[];
   allowedHosts?: string[];
   resourceDocumentation?: string;
+  /** Token verification settings for MCP_AUTH_MODE=oidc */
+  oidc?: OidcConfig;
+  /** Hashed key file for MCP_AUTH_MODE=apikey */
+  apiKeysFile?: string;
+  /** Certificate subject mapping for MCP_AUTH_MODE=mtls */
+  mtls?: MtlsConfig;
+  /** Terminate TLS in-process instead of serving plain HTTP */
+  tls?: TlsConfig;
+  /** Prometheus endpoint settings; undefined when metrics are disabled */
+  metrics?: MetricsConfig;
+  /** Maps token claims to tools and query mode; undefined grants every tool */
+  authorization?: AuthorizationPolicy;
+  /** Per-client limits; undefined when no limit is set */
+  rateLimit?: RateLimitConfig;
+}
+
+/**
+ * Per-client budgets, each a token bucket that holds one minute's worth and
+ * refills continuously. Unset limits are not enforced.
+ */
+export interface RateLimitConfig {
+  toolCallsPerMinute?: number;
+  /** Database time spent on the client's queries */
+  querySecondsPerMinute?: number;
+  /** Rows returned to the client */
+  rowsPerMinute?: number;
+}
+
+export type QueryMode = 'read-only' | 'read-write';
+
+export interface ToolGrant {
+  /** Tool names; `*` matches any run of characters */
+  tools: string[];
+  mode: QueryMode;
+}
+
+/**
+ * Grants keyed by claim value (a scope, permission or role). A caller gets
+ * the union of the grants matching any value of the listed claims.
+ */
+export interface AuthorizationPolicy {
+  claims: string[];
+  grants: Record<string, ToolGrant>;
+}
+
+/**
+ * What a caller may do, resolved from their token once per request
+ */
+export interface ToolAccess {
+  /** Grant names matched by the token */
+  grants: string[];
+  tools: string[];
+  /** Tools the credential itself is limited to, on top of its grants */
+  restrictTo?: string[];
+  mode: QueryMode;
+}
+
+/**
+ * Limits attached to an API key or client certificate identity
+ */
+export interface ToolRestriction {
+  tools?: string[];
+  mode?: QueryMode;
+}
+
+export interface MetricsConfig {
+  /** Serve /metrics on its own listener instead of the MCP port */
+  port?: number;
+  host?: string;
+  /** Bearer token required to scrape */
+  token?: string;
+}
+
+export interface MtlsConfig {
+  /** JSON file mapping certificate subjects to identities; without it the CN is the identity */
+  identitiesFile?: string;
+}
+
+export interface TlsConfig {
+  /** Server certificate, followed by any intermediates */
+  certFile: string;
+  keyFile: string;
+  /** CA bundle used to verify client certificates */
+  clientCaFile?: string;
+  /** Defaults to TLSv1.2 */
+  minVersion?: 'TLSv1.2' | 'TLSv1.3';
 }
 
 export interface Auth0Config {
   domain: string;
   audience: string;
 }
+
+export interface RequiredClaim {
+  name: string;
+  /** Expected value; a claim holding an array must contain it */
+  value?: string;
+}
+
+export interface OidcConfig {
+  /** Expected `iss` claim; discovery is read from <issuer>/.well-known/openid-configuration */
+  issuer: string;
+  audiences: string[];
+  algorithms: string[];
+  /** Allowed clock skew for exp/nbf/iat checks */
+  clockToleranceSeconds: number;
+  requiredClaims: RequiredClaim[];
+  /** Skip discovery and fetch signing keys from this URL */
+  jwksUri?: string;
+}
+
+export type AuditSinkType = 'stderr' | 'file' | 'syslog';
+
+export interface AuditFileConfig {
+  path: string;
+  /** Rotate once the file would grow past this size */
+  maxBytes: number;
+  /** Rotated files to keep (path.1 ... path.N) */
+  maxFiles: number;
+}
+
+export interface AuditSyslogConfig {
+  host: string;
+  port: number;
+  /** Numeric syslog facility code (e.g. 16 for local0) */
+  facility: number;
+  appName: string;
+}
+
+export interface ApprovalConfig {
+  /** How long a change may wait for review before it expires */
+  ttlMs: number;
+  /** Changes that may be pending at once across all profiles */
+  maxPending: number;
+}
+
+export interface AuditConfig {
+  sinks: AuditSinkType[];
+  file?: AuditFileConfig;
+  syslog?: AuditSyslogConfig;
+}
+
+export interface TracingConfig {
+  serviceName: string;
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { ConnectionManager } from '../../src/connection/postgres-pool.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
 import { parseConfig } from '../../src/config.js';
 import { createServer } from '../../src/server.js';
 import type { ParsedConfig } from '../../src/types.js';
@@ -35,7 +36,7 @@ describeIf('Tool integration', () => {
   beforeAll(async () => {
     manager = new ConnectionManager(buildConfig(true));
     await manager.initialize();
-    const { server } = createServer(manager);
+    const { server } = createServer(ConnectionRegistry.single(manager));
     registeredTools = (
       server as unknown as { _registeredTools: Record<string, { handler: ToolHandler }> }
     )._registeredTools;
@@ -78,3 +79,135 @@ describeIf('Tool integration', () => {
     expect(result.content[0].text.length).toBeGreaterThan(0);
   });
 });
+
+const FIXTURES = [
+  'CREATE SCHEMA mcp_it_source',
+  'CREATE TABLE mcp_it_source.customers (id int PRIMARY KEY, email text NOT NULL)',
+  `CREATE TABLE mcp_it_source.orders (
+    id int PRIMARY KEY,
+    customer_id int NOT NULL REFERENCES mcp_it_source.customers (id),
+    total numeric(12,2)
+  )`,
+  'CREATE SEQUENCE mcp_it_source.invoice_numbers',
+  "CREATE TYPE mcp_it_source.order_status AS ENUM ('open', 'paid')",
+  `CREATE FUNCTION mcp_it_source.order_total(order_id int) RETURNS numeric
+    LANGUAGE sql STABLE AS 'SELECT total FROM mcp_it_source.orders WHERE id = order_id'`,
+  `CREATE FUNCTION mcp_it_source.touch() RETURNS trigger
+    LANGUAGE plpgsql AS 'BEGIN RETURN NEW; END'`,
+  `CREATE TRIGGER orders_touch BEFORE UPDATE ON mcp_it_source.orders
+    FOR EACH ROW EXECUTE FUNCTION mcp_it_source.touch()`,
+  `CREATE MATERIALIZED VIEW mcp_it_source.order_counts AS
+    SELECT customer_id, count(*) AS orders FROM mcp_it_source.orders GROUP BY customer_id`,
+  'CREATE SCHEMA mcp_it_target',
+  'CREATE TABLE mcp_it_target.customers (id int PRIMARY KEY)',
+];
+
+describeIf('Catalog tool integration', () => {
+  let manager: ConnectionManager;
+  let registeredTools: Record<string, { handler: ToolHandler }>;
+
+  // Handlers are called directly, so every argument with a default is passed
+  const call = async (tool: string, args: Record<string, unknown>) => {
+    const result = await registeredTools[tool].handler(args, {});
+    return JSON.parse(result.content[0].text);
+  };
+
+  const cleanUp = () =>
+    manager.executeQuery('DROP SCHEMA IF EXISTS mcp_it_source, mcp_it_target CASCADE');
+
+  beforeAll(async () => {
+    manager = new ConnectionManager(buildConfig(false));
+    await manager.initialize();
+    await cleanUp();
+    for (const statement of FIXTURES) {
+      await manager.executeQuery(statement);
+    }
+    const { server } = createServer(ConnectionRegistry.single(manager));
+    registeredTools = (
+      server as unknown as { _registeredTools: Record<string, { handler: ToolHandler }> }
+    )._registeredTools;
+  });
+
+  afterAll(async () => {
+    if (manager) {
+      await cleanUp();
+      await manager.close();
+    }
+  });
+
+  it('get_object_ddl returns the CREATE statements of a table', async () => {
+    const payload = await call('get_object_ddl', { schema: 'mcp_it_source', name: 'orders' });
+    expect(payload.kind).toBe('table');
+    expect(payload.ddl).toContain('CREATE TABLE "mcp_it_source"."orders"');
+    expect(payload.ddl).toContain('REFERENCES "mcp_it_source"."customers"');
+    expect(payload.ddl).toContain('CREATE TRIGGER orders_touch');
+  });
+
+  it('diff_schema compares two schemas and renders a migration', async () => {
+    const payload = await call('diff_schema', {
+      schema: 'mcp_it_source',
+      targetSchema: 'mcp_it_target',
+      includeMigration: true,
+    });
+    expect(payload.identical).toBe(false);
+    expect(payload.tables.added.map((table: { name: string }) => table.name)).toEqual(['orders']);
+    expect(payload.tables.changed.map((table: { name: string }) => table.name)).toEqual([
+      'customers',
+    ]);
+    expect(payload.migration.length).toBeGreaterThan(0);
+  });
+
+  it('get_relationships returns the foreign keys of a schema', async () => {
+    const payload = await call('get_relationships', { schema: 'mcp_it_source', depth: 1 });
+    expect(payload.nodes.map((node: { id: string }) => node.id)).toEqual([
+      'mcp_it_source.customers',
+      'mcp_it_source.orders',
+    ]);
+    expect(payload.edges).toHaveLength(1);
+    expect(payload.mermaid).toContain('erDiagram');
+  });
+
+  it('suggest_join follows the foreign key between two tables', async () => {
+    const payload = await call('suggest_join', {
+      schema: 'mcp_it_source',
+      fromTable: 'customers',
+      toTable: 'orders',
+      maxHops: 4,
+      includeInferred: false,
+      limit: 3,
+    });
+    expect(payload.paths[0].length).toBe(1);
+    expect(payload.paths[0].inferred).toBe(false);
+  });
+
+  it('search_schema finds columns by name', async () => {
+    const payload = await call('search_schema', {
+      query: 'customer email',
+      schema: 'mcp_it_source',
+      limit: 5,
+    });
+    expect(payload.terms).toEqual(['customer', 'email']);
+    expect(payload.results).toContainEqual(
+      expect.objectContaining({ kind: 'column', table: 'customers', name: 'email' })
+    );
+  });
+
+  it('catalog tools list functions, triggers, types, sequences and materialized views', async () => {
+    const schema = 'mcp_it_source';
+    const names = (rows: Array<{ name: string }>) => rows.map((row) => row.name);
+
+    expect(names(await call('list_functions', { schema, includeExtensionObjects: false }))).toEqual([
+      'order_total',
+      'touch',
+    ]);
+    const described = await call('describe_function', { schema, name: 'order_total' });
+    expect(described.overloads).toHaveLength(1);
+    expect(names(await call('list_triggers', { schema, table: 'orders' }))).toEqual(['orders_touch']);
+    expect(
+      names(await call('list_types', { schema, kind: 'enum', includeExtensionObjects: false }))
+    ).toEqual(['order_status']);
+    expect(names(await call('list_sequences', { schema }))).toEqual(['invoice_numbers']);
+    expect(names(await call('list_materialized_views', { schema }))).toEqual(['order_counts']);
+    expect(names(await call('list_extensions', { includeAvailable: false }))).toContain('plpgsql');
+  });
+});
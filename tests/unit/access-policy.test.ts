@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AccessPolicy,
+  collectObjectReferences,
+  type ObjectReference,
+} from '../../src/lib/access-policy.js';
+import { parseSql } from '../../src/lib/sql-parser.js';
+
+const refsOf = (sql: string): ObjectReference[] =>
+  collectObjectReferences(parseSql(sql));
+
+const names = (sql: string): string[] =>
+  refsOf(sql)
+    .map((ref) => `${ref.kind}:${ref.schema ?? '?'}.${ref.name}`)
+    .sort();
+
+describe('collectObjectReferences', () => {
+  it('collects qualified and unqualified relations', () => {
+    expect(names('SELECT * FROM billing.invoices i JOIN users u ON u.id = i.user_id')).toEqual([
+      'relation:?.users',
+      'relation:billing.invoices',
+    ]);
+  });
+
+  it('finds relations in subqueries, EXISTS and set operations', () => {
+    expect(
+      names(`
+        SELECT (SELECT count(*) FROM "Audit".events)
+        FROM public.users
+        WHERE EXISTS (SELECT 1 FROM pg_catalog.pg_authid)
+        UNION ALL SELECT 1 FROM (SELECT * FROM billing.cards) c
+      `)
+    ).toEqual([
+      'function:?.count',
+      'relation:Audit.events',
+      'relation:billing.cards',
+      'relation:pg_catalog.pg_authid',
+      'relation:public.users',
+    ]);
+  });
+
+  it('skips CTE names but keeps the relations they read', () => {
+    expect(
+      names('WITH recent AS (SELECT * FROM billing.invoices) SELECT * FROM recent')
+    ).toEqual(['relation:billing.invoices']);
+  });
+
+  it('does not let a CTE shadow the table it reads', () => {
+    expect(names('WITH users AS (SELECT * FROM users) SELECT * FROM users')).toEqual([
+      'relation:?.users',
+    ]);
+    expect(
+      names('WITH a AS (SELECT * FROM b), b AS (SELECT 1) SELECT * FROM a, b')
+    ).toEqual(['relation:?.b']);
+  });
+
+  it('does not treat DML targets as CTE references', () => {
+    expect(
+      names('WITH invoices AS (SELECT 1) DELETE FROM invoices')
+    ).toEqual(['relation:?.invoices']);
+  });
+
+  it('lets recursive CTEs reference themselves', () => {
+    expect(
+      names(`
+        WITH RECURSIVE tree AS (
+          SELECT id FROM nodes WHERE parent IS NULL
+          UNION ALL SELECT n.id FROM nodes n JOIN tree t ON n.parent = t.id
+        ) SELECT * FROM tree
+      `)
+    ).toEqual(['relation:?.nodes']);
+  });
+
+  it('treats schema-qualified names as relations even when a CTE matches', () => {
+    expect(names('WITH invoices AS (SELECT 1) SELECT * FROM billing.invoices')).toEqual([
+      'relation:billing.invoices',
+    ]);
+  });
+
+  it('collects function calls including set-returning functions', () => {
+    expect(
+      names("SELECT pg_read_file('x'), billing.total(1) FROM generate_series(1, 3)")
+    ).toEqual([
+      'function:?.generate_series',
+      'function:?.pg_read_file',
+      'function:billing.total',
+    ]);
+  });
+
+  it('looks inside EXPLAIN and data-modifying statements', () => {
+    expect(names('EXPLAIN (FORMAT JSON) SELECT * FROM billing.invoices')).toEqual([
+      'relation:billing.invoices',
+    ]);
+    expect(names('DELETE FROM audit.log USING billing.invoices')).toEqual([
+      'relation:audit.log',
+      'relation:billing.invoices',
+    ]);
+    expect(names('DROP TABLE billing.invoices, notes')).toEqual([
+      'relation:?.notes',
+      'relation:billing.invoices',
+    ]);
+  });
+
+  it('rejects SQL that does not parse', () => {
+    expect(() => parseSql('SELEC 1')).toThrow(/SQL syntax error/);
+  });
+});
+
+describe('AccessPolicy', () => {
+  it('blocks denied schemas and relations and names the object', () => {
+    const policy = new AccessPolicy({
+      deniedSchemas: ['billing'],
+      deniedRelations: ['pg_catalog.pg_authid', '*.secrets'],
+    });
+
+    expect(() => policy.assertRelation('billing', 'invoices')).toThrow(
+      'Access denied to relation billing.invoices (schema billing is in DENIED_SCHEMAS)'
+    );
+    expect(() => policy.assertRelation('pg_catalog', 'pg_authid')).toThrow(
+      /pg_catalog\.pg_authid \(matches DENIED_RELATIONS\)/
+    );
+    expect(() => policy.assertRelation('app', 'secrets')).toThrow(/app\.secrets/);
+    expect(policy.allowsRelation('public', 'users')).toBe(true);
+    expect(policy.allowsSchema('billing')).toBe(false);
+  });
+
+  it('requires allowed schemas or relations when allow lists are set', () => {
+    const policy = new AccessPolicy({
+      allowedSchemas: ['public'],
+      allowedRelations: ['reporting.summary'],
+    });
+
+    expect(policy.allowsRelation('public', 'users')).toBe(true);
+    expect(policy.allowsRelation('reporting', 'summary')).toBe(true);
+    expect(policy.allowsRelation('reporting', 'raw')).toBe(false);
+    expect(policy.allowsSchema('reporting')).toBe(true);
+    expect(() => policy.assertSchema('billing')).toThrow(
+      'Access denied to schema billing (not in ALLOWED_SCHEMAS or ALLOWED_RELATIONS)'
+    );
+  });
+
+  it('lets denials win over allow lists', () => {
+    const policy = new AccessPolicy({
+      allowedSchemas: ['public'],
+      deniedRelations: ['public.api_keys'],
+    });
+
+    expect(policy.allowsRelation('public', 'users')).toBe(true);
+    expect(policy.allowsRelation('public', 'api_keys')).toBe(false);
+  });
+
+  it('checks functions against schema lists, exempting pg_catalog built-ins', () => {
+    const policy = new AccessPolicy({
+      allowedSchemas: ['public'],
+      deniedFunctions: ['pg_catalog.pg_read_file'],
+    });
+
+    expect(() =>
+      policy.assertReferences([
+        { kind: 'function', schema: 'pg_catalog', name: 'count' },
+        { kind: 'function', schema: 'public', name: 'slugify' },
+      ])
+    ).not.toThrow();
+    expect(() =>
+      policy.assertReferences([
+        { kind: 'function', schema: 'pg_catalog', name: 'pg_read_file' },
+      ])
+    ).toThrow('Access denied to function pg_catalog.pg_read_file (matches DENIED_FUNCTIONS)');
+    expect(() =>
+      policy.assertReferences([{ kind: 'function', schema: 'billing', name: 'charge' }])
+    ).toThrow(/function billing\.charge \(schema is not in ALLOWED_SCHEMAS\)/);
+    expect(policy.allowsFunction('public', 'slugify')).toBe(true);
+    expect(policy.allowsFunction('billing', 'charge')).toBe(false);
+    expect(() => policy.assertFunction('pg_catalog', 'pg_read_file')).toThrow(
+      'matches DENIED_FUNCTIONS'
+    );
+  });
+
+  it('reports the first blocked reference', () => {
+    const policy = new AccessPolicy({ deniedSchemas: ['billing'] });
+
+    expect(() =>
+      policy.assertReferences([
+        { kind: 'relation', schema: 'public', name: 'users' },
+        { kind: 'relation', schema: 'billing', name: 'cards' },
+      ])
+    ).toThrow(/billing\.cards/);
+  });
+});
@@ -0,0 +1,302 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { createHash } from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import request from 'supertest';
+import type { HttpConfig } from '../../src/types.js';
+import { buildConfig, fakePg } from './helpers/fake-pg.js';
+
+vi.mock('pg', () => import('./helpers/fake-pg.js'));
+
+fakePg.respond = (sql) =>
+  sql.startsWith('DELETE')
+    ? { rows: [], rowCount: 4, command: 'DELETE' }
+    : { rows: [{ n: 1 }], rowCount: 1, command: 'SELECT' };
+
+const { ChangeQueue } = await import('../../src/lib/approvals.js');
+const { AuditLogger } = await import('../../src/lib/audit.js');
+const { ConnectionManager } = await import('../../src/connection/postgres-pool.js');
+const { ConnectionRegistry } = await import('../../src/connection/connection-registry.js');
+const { runWithRequestContext } = await import('../../src/lib/request-context.js');
+const { createHttpApp } = await import('../../src/http/app.js');
+type AuditEvent = import('../../src/lib/audit.js').AuditEvent;
+type ConnectionManagerType = InstanceType<typeof ConnectionManager>;
+
+const asReviewer = <T>(subject: string, fn: () => T): T =>
+  runWithRequestContext(
+    { subject, access: { grants: [], tools: ['*'], mode: 'read-write' } },
+    fn
+  );
+
+describe('ChangeQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records each step of a change in the audit log', () => {
+    const events: AuditEvent[] = [];
+    const queue = new ChangeQueue(
+      { ttlMs: 60000, maxPending: 10 },
+      new AuditLogger([{ write: (event) => events.push(event) }])
+    );
+
+    const change = queue.submit({
+      database: 'app',
+      sql: 'DELETE FROM users',
+      params: [],
+      submittedBy: 'agent',
+    });
+    expect(change).toMatchObject({ database: 'app', status: 'pending', submittedBy: 'agent' });
+
+    queue.approve(change.id, 'reviewer');
+    const done = queue.complete(change.id, {
+      result: { rows: [], rowCount: 4, truncated: false, command: 'DELETE' },
+    });
+    expect(done).toMatchObject({
+      status: 'executed',
+      reviewedBy: 'reviewer',
+      result: { command: 'DELETE', rowCount: 4 },
+    });
+    expect(queue.list()).toEqual([done]);
+    expect(queue.list('pending')).toEqual([]);
+
+    expect(events.map((event) => [event.type, event.changeId, event.status])).toEqual([
+      ['change', change.id, 'pending'],
+      ['change', change.id, 'approved'],
+      ['change', change.id, 'executed'],
+    ]);
+    expect(events[2]).toMatchObject({ database: 'app', sql: 'DELETE FROM users', rowCount: 4 });
+  });
+
+  it('requires a reviewer other than the submitter', () => {
+    const queue = new ChangeQueue();
+    const { id } = queue.submit({ database: 'app', sql: 'DELETE FROM t', params: [], submittedBy: 'agent' });
+
+    expect(() => queue.approve(id, 'agent')).toThrow(
+      'A change must be reviewed by someone other than its submitter.'
+    );
+    expect(() => queue.approve(id, undefined)).toThrow(
+      'Reviewing a change requires an authenticated identity.'
+    );
+    expect(queue.reject(id, 'reviewer', 'too broad')).toMatchObject({
+      status: 'rejected',
+      reason: 'too broad',
+    });
+    expect(() => queue.approve(id, 'reviewer')).toThrow(`Change ${id} is rejected, not pending.`);
+    expect(() => queue.get('missing')).toThrow('Change missing not found. It may have expired.');
+  });
+
+  it('expires unreviewed changes and limits how many are pending', () => {
+    vi.useFakeTimers();
+    const queue = new ChangeQueue({ ttlMs: 1000, maxPending: 1 });
+    const { id } = queue.submit({ database: 'app', sql: 'DELETE FROM t', params: [] });
+
+    expect(() => queue.submit({ database: 'app', sql: 'DELETE FROM u', params: [] })).toThrow(
+      'Too many pending changes (1).'
+    );
+
+    vi.advanceTimersByTime(1000);
+    expect(queue.get(id).status).toBe('expired');
+    expect(() => queue.approve(id, 'reviewer')).toThrow('is expired, not pending');
+    queue.submit({ database: 'app', sql: 'DELETE FROM u', params: [] });
+
+    vi.advanceTimersByTime(1000);
+    expect(() => queue.get(id)).toThrow('not found');
+  });
+});
+
+describe('ConnectionManager with WRITE_APPROVAL', () => {
+  const config = buildConfig({ writeApproval: true });
+  let registry: InstanceType<typeof ConnectionRegistry> | undefined;
+
+  const start = async () => {
+    registry = ConnectionRegistry.fromProfiles([{ name: 'app', config }]);
+    await registry.initialize();
+    fakePg.clearHistory();
+    return registry;
+  };
+
+  afterEach(async () => {
+    await registry?.close();
+    registry = undefined;
+  });
+
+  it('queues writes and runs reads in a read-only transaction', async () => {
+    const manager = (await start()).get();
+
+    const queued = await asReviewer('agent', () =>
+      manager.executeQuery('DELETE FROM users WHERE id = $1', [7], { queueWrites: true })
+    );
+    expect(queued).toMatchObject({
+      rows: [],
+      rowCount: 0,
+      truncated: false,
+      pendingChange: {
+        database: 'app',
+        sql: 'DELETE FROM users WHERE id = $1',
+        params: [7],
+        status: 'pending',
+        submittedBy: 'agent',
+      },
+    });
+    await expect(manager.executeQuery('DROP TABLE users')).rejects.toThrow(
+      'Writes to database "app" require approval. Submit them with execute_query.'
+    );
+    expect(fakePg.queries).toEqual([]);
+
+    await manager.executeQuery('SELECT 1');
+    expect(fakePg.queries[0]).toBe('BEGIN TRANSACTION READ ONLY');
+  });
+
+  it('refuses write previews, which would run the statement', async () => {
+    const manager = (await start()).get();
+
+    await expect(
+      asReviewer('agent', () => manager.previewWrite('DELETE FROM users', []))
+    ).rejects.toThrow('Writes to database "app" require approval. Write previews are not available.');
+    expect(fakePg.queries).toEqual([]);
+  });
+
+  it('runs an approved change and records its outcome', async () => {
+    const connections = await start();
+    const { pendingChange } = await asReviewer('agent', () =>
+      connections.get().executeQuery('DELETE FROM users', [], { queueWrites: true })
+    );
+    const id = pendingChange!.id;
+
+    await expect(asReviewer('agent', () => connections.approveChange(id))).rejects.toThrow(
+      'someone other than its submitter'
+    );
+    await expect(
+      runWithRequestContext(
+        { subject: 'viewer', access: { grants: [], tools: ['*'], mode: 'read-only' } },
+        () => connections.approveChange(id)
+      )
+    ).rejects.toThrow('Approving a change requires read-write access.');
+
+    const executed = await asReviewer('reviewer', () => connections.approveChange(id));
+    expect(executed).toMatchObject({
+      status: 'executed',
+      reviewedBy: 'reviewer',
+      result: { command: 'DELETE', rowCount: 4 },
+    });
+    expect(fakePg.queries).toEqual(['DELETE FROM users']);
+  });
+});
+
+describe('/admin/changes', () => {
+  let tempDir: string;
+  let appContext: ReturnType<typeof createHttpApp> | undefined;
+
+  const sha256 = (key: string) => createHash('sha256').update(key).digest('hex');
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'pg-mcp-approvals-'));
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await appContext?.stop();
+    appContext = undefined;
+  });
+
+  it('lets a different identity list, approve and reject changes', async () => {
+    const file = join(tempDir, 'keys.json');
+    writeFileSync(
+      file,
+      JSON.stringify({
+        keys: [
+          { label: 'agent', sha256: sha256('agent-key'), tools: ['execute_query', 'list_changes'] },
+          { label: 'dba', sha256: sha256('dba-key') },
+        ],
+      })
+    );
+    const manager = {
+      close: vi.fn().mockResolvedValue(undefined),
+      executeApprovedChange: vi
+        .fn()
+        .mockResolvedValue({ rows: [], rowCount: 2, truncated: false, command: 'UPDATE' }),
+    } as unknown as ConnectionManagerType;
+    const connections = new ConnectionRegistry([{ name: 'default', manager }]);
+    const httpConfig: HttpConfig = {
+      port: 3000,
+      host: '127.0.0.1',
+      authMode: 'apikey',
+      apiKeysFile: file,
+      sessionTtlMinutes: 30,
+      stateless: true,
+      serverPoolSize: 1,
+      sessionCleanupIntervalMs: 300000,
+    };
+    appContext = createHttpApp({ httpConfig, connections });
+    const { app } = appContext;
+
+    const first = connections.changes.submit({
+      database: 'default',
+      sql: 'UPDATE t SET a = 1',
+      params: [],
+      submittedBy: 'apikey:agent',
+    });
+    const second = connections.changes.submit({
+      database: 'default',
+      sql: 'DELETE FROM t',
+      params: [],
+      submittedBy: 'apikey:agent',
+    });
+
+    expect((await request(app).get('/admin/changes')).status).toBe(401);
+
+    const listed = await request(app)
+      .get('/admin/changes')
+      .set('Authorization', 'Bearer agent-key');
+    expect(listed.status).toBe(200);
+    expect(listed.body.changes.map((change: { id: string }) => change.id)).toEqual([
+      first.id,
+      second.id,
+    ]);
+
+    const denied = await request(app)
+      .post(`/admin/changes/${first.id}/approve`)
+      .set('Authorization', 'Bearer agent-key');
+    expect(denied.status).toBe(403);
+
+    const missing = await request(app)
+      .post('/admin/changes/nope/approve')
+      .set('Authorization', 'Bearer dba-key');
+    expect(missing.status).toBe(404);
+
+    const approved = await request(app)
+      .post(`/admin/changes/${first.id}/approve`)
+      .set('Authorization', 'Bearer dba-key');
+    expect(approved.status).toBe(200);
+    expect(approved.body).toMatchObject({
+      status: 'executed',
+      reviewedBy: 'apikey:dba',
+      result: { command: 'UPDATE', rowCount: 2 },
+    });
+
+    const again = await request(app)
+      .post(`/admin/changes/${first.id}/approve`)
+      .set('Authorization', 'Bearer dba-key');
+    expect(again.status).toBe(409);
+
+    const rejected = await request(app)
+      .post(`/admin/changes/${second.id}/reject`)
+      .set('Authorization', 'Bearer dba-key')
+      .send({ reason: 'no WHERE clause' });
+    expect(rejected.body).toMatchObject({ status: 'rejected', reason: 'no WHERE clause' });
+
+    const executed = await request(app)
+      .get('/admin/changes?status=executed')
+      .set('Authorization', 'Bearer dba-key');
+    expect(executed.body.changes).toHaveLength(1);
+    expect(
+      (await request(app).get('/admin/changes?status=bogus').set('Authorization', 'Bearer dba-key'))
+        .status
+    ).toBe(400);
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, existsSync } from 'node:fs';
+import { createSocket } from 'node:dgram';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AuditLogger,
+  RotatingFileAuditSink,
+  SyslogAuditSink,
+  auditToolHandler,
+  hashParams,
+  type AuditEvent,
+  type AuditSink,
+} from '../../src/lib/audit.js';
+import { runWithRequestContext } from '../../src/lib/request-context.js';
+import { normalizeSql } from '../../src/lib/sql-validator.js';
+import { successResponse, errorResponseFromError } from '../../src/lib/tool-response.js';
+import { buildConfig, fakePg } from './helpers/fake-pg.js';
+
+vi.mock('pg', () => import('./helpers/fake-pg.js'));
+
+fakePg.respond = (sql) => {
+  if (sql.includes('missing_table')) {
+    throw new Error('relation "missing_table" does not exist');
+  }
+  return {
+    rows: [{ n: 1 }],
+    rowCount: 1,
+    command: 'SELECT',
+    fields: [{ name: 'n', dataTypeID: 23 }],
+  };
+};
+
+const { ConnectionManager } = await import(
+  '../../src/connection/postgres-pool.js'
+);
+
+class MemorySink implements AuditSink {
+  events: AuditEvent[] = [];
+  write(event: AuditEvent): void {
+    this.events.push(event);
+  }
+}
+
+describe('normalizeSql', () => {
+  it('drops comments, collapses whitespace and trailing semicolons', () => {
+    expect(
+      normalizeSql(`
+        -- find a user
+        SELECT id,  name /* cols */
+        FROM   public.users
+        WHERE  name = 'a  b' ;
+      `)
+    ).toBe('SELECT id, name FROM public.users WHERE name = ?');
+  });
+
+  it('replaces string and numeric constants with placeholders', () => {
+    expect(
+      normalizeSql(
+        "SELECT * FROM people WHERE ssn = '123-45-6789' AND note = E'it''s' AND age > 41.5e0 LIMIT 10"
+      )
+    ).toBe('SELECT * FROM people WHERE ssn = ? AND note = ? AND age > ? LIMIT ?');
+    expect(normalizeSql("UPDATE t SET data = $tag$secret$tag$, flags = B'101' WHERE id = -7")).toBe(
+      'UPDATE t SET data = ?, flags = ? WHERE id = -?'
+    );
+    expect(normalizeSql("SELECT U&'d\\0061t' AS \"col1\", t2.c3 FROM t2")).toBe(
+      'SELECT ? AS "col1", t2.c3 FROM t2'
+    );
+  });
+
+  it('keeps parameter references', () => {
+    expect(normalizeSql('SELECT * FROM t WHERE id = $1 AND n < $12')).toBe(
+      'SELECT * FROM t WHERE id = $1 AND n < $12'
+    );
+  });
+
+  it('keeps adjacent punctuation together', () => {
+    expect(normalizeSql('SELECT count(*)::int FROM t')).toBe(
+      'SELECT count(*)::int FROM t'
+    );
+  });
+});
+
+describe('hashParams', () => {
+  it('returns a stable SHA-256 and skips empty parameter lists', () => {
+    expect(hashParams(undefined)).toBeUndefined();
+    expect(hashParams([])).toBeUndefined();
+    expect(hashParams([1, 'a'])).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashParams([1, 'a'])).toBe(hashParams([1, 'a']));
+    expect(hashParams([1, 'a'])).not.toBe(hashParams([1, 'b']));
+    expect(hashParams([10n])).toBe(hashParams(['10']));
+  });
+});
+
+describe('AuditLogger', () => {
+  it('adds tool and subject from the surrounding context', () => {
+    const sink = new MemorySink();
+    const audit = new AuditLogger([sink]);
+
+    runWithRequestContext({ subject: 'auth0|alice' }, () =>
+      runWithRequestContext({ tool: 'execute_query' }, () =>
+        audit.record({ type: 'tool', durationMs: 3 })
+      )
+    );
+
+    expect(sink.events[0]).toMatchObject({
+      type: 'tool',
+      tool: 'execute_query',
+      subject: 'auth0|alice',
+      durationMs: 3,
+    });
+    expect(sink.events[0].timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  it('keeps writing to other sinks when one fails', () => {
+    const sink = new MemorySink();
+    const failing: AuditSink = {
+      write() {
+        throw new Error('disk full');
+      },
+    };
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    new AuditLogger([failing, sink]).record({ type: 'tool', durationMs: 1 });
+
+    expect(sink.events).toHaveLength(1);
+    expect(errorSpy).toHaveBeenCalledWith('[Audit] Sink write failed:', 'disk full');
+    errorSpy.mockRestore();
+  });
+
+  it('records tool calls and attributes their queries', async () => {
+    const sink = new MemorySink();
+    const audit = new AuditLogger([sink]);
+    const handler = auditToolHandler(
+      'list_tables',
+      async (schema: string) => {
+        audit.record({ type: 'query', sql: `SELECT ${schema}`, durationMs: 0 });
+        return schema === 'bad'
+          ? errorResponseFromError(new Error('Access denied to schema bad'))
+          : successResponse([]);
+      },
+      audit
+    );
+
+    await handler('public');
+    await handler('bad');
+
+    expect(sink.events.map((e) => [e.type, e.tool, e.error])).toEqual([
+      ['query', 'list_tables', undefined],
+      ['tool', 'list_tables', undefined],
+      ['query', 'list_tables', undefined],
+      ['tool', 'list_tables', 'Access denied to schema bad'],
+    ]);
+  });
+});
+
+describe('ConnectionManager auditing', () => {
+  it('records executed queries with outcome and params hash', async () => {
+    const sink = new MemorySink();
+    const manager = new ConnectionManager(buildConfig({ maxOpenCursors: 2 }), {
+      name: 'analytics',
+      audit: new AuditLogger([sink]),
+    });
+    await manager.initialize();
+
+    await runWithRequestContext({ tool: 'execute_query', subject: 'user-1' }, () =>
+      manager.executeQuery('SELECT n\n  FROM t WHERE id = $1', [42])
+    );
+    await expect(manager.executeQuery('SELECT * FROM missing_table')).rejects.toThrow();
+    await manager.close();
+
+    expect(sink.events).toHaveLength(2);
+    expect(sink.events[0]).toMatchObject({
+      type: 'query',
+      tool: 'execute_query',
+      subject: 'user-1',
+      database: 'analytics',
+      sql: 'SELECT n FROM t WHERE id = $1',
+      paramsHash: hashParams([42]),
+      rowCount: 1,
+      truncated: false,
+    });
+    expect(sink.events[1]).toMatchObject({
+      sql: 'SELECT * FROM missing_table',
+      error: 'relation "missing_table" does not exist',
+    });
+    expect(sink.events[1].rowCount).toBeUndefined();
+  });
+
+  it('records write previews and exports like queries', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'audit-export-'));
+    const sink = new MemorySink();
+    const manager = new ConnectionManager(buildConfig({ exportDir: dir }), {
+      audit: new AuditLogger([sink]),
+    });
+    await manager.initialize();
+
+    try {
+      await manager.previewWrite('DELETE FROM t WHERE id = $1', [1]);
+      await manager.exportQuery('SELECT n FROM t', [], { format: 'csv', fileName: 'n' });
+      await expect(
+        manager.exportQuery('SELECT * FROM missing_table', [], { format: 'csv' })
+      ).rejects.toThrow();
+    } finally {
+      await manager.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    expect(sink.events.map((e) => [e.sql, e.rowCount, e.error])).toEqual([
+      ['DELETE FROM t WHERE id = $1', 1, undefined],
+      ['SELECT n FROM t', 1, undefined],
+      ['SELECT * FROM missing_table', undefined, 'relation "missing_table" does not exist'],
+    ]);
+  });
+});
+
+describe('RotatingFileAuditSink', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it('writes JSON lines and rotates by size', () => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-'));
+    const path = join(dir, 'audit.jsonl');
+    const sink = new RotatingFileAuditSink({ path, maxBytes: 200, maxFiles: 2 });
+    const event = (n: number): AuditEvent => ({
+      timestamp: '2026-01-01T00:00:00.000Z',
+      type: 'query',
+      sql: `SELECT ${n}`,
+      durationMs: n,
+    });
+
+    for (let i = 0; i < 8; i++) {
+      sink.write(event(i));
+    }
+    sink.close();
+
+    const current = readFileSync(path, 'utf8').trim().split('\n');
+    expect(JSON.parse(current[current.length - 1]).sql).toBe('SELECT 7');
+    expect(existsSync(`${path}.1`)).toBe(true);
+    expect(existsSync(`${path}.2`)).toBe(true);
+    expect(existsSync(`${path}.3`)).toBe(false);
+    for (const file of [path, `${path}.1`, `${path}.2`]) {
+      expect(readFileSync(file).length).toBeLessThanOrEqual(200);
+    }
+  });
+});
+
+describe('SyslogAuditSink', () => {
+  it('sends RFC 5424 messages over UDP', async () => {
+    const receiver = createSocket('udp4');
+    await new Promise<void>((resolve) => receiver.bind(0, '127.0.0.1', resolve));
+    const received = new Promise<string>((resolve) =>
+      receiver.once('message', (msg) => resolve(msg.toString()))
+    );
+
+    const sink = new SyslogAuditSink({
+      host: '127.0.0.1',
+      port: receiver.address().port,
+      facility: 16,
+      appName: 'pg-mcp',
+    });
+    sink.write({
+      timestamp: '2026-01-01T00:00:00.000Z',
+      type: 'query',
+      durationMs: 5,
+      error: 'boom',
+    });
+
+    const message = await received;
+    await sink.close();
+    receiver.close();
+
+    expect(message).toMatch(
+      /^<132>1 2026-01-01T00:00:00\.000Z \S+ pg-mcp \d+ query - \{/
+    );
+    expect(JSON.parse(message.slice(message.indexOf('{')))).toMatchObject({
+      error: 'boom',
+    });
+  });
+});
@@ -1,6 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import type { Request, Response, NextFunction } from 'express';
-import { createAuthMiddleware, verifyAuth0Token } from '../../src/http/auth.js';
+import {
+  auth0Preset,
+  createAuthMiddleware,
+  verifyAuth0Token,
+} from '../../src/http/auth.js';
 
 vi.mock('jose', () => ({
   createRemoteJWKSet: vi.fn(() => vi.fn()),
@@ -67,10 +71,10 @@ describe('verifyAuth0Token', () => {
 });
 
 describe('createAuthMiddleware', () => {
-  const config = {
+  const config = auth0Preset({
     domain: 'test.auth0.com',
     audience: 'https://api.example.com',
-  };
+  });
 
   let mockReq: Partial<Request>;
   let mockRes: Partial<Response>;
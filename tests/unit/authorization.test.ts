@@ -0,0 +1,254 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import type { HttpConfig } from '../../src/types.js';
+import type { ConnectionManager as ConnectionManagerType } from '../../src/connection/postgres-pool.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
+import { createHttpApp } from '../../src/http/app.js';
+import {
+  authorizeToolHandler,
+  isToolAllowed,
+  parseAuthorizationPolicy,
+  resolveToolAccess,
+} from '../../src/lib/authorization.js';
+import { runWithRequestContext } from '../../src/lib/request-context.js';
+import { successResponse } from '../../src/lib/tool-response.js';
+import { buildConfig, fakePg } from './helpers/fake-pg.js';
+
+vi.mock('jose', () => ({
+  createRemoteJWKSet: vi.fn(() => vi.fn()),
+  jwtVerify: vi.fn(),
+}));
+
+vi.mock('pg', () => import('./helpers/fake-pg.js'));
+
+import * as jose from 'jose';
+
+const { ConnectionManager } = await import('../../src/connection/postgres-pool.js');
+
+const policy = parseAuthorizationPolicy(
+  {
+    grants: {
+      'db:read': {
+        tools: [
+          'execute_query',
+          'fetch_more',
+          'explain_query',
+          'list_schemas',
+          'list_tables',
+          'list_databases',
+          'describe_*',
+        ],
+      },
+      'db:write': { tools: ['execute_query', 'fetch_more'], mode: 'read-write' },
+      'db:admin': { tools: ['list_active_connections', 'list_long_running_queries'] },
+    },
+  },
+  'policy.json'
+);
+
+describe('parseAuthorizationPolicy', () => {
+  it('defaults the claims and grant mode', () => {
+    expect(policy.claims).toEqual(['scope', 'permissions', 'roles']);
+    expect(policy.grants['db:read'].mode).toBe('read-only');
+    expect(policy.grants['db:write'].mode).toBe('read-write');
+  });
+
+  it('rejects malformed documents', () => {
+    expect(() => parseAuthorizationPolicy([], 'p')).toThrow('p must contain a JSON object');
+    expect(() => parseAuthorizationPolicy({ grants: {} }, 'p')).toThrow(
+      'p must contain a non-empty "grants" object'
+    );
+    expect(() => parseAuthorizationPolicy({ claims: [], grants: { a: { tools: ['x'] } } }, 'p')).toThrow(
+      'p "claims" must be a non-empty array of claim names'
+    );
+    expect(() => parseAuthorizationPolicy({ grants: { a: { tools: [] } } }, 'p')).toThrow(
+      'p grant "a" "tools" must be a non-empty array of tool names'
+    );
+    expect(() =>
+      parseAuthorizationPolicy({ grants: { a: { tools: ['x'], mode: 'admin' } } }, 'p')
+    ).toThrow('p grant "a" "mode" must be "read-only" or "read-write"');
+  });
+});
+
+describe('resolveToolAccess', () => {
+  it('matches space-separated scopes and array claims', () => {
+    const access = resolveToolAccess(policy, {
+      scope: 'openid db:read',
+      permissions: ['db:admin'],
+      roles: 'ignored',
+    });
+
+    expect(access.grants).toEqual(['db:read', 'db:admin']);
+    expect(access.mode).toBe('read-only');
+    expect(isToolAllowed(access, 'describe_table')).toBe(true);
+    expect(isToolAllowed(access, 'list_active_connections')).toBe(true);
+    expect(isToolAllowed(access, 'get_database_size')).toBe(false);
+  });
+
+  it('is read-write when any matched grant allows writes', () => {
+    const access = resolveToolAccess(policy, { scope: 'db:read db:write' });
+    expect(access.mode).toBe('read-write');
+  });
+
+  it('grants nothing to tokens without matching claims', () => {
+    const access = resolveToolAccess(policy, { sub: 'auth0|bob', scope: 'openid' });
+    expect(access).toEqual({ grants: [], tools: [], mode: 'read-only' });
+  });
+});
+
+describe('authorizeToolHandler', () => {
+  const handler = authorizeToolHandler(
+    'list_active_connections',
+    async () => successResponse('ok'),
+    policy
+  );
+
+  it('names the grants required for a denied tool', async () => {
+    const response = await runWithRequestContext(
+      { access: resolveToolAccess(policy, { scope: 'db:read' }) },
+      () => handler()
+    );
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toBe(
+      'Error: Access denied to tool list_active_connections: requires one of db:admin'
+    );
+  });
+
+  it('fails closed outside an authorized request', async () => {
+    expect((await handler()).isError).toBe(true);
+  });
+
+  it('runs the tool when granted', async () => {
+    const response = await runWithRequestContext(
+      { access: resolveToolAccess(policy, { permissions: ['db:admin'] }) },
+      () => handler()
+    );
+    expect(response.isError).toBeUndefined();
+  });
+});
+
+describe('ConnectionManager query mode', () => {
+  const config = buildConfig({ maxOpenCursors: 2 });
+
+  it('runs read-only callers in a read-only transaction on a read-write server', async () => {
+    const manager = new ConnectionManager(config);
+    await manager.initialize();
+    fakePg.clearHistory();
+
+    const readOnly = resolveToolAccess(policy, { scope: 'db:read' });
+    await expect(
+      runWithRequestContext({ access: readOnly }, () =>
+        manager.executeQuery('DELETE FROM orders')
+      )
+    ).rejects.toThrow();
+    await runWithRequestContext({ access: readOnly }, () =>
+      manager.executeQuery('SELECT 1')
+    );
+    expect(fakePg.queries[0]).toBe('BEGIN TRANSACTION READ ONLY');
+
+    fakePg.clearHistory();
+    await runWithRequestContext(
+      { access: resolveToolAccess(policy, { scope: 'db:write' }) },
+      () => manager.executeQuery('DELETE FROM orders')
+    );
+    expect(fakePg.queries).not.toContain('BEGIN TRANSACTION READ ONLY');
+
+    await manager.close();
+  });
+});
+
+describe('HTTP tool authorization', () => {
+  const baseConfig: HttpConfig = {
+    port: 3000,
+    host: '127.0.0.1',
+    authMode: 'oauth',
+    auth0Domain: 'test.auth0.com',
+    auth0Audience: 'https://api.example.com',
+    sessionTtlMinutes: 30,
+    stateless: false,
+    serverPoolSize: 1,
+    sessionCleanupIntervalMs: 300000,
+    allowedHosts: ['api.example.com'],
+    authorization: policy,
+  };
+  let appContext: ReturnType<typeof createHttpApp> | undefined;
+
+  const createManager = (): ConnectionManagerType =>
+    ({
+      healthCheck: vi.fn().mockResolvedValue(undefined),
+      close: vi.fn().mockResolvedValue(undefined),
+      executeQuery: vi.fn().mockResolvedValue({ rows: [], rowCount: 0, truncated: false }),
+    }) as unknown as ConnectionManagerType;
+
+  const mockToken = (payload: Record<string, unknown>) =>
+    vi.mocked(jose.jwtVerify).mockResolvedValue({
+      payload,
+    } as unknown as Awaited<ReturnType<typeof jose.jwtVerify>>);
+
+  const post = (sessionId?: string) => {
+    const req = request(appContext?.app)
+      .post('/mcp')
+      .set('Accept', 'application/json, text/event-stream')
+      .set('Authorization', 'Bearer valid.token')
+      .set('Host', 'api.example.com');
+    return sessionId ? req.set('mcp-session-id', sessionId) : req;
+  };
+
+  const callTool = (name: string, sessionId?: string) =>
+    post(sessionId).send({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'tools/call',
+      params: { name, arguments: {} },
+    });
+
+  afterEach(async () => {
+    await appContext?.stop();
+    appContext = undefined;
+    vi.clearAllMocks();
+  });
+
+  it('checks the token of each request in a stateful session', async () => {
+    appContext = createHttpApp({
+      httpConfig: baseConfig,
+      connections: ConnectionRegistry.single(createManager()),
+      enableJsonResponse: true,
+    });
+
+    mockToken({ sub: 'auth0|alice', permissions: ['db:admin'] });
+    const init = await post().send({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-11-25',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '0.0.0' },
+      },
+    });
+    const sessionId = init.headers['mcp-session-id'];
+
+    const allowed = await callTool('list_long_running_queries', sessionId);
+    expect(allowed.body.result.isError).toBeUndefined();
+
+    mockToken({ sub: 'auth0|alice', scope: 'db:read' });
+    const denied = await callTool('list_long_running_queries', sessionId);
+    expect(denied.body.result.isError).toBe(true);
+    expect(denied.body.result.content[0].text).toContain('requires one of db:admin');
+  });
+
+  it('denies ungranted tools in stateless mode', async () => {
+    appContext = createHttpApp({
+      httpConfig: { ...baseConfig, stateless: true },
+      connections: ConnectionRegistry.single(createManager()),
+    });
+
+    mockToken({ sub: 'auth0|bob', scope: 'openid' });
+    const denied = await callTool('list_databases');
+    expect(denied.body.result.isError).toBe(true);
+
+    mockToken({ sub: 'auth0|bob', scope: 'db:read' });
+    const allowed = await callTool('list_databases');
+    expect(allowed.body.result.isError).toBeUndefined();
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { parseSql } from '../../src/lib/sql-parser.js';
+import { AccessPolicy } from '../../src/lib/access-policy.js';
+import {
+  describeFunction,
+  listExtensions,
+  listFunctions,
+  listMaterializedViews,
+  listSequences,
+  listTriggers,
+  listTypes,
+} from '../../src/lib/catalog.js';
+import { fakeCatalogManager } from './helpers/fake-catalog.js';
+
+/** Answers each catalog query with the one-row JSON result `row` */
+const fakeManager = (row: Record<string, unknown>, policy: AccessPolicy | null = null) =>
+  fakeCatalogManager(() => [row], policy);
+
+const summary = (schema: string, name: string) => ({
+  schema,
+  name,
+  kind: 'function',
+  arguments: 'value text',
+  returns: 'text',
+  language: 'sql',
+  volatility: 'immutable',
+  securityDefiner: false,
+  comment: null,
+});
+
+describe('catalog tools', () => {
+  it('runs one parseable query per listing with its parameters', async () => {
+    const { manager, executeQuery } = fakeManager({
+      functions: [],
+      triggers: [],
+      types: [],
+      extensions: [],
+      sequences: [],
+      materialized_views: [],
+    });
+
+    await listFunctions(manager, 'public');
+    await listTriggers(manager, 'public', 'orders');
+    await listTypes(manager, 'public', 'enum');
+    await listExtensions(manager, true);
+    await listSequences(manager, 'public');
+    await listMaterializedViews(manager, 'public');
+
+    expect(executeQuery.mock.calls.map(([, params]) => params)).toEqual([
+      ['public', false],
+      ['public', 'orders'],
+      ['public', 'e', false],
+      [true],
+      ['public'],
+      ['public'],
+    ]);
+    for (const [sql] of executeQuery.mock.calls) {
+      expect(parseSql(sql)).toHaveLength(1);
+    }
+
+    await listTriggers(manager, 'public');
+    await listTypes(manager, 'public', undefined, true);
+    expect(executeQuery.mock.calls.slice(-2).map(([, params]) => params)).toEqual([
+      ['public', null],
+      ['public', null, true],
+    ]);
+  });
+
+  it('describes every overload of a function and rejects unknown ones', async () => {
+    const overload = {
+      ...summary('public', 'slugify'),
+      identityArguments: 'value text',
+      parameters: [{ name: 'value', type: 'text', mode: 'in' }],
+      owner: 'app',
+      strict: true,
+      parallel: 'safe',
+      cost: 100,
+      rows: null,
+      config: ['search_path=public'],
+      definition: 'CREATE OR REPLACE FUNCTION public.slugify(value text) ...',
+    };
+    const { manager, executeQuery } = fakeManager({ overloads: [overload] });
+
+    await expect(describeFunction(manager, 'public', 'slugify')).resolves.toEqual({
+      schema: 'public',
+      name: 'slugify',
+      overloads: [overload],
+    });
+    expect(executeQuery).toHaveBeenCalledWith(expect.any(String), ['public', 'slugify'], { skipMasking: true });
+    expect(parseSql(executeQuery.mock.calls[0][0])).toHaveLength(1);
+
+    await expect(
+      describeFunction(fakeManager({ overloads: [] }).manager, 'public', 'nope')
+    ).rejects.toThrow('Function "public.nope" does not exist');
+  });
+
+  it('leaves out objects the access policy blocks', async () => {
+    const policy = new AccessPolicy({
+      deniedRelations: ['public.secrets', 'public.secret_totals'],
+      deniedFunctions: ['public.decrypt'],
+    });
+    const { manager } = fakeManager(
+      {
+        functions: [summary('public', 'slugify'), summary('public', 'decrypt')],
+        triggers: [
+          { schema: 'public', table: 'orders', name: 'orders_audit' },
+          { schema: 'public', table: 'secrets', name: 'secrets_audit' },
+        ],
+        sequences: [
+          { schema: 'public', name: 'orders_id_seq' },
+          { schema: 'public', name: 'secrets' },
+        ],
+        materialized_views: [
+          { schema: 'public', name: 'order_totals' },
+          { schema: 'public', name: 'secret_totals' },
+        ],
+      },
+      policy
+    );
+
+    expect((await listFunctions(manager, 'public')).map((fn) => fn.name)).toEqual(['slugify']);
+    expect((await listTriggers(manager, 'public')).map((t) => t.name)).toEqual(['orders_audit']);
+    expect((await listSequences(manager, 'public')).map((s) => s.name)).toEqual([
+      'orders_id_seq',
+    ]);
+    expect((await listMaterializedViews(manager, 'public')).map((v) => v.name)).toEqual([
+      'order_totals',
+    ]);
+
+    await expect(describeFunction(manager, 'public', 'decrypt')).rejects.toThrow(
+      'Access denied to function public.decrypt'
+    );
+    await expect(listTriggers(manager, 'public', 'secrets')).rejects.toThrow(
+      'Access denied to relation public.secrets'
+    );
+    const schemaDenied = fakeManager({}, new AccessPolicy({ deniedSchemas: ['vault'] }));
+    await expect(listTypes(schemaDenied.manager, 'vault')).rejects.toThrow(
+      'Access denied to schema vault'
+    );
+    expect(schemaDenied.executeQuery).not.toHaveBeenCalled();
+  });
+});
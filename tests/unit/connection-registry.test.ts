@@ -0,0 +1,102 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
+import type { ConnectionManager } from '../../src/connection/postgres-pool.js';
+
+const createManager = (host: string): ConnectionManager =>
+  ({
+    initialize: vi.fn().mockResolvedValue(undefined),
+    healthCheck: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    usesSshTunnel: false,
+    getStatus: vi.fn().mockReturnValue({
+      initialized: true,
+      reconnecting: false,
+      database: { host, port: 5432, database: 'app', user: 'reader', ssl: true },
+      pool: { totalCount: 0, idleCount: 0, waitingCount: 0 },
+      mode: 'read-only',
+      maxRows: 1000,
+      queryTimeout: 30000,
+      maxConcurrentQueries: 10,
+      activeQueries: 0,
+    }),
+  }) as unknown as ConnectionManager;
+
+describe('ConnectionRegistry', () => {
+  it('resolves the first profile as the default', () => {
+    const staging = createManager('staging.local');
+    const analytics = createManager('analytics.local');
+    const registry = new ConnectionRegistry([
+      { name: 'staging', manager: staging },
+      { name: 'analytics', manager: analytics },
+    ]);
+
+    expect(registry.defaultName).toBe('staging');
+    expect(registry.get()).toBe(staging);
+    expect(registry.get('analytics')).toBe(analytics);
+  });
+
+  it('throws for unknown profiles and lists the available ones', () => {
+    const registry = new ConnectionRegistry([
+      { name: 'staging', manager: createManager('staging.local') },
+      { name: 'analytics', manager: createManager('analytics.local') },
+    ]);
+
+    expect(() => registry.get('prod')).toThrow(
+      'Unknown database profile "prod". Available: staging, analytics'
+    );
+  });
+
+  it('rejects duplicate and empty profile lists', () => {
+    const manager = createManager('db.local');
+    expect(() => new ConnectionRegistry([])).toThrow(/At least one/);
+    expect(
+      () =>
+        new ConnectionRegistry([
+          { name: 'a', manager },
+          { name: 'a', manager },
+        ])
+    ).toThrow(/Duplicate database profile: a/);
+  });
+
+  it('closes only the profiles that fail to initialize', async () => {
+    const healthy = createManager('healthy.local');
+    const broken = createManager('broken.local');
+    vi.mocked(broken.initialize).mockRejectedValueOnce(new Error('refused'));
+
+    const registry = new ConnectionRegistry([
+      { name: 'healthy', manager: healthy },
+      { name: 'broken', manager: broken },
+    ]);
+
+    await expect(registry.initialize()).rejects.toThrow('broken: refused');
+    expect(healthy.close).not.toHaveBeenCalled();
+    expect(broken.close).toHaveBeenCalled();
+  });
+
+  it('does not prefix health check errors for a single profile', async () => {
+    const manager = createManager('db.local');
+    vi.mocked(manager.healthCheck).mockRejectedValueOnce(new Error('db down'));
+
+    await expect(ConnectionRegistry.single(manager).healthCheck()).rejects.toThrow(
+      /^db down$/
+    );
+  });
+
+  it('summarizes each profile', () => {
+    const registry = new ConnectionRegistry([
+      { name: 'staging', manager: createManager('staging.local') },
+      { name: 'analytics', manager: createManager('analytics.local') },
+    ]);
+
+    const summaries = registry.summaries();
+    expect(summaries).toHaveLength(2);
+    expect(summaries[0]).toMatchObject({
+      name: 'staging',
+      isDefault: true,
+      host: 'staging.local',
+      mode: 'read-only',
+      sshTunnel: false,
+    });
+    expect(summaries[1].isDefault).toBe(false);
+  });
+});
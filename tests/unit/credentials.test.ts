@@ -0,0 +1,315 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { createHash } from 'node:crypto';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { request as httpsRequest, type Server } from 'node:https';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import request from 'supertest';
+import {
+  parseApiKeys,
+  parseCertificateIdentities,
+  ReloadingJsonFile,
+} from '../../src/http/credentials.js';
+import { createHttpApp } from '../../src/http/app.js';
+import { createTlsServer } from '../../src/http/tls.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
+import type { ConnectionManager } from '../../src/connection/postgres-pool.js';
+import { AuditLogger, type AuditEvent } from '../../src/lib/audit.js';
+import type { HttpConfig } from '../../src/types.js';
+
+const sha256 = (key: string) => createHash('sha256').update(key).digest('hex');
+
+const createManager = (): ConnectionManager =>
+  ({
+    healthCheck: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    executeQuery: vi.fn().mockResolvedValue({ rows: [], rowCount: 0, truncated: false }),
+  }) as unknown as ConnectionManager;
+
+const baseConfig: HttpConfig = {
+  port: 3000,
+  host: '127.0.0.1',
+  authMode: 'none',
+  sessionTtlMinutes: 30,
+  stateless: true,
+  serverPoolSize: 1,
+  sessionCleanupIntervalMs: 300000,
+};
+
+const toolCall = (name: string) => ({
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'tools/call',
+  params: { name, arguments: { sql: 'SELECT 1' } },
+});
+
+let tempDir: string;
+
+beforeAll(() => {
+  tempDir = mkdtempSync(join(tmpdir(), 'pg-mcp-credentials-'));
+});
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('parseApiKeys', () => {
+  it('normalizes hashes and parses expiry and restrictions', () => {
+    const [key] = parseApiKeys(
+      {
+        keys: [
+          {
+            label: 'etl',
+            sha256: sha256('k').toUpperCase(),
+            expiresAt: '2030-01-01T00:00:00Z',
+            scopes: ['db:read'],
+            tools: ['execute_query'],
+            mode: 'read-only',
+          },
+        ],
+      },
+      'keys.json'
+    );
+
+    expect(key).toEqual({
+      label: 'etl',
+      sha256: sha256('k'),
+      expiresAt: new Date('2030-01-01T00:00:00Z'),
+      scopes: ['db:read'],
+      restriction: { tools: ['execute_query'], mode: 'read-only' },
+    });
+  });
+
+  it('rejects malformed entries', () => {
+    const entry = { label: 'etl', sha256: sha256('k') };
+    expect(() => parseApiKeys({ keys: [] }, 'f')).toThrow('f must contain a non-empty "keys" array');
+    expect(() => parseApiKeys({ keys: [{ ...entry, sha256: 'plain' }] }, 'f')).toThrow(
+      'f entry 1 "sha256" must be the hex SHA-256 of the key'
+    );
+    expect(() => parseApiKeys({ keys: [{ ...entry, expiresAt: 'soon' }] }, 'f')).toThrow(
+      'f entry 1 "expiresAt" must be an ISO 8601 timestamp'
+    );
+    expect(() => parseApiKeys({ keys: [{ ...entry, mode: 'admin' }] }, 'f')).toThrow(
+      'f entry 1 "mode" must be "read-only" or "read-write"'
+    );
+    expect(() => parseApiKeys({ keys: [entry, entry] }, 'f')).toThrow(
+      'f contains duplicate label "etl"'
+    );
+  });
+});
+
+describe('parseCertificateIdentities', () => {
+  it('parses subject attributes with escaped commas', () => {
+    const [identity] = parseCertificateIdentities(
+      { identities: [{ subject: 'CN=etl.internal, O=Example\\, Inc', label: 'etl' }] },
+      'ids.json'
+    );
+    expect(identity.subject).toEqual({ CN: 'etl.internal', O: 'Example, Inc' });
+  });
+
+  it('rejects subjects that are not a DN', () => {
+    expect(() =>
+      parseCertificateIdentities({ identities: [{ subject: 'etl', label: 'etl' }] }, 'f')
+    ).toThrow('f entry 1 "subject" must look like CN=name,O=organization');
+  });
+});
+
+describe('ReloadingJsonFile', () => {
+  it('reloads on change and keeps the last valid contents', () => {
+    const file = join(tempDir, 'reload.json');
+    writeFileSync(file, JSON.stringify({ keys: [{ label: 'a', sha256: sha256('a') }] }));
+    const keys = new ReloadingJsonFile(file, 'keys.json', parseApiKeys, 0);
+    expect(keys.current().map((key) => key.label)).toEqual(['a']);
+
+    writeFileSync(
+      file,
+      JSON.stringify({
+        keys: [
+          { label: 'a', sha256: sha256('a') },
+          { label: 'b', sha256: sha256('b') },
+        ],
+      })
+    );
+    expect(keys.current().map((key) => key.label)).toEqual(['a', 'b']);
+
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+    writeFileSync(file, '{ broken');
+    expect(keys.current().map((key) => key.label)).toEqual(['a', 'b']);
+    expect(errors).toHaveBeenCalledWith(
+      '[Auth] Keeping previous keys.json:',
+      'keys.json must contain valid JSON'
+    );
+    errors.mockRestore();
+  });
+});
+
+describe('apikey mode', () => {
+  let appContext: ReturnType<typeof createHttpApp> | undefined;
+
+  afterEach(async () => {
+    await appContext?.stop();
+    appContext = undefined;
+  });
+
+  it('authenticates hashed keys and applies their restrictions', async () => {
+    const file = join(tempDir, 'keys.json');
+    writeFileSync(
+      file,
+      JSON.stringify({
+        keys: [
+          { label: 'reporting', sha256: sha256('report-key'), tools: ['execute_query'] },
+          { label: 'old', sha256: sha256('old-key'), expiresAt: '2020-01-01T00:00:00Z' },
+        ],
+      })
+    );
+    const events: AuditEvent[] = [];
+    appContext = createHttpApp({
+      httpConfig: { ...baseConfig, authMode: 'apikey', apiKeysFile: file },
+      connections: new ConnectionRegistry([{ name: 'default', manager: createManager() }], {
+        audit: new AuditLogger([{ write: (event) => events.push(event) }]),
+      }),
+    });
+
+    const post = (key?: string) => {
+      const req = request(appContext?.app)
+        .post('/mcp')
+        .set('Accept', 'application/json, text/event-stream');
+      return key ? req.set('Authorization', `Bearer ${key}`) : req;
+    };
+
+    expect((await post().send(toolCall('execute_query'))).status).toBe(401);
+    const unknown = await post('guess').send(toolCall('execute_query'));
+    expect(unknown.status).toBe(401);
+    expect(unknown.body.error.message).toBe('Invalid API key');
+    const expired = await post('old-key').send(toolCall('execute_query'));
+    expect(expired.body.error.message).toBe('API key expired');
+
+    const allowed = await post('report-key').send(toolCall('execute_query'));
+    expect(allowed.status).toBe(200);
+    expect(allowed.body.result.isError).toBeUndefined();
+
+    const denied = await post('report-key').send(toolCall('list_active_connections'));
+    expect(denied.body.result.content[0].text).toBe(
+      'Error: Access denied to tool list_active_connections: not permitted for this credential'
+    );
+
+    expect(events.filter((event) => event.type === 'tool')[0]).toMatchObject({
+      tool: 'execute_query',
+      subject: 'apikey:reporting',
+    });
+  });
+});
+
+const hasOpenssl = spawnSync('openssl', ['version']).status === 0;
+
+describe.skipIf(!hasOpenssl)('mtls mode', () => {
+  let dir: string;
+  let server: Server;
+  let appContext: ReturnType<typeof createHttpApp>;
+  let port: number;
+
+  const openssl = (...args: string[]) => {
+    const result = spawnSync('openssl', args, { cwd: dir });
+    if (result.status !== 0) {
+      throw new Error(result.stderr.toString());
+    }
+  };
+  const ecKey = ['-newkey', 'ec', '-pkeyopt', 'ec_paramgen_curve:prime256v1', '-nodes'];
+
+  const issueClient = (name: string, subject: string, ca: string) => {
+    openssl('req', ...ecKey, '-keyout', `${name}.key`, '-out', `${name}.csr`, '-subj', subject);
+    openssl(
+      'x509', '-req', '-in', `${name}.csr`, '-CA', `${ca}.crt`, '-CAkey', `${ca}.key`,
+      '-CAcreateserial', '-out', `${name}.crt`, '-days', '1'
+    );
+  };
+
+  const post = (client?: string): Promise<{ status: number; body: string }> =>
+    new Promise((resolve, reject) => {
+      const req = httpsRequest(
+        {
+          host: '127.0.0.1',
+          port,
+          path: '/mcp',
+          method: 'POST',
+          ca: readFileSync(join(dir, 'server.crt')),
+          ...(client && {
+            cert: readFileSync(join(dir, `${client}.crt`)),
+            key: readFileSync(join(dir, `${client}.key`)),
+          }),
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+          },
+        },
+        (res) => {
+          let body = '';
+          res.on('data', (chunk) => (body += chunk));
+          res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+        }
+      );
+      req.on('error', reject);
+      req.end(JSON.stringify(toolCall('execute_query')));
+    });
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'pg-mcp-mtls-'));
+    openssl('req', '-x509', ...ecKey, '-keyout', 'ca.key', '-out', 'ca.crt', '-subj', '/CN=Test CA', '-days', '1');
+    openssl('req', '-x509', ...ecKey, '-keyout', 'rogue-ca.key', '-out', 'rogue-ca.crt', '-subj', '/CN=Rogue CA', '-days', '1');
+    openssl(
+      'req', '-x509', ...ecKey, '-keyout', 'server.key', '-out', 'server.crt',
+      '-subj', '/CN=localhost', '-addext', 'subjectAltName=IP:127.0.0.1', '-days', '1'
+    );
+    issueClient('etl', '/CN=etl.internal/O=Example', 'ca');
+    issueClient('stranger', '/CN=stranger/O=Example', 'ca');
+    issueClient('rogue', '/CN=etl.internal/O=Example', 'rogue-ca');
+    writeFileSync(
+      join(dir, 'identities.json'),
+      JSON.stringify({
+        identities: [{ subject: 'CN=etl.internal,O=Example', label: 'etl', mode: 'read-only' }],
+      })
+    );
+
+    const httpConfig: HttpConfig = {
+      ...baseConfig,
+      authMode: 'mtls',
+      tls: {
+        certFile: join(dir, 'server.crt'),
+        keyFile: join(dir, 'server.key'),
+        clientCaFile: join(dir, 'ca.crt'),
+      },
+      mtls: { identitiesFile: join(dir, 'identities.json') },
+    };
+    appContext = createHttpApp({
+      httpConfig,
+      connections: ConnectionRegistry.single(createManager()),
+    });
+    server = createTlsServer(appContext.app, httpConfig.tls!);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await appContext.stop();
+    await new Promise((resolve) => server.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('maps trusted client certificates to identities', async () => {
+    const response = await post('etl');
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body).result.isError).toBeUndefined();
+  });
+
+  it('rejects missing, untrusted and unmapped certificates', async () => {
+    expect((await post()).status).toBe(401);
+    expect((await post('rogue')).status).toBe(401);
+    const unmapped = await post('stranger');
+    expect(unmapped.status).toBe(403);
+    expect(JSON.parse(unmapped.body).error.message).toBe(
+      'Client certificate is not mapped to an identity'
+    );
+  });
+});
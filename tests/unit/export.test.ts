@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parquetReadObjects } from 'hyparquet';
+import type { ParsedConfig } from '../../src/types.js';
+import { exportFilePath } from '../../src/lib/export.js';
+import { buildConfig, fakePg, fetchRows, type FakeField } from './helpers/fake-pg.js';
+
+vi.mock('pg', () => import('./helpers/fake-pg.js'));
+
+const state = {
+  rows: [] as Array<Record<string, unknown>>,
+  fields: [] as FakeField[],
+};
+
+fakePg.respond = (sql, _params, client) => fetchRows(client, sql, state.rows, state.fields);
+fakePg.respondToPool = (sql) =>
+  sql.includes('pg_attribute')
+    ? {
+        rows: ['id', 'email', 'created_at', 'meta'].map((column_name, index) => ({
+          table_id: '16384',
+          column_id: index + 1,
+          schema_name: 'public',
+          table_name: 'users',
+          column_name,
+          nullable: true,
+        })),
+      }
+    : undefined;
+
+const { ConnectionManager } = await import('../../src/connection/postgres-pool.js');
+
+describe('ConnectionManager.exportQuery', () => {
+  let dir: string;
+  let manager: InstanceType<typeof ConnectionManager>;
+
+  const start = async (overrides: Partial<ParsedConfig> = {}) => {
+    manager = new ConnectionManager(
+      buildConfig({ maxRows: 2, exportDir: join(dir, 'exports'), ...overrides })
+    );
+    await manager.initialize();
+    fakePg.clearHistory();
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'pg-mcp-export-'));
+    state.fields = [
+      { name: 'id', dataTypeID: 20, tableID: 16384, columnID: 1 },
+      { name: 'email', dataTypeID: 25, tableID: 16384, columnID: 2 },
+      { name: 'created_at', dataTypeID: 1184, tableID: 16384, columnID: 3 },
+      { name: 'meta', dataTypeID: 3802, tableID: 16384, columnID: 4 },
+    ];
+    state.rows = [
+      { id: '1', email: 'a@example.com', created_at: '2026-01-02T03:04:05.25+00:00', meta: { tags: ['x'] } },
+      { id: '2', email: 'say "hi", bye', created_at: null, meta: null },
+      { id: '3', email: '', created_at: '2026-02-03T00:00:00+00:00', meta: { n: 1 } },
+    ];
+  });
+
+  afterEach(async () => {
+    await manager?.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes every row to CSV past MAX_ROWS in a read-only transaction', async () => {
+    await start();
+    const result = await manager.exportQuery('SELECT * FROM users', [], {
+      format: 'csv',
+      fileName: 'users',
+    });
+
+    expect(result).toMatchObject({
+      path: join(dir, 'exports', 'users.csv'),
+      format: 'csv',
+      rowCount: 3,
+      truncated: false,
+      columns: [
+        { name: 'id', type: 'bigint', dataTypeID: 20 },
+        { name: 'email', type: 'text', dataTypeID: 25 },
+        { name: 'created_at', type: 'timestamp with time zone', dataTypeID: 1184 },
+        { name: 'meta', type: 'jsonb', dataTypeID: 3802 },
+      ],
+    });
+    const contents = readFileSync(result.path, 'utf8');
+    expect(result.bytes).toBe(Buffer.byteLength(contents));
+    expect(contents).toBe(
+      'id,email,created_at,meta\r\n' +
+        '1,a@example.com,2026-01-02T03:04:05.25+00:00,"{""tags"":[""x""]}"\r\n' +
+        '2,"say ""hi"", bye",,\r\n' +
+        '3,"",2026-02-03T00:00:00+00:00,"{""n"":1}"\r\n'
+    );
+    expect(fakePg.queries[0]).toBe('BEGIN TRANSACTION READ ONLY');
+    expect(fakePg.queries).toContain('ROLLBACK');
+  });
+
+  it('writes NDJSON and stops at MAX_EXPORT_ROWS', async () => {
+    await start({ maxExportRows: 2 });
+    const result = await manager.exportQuery('SELECT * FROM users', [], { format: 'ndjson' });
+
+    expect(result.path).toMatch(/export-\d{8}T\d{6}-[0-9a-f]{8}\.ndjson$/);
+    expect(result.rowCount).toBe(2);
+    expect(result.truncated).toBe(true);
+    const lines = readFileSync(result.path, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines).toEqual([
+      { id: '1', email: 'a@example.com', created_at: '2026-01-02T03:04:05.25+00:00', meta: { tags: ['x'] } },
+      { id: '2', email: 'say "hi", bye', created_at: null, meta: null },
+    ]);
+  });
+
+  it('writes typed Parquet columns and masked columns as text', async () => {
+    await start({ maskingPolicy: { rules: [{ pattern: '^id$', action: 'redact' }] } });
+    const result = await manager.exportQuery('SELECT * FROM users', [], { format: 'parquet' });
+    expect(result.maskedColumns).toEqual(['id']);
+
+    const file = readFileSync(result.path);
+    const rows = await parquetReadObjects({
+      file: file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength),
+    });
+    expect(rows).toHaveLength(3);
+    expect(rows[0].id).toBe('[REDACTED]');
+    expect(rows[0].email).toBe('a@example.com');
+    expect(rows[0].created_at).toEqual(new Date('2026-01-02T03:04:05.250Z'));
+    expect(rows[1].created_at).toBeNull();
+    expect(rows[2].meta).toEqual({ n: 1 });
+  });
+
+  it('rejects writes, disabled exports and unsafe file names', async () => {
+    await start();
+    await expect(
+      manager.exportQuery('DELETE FROM users', [], { format: 'csv' })
+    ).rejects.toThrow();
+    await expect(
+      manager.exportQuery('SELECT 1', [], { format: 'csv', fileName: '../escape' })
+    ).rejects.toThrow(/fileName must contain only letters/);
+
+    mkdirSync(join(dir, 'exports'));
+    writeFileSync(join(dir, 'exports', 'taken.csv'), 'keep');
+    await expect(
+      manager.exportQuery('SELECT 1', [], { format: 'csv', fileName: 'taken.csv' })
+    ).rejects.toThrow(/EEXIST/);
+    expect(readFileSync(join(dir, 'exports', 'taken.csv'), 'utf8')).toBe('keep');
+
+    await manager.close();
+    await start({ exportDir: undefined });
+    await expect(
+      manager.exportQuery('SELECT 1', [], { format: 'csv' })
+    ).rejects.toThrow('Exports are disabled. Set EXPORT_DIR to enable export_query.');
+  });
+});
+
+describe('exportFilePath', () => {
+  it('adds the format extension once', () => {
+    expect(exportFilePath('/data', 'parquet', 'daily')).toBe('/data/daily.parquet');
+    expect(exportFilePath('/data', 'csv', 'daily.csv')).toBe('/data/daily.csv');
+  });
+});
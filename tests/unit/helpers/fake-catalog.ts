@@ -0,0 +1,49 @@
+import { vi } from 'vitest';
+import type { AccessPolicy } from '../../../src/lib/access-policy.js';
+import type { ConnectionManager, QueryOptions } from '../../../src/connection/postgres-pool.js';
+
+export type CatalogAnswer = (sql: string, params: unknown[]) => Array<Record<string, unknown>>;
+
+/**
+ * Stand-in for the ConnectionManager of the catalog readers in src/lib:
+ * `answer` returns the rows of each executeQuery() call.
+ */
+export const fakeCatalogManager = (answer: CatalogAnswer, policy: AccessPolicy | null = null) => {
+  const executeQuery = vi.fn(
+    async (sql: string, params: unknown[] = [], _options?: QueryOptions) => {
+      const rows = answer(sql, params);
+      return { rows, rowCount: rows.length, truncated: false };
+    }
+  );
+  return {
+    manager: { executeQuery, accessPolicy: policy } as unknown as ConnectionManager,
+    executeQuery,
+  };
+};
+
+/**
+ * A foreign key as FOREIGN_KEYS_SQL returns it; `from` and `to` are
+ * `schema.table`
+ */
+export const fk = (
+  name: string,
+  from: string,
+  fromColumns: string[],
+  to: string,
+  toColumns: string[],
+  flags: { optional?: boolean; unique?: boolean } = {}
+) => {
+  const [fromSchema, fromTable] = from.split('.');
+  const [toSchema, toTable] = to.split('.');
+  return {
+    name,
+    fromSchema,
+    fromTable,
+    fromColumns,
+    toSchema,
+    toTable,
+    toColumns,
+    optional: flags.optional ?? false,
+    unique: flags.unique ?? false,
+  };
+};
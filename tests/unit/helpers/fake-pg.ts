@@ -0,0 +1,166 @@
+import type { ParsedConfig } from '../../../src/types.js';
+
+/**
+ * Stand-in for the pg module in ConnectionManager tests:
+ *
+ *   vi.mock('pg', () => import('./helpers/fake-pg.js'));
+ *
+ * Every pooled client answers through `fakePg.respond`; statements it does
+ * not answer return no rows.
+ */
+
+export interface FakeField {
+  name: string;
+  dataTypeID: number;
+  tableID?: number;
+  columnID?: number;
+}
+
+export interface FakeResult {
+  rows?: Array<Record<string, unknown>>;
+  rowCount?: number | null;
+  command?: string;
+  fields?: FakeField[];
+}
+
+export interface FakeQuery {
+  sql: string;
+  params?: unknown[];
+}
+
+export type QueryResponder = (
+  sql: string,
+  params: unknown[] | undefined,
+  client: FakeClient
+) => FakeResult | undefined | Promise<FakeResult | undefined>;
+
+export type PoolQueryResponder = (
+  sql: string,
+  params: unknown[] | undefined
+) => FakeResult | undefined;
+
+export const fakePg = {
+  /** Answers statements run on pooled clients */
+  respond: undefined as QueryResponder | undefined,
+  /** Answers pool.query(), which the manager uses for metadata lookups */
+  respondToPool: undefined as PoolQueryResponder | undefined,
+  /** Options the last Pool was created with */
+  poolOptions: undefined as { max?: number; types?: { getTypeParser(oid: number): (text: string) => unknown } } | undefined,
+  /** Clients handed out, in order */
+  clients: [] as FakeClient[],
+  /** Statements run on any client, in order */
+  calls: [] as FakeQuery[],
+  /** Statements run through pool.query() */
+  poolCalls: [] as FakeQuery[],
+
+  get queries(): string[] {
+    return this.calls.map((call) => call.sql);
+  },
+
+  /** Forget the clients and statements so far, e.g. the connection check of initialize() */
+  clearHistory(): void {
+    this.clients = [];
+    this.calls = [];
+    this.poolCalls = [];
+  },
+
+  reset(): void {
+    this.respond = undefined;
+    this.respondToPool = undefined;
+    this.poolOptions = undefined;
+    this.clearHistory();
+  },
+};
+
+export class FakeClient {
+  readonly calls: FakeQuery[] = [];
+  /** Argument of each release() call */
+  readonly released: unknown[] = [];
+  /** Rows read by FETCH so far; see fetchRows() */
+  position = 0;
+
+  get queries(): string[] {
+    return this.calls.map((call) => call.sql);
+  }
+
+  async query(sql: string, params?: unknown[]) {
+    this.calls.push({ sql, params });
+    fakePg.calls.push({ sql, params });
+    const result = await fakePg.respond?.(sql, params, this);
+    return {
+      rows: [],
+      rowCount: 0,
+      command: sql.split(/\s/)[0],
+      fields: [],
+      ...result,
+    };
+  }
+
+  release(err?: unknown) {
+    this.released.push(err);
+  }
+}
+
+export class Pool {
+  totalCount = 0;
+  idleCount = 0;
+  waitingCount = 0;
+
+  constructor(options: typeof fakePg.poolOptions) {
+    fakePg.poolOptions = options;
+  }
+
+  on() {}
+
+  async connect() {
+    const client = new FakeClient();
+    fakePg.clients.push(client);
+    return client;
+  }
+
+  async query(sql: string, params?: unknown[]) {
+    fakePg.poolCalls.push({ sql, params });
+    return { rows: [], ...fakePg.respondToPool?.(sql, params) };
+  }
+
+  async end() {}
+}
+
+/**
+ * Answer `FETCH n FROM cursor` with the next rows, continuing where the
+ * client's previous FETCH stopped
+ */
+export function fetchRows(
+  client: FakeClient,
+  sql: string,
+  rows: Array<Record<string, unknown>>,
+  fields: FakeField[] = []
+): FakeResult | undefined {
+  if (!sql.startsWith('FETCH')) {
+    return undefined;
+  }
+  const count = parseInt(sql.split(' ')[1], 10);
+  const page = rows.slice(client.position, client.position + count);
+  client.position += page.length;
+  return { rows: page, rowCount: page.length, command: 'FETCH', fields };
+}
+
+export const buildConfig = (overrides: Partial<ParsedConfig> = {}): ParsedConfig => ({
+  database: { host: 'localhost', port: 5432, database: 'app', user: 'u', password: 'p' },
+  sslPreference: { explicit: null, rejectUnauthorized: true },
+  readOnly: false,
+  queryTimeout: 30000,
+  maxRows: 10,
+  maxConcurrentQueries: 10,
+  poolSize: 20,
+  poolDrainTimeoutMs: 5000,
+  maxOpenCursors: 0,
+  maxSessionCursors: 5,
+  cursorIdleTimeoutMs: 60000,
+  maxOpenTransactions: 5,
+  maxSessionTransactions: 5,
+  transactionIdleTimeoutMs: 60000,
+  maxExportRows: 1000,
+  valueEncoding: { numeric: 'string', bytea: 'hex' },
+  ...overrides,
+});
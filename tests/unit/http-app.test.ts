@@ -3,6 +3,7 @@ import request from 'supertest';
 import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
 import { createHttpApp } from '../../src/http/app.js';
 import type { ConnectionManager } from '../../src/connection/postgres-pool.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
 import type { HttpConfig } from '../../src/types.js';
 
 const createConnectionManager = (): ConnectionManager =>
@@ -52,7 +53,7 @@ describe('HTTP app integration', () => {
     connectionManager = createConnectionManager();
     appContext = createHttpApp({
       httpConfig,
-      connectionManager,
+      connections: ConnectionRegistry.single(connectionManager),
       enableJsonResponse: true,
     });
   });
@@ -123,7 +124,7 @@ describe('HTTP app integration', () => {
 
     const oauthContext = createHttpApp({
       httpConfig: oauthConfig,
-      connectionManager,
+      connections: ConnectionRegistry.single(connectionManager),
     });
 
     try {
@@ -151,7 +152,7 @@ describe('HTTP app integration', () => {
 
     const ttlContext = createHttpApp({
       httpConfig: ttlConfig,
-      connectionManager,
+      connections: ConnectionRegistry.single(connectionManager),
       enableJsonResponse: true,
     });
 
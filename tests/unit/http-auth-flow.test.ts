@@ -2,7 +2,9 @@ import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import request from 'supertest';
 import { createHttpApp } from '../../src/http/app.js';
 import type { ConnectionManager } from '../../src/connection/postgres-pool.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
 import type { HttpConfig } from '../../src/types.js';
+import { AuditLogger, type AuditEvent } from '../../src/lib/audit.js';
 
 vi.mock('jose', () => ({
   createRemoteJWKSet: vi.fn(() => vi.fn()),
@@ -39,7 +41,7 @@ describe('HTTP OAuth auth flow', () => {
     connectionManager = createConnectionManager();
     appContext = createHttpApp({
       httpConfig: oauthConfig,
-      connectionManager,
+      connections: ConnectionRegistry.single(connectionManager),
       enableJsonResponse: true,
     });
   });
@@ -99,4 +101,64 @@ describe('HTTP OAuth auth flow', () => {
     expect(response.body.error.code).toBe(-32001);
     expect(response.body.error.message).toContain('Invalid or expired token');
   });
+
+  it('attributes audited tool calls to the token subject', async () => {
+    const events: AuditEvent[] = [];
+    const audit = new AuditLogger([{ write: (event) => events.push(event) }]);
+    vi.mocked(connectionManager.executeQuery).mockResolvedValue({
+      rows: [],
+      rowCount: 0,
+      truncated: false,
+    });
+    vi.mocked(jose.jwtVerify).mockResolvedValue({
+      payload: { sub: 'auth0|alice' },
+    } as unknown as Awaited<ReturnType<typeof jose.jwtVerify>>);
+
+    await appContext.stop();
+    appContext = createHttpApp({
+      httpConfig: oauthConfig,
+      connections: new ConnectionRegistry(
+        [{ name: 'default', manager: connectionManager }],
+        { audit }
+      ),
+      enableJsonResponse: true,
+    });
+
+    const post = () =>
+      request(appContext.app)
+        .post('/mcp')
+        .set('Accept', 'application/json, text/event-stream')
+        .set('Authorization', 'Bearer valid.token')
+        .set('Host', 'api.example.com');
+
+    const initResponse = await post().send({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: {
+        protocolVersion: '2025-11-25',
+        capabilities: {},
+        clientInfo: { name: 'test-client', version: '0.0.0' },
+      },
+    });
+    const sessionId = initResponse.headers['mcp-session-id'];
+
+    const callResponse = await post()
+      .set('mcp-session-id', sessionId)
+      .send({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'tools/call',
+        params: { name: 'list_databases', arguments: {} },
+      });
+
+    expect(callResponse.status).toBe(200);
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: 'tool',
+        tool: 'list_databases',
+        subject: 'auth0|alice',
+      }),
+    ]);
+  });
 });
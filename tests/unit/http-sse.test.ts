@@ -4,6 +4,7 @@ import type { AddressInfo } from 'node:net';
 import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
 import { createHttpApp } from '../../src/http/app.js';
 import type { ConnectionManager } from '../../src/connection/postgres-pool.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
 import type { HttpConfig } from '../../src/types.js';
 
 const createConnectionManager = (): ConnectionManager =>
@@ -33,7 +34,7 @@ describe('HTTP SSE flow', () => {
     connectionManager = createConnectionManager();
     appContext = createHttpApp({
       httpConfig,
-      connectionManager,
+      connections: ConnectionRegistry.single(connectionManager),
       enableJsonResponse: false,
     });
     server = appContext.app.listen(0);
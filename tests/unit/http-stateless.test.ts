@@ -3,6 +3,7 @@ import request from 'supertest';
 import { LATEST_PROTOCOL_VERSION } from '@modelcontextprotocol/sdk/types.js';
 import { createHttpApp } from '../../src/http/app.js';
 import type { ConnectionManager } from '../../src/connection/postgres-pool.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
 import type { HttpConfig } from '../../src/types.js';
 
 const createConnectionManager = (): ConnectionManager =>
@@ -31,7 +32,7 @@ describe('HTTP stateless mode', () => {
     connectionManager = createConnectionManager();
     appContext = createHttpApp({
       httpConfig,
-      connectionManager,
+      connections: ConnectionRegistry.single(connectionManager),
     });
   });
 
@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import { parseSql } from '../../src/lib/sql-parser.js';
+import { AccessPolicy } from '../../src/lib/access-policy.js';
+import { suggestJoins } from '../../src/lib/join-paths.js';
+import { fakeCatalogManager, fk } from './helpers/fake-catalog.js';
+
+const column = (id: string, name: string, type = 'integer') => {
+  const [schema, table] = id.split('.');
+  return { schema, table, column: name, type };
+};
+
+const FOREIGN_KEYS = [
+  fk('orders_customer_fk', 'public.orders', ['customer_id'], 'public.customers', ['id']),
+  fk('order_items_order_fk', 'public.order_items', ['order_id', 'region'], 'public.orders', ['id', 'region']),
+  fk('order_items_product_fk', 'public.order_items', ['product_id'], 'public.products', ['id']),
+  fk('reviews_customer_fk', 'public.reviews', ['customer_id'], 'public.customers', ['id']),
+  fk('reviews_product_fk', 'public.reviews', ['product_id'], 'public.products', ['id']),
+  fk('invoices_order_fk', 'billing.invoices', ['order_id', 'region'], 'public.orders', ['id', 'region']),
+];
+
+const ID_COLUMNS = [
+  column('public.orders', 'customer_id'),
+  column('public.shipments', 'order_id'),
+  column('public.shipments', 'carrier_id', 'text'),
+  column('public.audit', 'category_id'),
+];
+
+const PRIMARY_KEYS = [
+  column('public.orders', 'id'),
+  column('public.customers', 'id'),
+  column('public.carriers', 'id'),
+  column('public.categories', 'id'),
+];
+
+const fakeManager = (missing: string[] = [], policy: AccessPolicy | null = null) =>
+  fakeCatalogManager((sql, params) => {
+    if (sql.includes('schema_name')) {
+      const [schemas, tables] = params as string[][];
+      return schemas
+        .map((schema, i) => ({ schema_name: schema, table_name: tables[i] }))
+        .filter((row) => missing.includes(`${row.schema_name}.${row.table_name}`));
+    }
+    if (sql.includes('id_columns')) {
+      return [{ id_columns: ID_COLUMNS, primary_keys: PRIMARY_KEYS }];
+    }
+    return [{ foreign_keys: FOREIGN_KEYS }];
+  }, policy);
+
+const options = (from: string, to: string, overrides = {}) => {
+  const [fromSchema, fromTable] = from.split('.');
+  const [toSchema, toTable] = to.split('.');
+  return {
+    from: { schema: fromSchema, table: fromTable },
+    to: { schema: toSchema, table: toTable },
+    maxHops: 4,
+    includeInferred: false,
+    limit: 3,
+    ...overrides,
+  };
+};
+
+describe('suggestJoins', () => {
+  it('ranks foreign key paths by length and renders them as JOIN clauses', async () => {
+    const { manager, executeQuery } = fakeManager();
+
+    const suggestion = await suggestJoins(manager, options('public.customers', 'public.products'));
+
+    expect(executeQuery).toHaveBeenCalledWith(expect.any(String), [
+      ['public', 'public'],
+      ['customers', 'products'],
+    ], { skipMasking: true });
+    expect(executeQuery).toHaveBeenCalledWith(expect.any(String), [null], { skipMasking: true });
+    expect(suggestion.from).toBe('public.customers');
+    expect(suggestion.to).toBe('public.products');
+    expect(suggestion.paths.map((path) => path.length)).toEqual([2, 3]);
+    expect(suggestion.paths[0]).toMatchObject({
+      inferred: false,
+      steps: [
+        {
+          from: 'public.customers',
+          to: 'public.reviews',
+          fromColumns: ['id'],
+          toColumns: ['customer_id'],
+          constraint: 'reviews_customer_fk',
+          inferred: false,
+        },
+        {
+          from: 'public.reviews',
+          to: 'public.products',
+          constraint: 'reviews_product_fk',
+        },
+      ],
+    });
+    expect(suggestion.paths[1].sql.split('\n')).toEqual([
+      'FROM "public"."customers" t1',
+      'JOIN "public"."orders" t2 ON t2."customer_id" = t1."id"',
+      'JOIN "public"."order_items" t3 ON t3."order_id" = t2."id" AND t3."region" = t2."region"',
+      'JOIN "public"."products" t4 ON t4."id" = t3."product_id"',
+    ]);
+    for (const path of suggestion.paths) {
+      expect(parseSql(`SELECT * ${path.sql}`)).toHaveLength(1);
+    }
+  });
+
+  it('respects maxHops and limit', async () => {
+    const { manager } = fakeManager();
+
+    const short = await suggestJoins(
+      manager,
+      options('billing.invoices', 'public.products', { maxHops: 2 })
+    );
+    expect(short.paths).toEqual([]);
+
+    const one = await suggestJoins(
+      manager,
+      options('public.customers', 'public.products', { limit: 1 })
+    );
+    expect(one.paths.map((path) => path.length)).toEqual([2]);
+  });
+
+  it('adds joins inferred from <name>_id columns when asked', async () => {
+    const { manager, executeQuery } = fakeManager();
+
+    const declared = await suggestJoins(manager, options('public.shipments', 'public.orders'));
+    expect(declared.paths).toEqual([]);
+
+    const inferred = await suggestJoins(
+      manager,
+      options('public.shipments', 'public.customers', { includeInferred: true })
+    );
+    expect(executeQuery).toHaveBeenCalledWith(expect.stringContaining('id_columns'), [['public']], { skipMasking: true });
+    expect(parseSql(executeQuery.mock.calls.at(-1)?.[0] ?? '')).toHaveLength(1);
+    expect(inferred.paths[0]).toMatchObject({
+      length: 2,
+      inferred: true,
+      steps: [
+        {
+          from: 'public.shipments',
+          to: 'public.orders',
+          fromColumns: ['order_id'],
+          toColumns: ['id'],
+          inferred: true,
+        },
+        { to: 'public.customers', constraint: 'orders_customer_fk', inferred: false },
+      ],
+    });
+    expect(inferred.paths[0].steps[0]).not.toHaveProperty('constraint');
+
+    // Type mismatch: carriers.id is an integer, shipments.carrier_id is text
+    const carriers = await suggestJoins(
+      manager,
+      options('public.shipments', 'public.carriers', { includeInferred: true })
+    );
+    expect(carriers.paths).toEqual([]);
+
+    // Plural with -ies
+    const categories = await suggestJoins(
+      manager,
+      options('public.audit', 'public.categories', { includeInferred: true })
+    );
+    expect(categories.paths).toHaveLength(1);
+  });
+
+  it('rejects the same table, unknown tables and blocked relations', async () => {
+    await expect(
+      suggestJoins(fakeManager().manager, options('public.orders', 'public.orders'))
+    ).rejects.toThrow('Pick two different tables');
+
+    await expect(
+      suggestJoins(
+        fakeManager(['public.nope']).manager,
+        options('public.orders', 'public.nope')
+      )
+    ).rejects.toThrow('Table "public.nope" does not exist');
+
+    const policy = new AccessPolicy({ deniedRelations: ['public.reviews'] });
+    const { manager } = fakeManager([], policy);
+    const suggestion = await suggestJoins(
+      manager,
+      options('public.customers', 'public.products')
+    );
+    expect(suggestion.paths.map((path) => path.length)).toEqual([3]);
+    await expect(
+      suggestJoins(manager, options('public.reviews', 'public.products'))
+    ).rejects.toThrow();
+  });
+});
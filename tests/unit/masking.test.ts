@@ -0,0 +1,331 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  parseMaskingPolicy,
+  ResultMasker,
+  type ColumnOrigin,
+} from '../../src/lib/masking.js';
+import type { QueryResultWithMeta } from '../../src/types.js';
+import { createServer } from '../../src/server.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
+import { buildConfig, fakePg, fetchRows } from './helpers/fake-pg.js';
+
+vi.mock('pg', () => import('./helpers/fake-pg.js'));
+
+const { ConnectionManager } = await import('../../src/connection/postgres-pool.js');
+
+const origins = new Map<string, ColumnOrigin>([
+  ['100:1', { schema: 'public', table: 'users', column: 'id' }],
+  ['100:2', { schema: 'public', table: 'users', column: 'email' }],
+  ['100:3', { schema: 'public', table: 'users', column: 'ssn' }],
+  ['200:4', { schema: 'billing', table: 'cards', column: 'number' }],
+]);
+
+const resolver = vi.fn(async () => origins);
+
+const buildResult = (): QueryResultWithMeta => ({
+  rows: [
+    { id: 1, contact: 'ada@example.com', ssn: '123-45-6789', card: '4111111111111111', note: null },
+    { id: 2, contact: 'bob@example.com', ssn: null, card: '5500000000000004', note: 'vip' },
+  ],
+  rowCount: 2,
+  truncated: false,
+  fields: [
+    { name: 'id', dataTypeID: 23, tableID: 100, columnID: 1 },
+    { name: 'contact', dataTypeID: 25, tableID: 100, columnID: 2 },
+    { name: 'ssn', dataTypeID: 25, tableID: 100, columnID: 3 },
+    { name: 'card', dataTypeID: 25, tableID: 200, columnID: 4 },
+    { name: 'note', dataTypeID: 25, tableID: 0, columnID: 0 },
+  ],
+});
+
+describe('parseMaskingPolicy', () => {
+  it('accepts column and pattern rules', () => {
+    const policy = parseMaskingPolicy(
+      {
+        rules: [
+          { column: 'public.users.email', action: 'hash' },
+          { pattern: '^ssn$', action: 'redact' },
+          { column: '*.cards.number', action: 'partial', visibleChars: 2 },
+        ],
+        hashSalt: 'pepper',
+      },
+      'MASKING_POLICY_FILE'
+    );
+
+    expect(policy.rules).toHaveLength(3);
+    expect(policy.hashSalt).toBe('pepper');
+    expect(policy.rules[2].visibleChars).toBe(2);
+  });
+
+  it('rejects unknown actions', () => {
+    expect(() =>
+      parseMaskingPolicy({ rules: [{ pattern: 'x', action: 'scramble' }] }, 'policy')
+    ).toThrow(/policy rule 1 "action" must be one of/);
+  });
+
+  it('requires exactly one matcher per rule', () => {
+    expect(() =>
+      parseMaskingPolicy({ rules: [{ action: 'redact' }] }, 'policy')
+    ).toThrow(/exactly one of "column" or "pattern"/);
+    expect(() =>
+      parseMaskingPolicy(
+        { rules: [{ column: 'a.b.c', pattern: 'c', action: 'redact' }] },
+        'policy'
+      )
+    ).toThrow(/exactly one of "column" or "pattern"/);
+  });
+
+  it('rejects malformed column references and patterns', () => {
+    expect(() =>
+      parseMaskingPolicy({ rules: [{ column: 'users.email', action: 'null' }] }, 'policy')
+    ).toThrow(/schema\.table\.column/);
+    expect(() =>
+      parseMaskingPolicy({ rules: [{ pattern: '(', action: 'null' }] }, 'policy')
+    ).toThrow(/not a valid regular expression/);
+  });
+
+  it('requires a non-empty rules array', () => {
+    expect(() => parseMaskingPolicy({ rules: [] }, 'policy')).toThrow(
+      /non-empty "rules" array/
+    );
+  });
+});
+
+describe('ResultMasker', () => {
+  it('masks columns resolved through table and column IDs', async () => {
+    const masker = new ResultMasker(
+      parseMaskingPolicy(
+        {
+          rules: [
+            { column: 'public.users.email', action: 'hash' },
+            { column: '*.*.ssn', action: 'redact' },
+            { column: 'billing.cards.number', action: 'partial' },
+          ],
+          hashSalt: 'pepper',
+        },
+        'policy'
+      ),
+      resolver
+    );
+
+    const result = await masker.apply(buildResult());
+
+    const expectedHash = createHash('sha256')
+      .update('pepper')
+      .update('ada@example.com')
+      .digest('hex');
+
+    expect(result.rows[0].contact).toBe(expectedHash);
+    expect(result.rows[0].ssn).toBe('[REDACTED]');
+    expect(result.rows[1].ssn).toBeNull();
+    expect(result.rows[0].card).toBe('************1111');
+    expect(result.rows[0].id).toBe(1);
+    expect(result.rows[1].note).toBe('[REDACTED]');
+    expect(result.maskedColumns).toEqual(['contact', 'ssn', 'card', 'note']);
+  });
+
+  it('matches patterns against output and source column names', async () => {
+    const masker = new ResultMasker(
+      parseMaskingPolicy(
+        {
+          rules: [
+            { pattern: 'email', action: 'null' },
+            { pattern: '^note$', action: 'redact' },
+          ],
+        },
+        'policy'
+      ),
+      resolver
+    );
+
+    const result = await masker.apply(buildResult());
+
+    expect(result.rows[0].contact).toBeNull();
+    expect(result.rows[0].note).toBeNull();
+    expect(result.rows[1].note).toBe('[REDACTED]');
+    expect(result.maskedColumns).toEqual(['contact', 'note']);
+  });
+
+  it('uses the first matching rule', async () => {
+    const masker = new ResultMasker(
+      parseMaskingPolicy(
+        {
+          rules: [
+            { column: 'public.users.ssn', action: 'partial', visibleChars: 4 },
+            { pattern: 'ssn', action: 'redact' },
+          ],
+        },
+        'policy'
+      ),
+      resolver
+    );
+
+    const result = await masker.apply(buildResult());
+    expect(result.rows[0].ssn).toBe('*******6789');
+  });
+
+  it('returns results untouched when nothing matches', async () => {
+    const masker = new ResultMasker(
+      parseMaskingPolicy({ rules: [{ pattern: '^nope$', action: 'redact' }] }, 'policy'),
+      resolver
+    );
+
+    const input = buildResult();
+    input.fields = input.fields!.filter((field) => field.name !== 'note');
+    const result = await masker.apply(input);
+    expect(result).toBe(input);
+    expect(result.maskedColumns).toBeUndefined();
+  });
+
+  it('skips origin lookup when fields have no source table', async () => {
+    const lookup = vi.fn(async () => new Map<string, ColumnOrigin>());
+    const masker = new ResultMasker(
+      parseMaskingPolicy({ rules: [{ pattern: '^n$', action: 'redact' }] }, 'policy'),
+      lookup
+    );
+
+    const result = await masker.apply({
+      rows: [{ n: 1 }],
+      rowCount: 1,
+      truncated: false,
+      fields: [{ name: 'n', dataTypeID: 23, tableID: 0, columnID: 0 }],
+    });
+
+    expect(lookup).not.toHaveBeenCalled();
+    expect(result.rows[0].n).toBe('[REDACTED]');
+  });
+
+  it('redacts aliased expressions, which no rule can name', async () => {
+    // SELECT id, lower(email) AS contact FROM users
+    const masker = new ResultMasker(
+      parseMaskingPolicy({ rules: [{ column: 'public.users.email', action: 'hash' }] }, 'policy'),
+      resolver
+    );
+
+    const result = await masker.apply({
+      rows: [{ id: 1, contact: 'ada@example.com' }],
+      rowCount: 1,
+      truncated: false,
+      fields: [
+        { name: 'id', dataTypeID: 23, tableID: 100, columnID: 1 },
+        { name: 'contact', dataTypeID: 25, tableID: 0, columnID: 0 },
+      ],
+    });
+
+    expect(result.rows[0]).toEqual({ id: 1, contact: '[REDACTED]' });
+    expect(result.maskedColumns).toEqual(['contact']);
+  });
+
+  it('redacts whole rows turned into JSON', async () => {
+    // SELECT row_to_json(u) AS r FROM users u
+    const masker = new ResultMasker(
+      parseMaskingPolicy({ rules: [{ column: '*.*.ssn', action: 'null' }] }, 'policy'),
+      resolver
+    );
+
+    const result = await masker.apply({
+      rows: [{ r: { id: 1, ssn: '123-45-6789' } }],
+      rowCount: 1,
+      truncated: false,
+      fields: [{ name: 'r', dataTypeID: 114, tableID: 0, columnID: 0 }],
+    });
+
+    expect(result.rows[0].r).toBe('[REDACTED]');
+    expect(result.maskedColumns).toEqual(['r']);
+  });
+
+  it('lets rules choose how computed columns are masked', async () => {
+    const masker = new ResultMasker(
+      parseMaskingPolicy({ rules: [{ pattern: '^total$', action: 'partial', visibleChars: 1 }] }, 'policy'),
+      resolver
+    );
+
+    const result = await masker.apply({
+      rows: [{ total: 42 }],
+      rowCount: 1,
+      truncated: false,
+      fields: [{ name: 'total', dataTypeID: 20, tableID: 0, columnID: 0 }],
+    });
+
+    expect(result.rows[0].total).toBe('*2');
+  });
+
+  it('propagates lookup failures', async () => {
+    const masker = new ResultMasker(
+      parseMaskingPolicy({ rules: [{ pattern: 'x', action: 'redact' }] }, 'policy'),
+      async () => {
+        throw new Error('catalog unavailable');
+      }
+    );
+
+    await expect(masker.apply(buildResult())).rejects.toThrow('catalog unavailable');
+  });
+});
+
+describe('masking policy on tool results', () => {
+  let manager: InstanceType<typeof ConnectionManager> | undefined;
+
+  afterEach(async () => {
+    await manager?.close();
+    fakePg.reset();
+  });
+
+  const connect = async () => {
+    const maskingPolicy = parseMaskingPolicy(
+      { rules: [{ pattern: '^email$', action: 'redact' }] },
+      'policy'
+    );
+    manager = new ConnectionManager(buildConfig({ maskingPolicy }));
+    await manager.initialize();
+    const { server } = createServer(ConnectionRegistry.single(manager));
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return client;
+  };
+
+  // None of these columns come from a table, so masking would redact them all
+  fakePg.respond = (sql, _params, client) => {
+    if (sql.startsWith('EXPLAIN')) {
+      return {
+        rows: [{ 'QUERY PLAN': 'Seq Scan on users' }],
+        fields: [{ name: 'QUERY PLAN', dataTypeID: 25 }],
+      };
+    }
+    const declared = client.queries.find((query) => query.startsWith('DECLARE')) ?? '';
+    if (declared.includes('information_schema.schemata')) {
+      const row = { schema_name: 'public', schema_owner: 'app', schema_type: 'user' };
+      return fetchRows(client, sql, [row], [
+        { name: 'schema_name', dataTypeID: 19 },
+        { name: 'schema_owner', dataTypeID: 19 },
+        { name: 'schema_type', dataTypeID: 25 },
+      ]);
+    }
+    return fetchRows(client, sql, [{ total: '3' }], [{ name: 'total', dataTypeID: 20 }]);
+  };
+
+  it('leaves catalog queries and plans unmasked but masks user SQL', async () => {
+    const client = await connect();
+
+    const schemas = await client.callTool({ name: 'list_schemas', arguments: {} });
+    expect(schemas.isError).toBeFalsy();
+    expect(schemas.structuredContent).toEqual({
+      result: [{ schema_name: 'public', schema_owner: 'app', schema_type: 'user' }],
+    });
+
+    const plan = await client.callTool({
+      name: 'explain_query',
+      arguments: { sql: 'SELECT * FROM users' },
+    });
+    expect(plan.structuredContent).toEqual({ result: 'Seq Scan on users' });
+
+    const query = await client.callTool({
+      name: 'execute_query',
+      arguments: { sql: 'SELECT count(*) AS total FROM users' },
+    });
+    expect(query.structuredContent).toMatchObject({ result: { rows: [{ total: '[REDACTED]' }] } });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import request from 'supertest';
+import { ServerMetrics, sqlStateOf } from '../../src/lib/metrics.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
+import type { ConnectionManager } from '../../src/connection/postgres-pool.js';
+import { createHttpApp } from '../../src/http/app.js';
+import { successResponse, errorResponseFromError } from '../../src/lib/tool-response.js';
+import type { HttpConfig, TunnelState } from '../../src/types.js';
+
+const createManager = (tunnel?: TunnelState): ConnectionManager =>
+  ({
+    healthCheck: vi.fn().mockResolvedValue(undefined),
+    close: vi.fn().mockResolvedValue(undefined),
+    executeQuery: vi.fn(),
+    getStatus: vi.fn().mockReturnValue({
+      initialized: true,
+      reconnecting: false,
+      database: { host: 'db', port: 5432, database: 'app', user: 'reader', ssl: true },
+      tunnel,
+      pool: { totalCount: 4, idleCount: 3, waitingCount: 1 },
+      mode: 'read-only',
+      maxRows: 1000,
+      queryTimeout: 30000,
+      maxConcurrentQueries: 10,
+      activeQueries: 2,
+      openCursors: 0,
+    }),
+  }) as unknown as ConnectionManager;
+
+const sample = (text: string, series: string): number | undefined => {
+  const line = text.split('\n').find((l) => l.startsWith(`${series} `));
+  return line === undefined ? undefined : Number(line.slice(series.length + 1));
+};
+
+describe('sqlStateOf', () => {
+  it('reads the SQLSTATE of PostgreSQL errors', () => {
+    expect(sqlStateOf(Object.assign(new Error('x'), { code: '42P01' }))).toBe('42P01');
+    expect(sqlStateOf(Object.assign(new Error('x'), { code: 'ECONNRESET' }))).toBe('none');
+    expect(sqlStateOf(new Error('Access denied'))).toBe('none');
+    expect(sqlStateOf(null)).toBe('none');
+  });
+});
+
+describe('ServerMetrics', () => {
+  it('counts tool calls by outcome and observes latency', async () => {
+    const metrics = new ServerMetrics();
+    const ok = metrics.instrumentTool('list_tables', async () => successResponse([]));
+    const failing = metrics.instrumentTool('list_tables', async () =>
+      errorResponseFromError(new Error('nope'))
+    );
+    const throwing = metrics.instrumentTool('execute_query', async () => {
+      throw new Error('boom');
+    });
+
+    await ok();
+    await ok();
+    await failing();
+    await expect(throwing()).rejects.toThrow('boom');
+
+    const text = metrics.render(
+      new ConnectionRegistry([{ name: 'default', manager: createManager() }])
+    );
+    expect(sample(text, 'pgmcp_tool_calls_total{tool="list_tables",status="success"}')).toBe(2);
+    expect(sample(text, 'pgmcp_tool_calls_total{tool="list_tables",status="error"}')).toBe(1);
+    expect(sample(text, 'pgmcp_tool_calls_total{tool="execute_query",status="error"}')).toBe(1);
+    expect(sample(text, 'pgmcp_tool_duration_seconds_count{tool="list_tables"}')).toBe(3);
+    expect(
+      sample(text, 'pgmcp_tool_duration_seconds_bucket{tool="list_tables",le="+Inf"}')
+    ).toBe(3);
+    expect(text).toContain('# TYPE pgmcp_tool_duration_seconds histogram');
+  });
+
+  it('records query latency and errors by SQLSTATE', () => {
+    const metrics = new ServerMetrics();
+    metrics.recordQuery('default', 20);
+    metrics.recordQuery('default', 3000, Object.assign(new Error('x'), { code: '57014' }));
+    metrics.recordQuery('default', 1, new Error('Access denied'));
+
+    const text = metrics.render(
+      new ConnectionRegistry([{ name: 'default', manager: createManager() }])
+    );
+    expect(sample(text, 'pgmcp_query_errors_total{database="default",sqlstate="57014"}')).toBe(1);
+    expect(sample(text, 'pgmcp_query_errors_total{database="default",sqlstate="none"}')).toBe(1);
+    expect(sample(text, 'pgmcp_query_duration_seconds_count{database="default"}')).toBe(3);
+    expect(
+      sample(text, 'pgmcp_query_duration_seconds_bucket{database="default",le="0.025"}')
+    ).toBe(2);
+    expect(sample(text, 'pgmcp_query_duration_seconds_sum{database="default"}')).toBeCloseTo(3.021);
+  });
+
+  it('reports pool, concurrency, tunnel and session gauges per profile', () => {
+    const registry = new ConnectionRegistry([
+      { name: 'staging', manager: createManager() },
+      {
+        name: 'analytics',
+        manager: createManager({
+          status: 'reconnecting',
+          localPort: null,
+          uptime: 0,
+          reconnectAttempts: 3,
+        }),
+      },
+    ]);
+
+    const text = new ServerMetrics().render(registry, 5);
+    expect(sample(text, 'pgmcp_pool_total_connections{database="staging"}')).toBe(4);
+    expect(sample(text, 'pgmcp_pool_idle_connections{database="analytics"}')).toBe(3);
+    expect(sample(text, 'pgmcp_pool_waiting_clients{database="staging"}')).toBe(1);
+    expect(sample(text, 'pgmcp_active_queries{database="staging"}')).toBe(2);
+    expect(sample(text, 'pgmcp_max_concurrent_queries{database="staging"}')).toBe(10);
+    expect(
+      sample(text, 'pgmcp_tunnel_status{database="analytics",status="reconnecting"}')
+    ).toBe(1);
+    expect(
+      sample(text, 'pgmcp_tunnel_status{database="analytics",status="connected"}')
+    ).toBe(0);
+    expect(text).not.toContain('pgmcp_tunnel_status{database="staging"');
+    expect(sample(text, 'pgmcp_tunnel_reconnect_attempts{database="analytics"}')).toBe(3);
+    expect(sample(text, 'pgmcp_sessions_active')).toBe(5);
+  });
+
+  it('omits the session gauge in stateless mode and escapes label values', () => {
+    const registry = new ConnectionRegistry([
+      { name: 'default', manager: createManager() },
+    ]);
+    const metrics = new ServerMetrics();
+    metrics.recordQuery('we"ird\\name', 1, new Error('x'));
+
+    const text = metrics.render(registry);
+    expect(text).not.toContain('pgmcp_sessions_active');
+    expect(text).toContain('database="we\\"ird\\\\name"');
+  });
+});
+
+describe('GET /metrics', () => {
+  const baseConfig: HttpConfig = {
+    port: 3000,
+    host: '127.0.0.1',
+    authMode: 'none',
+    sessionTtlMinutes: 30,
+    stateless: false,
+    serverPoolSize: 1,
+    sessionCleanupIntervalMs: 300000,
+  };
+  let appContext: ReturnType<typeof createHttpApp> | undefined;
+
+  const createApp = (httpConfig: HttpConfig) => {
+    appContext = createHttpApp({
+      httpConfig,
+      connections: new ConnectionRegistry(
+        [{ name: 'default', manager: createManager() }],
+        { metrics: new ServerMetrics() }
+      ),
+      enableJsonResponse: true,
+    });
+    return appContext;
+  };
+
+  afterEach(async () => {
+    await appContext?.stop();
+    appContext = undefined;
+  });
+
+  it('is not served unless enabled', async () => {
+    const { app } = createApp(baseConfig);
+    const response = await request(app).get('/metrics');
+    expect(response.status).toBe(404);
+  });
+
+  it('serves the text format with the session count', async () => {
+    const { app } = createApp({ ...baseConfig, metrics: {} });
+    const response = await request(app).get('/metrics');
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    expect(response.text).toContain('pgmcp_sessions_active 0');
+    expect(response.text).toContain('pgmcp_pool_total_connections{database="default"} 4');
+  });
+
+  it('requires the bearer token when configured', async () => {
+    const { app } = createApp({ ...baseConfig, metrics: { token: 's3cret' } });
+
+    const missing = await request(app).get('/metrics');
+    expect(missing.status).toBe(401);
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+
+    const wrong = await request(app).get('/metrics').set('Authorization', 'Bearer nope');
+    expect(wrong.status).toBe(401);
+
+    const ok = await request(app).get('/metrics').set('Authorization', 'Bearer s3cret');
+    expect(ok.status).toBe(200);
+  });
+
+  it('moves to a separate app when a metrics port is set', async () => {
+    const { app, metricsApp } = createApp({
+      ...baseConfig,
+      stateless: true,
+      metrics: { port: 9464 },
+    });
+
+    expect((await request(app).get('/metrics')).status).toBe(404);
+    expect(metricsApp).toBeDefined();
+    const response = await request(metricsApp).get('/metrics');
+    expect(response.status).toBe(200);
+    expect(response.text).not.toContain('pgmcp_sessions_active');
+  });
+});
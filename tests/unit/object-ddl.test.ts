@@ -0,0 +1,359 @@
+import { describe, it, expect } from 'vitest';
+import { parseSql } from '../../src/lib/sql-parser.js';
+import { AccessPolicy } from '../../src/lib/access-policy.js';
+import { readObjectDdl } from '../../src/lib/ddl.js';
+import { fakeCatalogManager } from './helpers/fake-catalog.js';
+
+type Rows = Record<string, unknown>[];
+
+/**
+ * Fake manager answering the object lookup with `matches` and the detail
+ * query with `details`
+ */
+const fakeManager = (matches: Rows, details: Rows, policy: AccessPolicy | null = null) =>
+  fakeCatalogManager((sql) => (sql.includes('UNION ALL') ? matches : details), policy);
+
+const orders = {
+  name: 'orders',
+  kind: 'p',
+  persistence: 'p',
+  owner: 'app owner',
+  comment: "Customer's orders",
+  options: null,
+  parents: [],
+  partitionOf: null,
+  partitionBound: null,
+  partitionKey: 'RANGE (created_at)',
+  partitions: [
+    {
+      schema: 'public',
+      name: 'orders_2026',
+      bound: "FOR VALUES FROM ('2026-01-01') TO ('2027-01-01')",
+    },
+  ],
+  viewDefinition: null,
+  columns: [
+    {
+      name: 'id',
+      type: 'bigint',
+      notNull: true,
+      default: null,
+      identity: 'a',
+      generated: '',
+      local: true,
+      comment: null,
+      grants: [],
+    },
+    {
+      name: 'total',
+      type: 'numeric(12,2)',
+      notNull: false,
+      default: '0',
+      identity: '',
+      generated: '',
+      local: true,
+      comment: 'Gross amount',
+      grants: [{ grantee: 'auditor', privilege: 'SELECT', grantable: false }],
+    },
+    {
+      name: 'total_cents',
+      type: 'bigint',
+      notNull: false,
+      default: '(total * (100)::numeric)',
+      identity: '',
+      generated: 's',
+      local: true,
+      comment: null,
+      grants: [],
+    },
+    {
+      name: 'created_at',
+      type: 'timestamp with time zone',
+      notNull: true,
+      default: 'now()',
+      identity: '',
+      generated: '',
+      local: true,
+      comment: null,
+      grants: [],
+    },
+  ],
+  constraints: [
+    { name: 'orders_pkey', definition: 'PRIMARY KEY (id, created_at)', local: true },
+  ],
+  indexes: ['CREATE INDEX orders_total ON ONLY public.orders USING btree (total)'],
+  triggers: [
+    'CREATE TRIGGER audit AFTER INSERT ON public.orders FOR EACH ROW EXECUTE FUNCTION audit()',
+  ],
+  rowSecurity: true,
+  forceRowSecurity: false,
+  policies: [
+    {
+      name: 'own rows',
+      schema: 'public',
+      table: 'orders',
+      permissive: true,
+      command: 'SELECT',
+      roles: [null],
+      using: '(owner_id = current_user_id())',
+      withCheck: null,
+    },
+  ],
+  grants: [
+    { grantee: 'reader', privilege: 'SELECT', grantable: false },
+    { grantee: 'writer', privilege: 'INSERT', grantable: true },
+    { grantee: 'writer', privilege: 'UPDATE', grantable: true },
+  ],
+};
+
+describe('readObjectDdl', () => {
+  it('rebuilds a partitioned table with everything attached to it', async () => {
+    const { manager, executeQuery } = fakeManager(
+      [{ kind: 'table', oid: '16384' }],
+      [{ relation: orders }]
+    );
+
+    const result = await readObjectDdl(manager, 'public', 'orders');
+
+    expect(executeQuery.mock.calls[1][1]).toEqual(['16384']);
+    expect(result).toMatchObject({ schema: 'public', name: 'orders', kind: 'table' });
+    expect(result.ddl.split('\n\n')).toEqual([
+      'CREATE TABLE "public"."orders" (\n' +
+        '    "id" bigint GENERATED ALWAYS AS IDENTITY NOT NULL,\n' +
+        '    "total" numeric(12,2) DEFAULT 0,\n' +
+        '    "total_cents" bigint GENERATED ALWAYS AS ((total * (100)::numeric)) STORED,\n' +
+        '    "created_at" timestamp with time zone DEFAULT now() NOT NULL,\n' +
+        '    CONSTRAINT "orders_pkey" PRIMARY KEY (id, created_at)\n' +
+        ')\n' +
+        'PARTITION BY RANGE (created_at);',
+      'CREATE TABLE "public"."orders_2026" PARTITION OF "public"."orders"\n' +
+        "FOR VALUES FROM ('2026-01-01') TO ('2027-01-01');",
+      'ALTER TABLE "public"."orders" OWNER TO "app owner";',
+      'COMMENT ON TABLE "public"."orders" IS \'Customer\'\'s orders\';',
+      'COMMENT ON COLUMN "public"."orders"."total" IS \'Gross amount\';',
+      'GRANT SELECT ON TABLE "public"."orders" TO "reader";',
+      'GRANT INSERT, UPDATE ON TABLE "public"."orders" TO "writer" WITH GRANT OPTION;',
+      'GRANT SELECT ("total") ON TABLE "public"."orders" TO "auditor";',
+      'CREATE INDEX orders_total ON ONLY public.orders USING btree (total);',
+      'CREATE TRIGGER audit AFTER INSERT ON public.orders FOR EACH ROW EXECUTE FUNCTION audit();',
+      'ALTER TABLE "public"."orders" ENABLE ROW LEVEL SECURITY;',
+      'CREATE POLICY "own rows" ON "public"."orders"\n' +
+        '    AS PERMISSIVE\n' +
+        '    FOR SELECT\n' +
+        '    TO PUBLIC\n' +
+        '    USING ((owner_id = current_user_id()));',
+    ]);
+    for (const statement of result.ddl.split('\n\n')) {
+      expect(() => parseSql(statement)).not.toThrow();
+    }
+  });
+
+  it('writes a partition as PARTITION OF its parent and a view from its query', async () => {
+    const partition = {
+      ...orders,
+      name: 'orders_2026',
+      kind: 'r',
+      partitionKey: null,
+      partitions: [],
+      partitionOf: { schema: 'public', name: 'orders' },
+      partitionBound: "FOR VALUES FROM ('2026-01-01') TO ('2027-01-01')",
+      constraints: [{ name: 'orders_pkey', definition: 'PRIMARY KEY (id)', local: false }],
+      indexes: [],
+      triggers: [],
+      rowSecurity: false,
+      policies: [],
+      grants: [],
+      comment: null,
+      columns: [],
+    };
+    const partitionDdl = await readObjectDdl(
+      fakeManager([{ kind: 'table', oid: '1' }], [{ relation: partition }]).manager,
+      'public',
+      'orders_2026'
+    );
+    expect(partitionDdl.ddl.split('\n\n')[0]).toBe(
+      'CREATE TABLE "public"."orders_2026" PARTITION OF "public"."orders"\n' +
+        "FOR VALUES FROM ('2026-01-01') TO ('2027-01-01');"
+    );
+
+    const view = {
+      ...partition,
+      name: 'big_orders',
+      kind: 'm',
+      partitionOf: null,
+      partitionBound: null,
+      constraints: [],
+      viewDefinition: ' SELECT id\n   FROM orders\n  WHERE total > 100::numeric;',
+    };
+    const viewDdl = await readObjectDdl(
+      fakeManager([{ kind: 'materialized view', oid: '2' }], [{ relation: view }]).manager,
+      'public',
+      'big_orders'
+    );
+    expect(viewDdl.ddl.split('\n\n').slice(0, 2)).toEqual([
+      'CREATE MATERIALIZED VIEW "public"."big_orders" AS\n' +
+        'SELECT id\n   FROM orders\n  WHERE total > 100::numeric\nWITH NO DATA;',
+      'ALTER MATERIALIZED VIEW "public"."big_orders" OWNER TO "app owner";',
+    ]);
+  });
+
+  it('returns every overload of a function', async () => {
+    const overload = (args: string) => ({
+      definition: `CREATE OR REPLACE FUNCTION public.total(${args})\n RETURNS numeric\n LANGUAGE sql\nAS $function$select 1$function$\n`,
+      kind: 'FUNCTION',
+      name: 'total',
+      arguments: args,
+      owner: 'app',
+      comment: null,
+      grants: [{ grantee: null, privilege: 'EXECUTE', grantable: false }],
+    });
+    const { manager, executeQuery } = fakeManager(
+      [
+        { kind: 'function', oid: '10' },
+        { kind: 'function', oid: '11' },
+      ],
+      [overload('integer'), overload('bigint')]
+    );
+
+    const result = await readObjectDdl(manager, 'public', 'total');
+
+    expect(executeQuery.mock.calls[1][1]).toEqual([['10', '11']]);
+    expect(result.kind).toBe('function');
+    expect(result.ddl.split('\n\n')).toHaveLength(6);
+    expect(result.ddl).toContain('ALTER FUNCTION "public"."total"(bigint) OWNER TO "app";');
+    expect(result.ddl).toContain('GRANT EXECUTE ON FUNCTION "public"."total"(integer) TO PUBLIC;');
+  });
+
+  it('writes enums and domains', async () => {
+    const enumDdl = await readObjectDdl(
+      fakeManager(
+        [{ kind: 'type', oid: '1' }],
+        [{ type: 'e', owner: 'app', comment: null, labels: ['new', "won't ship"], grants: [] }]
+      ).manager,
+      'public',
+      'status'
+    );
+    expect(enumDdl.ddl.split('\n\n')[0]).toBe(
+      'CREATE TYPE "public"."status" AS ENUM (\n    \'new\',\n    \'won\'\'t ship\'\n);'
+    );
+
+    const domainDdl = await readObjectDdl(
+      fakeManager(
+        [{ kind: 'type', oid: '2' }],
+        [
+          {
+            type: 'd',
+            owner: 'app',
+            comment: 'Positive amounts',
+            base_type: 'numeric(12,2)',
+            default_value: '0',
+            not_null: true,
+            checks: [{ name: 'positive', definition: 'CHECK (VALUE >= 0::numeric)' }],
+            grants: [],
+          },
+        ]
+      ).manager,
+      'public',
+      'amount'
+    );
+    expect(domainDdl.ddl.split('\n\n')).toEqual([
+      'CREATE DOMAIN "public"."amount" AS numeric(12,2)\n' +
+        '    DEFAULT 0\n' +
+        '    NOT NULL\n' +
+        '    CONSTRAINT "positive" CHECK (VALUE >= 0::numeric);',
+      'ALTER DOMAIN "public"."amount" OWNER TO "app";',
+      'COMMENT ON DOMAIN "public"."amount" IS \'Positive amounts\';',
+    ]);
+  });
+
+  it('writes a sequence with its owning column', async () => {
+    const { manager } = fakeManager(
+      [{ kind: 'sequence', oid: '3' }],
+      [
+        {
+          name: 'invoice_no',
+          owner: 'app',
+          comment: null,
+          data_type: 'bigint',
+          start: '1000',
+          increment: '1',
+          min: '1',
+          max: '9223372036854775807',
+          cache: '1',
+          cycle: false,
+          owned_by: { schema: 'public', table: 'invoices', column: 'no', identity: false },
+          grants: [{ grantee: 'writer', privilege: 'USAGE', grantable: false }],
+        },
+      ]
+    );
+
+    expect((await readObjectDdl(manager, 'public', 'invoice_no')).ddl.split('\n\n')).toEqual([
+      'CREATE SEQUENCE "public"."invoice_no"\n' +
+        '    AS bigint\n' +
+        '    START WITH 1000\n' +
+        '    INCREMENT BY 1\n' +
+        '    MINVALUE 1\n' +
+        '    MAXVALUE 9223372036854775807\n' +
+        '    CACHE 1;',
+      'ALTER SEQUENCE "public"."invoice_no" OWNED BY "public"."invoices"."no";',
+      'ALTER SEQUENCE "public"."invoice_no" OWNER TO "app";',
+      'GRANT USAGE ON SEQUENCE "public"."invoice_no" TO "writer";',
+    ]);
+  });
+
+  it('asks for a type when the name is ambiguous and reports missing objects', async () => {
+    const matches = [
+      { kind: 'table', oid: '1' },
+      { kind: 'function', oid: '2' },
+    ];
+    await expect(readObjectDdl(fakeManager(matches, []).manager, 'public', 'x')).rejects.toThrow(
+      '"public.x" names more than one kind of object (table, function). Pass type to choose one.'
+    );
+    await expect(
+      readObjectDdl(fakeManager(matches, []).manager, 'public', 'x', 'view')
+    ).rejects.toThrow('No view named "x" in schema "public"');
+  });
+
+  it('applies the access policy to the object and its table', async () => {
+    const policy = new AccessPolicy({ deniedRelations: ['public.secrets'] });
+    await expect(
+      readObjectDdl(fakeManager([{ kind: 'table', oid: '1' }], [], policy).manager, 'public', 'secrets')
+    ).rejects.toThrow();
+    await expect(
+      readObjectDdl(
+        fakeManager(
+          [{ kind: 'trigger', oid: '1' }],
+          [{ definition: 'CREATE TRIGGER t ...', name: 't', schema: 'public', table: 'secrets', comment: null }],
+          policy
+        ).manager,
+        'public',
+        't'
+      )
+    ).rejects.toThrow();
+
+    const { manager, executeQuery } = fakeManager(
+      [{ kind: 'function', oid: '10' }],
+      [],
+      new AccessPolicy({ deniedFunctions: ['public.decrypt'] })
+    );
+    await expect(readObjectDdl(manager, 'public', 'decrypt', 'function')).rejects.toThrow(
+      'Access denied to function public.decrypt'
+    );
+    expect(executeQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends catalog queries that parse', async () => {
+    const { manager, executeQuery } = fakeManager([], []);
+    await readObjectDdl(manager, 'public', 'x').catch(() => undefined);
+    const sql = [executeQuery.mock.calls[0][0]];
+    for (const kind of ['table', 'sequence', 'function', 'type', 'trigger', 'policy']) {
+      const fake = fakeManager([{ kind, oid: '1' }], []);
+      await readObjectDdl(fake.manager, 'public', 'x').catch(() => undefined);
+      sql.push(fake.executeQuery.mock.calls[1][0]);
+    }
+
+    for (const statement of sql) {
+      expect(parseSql(statement)).toHaveLength(1);
+    }
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as jose from 'jose';
+import request from 'supertest';
+import { verifyAccessToken } from '../../src/http/auth.js';
+import { createHttpApp } from '../../src/http/app.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
+import type { ConnectionManager } from '../../src/connection/postgres-pool.js';
+import type { HttpConfig, OidcConfig } from '../../src/types.js';
+
+interface Realm {
+  keys: jose.JWK[];
+  /** Issuer published in the discovery document, when it differs */
+  advertisedIssuer?: string;
+}
+
+/**
+ * Minimal OpenID provider serving discovery and JWKS documents for
+ * /realms/<name>, the way Keycloak lays out its issuers
+ */
+class StubProvider {
+  readonly realms = new Map<string, Realm>();
+  readonly requests: string[] = [];
+  private server?: Server;
+  origin = '';
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.requests.push(req.url ?? '');
+      const match = /^\/realms\/([^/]+)\/(.+)$/.exec(req.url ?? '');
+      const realm = match ? this.realms.get(match[1]) : undefined;
+      if (!match || !realm) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const issuer = this.issuer(match[1]);
+      const body =
+        match[2] === '.well-known/openid-configuration'
+          ? { issuer: realm.advertisedIssuer ?? issuer, jwks_uri: `${issuer}/certs` }
+          : match[2] === 'certs'
+            ? { keys: realm.keys }
+            : undefined;
+      if (!body) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => this.server?.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.origin = `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server?.close(resolve));
+  }
+
+  issuer(realm: string): string {
+    return `${this.origin}/realms/${realm}`;
+  }
+}
+
+const provider = new StubProvider();
+let es256: jose.GenerateKeyPairResult;
+let eddsa: jose.GenerateKeyPairResult;
+
+const publicJwk = async (pair: jose.GenerateKeyPairResult, kid: string, alg: string) => ({
+  ...(await jose.exportJWK(pair.publicKey)),
+  kid,
+  alg,
+});
+
+const sign = (
+  pair: jose.GenerateKeyPairResult,
+  alg: string,
+  kid: string,
+  claims: jose.JWTPayload & { iss: string; aud: string }
+) =>
+  new jose.SignJWT(claims)
+    .setProtectedHeader({ alg, kid })
+    .setIssuedAt()
+    .setExpirationTime(claims.exp ?? '5m')
+    .sign(pair.privateKey);
+
+const baseConfig = (realm: string, overrides: Partial<OidcConfig> = {}): OidcConfig => ({
+  issuer: provider.issuer(realm),
+  audiences: ['postgres-mcp'],
+  algorithms: ['ES256'],
+  clockToleranceSeconds: 0,
+  requiredClaims: [],
+  ...overrides,
+});
+
+beforeAll(async () => {
+  es256 = await jose.generateKeyPair('ES256');
+  eddsa = await jose.generateKeyPair('EdDSA');
+  await provider.start();
+  const keys = [await publicJwk(es256, 'ec-1', 'ES256'), await publicJwk(eddsa, 'ed-1', 'EdDSA')];
+  for (const name of ['main', 'claims', 'skew', 'direct', 'app']) {
+    provider.realms.set(name, { keys });
+  }
+  provider.realms.set('spoofed', { keys, advertisedIssuer: 'https://evil.example.com' });
+});
+
+afterAll(async () => {
+  await provider.stop();
+});
+
+describe('verifyAccessToken', () => {
+  it('finds signing keys through discovery', async () => {
+    const config = baseConfig('main', { audiences: ['other', 'postgres-mcp'] });
+    const token = await sign(es256, 'ES256', 'ec-1', {
+      iss: config.issuer,
+      aud: 'postgres-mcp',
+      sub: 'user-1',
+    });
+
+    const payload = await verifyAccessToken(token, config);
+    await verifyAccessToken(token, config);
+
+    expect(payload.sub).toBe('user-1');
+    expect(
+      provider.requests.filter((url) => url === '/realms/main/.well-known/openid-configuration')
+    ).toHaveLength(1);
+  });
+
+  it('rejects the wrong issuer, audience or algorithm', async () => {
+    const config = baseConfig('main');
+    const claims = { iss: config.issuer, aud: 'postgres-mcp', sub: 'user-1' };
+
+    await expect(
+      verifyAccessToken(await sign(es256, 'ES256', 'ec-1', { ...claims, aud: 'other' }), config)
+    ).rejects.toThrow(/aud/);
+    await expect(
+      verifyAccessToken(
+        await sign(es256, 'ES256', 'ec-1', { ...claims, iss: provider.issuer('claims') }),
+        config
+      )
+    ).rejects.toThrow(/iss/);
+    await expect(
+      verifyAccessToken(await sign(eddsa, 'EdDSA', 'ed-1', claims), config)
+    ).rejects.toThrow();
+  });
+
+  it('enforces required claims and values', async () => {
+    const config = baseConfig('claims', {
+      requiredClaims: [{ name: 'email' }, { name: 'groups', value: 'dba' }],
+    });
+    const claims = { iss: config.issuer, aud: 'postgres-mcp', sub: 'user-1' };
+
+    await expect(
+      verifyAccessToken(await sign(es256, 'ES256', 'ec-1', { ...claims, groups: ['dba'] }), config)
+    ).rejects.toThrow(/email/);
+    await expect(
+      verifyAccessToken(
+        await sign(es256, 'ES256', 'ec-1', { ...claims, email: 'a@b.c', groups: ['dev'] }),
+        config
+      )
+    ).rejects.toThrow('Token claim "groups" does not have the required value');
+    await expect(
+      verifyAccessToken(
+        await sign(es256, 'ES256', 'ec-1', { ...claims, email: 'a@b.c', groups: ['dev', 'dba'] }),
+        config
+      )
+    ).resolves.toMatchObject({ sub: 'user-1' });
+  });
+
+  it('applies the clock tolerance to expiry', async () => {
+    const config = baseConfig('skew');
+    const token = await sign(es256, 'ES256', 'ec-1', {
+      iss: config.issuer,
+      aud: 'postgres-mcp',
+      exp: Math.floor(Date.now() / 1000) - 10,
+    });
+
+    await expect(verifyAccessToken(token, config)).rejects.toThrow(/exp/);
+    await expect(
+      verifyAccessToken(token, { ...config, clockToleranceSeconds: 60 })
+    ).resolves.toBeDefined();
+  });
+
+  it('uses a configured JWKS URI without discovery', async () => {
+    const config = baseConfig('direct', {
+      algorithms: ['EdDSA'],
+      jwksUri: `${provider.issuer('direct')}/certs`,
+    });
+    const token = await sign(eddsa, 'EdDSA', 'ed-1', { iss: config.issuer, aud: 'postgres-mcp' });
+
+    await expect(verifyAccessToken(token, config)).resolves.toBeDefined();
+    expect(provider.requests).not.toContain('/realms/direct/.well-known/openid-configuration');
+  });
+
+  it('refuses a discovery document for another issuer', async () => {
+    const config = baseConfig('spoofed');
+    const token = await sign(es256, 'ES256', 'ec-1', { iss: config.issuer, aud: 'postgres-mcp' });
+
+    await expect(verifyAccessToken(token, config)).rejects.toThrow(
+      /issuer https:\/\/evil\.example\.com does not match/
+    );
+  });
+});
+
+describe('HTTP app in oidc mode', () => {
+  it('advertises the issuer and accepts its tokens', async () => {
+    const oidc = baseConfig('app');
+    const httpConfig: HttpConfig = {
+      port: 3000,
+      host: '127.0.0.1',
+      authMode: 'oidc',
+      oidc,
+      sessionTtlMinutes: 30,
+      stateless: true,
+      serverPoolSize: 1,
+      sessionCleanupIntervalMs: 300000,
+      allowedHosts: ['api.example.com'],
+    };
+    const manager = {
+      healthCheck: async () => undefined,
+      close: async () => undefined,
+    } as unknown as ConnectionManager;
+    const appContext = createHttpApp({
+      httpConfig,
+      connections: ConnectionRegistry.single(manager),
+    });
+
+    try {
+      const metadata = await request(appContext.app)
+        .get('/.well-known/oauth-protected-resource')
+        .set('Host', 'api.example.com');
+      expect(metadata.body.authorization_servers).toEqual([oidc.issuer]);
+
+      const token = await sign(es256, 'ES256', 'ec-1', { iss: oidc.issuer, aud: 'postgres-mcp' });
+      const post = () =>
+        request(appContext.app)
+          .post('/mcp')
+          .set('Accept', 'application/json, text/event-stream')
+          .set('Host', 'api.example.com')
+          .send({ jsonrpc: '2.0', id: 1, method: 'tools/list', params: {} });
+
+      expect((await post()).status).toBe(401);
+      const response = await post().set('Authorization', `Bearer ${token}`);
+      expect(response.status).toBe(200);
+      expect(response.body.result.tools.length).toBeGreaterThan(0);
+    } finally {
+      await appContext.stop();
+    }
+  });
+});
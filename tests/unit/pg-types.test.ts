@@ -0,0 +1,181 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { ValueEncoding } from '../../src/types.js';
+import { createTypeParsers } from '../../src/lib/pg-types.js';
+import { buildConfig, fakePg } from './helpers/fake-pg.js';
+
+vi.mock('pg', () => import('./helpers/fake-pg.js'));
+
+fakePg.respond = (sql) =>
+  sql.startsWith('FETCH')
+    ? {
+        rows: [{ id: '1', mood: 'happy', total: '2' }],
+        rowCount: 1,
+        command: 'FETCH',
+        fields: [
+          { name: 'id', dataTypeID: 20, tableID: 16384, columnID: 1 },
+          { name: 'mood', dataTypeID: 16400, tableID: 16384, columnID: 2 },
+          { name: 'total', dataTypeID: 1700, tableID: 0, columnID: 0 },
+        ],
+      }
+    : undefined;
+
+fakePg.respondToPool = (sql) => {
+  if (sql.includes('pg_type')) {
+    return { rows: [{ oid: '16400', name: 'public.mood' }] };
+  }
+  return {
+    rows: [
+      { table_id: '16384', column_id: 1, schema_name: 'public', table_name: 'users', column_name: 'id', nullable: false },
+      { table_id: '16384', column_id: 2, schema_name: 'public', table_name: 'users', column_name: 'mood', nullable: true },
+    ],
+  };
+};
+
+const { ConnectionManager } = await import('../../src/connection/postgres-pool.js');
+
+const parser = (encoding: ValueEncoding = { numeric: 'string', bytea: 'hex' }) => {
+  const { getTypeParser } = createTypeParsers(encoding);
+  return (oid: number, text: string) => getTypeParser(oid)(text);
+};
+
+describe('createTypeParsers', () => {
+  it('keeps int8 and numeric as strings unless numbers are exact', () => {
+    const asString = parser();
+    expect(asString(20, '9007199254740993')).toBe('9007199254740993');
+    expect(asString(1700, '1.50')).toBe('1.50');
+
+    const asNumber = parser({ numeric: 'number', bytea: 'hex' });
+    expect(asNumber(20, '42')).toBe(42);
+    expect(asNumber(20, '9007199254740993')).toBe('9007199254740993');
+    expect(asNumber(1700, '1.50')).toBe(1.5);
+    expect(asNumber(1700, '0.10000000000000000001')).toBe('0.10000000000000000001');
+    expect(asNumber(1700, 'NaN')).toBe('NaN');
+    expect(asNumber(1231, '{1.5,NULL,12345678901234567890}')).toEqual([
+      1.5,
+      null,
+      '12345678901234567890',
+    ]);
+  });
+
+  it('encodes bytea as hex or base64', () => {
+    expect(parser()(17, '\\x0aff')).toBe('\\x0aff');
+    expect(parser({ numeric: 'string', bytea: 'base64' })(17, '\\x0aff')).toBe('Cv8=');
+    expect(parser()(1001, '{"\\\\x01",NULL}')).toEqual(['\\x01', null]);
+  });
+
+  it('returns timestamps as ISO 8601 and dates and intervals as text', () => {
+    const parse = parser();
+    expect(parse(1184, '2026-01-02 03:04:05.123456+00')).toBe('2026-01-02T03:04:05.123456+00:00');
+    expect(parse(1184, '2026-01-02 03:04:05+05:30')).toBe('2026-01-02T03:04:05+05:30');
+    expect(parse(1184, 'infinity')).toBe('infinity');
+    expect(parse(1114, '2026-01-02 03:04:05')).toBe('2026-01-02T03:04:05');
+    expect(parse(1082, '2026-01-02')).toBe('2026-01-02');
+    expect(parse(1186, '1 day 02:03:04.5')).toBe('P0Y0M1DT2H3M4.5S');
+    expect(parse(1185, '{"2026-01-02 03:04:05+00"}')).toEqual(['2026-01-02T03:04:05+00:00']);
+  });
+
+  it('keeps non-finite floats as text', () => {
+    const parse = parser();
+    expect(parse(701, '1.25')).toBe(1.25);
+    expect(parse(701, 'Infinity')).toBe('Infinity');
+    expect(parse(1022, '{NaN,2}')).toEqual(['NaN', 2]);
+  });
+
+  it('parses ranges into bounds', () => {
+    const parse = parser();
+    expect(parse(3904, '[1,10)')).toEqual({
+      lower: 1,
+      upper: 10,
+      lowerInclusive: true,
+      upperInclusive: false,
+    });
+    expect(parse(3910, '["2026-01-01 00:00:00+00",)')).toEqual({
+      lower: '2026-01-01T00:00:00+00:00',
+      upper: null,
+      lowerInclusive: true,
+      upperInclusive: false,
+    });
+    expect(parse(3906, 'empty')).toEqual({ empty: true });
+    expect(parse(3905, '{"[1,3)",empty}')).toEqual([
+      { lower: 1, upper: 3, lowerInclusive: true, upperInclusive: false },
+      { empty: true },
+    ]);
+  });
+
+  it('parses geometric types into objects', () => {
+    const parse = parser();
+    expect(parse(600, '(1.5,-2)')).toEqual({ x: 1.5, y: -2 });
+    expect(parse(718, '<(0,0),3>')).toEqual({ center: { x: 0, y: 0 }, radius: 3 });
+    expect(parse(603, '(2,2),(0,0)')).toEqual({ high: { x: 2, y: 2 }, low: { x: 0, y: 0 } });
+    expect(parse(602, '[(0,0),(1,1)]')).toEqual({
+      closed: false,
+      points: [{ x: 0, y: 0 }, { x: 1, y: 1 }],
+    });
+    expect(parse(628, '{1,-1,0}')).toEqual({ a: 1, b: -1, c: 0 });
+    expect(parse(1017, '{"(1,2)","(3,4)"}')).toEqual([{ x: 1, y: 2 }, { x: 3, y: 4 }]);
+  });
+
+  it('falls back to the node-postgres parsers', () => {
+    const parse = parser();
+    expect(parse(23, '7')).toBe(7);
+    expect(parse(16, 't')).toBe(true);
+    expect(parse(3802, '{"a":1}')).toEqual({ a: 1 });
+  });
+});
+
+describe('ConnectionManager field metadata', () => {
+  const config = buildConfig({
+    readOnly: true,
+    valueEncoding: { numeric: 'string', bytea: 'base64' },
+  });
+  let manager: InstanceType<typeof ConnectionManager> | undefined;
+
+  afterEach(async () => {
+    await manager?.close();
+    manager = undefined;
+    fakePg.clearHistory();
+  });
+
+  it('installs the configured type parsers on the pool', async () => {
+    manager = new ConnectionManager(config);
+    await manager.initialize();
+    expect(fakePg.poolOptions?.types?.getTypeParser(17)('\\x0aff')).toBe('Cv8=');
+  });
+
+  it('describes fields with type names, source columns and nullability', async () => {
+    manager = new ConnectionManager(config);
+    await manager.initialize();
+
+    const result = await manager.executeQuery('SELECT * FROM users', [], {
+      describeFields: true,
+    });
+    expect(result.fields).toEqual([
+      {
+        name: 'id',
+        dataTypeID: 20,
+        type: 'bigint',
+        tableID: 16384,
+        columnID: 1,
+        origin: { schema: 'public', table: 'users', column: 'id' },
+        nullable: false,
+      },
+      {
+        name: 'mood',
+        dataTypeID: 16400,
+        type: 'public.mood',
+        tableID: 16384,
+        columnID: 2,
+        origin: { schema: 'public', table: 'users', column: 'mood' },
+        nullable: true,
+      },
+      { name: 'total', dataTypeID: 1700, type: 'numeric', tableID: 0, columnID: 0 },
+    ]);
+    expect(fakePg.poolCalls).toHaveLength(2);
+
+    await manager.executeQuery('SELECT * FROM users', [], { describeFields: true });
+    expect(fakePg.poolCalls).toHaveLength(2);
+
+    const plain = await manager.executeQuery('SELECT * FROM users');
+    expect(plain.fields?.[0]).toEqual({ name: 'id', dataTypeID: 20, tableID: 16384, columnID: 1 });
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { ParsedConfig } from '../../src/types.js';
+import { buildConfig, fakePg } from './helpers/fake-pg.js';
+
+vi.mock('pg', () => import('./helpers/fake-pg.js'));
+
+const state = {
+  serverVersion: 170000,
+  failRollback: false,
+};
+
+const affected = [
+  { id: '1', email: 'a@example.com' },
+  { id: '2', email: 'b@example.com' },
+  { id: '3', email: 'c@example.com' },
+];
+
+fakePg.respond = (sql) => {
+  if (sql === 'ROLLBACK' && state.failRollback) {
+    throw new Error('connection reset');
+  }
+  if (sql.includes('server_version_num')) {
+    return { rows: [{ version: state.serverVersion }] };
+  }
+  if (sql.includes('pg_trigger')) {
+    return {
+      rows: [
+        {
+          name: 'users_audit',
+          timing: 'AFTER',
+          level: 'ROW',
+          events: ['UPDATE', 'DELETE'],
+          function: 'audit.log_change()',
+        },
+      ],
+    };
+  }
+  if (sql.includes('pg_constraint')) {
+    return {
+      rows: [
+        { constraint_name: 'orders_user_fk', schema_name: 'public', table_name: 'orders', on_update: 'a', on_delete: 'c' },
+        { constraint_name: 'notes_user_fk', schema_name: 'public', table_name: 'notes', on_update: 'c', on_delete: 'n' },
+      ],
+    };
+  }
+  if (/RETURNING/.test(sql)) {
+    return {
+      rows: affected,
+      rowCount: affected.length,
+      command: sql.split(' ')[0].toUpperCase(),
+      fields: [
+        { name: 'id', dataTypeID: 20 },
+        { name: 'email', dataTypeID: 25 },
+      ],
+    };
+  }
+  if (/^(DELETE|MERGE)/.test(sql)) {
+    return { rows: [], rowCount: 3, command: sql.split(' ')[0] };
+  }
+  return { command: 'SELECT' };
+};
+
+const { ConnectionManager } = await import('../../src/connection/postgres-pool.js');
+const { runWithRequestContext } = await import('../../src/lib/request-context.js');
+
+describe('ConnectionManager.previewWrite', () => {
+  let manager: InstanceType<typeof ConnectionManager> | undefined;
+
+  const start = async (overrides: Partial<ParsedConfig> = {}) => {
+    manager = new ConnectionManager(buildConfig({ maxRows: 2, ...overrides }));
+    await manager.initialize();
+    fakePg.clearHistory();
+    return manager;
+  };
+
+  afterEach(async () => {
+    await manager?.close();
+    manager = undefined;
+    state.serverVersion = 170000;
+    state.failRollback = false;
+  });
+
+  it('runs the statement with RETURNING * and always rolls back', async () => {
+    const preview = await (await start()).previewWrite(
+      'UPDATE users SET active = false WHERE id > $1;',
+      [0]
+    );
+
+    expect(preview).toEqual({
+      command: 'UPDATE',
+      rowCount: 3,
+      rows: [
+        { id: '1', email: 'a@example.com' },
+        { id: '2', email: 'b@example.com' },
+      ],
+      truncated: true,
+      fields: [
+        { name: 'id', dataTypeID: 20, type: 'bigint' },
+        { name: 'email', dataTypeID: 25, type: 'text' },
+      ],
+    });
+    expect(fakePg.queries).toEqual([
+      'BEGIN',
+      'UPDATE users SET active = false WHERE id > $1\nRETURNING *',
+      'ROLLBACK',
+    ]);
+    expect(fakePg.calls[1].params).toEqual([0]);
+    expect(fakePg.clients[0].released).toEqual([undefined]);
+  });
+
+  it('lists triggers and the cascades of the statement events', async () => {
+    const preview = await (await start()).previewWrite(
+      'DELETE FROM public.users WHERE id = 1 RETURNING id',
+      [],
+      { sampleSize: 1, effects: true }
+    );
+
+    expect(preview.rows).toHaveLength(1);
+    expect(preview.triggers).toEqual([
+      {
+        name: 'users_audit',
+        timing: 'AFTER',
+        level: 'ROW',
+        events: ['UPDATE', 'DELETE'],
+        function: 'audit.log_change()',
+      },
+    ]);
+    expect(preview.cascades).toEqual([
+      { constraint: 'orders_user_fk', table: 'public.orders', event: 'DELETE', action: 'CASCADE' },
+      { constraint: 'notes_user_fk', table: 'public.notes', event: 'DELETE', action: 'SET NULL' },
+    ]);
+
+    const triggerLookup = fakePg.calls.find((query) => query.sql.includes('pg_trigger'));
+    expect(triggerLookup?.params).toEqual(['"public"."users"', 8]);
+    expect(fakePg.calls.at(-1)?.sql).toBe('ROLLBACK');
+  });
+
+  it('leaves RETURNING off MERGE before PostgreSQL 17', async () => {
+    state.serverVersion = 160004;
+    const preview = await (await start()).previewWrite(
+      'MERGE INTO t USING s ON t.id = s.id WHEN MATCHED THEN DELETE',
+      []
+    );
+
+    expect(preview).toMatchObject({ command: 'MERGE', rowCount: 3, rows: [], truncated: false });
+    expect(fakePg.calls.some((query) => query.sql.includes('RETURNING'))).toBe(false);
+  });
+
+  it('discards the client when the rollback fails', async () => {
+    const started = await start();
+    state.failRollback = true;
+
+    await started.previewWrite('DELETE FROM users', []);
+    expect(fakePg.clients[0].released).toEqual([new Error('connection reset')]);
+  });
+
+  it('rejects read-only callers and statements other than DML', async () => {
+    await expect(
+      (await start({ readOnly: true })).previewWrite('DELETE FROM users', [])
+    ).rejects.toThrow('Write previews are not available in read-only mode.');
+    await manager?.close();
+
+    const started = await start();
+    await expect(
+      runWithRequestContext(
+        { access: { grants: [], tools: ['*'], mode: 'read-only' } },
+        () => started.previewWrite('DELETE FROM users', [])
+      )
+    ).rejects.toThrow('Write previews are not available in read-only mode.');
+    await expect(started.previewWrite('SELECT 1', [])).rejects.toThrow(
+      'Expected a single INSERT, UPDATE, DELETE or MERGE statement.'
+    );
+    expect(fakePg.calls).toEqual([]);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ParsedConfig } from '../../src/types.js';
+import { buildConfig, fakePg, fetchRows } from './helpers/fake-pg.js';
+
+vi.mock('pg', () => import('./helpers/fake-pg.js'));
+
+let rows: Array<Record<string, unknown>> = [];
+
+fakePg.respond = (sql, _params, client) =>
+  fetchRows(client, sql, rows, [{ name: 'n', dataTypeID: 23 }]);
+
+const { ConnectionManager } = await import(
+  '../../src/connection/postgres-pool.js'
+);
+const { AuditLogger } = await import('../../src/lib/audit.js');
+const { runWithRequestContext } = await import('../../src/lib/request-context.js');
+type AuditEvent = import('../../src/lib/audit.js').AuditEvent;
+type ServerMetrics = import('../../src/lib/metrics.js').ServerMetrics;
+
+const inSession = <T>(session: string, fn: () => T): T =>
+  runWithRequestContext({ client: `session:${session}`, session }, fn);
+
+const config = (overrides: Partial<ParsedConfig> = {}) =>
+  buildConfig({ readOnly: true, maxRows: 3, maxOpenCursors: 2, ...overrides });
+
+const lastClient = () => fakePg.clients[fakePg.clients.length - 1];
+
+describe('ConnectionManager resumable cursors', () => {
+  let manager: InstanceType<typeof ConnectionManager>;
+
+  beforeEach(async () => {
+    rows = Array.from({ length: 8 }, (_, i) => ({ n: i + 1 }));
+    fakePg.clearHistory();
+    manager = new ConnectionManager(config());
+    await manager.initialize();
+  });
+
+  afterEach(async () => {
+    await manager.close();
+    vi.useRealTimers();
+  });
+
+  it('does not hold the cursor unless the query is resumable', async () => {
+    const result = await manager.executeQuery('SELECT n FROM t');
+    expect(result.truncated).toBe(true);
+    expect(result.continuationToken).toBeUndefined();
+    expect(lastClient().released).toEqual([undefined]);
+    expect(manager.getStatus().openCursors).toBe(0);
+  });
+
+  it('walks a truncated result page by page from the held cursor', async () => {
+    const first = await manager.executeQuery('SELECT n FROM t', [], {
+      resumable: true,
+    });
+    expect(first.rows.map((r) => r.n)).toEqual([1, 2, 3]);
+    expect(first.continuationToken).toBeDefined();
+    const client = lastClient();
+    expect(client.released).toEqual([]);
+    expect(manager.hasContinuation(first.continuationToken!)).toBe(true);
+
+    const second = await manager.fetchMore(first.continuationToken!);
+    expect(second.rows.map((r) => r.n)).toEqual([4, 5, 6]);
+    expect(second.truncated).toBe(true);
+    expect(second.rowsFetched).toBe(6);
+    expect(second.continuationToken).toBe(first.continuationToken);
+
+    const third = await manager.fetchMore(first.continuationToken!);
+    expect(third.rows.map((r) => r.n)).toEqual([7, 8]);
+    expect(third.truncated).toBe(false);
+    expect(third.continuationToken).toBeUndefined();
+    expect(third.rowsFetched).toBe(8);
+
+    expect(client.released).toEqual([undefined]);
+    expect(client.queries).toContain('ROLLBACK');
+    expect(fakePg.clients).toHaveLength(2);
+    await expect(manager.fetchMore(first.continuationToken!)).rejects.toThrow(
+      /not found or expired/
+    );
+  });
+
+  it('honours smaller page sizes and caps larger ones at maxRows', async () => {
+    const first = await manager.executeQuery('SELECT n FROM t', [], {
+      resumable: true,
+    });
+    const next = await manager.fetchMore(first.continuationToken!, 1);
+    expect(next.rows.map((r) => r.n)).toEqual([4]);
+    expect(next.truncated).toBe(true);
+
+    const capped = await manager.fetchMore(first.continuationToken!, 100);
+    expect(capped.rows.map((r) => r.n)).toEqual([5, 6, 7]);
+    expect(capped.truncated).toBe(true);
+  });
+
+  it('stops holding cursors once the limit is reached', async () => {
+    const a = await manager.executeQuery('SELECT n FROM t', [], { resumable: true });
+    const b = await manager.executeQuery('SELECT n FROM t', [], { resumable: true });
+    const c = await manager.executeQuery('SELECT n FROM t', [], { resumable: true });
+
+    expect(a.continuationToken).toBeDefined();
+    expect(b.continuationToken).toBeDefined();
+    expect(c.continuationToken).toBeUndefined();
+    expect(c.truncated).toBe(true);
+    expect(manager.getStatus().openCursors).toBe(2);
+  });
+
+  it('limits the cursors one session holds', async () => {
+    await manager.close();
+    manager = new ConnectionManager(config({ maxSessionCursors: 1 }));
+    await manager.initialize();
+
+    const resumable = () => manager.executeQuery('SELECT n FROM t', [], { resumable: true });
+    expect((await inSession('a', resumable)).continuationToken).toBeDefined();
+    const second = await inSession('a', resumable);
+    expect(second.continuationToken).toBeUndefined();
+    expect(second.truncated).toBe(true);
+    expect((await inSession('b', resumable)).continuationToken).toBeDefined();
+  });
+
+  it('sizes the pool from the configuration', () => {
+    expect(fakePg.poolOptions?.max).toBe(20);
+  });
+
+  it('closes idle cursors after the timeout', async () => {
+    vi.useFakeTimers();
+    const first = await manager.executeQuery('SELECT n FROM t', [], {
+      resumable: true,
+    });
+    const client = lastClient();
+
+    await vi.advanceTimersByTimeAsync(60001);
+
+    expect(manager.hasContinuation(first.continuationToken!)).toBe(false);
+    expect(client.released).toEqual([undefined]);
+  });
+
+  it('commits held cursors from read-write mode when finished', async () => {
+    await manager.close();
+    manager = new ConnectionManager(config({ readOnly: false }));
+    await manager.initialize();
+
+    const first = await manager.executeQuery('SELECT n FROM t', [], {
+      resumable: true,
+    });
+    const client = lastClient();
+    expect(client.queries[0]).toBe('BEGIN');
+
+    await manager.fetchMore(first.continuationToken!);
+    expect(client.queries).not.toContain('COMMIT');
+    await manager.fetchMore(first.continuationToken!);
+    expect(client.queries).toContain('COMMIT');
+    expect(client.released).toEqual([undefined]);
+  });
+
+  it('only serves continuation tokens to the session that ran the query', async () => {
+    const first = await inSession('a', () =>
+      manager.executeQuery('SELECT n FROM t', [], { resumable: true })
+    );
+    const token = first.continuationToken!;
+
+    await expect(inSession('b', () => manager.fetchMore(token))).rejects.toThrow(
+      /not found or expired/
+    );
+    await expect(
+      runWithRequestContext({ client: 'ip:10.0.0.1' }, () => manager.fetchMore(token))
+    ).rejects.toThrow(/not found or expired/);
+    await expect(manager.fetchMore(token)).rejects.toThrow(/not found or expired/);
+    expect((await inSession('a', () => manager.fetchMore(token))).rows).toHaveLength(3);
+  });
+
+  it('closes the held cursors of a session when it ends', async () => {
+    await inSession('a', () => manager.executeQuery('SELECT n FROM t', [], { resumable: true }));
+    const mine = lastClient();
+    await inSession('b', () => manager.executeQuery('SELECT n FROM t', [], { resumable: true }));
+
+    await manager.endSession('a');
+    expect(mine.released).toEqual([undefined]);
+    expect(mine.queries.slice(-2)).toEqual([expect.stringMatching(/^CLOSE /), 'ROLLBACK']);
+    expect(lastClient().released).toEqual([]);
+    expect(manager.getStatus().openCursors).toBe(1);
+  });
+
+  it('records each page in the audit log and query metrics', async () => {
+    await manager.close();
+    const events: AuditEvent[] = [];
+    const metrics = { recordQuery: vi.fn() } as unknown as ServerMetrics;
+    manager = new ConnectionManager(config(), {
+      name: 'app',
+      audit: new AuditLogger([{ write: (event) => events.push(event) }]),
+      metrics,
+    });
+    await manager.initialize();
+
+    const first = await manager.executeQuery('SELECT n FROM t WHERE n > $1', [0], {
+      resumable: true,
+    });
+    await manager.fetchMore(first.continuationToken!);
+
+    expect(events.map((event) => [event.sql, event.rowCount, event.truncated])).toEqual([
+      ['SELECT n FROM t WHERE n > $1', 3, true],
+      ['SELECT n FROM t WHERE n > $1', 3, true],
+    ]);
+    expect(events[1].paramsHash).toBe(events[0].paramsHash);
+    expect(metrics.recordQuery).toHaveBeenCalledTimes(2);
+  });
+
+  it('releases held cursors on close', async () => {
+    await manager.executeQuery('SELECT n FROM t', [], { resumable: true });
+    const client = lastClient();
+
+    await manager.close();
+    expect(client.released).toEqual([undefined]);
+    expect(manager.getStatus().openCursors).toBe(0);
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import request from 'supertest';
+import type { HttpConfig } from '../../src/types.js';
+import type { ConnectionManager as ConnectionManagerType } from '../../src/connection/postgres-pool.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
+import { createHttpApp } from '../../src/http/app.js';
+import { FairQueue } from '../../src/lib/fair-queue.js';
+import { RateLimiter, RATE_LIMITED_ERROR_CODE } from '../../src/lib/rate-limit.js';
+import { runWithRequestContext } from '../../src/lib/request-context.js';
+import { buildConfig, fakePg } from './helpers/fake-pg.js';
+
+vi.mock('pg', () => import('./helpers/fake-pg.js'));
+
+const state = {
+  started: [] as string[],
+  gate: null as Promise<void> | null,
+};
+
+fakePg.respond = async (sql) => {
+  const marker = /'(\w+)'/.exec(sql)?.[1];
+  if (marker && sql.startsWith('DECLARE')) {
+    state.started.push(marker);
+    await state.gate;
+  }
+  const rows = sql.startsWith('FETCH') ? [{ n: 1 }, { n: 2 }] : [];
+  return { rows, rowCount: rows.length, command: 'SELECT' };
+};
+
+const { ConnectionManager } = await import('../../src/connection/postgres-pool.js');
+
+describe('RateLimiter', () => {
+  it('limits tool calls per client and refills over the minute', () => {
+    let now = 0;
+    const limiter = new RateLimiter({ toolCallsPerMinute: 2 }, () => now);
+
+    expect(limiter.admitToolCall('a')).toBeUndefined();
+    expect(limiter.admitToolCall('a')).toBeUndefined();
+    expect(limiter.admitToolCall('a')).toEqual({
+      message: 'Rate limit exceeded: 2 tool calls per minute. Retry after 30 seconds.',
+      retryAfterSeconds: 30,
+    });
+    expect(limiter.admitToolCall('b')).toBeUndefined();
+
+    now = 30_000;
+    expect(limiter.admitToolCall('a')).toBeUndefined();
+    expect(limiter.admitToolCall('a')).toBeDefined();
+  });
+
+  it('rejects calls while a query quota is overdrawn', () => {
+    let now = 0;
+    const limiter = new RateLimiter(
+      { querySecondsPerMinute: 6, rowsPerMinute: 100 },
+      () => now
+    );
+
+    limiter.quotaFor('a')?.recordQuery(2000, 150);
+    expect(limiter.admitToolCall('a')).toEqual({
+      message: 'Rate limit exceeded: 100 rows per minute. Retry after 31 seconds.',
+      retryAfterSeconds: 31,
+    });
+    expect(limiter.admitToolCall('b')).toBeUndefined();
+
+    limiter.quotaFor('a')?.recordQuery(7000, 0);
+    expect(limiter.admitToolCall('a')?.message).toBe(
+      'Rate limit exceeded: 6 seconds of query time and 100 rows per minute. Retry after 31 seconds.'
+    );
+
+    now = 31_000;
+    expect(limiter.admitToolCall('a')).toBeUndefined();
+  });
+
+  it('has no query quota when none is configured', () => {
+    expect(new RateLimiter({ toolCallsPerMinute: 1 }).quotaFor('a')).toBeUndefined();
+  });
+});
+
+describe('FairQueue', () => {
+  it('serves clients in turn', () => {
+    const queue = new FairQueue<string>();
+    for (const [client, item] of [['a', 'a1'], ['a', 'a2'], ['a', 'a3'], ['b', 'b1'], ['c', 'c1'], ['b', 'b2']]) {
+      queue.push(client, item);
+    }
+    expect(queue.size).toBe(6);
+
+    const served: Array<string | undefined> = [];
+    while (queue.size > 0) {
+      served.push(queue.shift());
+    }
+    expect(served).toEqual(['a1', 'b1', 'c1', 'a2', 'b2', 'a3']);
+    expect(queue.shift()).toBeUndefined();
+  });
+});
+
+describe('ConnectionManager query slots', () => {
+  const config = buildConfig({ readOnly: true, maxConcurrentQueries: 1 });
+  let manager: ConnectionManagerType | undefined;
+
+  afterEach(async () => {
+    await manager?.close();
+    manager = undefined;
+    state.started = [];
+    state.gate = null;
+  });
+
+  it('serves queued queries round-robin across clients', async () => {
+    manager = new ConnectionManager(config);
+    await manager.initialize();
+    let open!: () => void;
+    state.gate = new Promise((resolve) => (open = resolve));
+
+    const run = (client: string, marker: string) =>
+      runWithRequestContext({ client }, () =>
+        manager!.executeQuery(`SELECT '${marker}'`)
+      );
+    const queries = [run('a', 'a1'), run('a', 'a2'), run('a', 'a3'), run('b', 'b1')];
+    await vi.waitFor(() => expect(state.started).toEqual(['a1']));
+    expect(manager.getStatus().activeQueries).toBe(1);
+
+    open();
+    await Promise.all(queries);
+    expect(state.started).toEqual(['a1', 'a2', 'b1', 'a3']);
+    expect(manager.getStatus().activeQueries).toBe(0);
+  });
+
+  it('charges rows and slot time to the caller quota', async () => {
+    manager = new ConnectionManager(config);
+    await manager.initialize();
+    const quota = { recordQuery: vi.fn() };
+
+    await runWithRequestContext({ client: 'a', quota }, () =>
+      manager!.executeQuery("SELECT 'q'")
+    );
+    expect(quota.recordQuery).toHaveBeenCalledWith(expect.any(Number), 2);
+  });
+});
+
+describe('HTTP rate limiting', () => {
+  let appContext: ReturnType<typeof createHttpApp> | undefined;
+
+  afterEach(async () => {
+    await appContext?.stop();
+    appContext = undefined;
+  });
+
+  it('answers tool calls over the limit with 429 and a retry time', async () => {
+    const httpConfig: HttpConfig = {
+      port: 3000,
+      host: '127.0.0.1',
+      authMode: 'none',
+      sessionTtlMinutes: 30,
+      stateless: true,
+      serverPoolSize: 1,
+      sessionCleanupIntervalMs: 300000,
+      rateLimit: { toolCallsPerMinute: 1 },
+    };
+    const manager = {
+      executeQuery: vi.fn().mockResolvedValue({ rows: [], rowCount: 0, truncated: false }),
+      close: vi.fn().mockResolvedValue(undefined),
+    } as unknown as ConnectionManagerType;
+    appContext = createHttpApp({ httpConfig, connections: ConnectionRegistry.single(manager) });
+
+    const post = (body: object) =>
+      request(appContext?.app)
+        .post('/mcp')
+        .set('Accept', 'application/json, text/event-stream')
+        .send(body);
+    const toolCall = (id: number) => ({
+      jsonrpc: '2.0',
+      id,
+      method: 'tools/call',
+      params: { name: 'execute_query', arguments: { sql: 'SELECT 1' } },
+    });
+
+    expect((await post(toolCall(1))).status).toBe(200);
+
+    const limited = await post(toolCall(2));
+    expect(limited.status).toBe(429);
+    expect(limited.headers['retry-after']).toBe('60');
+    expect(limited.body).toEqual({
+      jsonrpc: '2.0',
+      error: {
+        code: RATE_LIMITED_ERROR_CODE,
+        message: 'Rate limit exceeded: 1 tool calls per minute. Retry after 60 seconds.',
+        data: { retryAfterSeconds: 60 },
+      },
+      id: 2,
+    });
+
+    const listed = await post({ jsonrpc: '2.0', id: 3, method: 'tools/list' });
+    expect(listed.status).toBe(200);
+
+    const read = await post({
+      jsonrpc: '2.0',
+      id: 4,
+      method: 'resources/read',
+      params: { uri: 'postgres://default/public/users' },
+    });
+    expect(read.status).toBe(429);
+    expect(read.body.id).toBe(4);
+    expect((await post({ jsonrpc: '2.0', id: 5, method: 'resources/list' })).status).toBe(429);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { parseSql } from '../../src/lib/sql-parser.js';
+import { AccessPolicy } from '../../src/lib/access-policy.js';
+import { readRelationships } from '../../src/lib/relationships.js';
+import { fakeCatalogManager, fk } from './helpers/fake-catalog.js';
+
+const FOREIGN_KEYS = [
+  fk('employees_manager_fk', 'public.employees', ['manager_id'], 'public.employees', ['id'], {
+    optional: true,
+  }),
+  fk('order_items_order_fk', 'public.order_items', ['order_id', 'region'], 'public.orders', ['id', 'region']),
+  fk('orders_customer_fk', 'public.orders', ['customer_id'], 'public.customers', ['id']),
+  fk('profiles_customer_fk', 'public.profiles', ['customer_id'], 'public.customers', ['id'], {
+    unique: true,
+  }),
+  fk('invoices_order_fk', 'billing.invoices', ['order_id', 'region'], 'public.orders', ['id', 'region']),
+];
+
+const fakeManager = (rows = FOREIGN_KEYS, tableExists = true, policy: AccessPolicy | null = null) =>
+  fakeCatalogManager((sql, params) => {
+    if (sql.includes('schema_name')) {
+      const [[schema], [table]] = params as string[][];
+      return tableExists ? [] : [{ schema_name: schema, table_name: table }];
+    }
+    return [{ foreign_keys: rows }];
+  }, policy);
+
+describe('readRelationships', () => {
+  it('returns the foreign key graph of a schema with renderings', async () => {
+    const { manager, executeQuery } = fakeManager();
+
+    const graph = await readRelationships(manager, { schema: 'public' });
+
+    expect(executeQuery).toHaveBeenCalledWith(expect.any(String), ['public'], { skipMasking: true });
+    expect(parseSql(executeQuery.mock.calls[0][0])).toHaveLength(1);
+    expect(graph.nodes.map((node) => node.id)).toEqual([
+      'billing.invoices',
+      'public.customers',
+      'public.employees',
+      'public.order_items',
+      'public.orders',
+      'public.profiles',
+    ]);
+    expect(graph.edges[0]).toEqual({
+      name: 'employees_manager_fk',
+      from: 'public.employees',
+      fromColumns: ['manager_id'],
+      to: 'public.employees',
+      toColumns: ['id'],
+      cardinality: 'many-to-one',
+      optional: true,
+      selfReference: true,
+    });
+    expect(graph.edges.find((edge) => edge.name === 'profiles_customer_fk')?.cardinality).toBe(
+      'one-to-one'
+    );
+
+    expect(graph.mermaid.split('\n')).toEqual([
+      'erDiagram',
+      '  employees |o--o{ employees : "manager_id → id"',
+      '  orders ||--o{ order_items : "(order_id, region) → (id, region)"',
+      '  customers ||--o{ orders : "customer_id → id"',
+      '  customers ||--o| profiles : "customer_id → id"',
+      '  orders ||--o{ "billing.invoices" : "(order_id, region) → (id, region)"',
+    ]);
+    expect(graph.dot).toContain(
+      '  "public.profiles" -> "public.customers" [label="customer_id → id", taillabel="1", headlabel="1"];'
+    );
+    expect(graph.dot).toContain(
+      '  "public.employees" -> "public.employees" [label="manager_id → id", taillabel="N", headlabel="0..1"];'
+    );
+  });
+
+  it('follows foreign keys in both directions up to depth hops from a table', async () => {
+    const { manager, executeQuery } = fakeManager();
+
+    const oneHop = await readRelationships(manager, { schema: 'public', table: 'customers' });
+    expect(executeQuery).toHaveBeenCalledWith(expect.any(String), [['public'], ['customers']], { skipMasking: true });
+    expect(parseSql(executeQuery.mock.calls[0][0])).toHaveLength(1);
+    expect(executeQuery).toHaveBeenCalledWith(expect.any(String), [null], { skipMasking: true });
+    expect(oneHop.edges.map((edge) => edge.name)).toEqual([
+      'orders_customer_fk',
+      'profiles_customer_fk',
+    ]);
+
+    const twoHops = await readRelationships(manager, {
+      schema: 'public',
+      table: 'customers',
+      depth: 2,
+    });
+    expect(twoHops.nodes.map((node) => node.id)).toEqual([
+      'billing.invoices',
+      'public.customers',
+      'public.order_items',
+      'public.orders',
+      'public.profiles',
+    ]);
+  });
+
+  it('shows a table without foreign keys on its own and rejects unknown tables', async () => {
+    const lonely = await readRelationships(fakeManager([]).manager, {
+      schema: 'public',
+      table: 'settings',
+    });
+    expect(lonely).toMatchObject({
+      nodes: [{ id: 'public.settings', schema: 'public', table: 'settings' }],
+      edges: [],
+      mermaid: 'erDiagram\n  settings',
+    });
+
+    await expect(
+      readRelationships(fakeManager([], false).manager, { schema: 'public', table: 'nope' })
+    ).rejects.toThrow('Table "public.nope" does not exist');
+  });
+
+  it('leaves out relations the access policy blocks', async () => {
+    const policy = new AccessPolicy({ deniedSchemas: ['billing'] });
+    const graph = await readRelationships(fakeManager(FOREIGN_KEYS, true, policy).manager, {
+      schema: 'public',
+    });
+
+    expect(graph.nodes.map((node) => node.schema)).not.toContain('billing');
+    expect(graph.edges.map((edge) => edge.name)).not.toContain('invoices_order_fk');
+    await expect(
+      readRelationships(fakeManager(FOREIGN_KEYS, true, policy).manager, { schema: 'billing' })
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,318 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseSql } from '../../src/lib/sql-parser.js';
+import { AccessPolicy } from '../../src/lib/access-policy.js';
+import {
+  diffSchemas,
+  migrationSql,
+  readSchemaSnapshot,
+} from '../../src/lib/schema-diff.js';
+import type { ConnectionManager } from '../../src/connection/postgres-pool.js';
+import type { SchemaSnapshot } from '../../src/types.js';
+
+const refs = {
+  source: { database: 'staging', schema: 'public' },
+  target: { database: 'prod', schema: 'public' },
+};
+
+const snapshot = (overrides: Partial<SchemaSnapshot> = {}): SchemaSnapshot => ({
+  tables: [],
+  indexes: [],
+  views: [],
+  functions: [],
+  sequences: [],
+  ...overrides,
+});
+
+const users = {
+  name: 'users',
+  columns: [
+    { name: 'id', type: 'integer', nullable: false, default: "nextval('users_id_seq'::regclass)" },
+    { name: 'email', type: 'text', nullable: false, default: null },
+  ],
+  constraints: [{ name: 'users_pkey', definition: 'PRIMARY KEY (id)' }],
+};
+
+describe('readSchemaSnapshot', () => {
+  it('strips the schema qualification and applies the access policy', async () => {
+    const executeQuery = vi.fn().mockResolvedValue({
+      rows: [
+        {
+          quoted_schema: 'app',
+          tables: [
+            {
+              name: 'users',
+              columns: [
+                {
+                  name: 'id',
+                  type: 'app.user_id',
+                  nullable: false,
+                  default: "nextval('app.users_id_seq'::regclass)",
+                },
+              ],
+              constraints: [],
+            },
+            { name: 'secrets', columns: [], constraints: [] },
+          ],
+          indexes: [
+            { name: 'users_email', table: 'users', definition: 'CREATE INDEX users_email ON app.users USING btree (email)' },
+            { name: 'secrets_key', table: 'secrets', definition: 'CREATE INDEX secrets_key ON app.secrets USING btree (key)' },
+          ],
+          views: [{ name: 'v', materialized: false, definition: ' SELECT id FROM app.users JOIN myapp.t USING (id);' }],
+          functions: [],
+          sequences: [],
+        },
+      ],
+      rowCount: 1,
+      truncated: false,
+    });
+    const manager = {
+      executeQuery,
+      accessPolicy: new AccessPolicy({ deniedRelations: ['app.secrets'] }),
+    } as unknown as ConnectionManager;
+
+    const result = await readSchemaSnapshot(manager, 'app');
+
+    expect(executeQuery).toHaveBeenCalledWith(expect.any(String), ['app'], { skipMasking: true });
+    expect(result.tables.map((table) => table.name)).toEqual(['users']);
+    expect(result.tables[0].columns[0]).toMatchObject({
+      type: 'user_id',
+      default: "nextval('users_id_seq'::regclass)",
+    });
+    expect(result.indexes).toEqual([
+      { name: 'users_email', table: 'users', definition: 'CREATE INDEX users_email ON users USING btree (email)' },
+    ]);
+    expect(result.views[0].definition).toBe(' SELECT id FROM users JOIN myapp.t USING (id);');
+  });
+
+  it('leaves out functions the access policy blocks, from the diff and its migration', async () => {
+    const fn = (name: string) => ({
+      name,
+      arguments: 'text',
+      kind: 'function',
+      definition: `CREATE OR REPLACE FUNCTION app.${name}(text) RETURNS text AS $$ secret $$`,
+    });
+    const manager = {
+      executeQuery: vi.fn().mockResolvedValue({
+        rows: [
+          {
+            quoted_schema: 'app',
+            tables: [],
+            indexes: [],
+            views: [],
+            functions: [fn('decrypt'), fn('slugify')],
+            sequences: [],
+          },
+        ],
+        rowCount: 1,
+        truncated: false,
+      }),
+      accessPolicy: new AccessPolicy({ deniedFunctions: ['app.decrypt'] }),
+    } as unknown as ConnectionManager;
+
+    const source = await readSchemaSnapshot(manager, 'app');
+    expect(source.functions.map((item) => item.name)).toEqual(['slugify']);
+
+    const sql = migrationSql(diffSchemas(source, snapshot(), refs)).join('\n');
+    expect(sql).toContain('slugify');
+    expect(sql).not.toContain('decrypt');
+  });
+
+  it('rejects a missing schema', async () => {
+    const manager = {
+      executeQuery: vi.fn().mockResolvedValue({ rows: [], rowCount: 0, truncated: false }),
+      accessPolicy: null,
+    } as unknown as ConnectionManager;
+
+    await expect(readSchemaSnapshot(manager, 'nope')).rejects.toThrow(
+      'Schema "nope" does not exist'
+    );
+  });
+
+  it('sends SQL that parses', async () => {
+    const executeQuery = vi.fn().mockResolvedValue({ rows: [], rowCount: 0, truncated: false });
+    const manager = { executeQuery, accessPolicy: null } as unknown as ConnectionManager;
+    await readSchemaSnapshot(manager, 'public').catch(() => undefined);
+
+    const sql = executeQuery.mock.calls[0][0] as string;
+    expect(parseSql(sql)).toHaveLength(1);
+    expect(sql).toContain("e.deptype = 'i'");
+  });
+});
+
+describe('diffSchemas', () => {
+  it('reports an identical schema', () => {
+    const same = snapshot({ tables: [users] });
+    expect(diffSchemas(same, same, refs)).toMatchObject({ ...refs, identical: true });
+  });
+
+  it('reports added, removed and changed objects from the target point of view', () => {
+    const source = snapshot({
+      tables: [
+        {
+          ...users,
+          columns: [
+            users.columns[0],
+            { name: 'email', type: 'character varying(320)', nullable: true, default: null },
+            { name: 'created_at', type: 'timestamp with time zone', nullable: false, default: 'now()' },
+          ],
+        },
+        { name: 'orders', columns: [], constraints: [] },
+      ],
+      functions: [{ name: 'f', arguments: 'integer', kind: 'function', definition: 'v2' }],
+      sequences: [
+        { name: 's', dataType: 'bigint', start: '1', increment: '2', min: '1', max: '100', cycle: false },
+      ],
+    });
+    const target = snapshot({
+      tables: [users, { name: 'legacy', columns: [], constraints: [] }],
+      functions: [
+        { name: 'f', arguments: 'integer', kind: 'function', definition: 'v1' },
+        { name: 'f', arguments: 'text', kind: 'function', definition: 'v1' },
+      ],
+      sequences: [
+        { name: 's', dataType: 'bigint', start: '1', increment: '1', min: '1', max: '100', cycle: false },
+      ],
+    });
+
+    const diff = diffSchemas(source, target, refs);
+
+    expect(diff.identical).toBe(false);
+    expect(diff.tables.added.map((table) => table.name)).toEqual(['orders']);
+    expect(diff.tables.removed.map((table) => table.name)).toEqual(['legacy']);
+    expect(diff.tables.changed).toHaveLength(1);
+    expect(diff.tables.changed[0].columns.added.map((column) => column.name)).toEqual(['created_at']);
+    expect(diff.tables.changed[0].columns.changed).toEqual([
+      { name: 'email', source: source.tables[0].columns[1], target: users.columns[1] },
+    ]);
+    expect(diff.functions.changed.map((change) => change.name)).toEqual(['f(integer)']);
+    expect(diff.functions.removed.map((fn) => fn.arguments)).toEqual(['text']);
+    expect(diff.sequences.changed.map((change) => change.name)).toEqual(['s']);
+  });
+});
+
+describe('migrationSql', () => {
+  it('drops before creating and adds foreign keys last', () => {
+    const source = snapshot({
+      tables: [
+        {
+          name: 'orders',
+          columns: [
+            { name: 'id', type: 'integer', nullable: false, default: null },
+            { name: 'user_id', type: 'integer', nullable: true, default: null },
+          ],
+          constraints: [
+            { name: 'orders_user_fk', definition: 'FOREIGN KEY (user_id) REFERENCES users(id)' },
+            { name: 'orders_pkey', definition: 'PRIMARY KEY (id)' },
+          ],
+        },
+        {
+          ...users,
+          columns: [users.columns[0], { ...users.columns[1], nullable: true, default: "''::text" }],
+        },
+      ],
+      indexes: [
+        { name: 'users_email', table: 'users', definition: 'CREATE INDEX users_email ON users USING btree (lower(email))' },
+      ],
+      views: [{ name: 'active', materialized: false, definition: ' SELECT id\n   FROM users;' }],
+    });
+    const target = snapshot({
+      tables: [{ ...users, constraints: [] }, { name: 'old', columns: [], constraints: [] }],
+      indexes: [
+        { name: 'users_email', table: 'users', definition: 'CREATE INDEX users_email ON users USING btree (email)' },
+      ],
+    });
+
+    const diff = diffSchemas(source, target, {
+      source: refs.source,
+      target: { database: 'prod', schema: 'app' },
+    });
+
+    expect(migrationSql(diff)).toEqual([
+      'SET search_path TO "app", public;',
+      'DROP INDEX "users_email";',
+      'DROP TABLE "old";',
+      'CREATE TABLE "orders" (\n  "id" integer NOT NULL,\n  "user_id" integer\n);',
+      'ALTER TABLE "users" ALTER COLUMN "email" SET DEFAULT \'\'::text;',
+      'ALTER TABLE "users" ALTER COLUMN "email" DROP NOT NULL;',
+      'ALTER TABLE "orders" ADD CONSTRAINT "orders_pkey" PRIMARY KEY (id);',
+      'ALTER TABLE "users" ADD CONSTRAINT "users_pkey" PRIMARY KEY (id);',
+      'ALTER TABLE "orders" ADD CONSTRAINT "orders_user_fk" FOREIGN KEY (user_id) REFERENCES users(id);',
+      'CREATE INDEX users_email ON users USING btree (lower(email));',
+      'CREATE VIEW "active" AS\nSELECT id\n   FROM users;',
+    ]);
+  });
+
+  it('keeps identity and generated columns', () => {
+    const column = (name: string, overrides = {}) => ({
+      name,
+      type: 'bigint',
+      nullable: false,
+      default: null,
+      identity: '',
+      generated: '',
+      ...overrides,
+    });
+    const source = snapshot({
+      tables: [
+        {
+          name: 'events',
+          columns: [
+            column('id', { identity: 'a' }),
+            column('total', { default: '(price * qty)', generated: 's' }),
+          ],
+          constraints: [],
+        },
+        {
+          name: 'orders',
+          columns: [
+            column('id', { identity: 'd' }),
+            column('ref', { identity: 'a' }),
+            column('total', { default: '(price * 2)', generated: 's' }),
+            column('tax', { default: '0' }),
+            column('code', { type: 'text', default: "upper(name)", generated: 'v' }),
+          ],
+          constraints: [],
+        },
+      ],
+    });
+    const target = snapshot({
+      tables: [
+        {
+          name: 'orders',
+          columns: [
+            column('id', { identity: 'a' }),
+            column('ref', { default: "nextval('orders_ref_seq'::regclass)" }),
+            column('total', { default: '(price * qty)', generated: 's' }),
+            column('tax', { default: '(total * 0.2)', generated: 's' }),
+            column('code', { type: 'text' }),
+          ],
+          constraints: [],
+        },
+      ],
+    });
+
+    const diff = diffSchemas(source, target, refs);
+
+    expect(diff.tables.changed[0].columns.changed.map((change) => change.name)).toEqual([
+      'id',
+      'ref',
+      'total',
+      'tax',
+      'code',
+    ]);
+    expect(migrationSql(diff)).toEqual([
+      'SET search_path TO public;',
+      'CREATE TABLE "events" (\n' +
+        '  "id" bigint GENERATED ALWAYS AS IDENTITY NOT NULL,\n' +
+        '  "total" bigint GENERATED ALWAYS AS ((price * qty)) STORED NOT NULL\n);',
+      'ALTER TABLE "orders" ALTER COLUMN "id" SET GENERATED BY DEFAULT;',
+      'ALTER TABLE "orders" ALTER COLUMN "ref" DROP DEFAULT;',
+      'ALTER TABLE "orders" ALTER COLUMN "ref" ADD GENERATED ALWAYS AS IDENTITY;',
+      'ALTER TABLE "orders" ALTER COLUMN "total" SET EXPRESSION AS ((price * 2));',
+      'ALTER TABLE "orders" ALTER COLUMN "tax" DROP EXPRESSION;',
+      'ALTER TABLE "orders" ALTER COLUMN "tax" SET DEFAULT 0;',
+      'ALTER TABLE "orders" DROP COLUMN "code";',
+      'ALTER TABLE "orders" ADD COLUMN "code" text GENERATED ALWAYS AS (upper(name)) VIRTUAL NOT NULL;',
+    ]);
+  });
+});
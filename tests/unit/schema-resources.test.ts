@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { createServer } from '../../src/server.js';
+import { registerSchemaResources } from '../../src/resources/schema.js';
+import { parseSql } from '../../src/lib/sql-parser.js';
+import { AccessPolicy } from '../../src/lib/access-policy.js';
+import { AuditLogger, type AuditEvent } from '../../src/lib/audit.js';
+import { parseMaskingPolicy } from '../../src/lib/masking.js';
+import { runWithRequestContext } from '../../src/lib/request-context.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
+import type { ConnectionManager } from '../../src/connection/postgres-pool.js';
+import { buildConfig, fakePg, fetchRows } from './helpers/fake-pg.js';
+
+vi.mock('pg', () => import('./helpers/fake-pg.js'));
+vi.mock('../../src/lib/ddl.js', () => ({
+  readObjectDdl: vi.fn(async (_manager: unknown, schema: string, name: string, kind: string) => ({
+    schema,
+    name,
+    kind,
+    ddl: `CREATE TABLE ${schema}.${name} ();`,
+  })),
+}));
+
+const RELATIONS = [
+  { schema: 'public', name: 'orders', kind: 'table', comment: 'Customer orders' },
+  { schema: 'public', name: 'order totals', kind: 'view', comment: null },
+  { schema: 'vault', name: 'keys', kind: 'table', comment: null },
+];
+
+const COLUMNS = [
+  { name: 'id', type: 'integer', nullable: false, default: null, comment: null },
+  { name: 'due_on', type: 'date', nullable: true, default: 'CURRENT_DATE', comment: 'Due date' },
+];
+
+const fakeManager = (policy: AccessPolicy | null = null) => {
+  let fingerprint = 'a';
+  const executeQuery = vi.fn(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes('AS relations')) {
+      return { rows: [{ relations: RELATIONS }], rowCount: 1, truncated: false };
+    }
+    if (sql.includes('AS fingerprint')) {
+      return { rows: [{ fingerprint }], rowCount: 1, truncated: false };
+    }
+    const rows = params[1] === 'nope' ? [] : [{ kind: 'table', comment: null, columns: COLUMNS }];
+    return { rows, rowCount: rows.length, truncated: false };
+  });
+  const manager = {
+    executeQuery,
+    accessPolicy: policy,
+    getStatus: () => ({ initialized: true }),
+    close: vi.fn(),
+  } as unknown as ConnectionManager;
+  return { manager, executeQuery, alterSchema: () => (fingerprint += 'b') };
+};
+
+const connect = async (connections: ConnectionRegistry, authorizeTools = false) => {
+  const { server } = createServer(connections, { authorizeTools });
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return { server, client };
+};
+
+describe('schema resources', () => {
+  const clients: Client[] = [];
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+  });
+
+  it('lists tables and views of each profile and advertises the templates', async () => {
+    const { manager, executeQuery } = fakeManager(new AccessPolicy({ deniedSchemas: ['vault'] }));
+    const { client } = await connect(ConnectionRegistry.single(manager, 'main'));
+    clients.push(client);
+
+    expect(client.getServerCapabilities()?.resources).toEqual({ listChanged: true });
+    const { resources } = await client.listResources();
+    expect(resources).toEqual([
+      expect.objectContaining({
+        uri: 'postgres://main/public/orders',
+        name: 'main/public.orders',
+        description: 'Customer orders',
+        mimeType: 'application/json',
+      }),
+      expect.objectContaining({
+        uri: 'postgres://main/public/order%20totals',
+        description: 'view public.order totals',
+      }),
+    ]);
+    expect(parseSql(executeQuery.mock.calls[0][0])).toHaveLength(1);
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      'postgres://{database}/{schema}/{table}',
+      'postgres://{database}/{schema}/{table}/ddl',
+    ]);
+  });
+
+  it('reads the columns and the DDL of a relation', async () => {
+    const { manager, executeQuery } = fakeManager();
+    const { client } = await connect(ConnectionRegistry.single(manager, 'main'));
+    clients.push(client);
+
+    const relation = await client.readResource({ uri: 'postgres://main/public/order%20totals' });
+    expect(executeQuery).toHaveBeenCalledWith(expect.any(String), ['public', 'order totals'], { skipMasking: true });
+    expect(parseSql(executeQuery.mock.calls[0][0])).toHaveLength(1);
+    expect(relation.contents[0]).toMatchObject({ mimeType: 'application/json' });
+    expect(JSON.parse(relation.contents[0].text as string)).toEqual({
+      database: 'main',
+      schema: 'public',
+      name: 'order totals',
+      kind: 'table',
+      comment: null,
+      columns: COLUMNS,
+    });
+
+    const ddl = await client.readResource({ uri: 'postgres://main/public/orders/ddl' });
+    expect(ddl.contents[0]).toEqual({
+      uri: 'postgres://main/public/orders/ddl',
+      mimeType: 'application/sql',
+      text: 'CREATE TABLE public.orders ();',
+    });
+
+    await expect(client.readResource({ uri: 'postgres://main/public/nope' })).rejects.toThrow(
+      'Table or view "public.nope" does not exist'
+    );
+    await expect(client.readResource({ uri: 'postgres://other/public/orders' })).rejects.toThrow(
+      'Unknown database profile "other"'
+    );
+  });
+
+  it('only serves callers with access to the mirrored tools when authorizing', async () => {
+    const { manager } = fakeManager();
+    const connections = ConnectionRegistry.single(manager, 'main');
+    const { client } = await connect(connections, true);
+    clients.push(client);
+    const access = { grants: ['analyst'], tools: ['describe_table'], mode: 'read-only' as const };
+
+    // The in-memory transport delivers requests in the caller's async context
+    await expect(client.readResource({ uri: 'postgres://main/public/orders' })).rejects.toThrow(
+      'requires the describe_table tool'
+    );
+    expect((await client.listResources()).resources).toEqual([]);
+
+    await expect(
+      runWithRequestContext({ access }, () =>
+        client.readResource({ uri: 'postgres://main/public/orders' })
+      )
+    ).resolves.toBeDefined();
+    await expect(
+      runWithRequestContext({ access }, () =>
+        client.readResource({ uri: 'postgres://main/public/orders/ddl' })
+      )
+    ).rejects.toThrow('requires the get_object_ddl tool');
+  });
+
+  it('records resource requests and the queries they run in the audit log', async () => {
+    const { manager } = fakeManager();
+    const events: AuditEvent[] = [];
+    const audit = new AuditLogger([{ write: (event) => events.push(event) }]);
+    const { client } = await connect(
+      new ConnectionRegistry([{ name: 'main', manager }], { audit })
+    );
+    clients.push(client);
+
+    await client.listResources();
+    await client.readResource({ uri: 'postgres://main/public/orders' });
+    await expect(client.readResource({ uri: 'postgres://main/public/nope' })).rejects.toThrow();
+
+    expect(events.map((event) => [event.type, event.tool, event.resource, event.error])).toEqual([
+      ['resource', 'resources/list', undefined, undefined],
+      ['resource', 'resources/read', 'postgres://main/public/orders', undefined],
+      [
+        'resource',
+        'resources/read',
+        'postgres://main/public/nope',
+        'Table or view "public.nope" does not exist',
+      ],
+    ]);
+  });
+
+  it('sends resources/list_changed when the schema fingerprint changes', async () => {
+    const { manager, executeQuery, alterSchema } = fakeManager();
+    const connections = new ConnectionRegistry([{ name: 'main', manager }], {
+      schemaPollIntervalMs: 60000,
+    });
+    const { server, client } = await connect(connections);
+    clients.push(client);
+    const notified = vi.fn();
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, notified);
+
+    await connections.schemaWatcher?.poll();
+    await connections.schemaWatcher?.poll();
+    const fingerprintSql = executeQuery.mock.calls[0][0];
+    expect(parseSql(fingerprintSql)).toHaveLength(1);
+    // Relation comments are the descriptions resources/list returns
+    expect(fingerprintSql).toContain("obj_description(c.oid, 'pg_class')");
+    alterSchema();
+    await connections.schemaWatcher?.poll();
+    await vi.waitFor(() => expect(notified).toHaveBeenCalledTimes(1));
+
+    await server.close();
+    alterSchema();
+    await connections.schemaWatcher?.poll();
+    expect(notified).toHaveBeenCalledTimes(1);
+    await connections.close();
+  });
+
+  it('lists relations and notices schema changes under a masking policy', async () => {
+    const { ConnectionManager } = await import('../../src/connection/postgres-pool.js');
+    let fingerprint = 'a';
+    // Both catalog queries return computed columns, which masking would redact
+    fakePg.respond = (sql, _params, client) => {
+      const declared = client.queries.find((query) => query.startsWith('DECLARE')) ?? '';
+      if (declared.includes('AS relations')) {
+        return fetchRows(client, sql, [{ relations: RELATIONS }], [{ name: 'relations', dataTypeID: 114 }]);
+      }
+      if (declared.includes('AS fingerprint')) {
+        return fetchRows(client, sql, [{ fingerprint }], [{ name: 'fingerprint', dataTypeID: 25 }]);
+      }
+      return undefined;
+    };
+    const maskingPolicy = parseMaskingPolicy(
+      { rules: [{ pattern: '^email$', action: 'redact' }] },
+      'policy'
+    );
+    const manager = new ConnectionManager(buildConfig({ maskingPolicy }));
+    await manager.initialize();
+    const connections = new ConnectionRegistry([{ name: 'main', manager }], {
+      schemaPollIntervalMs: 60000,
+    });
+    const { client } = await connect(connections);
+    clients.push(client);
+    const notified = vi.fn();
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, notified);
+
+    const { resources } = await client.listResources();
+    expect(resources.map((resource) => resource.name)).toEqual([
+      'main/public.orders',
+      'main/public.order totals',
+      'main/vault.keys',
+    ]);
+
+    await connections.schemaWatcher?.poll();
+    fingerprint = 'b';
+    await connections.schemaWatcher?.poll();
+    await vi.waitFor(() => expect(notified).toHaveBeenCalledTimes(1));
+
+    await connections.close();
+    fakePg.reset();
+  });
+
+  it('keeps the close handler the server already had', async () => {
+    const { manager } = fakeManager();
+    const connections = new ConnectionRegistry([{ name: 'main', manager }], {
+      schemaPollIntervalMs: 60000,
+    });
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    const closed = vi.fn();
+    server.server.onclose = closed;
+    registerSchemaResources(server, connections);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+
+    await clientTransport.close();
+    expect(closed).toHaveBeenCalled();
+    await connections.close();
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { parseSql } from '../../src/lib/sql-parser.js';
+import { AccessPolicy } from '../../src/lib/access-policy.js';
+import { searchSchema, searchTerms } from '../../src/lib/schema-search.js';
+import { fakeCatalogManager } from './helpers/fake-catalog.js';
+
+const column = (schema: string, table: string, name: string, comment: string | null = null) => ({
+  kind: 'column',
+  schema,
+  table,
+  name,
+  dataType: 'date',
+  comment,
+});
+
+const CANDIDATES = {
+  relations: [
+    { kind: 'table', schema: 'public', name: 'invoices', comment: 'Bills sent to customers' },
+    { kind: 'view', schema: 'reporting', name: 'overdue_invoices', comment: null },
+    { kind: 'table', schema: 'vault', name: 'signing_keys', comment: 'Keys for invoice PDFs' },
+  ],
+  columns: [
+    column('public', 'invoices', 'due_date'),
+    column('public', 'tasks', 'due_on', 'Deadline dates'),
+    column('public', 'payments', 'invoiceId'),
+    column('vault', 'signing_keys', 'invoice_rotated_on'),
+  ],
+  functions: [{ kind: 'function', schema: 'public', name: 'invoice_total', comment: null }],
+};
+
+const fakeManager = (policy: AccessPolicy | null = null, candidates = CANDIDATES) =>
+  fakeCatalogManager((_sql, params) => {
+    if (params.length === 0) {
+      return [{ schemas: ['public', 'reporting', 'vault'] }];
+    }
+    const kinds = params[2] as string[] | null;
+    const matching = (group: Array<{ kind: string }>) =>
+      group.filter((candidate) => !kinds || kinds.includes(candidate.kind));
+    return [
+      {
+        relations: matching(candidates.relations),
+        columns: matching(candidates.columns),
+        functions: matching(candidates.functions),
+      },
+    ];
+  }, policy);
+
+describe('searchSchema', () => {
+  it('drops stop words and splits identifiers into terms', () => {
+    expect(searchTerms('Where do we store invoice due dates?')).toEqual([
+      'invoice',
+      'due',
+      'dates',
+    ]);
+    expect(searchTerms('customerId customer_id')).toEqual(['customer', 'id']);
+  });
+
+  it('ranks columns whose name and table match the question first', async () => {
+    const { manager, executeQuery } = fakeManager();
+
+    const found = await searchSchema(manager, 'where do we store invoice due dates?', {
+      limit: 10,
+    });
+
+    expect(executeQuery).toHaveBeenCalledWith(expect.any(String), [
+      ['%invo%', '%oice%', '%due%', '%date%', '%ates%'],
+      null,
+      null,
+    ], { skipMasking: true });
+    expect(parseSql(executeQuery.mock.calls[0][0])).toHaveLength(1);
+    expect(found.terms).toEqual(['invoice', 'due', 'dates']);
+    expect(found.truncated).toBe(false);
+    expect(found.results[0]).toEqual({
+      kind: 'column',
+      schema: 'public',
+      table: 'invoices',
+      name: 'due_date',
+      dataType: 'date',
+      comment: null,
+      score: expect.any(Number),
+    });
+    expect(found.results.map((hit) => `${hit.table ?? hit.schema}.${hit.name}`)).toContain(
+      'tasks.due_on'
+    );
+    for (const [a, b] of found.results.slice(1).map((hit, i) => [found.results[i], hit])) {
+      expect(a.score).toBeGreaterThanOrEqual(b.score);
+    }
+  });
+
+  it('tolerates plurals and typos and filters by kind and limit', async () => {
+    const { manager, executeQuery } = fakeManager();
+
+    const tables = await searchSchema(manager, 'invoces', {
+      schema: 'public',
+      kinds: ['table', 'view'],
+      limit: 1,
+    });
+    expect(executeQuery).toHaveBeenCalledWith(expect.any(String), [
+      ['%invo%', '%oces%'],
+      ['public'],
+      ['table', 'view'],
+    ], { skipMasking: true });
+    expect(tables.results).toHaveLength(1);
+    expect(tables.results[0]).toMatchObject({ kind: 'table', name: 'invoices' });
+
+    await expect(searchSchema(manager, 'where is it?', { limit: 10 })).rejects.toThrow(
+      'has no words to search for'
+    );
+  });
+
+  it('leaves out objects the access policy blocks', async () => {
+    const policy = new AccessPolicy({
+      deniedSchemas: ['vault'],
+      deniedFunctions: ['public.invoice_total'],
+    });
+    const { manager, executeQuery } = fakeManager(policy);
+
+    const found = await searchSchema(manager, 'invoice', { limit: 100 });
+    expect(parseSql(executeQuery.mock.calls[0][0])).toHaveLength(1);
+    expect(executeQuery.mock.calls[1][1]).toEqual([['%invo%', '%oice%'], ['public', 'reporting'], null]);
+    expect(found.results.map((hit) => hit.schema)).not.toContain('vault');
+    expect(found.results.map((hit) => hit.name)).not.toContain('invoice_total');
+    expect(found.results.map((hit) => hit.name)).toContain('invoices');
+
+    executeQuery.mockClear();
+    await expect(searchSchema(manager, 'invoice', { schema: 'vault', limit: 10 })).rejects.toThrow(
+      'Access denied to schema vault'
+    );
+    expect(executeQuery).not.toHaveBeenCalled();
+  });
+
+  it('reports when a kind had more candidates than it ranks', async () => {
+    const many = Array.from({ length: 2001 }, (_, i) => column('public', `t${i}`, 'invoice_id'));
+    const { manager } = fakeManager(null, { ...CANDIDATES, columns: many });
+
+    const found = await searchSchema(manager, 'invoice', { limit: 5 });
+    expect(found.truncated).toBe(true);
+    expect(found.results).toHaveLength(5);
+  });
+});
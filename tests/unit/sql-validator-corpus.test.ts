@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateReadOnlyStatement,
+  isCursorEligible,
+} from '../../src/lib/sql-validator.js';
+
+/** Statements that must pass read-only validation */
+const ALLOWED: string[] = [
+  "SELECT 'DELETE FROM users'",
+  'SELECT $$; DROP TABLE users; $$',
+  'SELECT $tag$ $$ ; DELETE FROM t; $tag$',
+  "SELECT E'\\'; DROP TABLE users; --'",
+  "SELECT U&'\\0041'",
+  'SELECT "into", "delete" FROM "select"',
+  'SELECT 1 AS "INSERT"',
+  '/* nested /* comment */ ; DELETE */ SELECT 1',
+  'SELECT 1 /* ; */ ;',
+  'SELECT 1 -- ; DROP TABLE users',
+  '(SELECT 1) UNION (SELECT 2)',
+  'SELECT * FROM (VALUES (1), (2)) v(n) WHERE n IN (SELECT 1)',
+  'WITH RECURSIVE t(n) AS (VALUES (1) UNION ALL SELECT n + 1 FROM t WHERE n < 5) SELECT sum(n) FROM t',
+  'WITH a AS MATERIALIZED (SELECT 1), b AS NOT MATERIALIZED (SELECT 2) SELECT * FROM a, b',
+  'EXPLAIN (ANALYZE false) DELETE FROM users',
+  'EXPLAIN (ANALYZE off, FORMAT JSON) UPDATE users SET name = NULL',
+  'EXPLAIN VERBOSE WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d',
+  'EXPLAIN ANALYZE WITH c AS (SELECT 1) SELECT * FROM c',
+  'SHOW TRANSACTION ISOLATION LEVEL',
+  'TABLE users',
+  'VALUES (1, $1), (2, $2)',
+  'SELECT id FROM users WHERE name = $1 ORDER BY id LIMIT 10',
+  '\n\t  select 1  \n',
+];
+
+/** Statements that must be rejected, with the expected error */
+const BLOCKED: Array<[string, RegExp]> = [
+  ['SELECT 1; DELETE FROM users', /Multiple statements/],
+  ['SELECT $$a$$; SELECT 2', /Multiple statements/],
+  ['SELECT 1 --\n; DROP TABLE users', /Multiple statements/],
+  ["SELECT E'\\''; DROP TABLE users", /Multiple statements/],
+  ['/* a */ DELETE /* b */ FROM users', /Statement type not allowed/],
+  ['WITH x AS (SELECT 1), y AS (DELETE FROM t RETURNING 1) SELECT * FROM x', /WITH statements only allowed/],
+  ['WITH "select" AS (DELETE FROM t RETURNING *) SELECT * FROM "select"', /WITH statements only allowed/],
+  ['WITH m AS (MERGE INTO t USING s ON t.id = s.id WHEN MATCHED THEN DELETE RETURNING *) SELECT 1', /WITH statements only allowed/],
+  ['EXPLAIN (FORMAT JSON, ANALYZE true) DELETE FROM users', /EXPLAIN ANALYZE not allowed/],
+  ['EXPLAIN (ANALYZE 1) DELETE FROM users', /EXPLAIN ANALYZE not allowed/],
+  ['EXPLAIN ANALYZE SELECT * INTO t2 FROM t', /EXPLAIN ANALYZE not allowed/],
+  ['EXPLAIN ANALYZE CREATE TABLE t2 AS SELECT 1', /EXPLAIN ANALYZE not allowed/],
+  ['EXPLAIN ANALYZE WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d', /data-modifying CTEs/],
+  ['SELECT * INTO TEMP t2 FROM t', /SELECT INTO not allowed/],
+  ['SELECT 1 INTO t2 UNION SELECT 2', /SELECT INTO not allowed/],
+  ["COPY (SELECT 1) TO PROGRAM 'id'", /COPY statements are not allowed/],
+  ['MERGE INTO t USING s ON t.id = s.id WHEN MATCHED THEN DELETE', /Statement type not allowed/],
+  ['SET ROLE postgres', /Statement type not allowed/],
+  ['SET search_path TO billing', /Statement type not allowed/],
+  ['RESET ALL', /Statement type not allowed/],
+  ['DISCARD ALL', /Statement type not allowed/],
+  ['BEGIN', /Statement type not allowed/],
+  ['COMMIT', /Statement type not allowed/],
+  ['DECLARE c CURSOR FOR SELECT 1', /Statement type not allowed/],
+  ['LISTEN events', /Statement type not allowed/],
+  ["NOTIFY events, 'x'", /Statement type not allowed/],
+  ['VACUUM users', /Statement type not allowed/],
+  ['ANALYZE users', /Statement type not allowed/],
+  ['REFRESH MATERIALIZED VIEW stats', /Statement type not allowed/],
+  ['CREATE TABLE t2 AS SELECT 1', /Statement type not allowed/],
+  ['SELEC 1', /SQL syntax error/],
+  ["SELECT 'unterminated", /SQL syntax error/],
+  ['', /Empty SQL statement/],
+  [';', /Empty SQL statement/],
+  ['-- just a comment', /Empty SQL statement/],
+];
+
+/** Deterministic PRNG so failures are reproducible */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 0x100000000;
+  };
+}
+
+const FILLERS = [
+  ' ',
+  '\n',
+  '\t',
+  ' /* ; DELETE FROM users */ ',
+  ' /* nested /* ; */ */ ',
+  ' -- ; DROP TABLE users\n',
+  '\r\n  ',
+];
+
+/**
+ * Replace whitespace between tokens with comments and other whitespace.
+ * Seeds must not contain spaces inside literals.
+ */
+function mutate(sql: string, random: () => number): string {
+  return sql.replace(/ /g, () => FILLERS[Math.floor(random() * FILLERS.length)]);
+}
+
+const verdict = (sql: string): string => {
+  try {
+    validateReadOnlyStatement(sql);
+    return 'allowed';
+  } catch (err) {
+    return (err as Error).message.split(' ')[0];
+  }
+};
+
+const FUZZ_SEEDS: string[] = [
+  'SELECT id FROM users WHERE id = $1',
+  'WITH c AS (SELECT 1) SELECT * FROM c',
+  'WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d',
+  'EXPLAIN ANALYZE DELETE FROM users',
+  'EXPLAIN (ANALYZE false) DELETE FROM users',
+  'SELECT * INTO t2 FROM t',
+  'SELECT 1; SELECT 2',
+  'CALL p()',
+  'TRUNCATE users',
+  'VALUES (1)',
+];
+
+describe('validateReadOnlyStatement corpus', () => {
+  it.each(ALLOWED)('allows %j', (sql) => {
+    expect(() => validateReadOnlyStatement(sql)).not.toThrow();
+  });
+
+  it.each(BLOCKED)('rejects %j', (sql, error) => {
+    expect(() => validateReadOnlyStatement(sql)).toThrow(error);
+  });
+
+  it('keeps its verdict when comments and whitespace are injected', () => {
+    const random = createRandom(0x5eed);
+    for (const seed of FUZZ_SEEDS) {
+      const expected = verdict(seed);
+      for (let i = 0; i < 25; i++) {
+        const mutated = mutate(seed, random);
+        expect(verdict(mutated), mutated).toBe(expected);
+      }
+    }
+  });
+
+  it('keeps its verdict regardless of keyword case', () => {
+    for (const seed of FUZZ_SEEDS) {
+      expect(verdict(seed.toLowerCase())).toBe(verdict(seed));
+    }
+  });
+});
+
+describe('isCursorEligible', () => {
+  it.each([
+    'SELECT * FROM users',
+    'VALUES (1), (2)',
+    'TABLE users',
+    'WITH c AS (SELECT 1) SELECT * FROM c',
+    '(SELECT 1) UNION ALL (SELECT 2)',
+    '/* lead */ SELECT 1;',
+  ])('accepts %j', (sql) => {
+    expect(isCursorEligible(sql)).toBe(true);
+  });
+
+  it.each([
+    'SELECT 1; SELECT 2',
+    'WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d',
+    'WITH c AS (SELECT 1) INSERT INTO t SELECT * FROM c',
+    'SELECT * INTO t2 FROM t',
+    'SHOW search_path',
+    'EXPLAIN SELECT 1',
+    'UPDATE t SET x = 1 RETURNING *',
+    'SELEC 1',
+    '',
+  ])('rejects %j', (sql) => {
+    expect(isCursorEligible(sql)).toBe(false);
+  });
+});
@@ -5,6 +5,8 @@ import {
   extractFinalStatementAfterCTEs,
   stripLeadingComments,
   getFirstKeyword,
+  parseWriteStatement,
+  validateTransactionStatement,
 } from '../../src/lib/sql-validator.js';
 
 describe('validateReadOnlyStatement', () => {
@@ -128,7 +130,7 @@ describe('validateReadOnlyStatement', () => {
     });
 
     it('blocks nested data-modifying CTEs', () => {
-      expect(() => validateReadOnlyStatement('WITH outer AS (WITH inner AS (DELETE FROM t RETURNING *) SELECT * FROM inner) SELECT * FROM outer')).toThrow(/WITH statements only allowed/);
+      expect(() => validateReadOnlyStatement('WITH outer_cte AS (WITH inner_cte AS (DELETE FROM t RETURNING *) SELECT * FROM inner_cte) SELECT * FROM outer_cte')).toThrow(/WITH statements only allowed/);
     });
 
     it('blocks data-modifying CTEs with comments', () => {
@@ -298,6 +300,66 @@ describe('cteContainsDML', () => {
   });
 });
 
+describe('validateTransactionStatement', () => {
+  it('allows savepoints and ordinary statements', () => {
+    expect(() => validateTransactionStatement('SAVEPOINT before_update')).not.toThrow();
+    expect(() => validateTransactionStatement('ROLLBACK TO SAVEPOINT before_update')).not.toThrow();
+    expect(() => validateTransactionStatement('RELEASE before_update')).not.toThrow();
+    expect(() => validateTransactionStatement('UPDATE t SET a = 1')).not.toThrow();
+  });
+
+  it('rejects statements that end the transaction', () => {
+    for (const sql of ['COMMIT', 'rollback', 'END', 'BEGIN', "PREPARE TRANSACTION 'x'", 'SELECT 1; COMMIT']) {
+      expect(() => validateTransactionStatement(sql)).toThrow(
+        'Transaction control statements are not allowed in a transaction.'
+      );
+    }
+  });
+});
+
+describe('parseWriteStatement', () => {
+  it('returns the command, target and statement text', () => {
+    expect(parseWriteStatement('UPDATE public.users SET name = $1 WHERE id = $2;')).toEqual({
+      command: 'UPDATE',
+      target: { schema: 'public', name: 'users' },
+      events: ['UPDATE'],
+      hasReturning: false,
+      text: 'UPDATE public.users SET name = $1 WHERE id = $2',
+    });
+  });
+
+  it('keeps a trailing comment and measures offsets in bytes', () => {
+    expect(parseWriteStatement("/* é */ DELETE FROM \"Odd\" WHERE note = 'é' -- done").text).toBe(
+      "/* é */ DELETE FROM \"Odd\" WHERE note = 'é' -- done"
+    );
+    expect(parseWriteStatement("DELETE FROM t WHERE note = 'é';  ").text).toBe(
+      "DELETE FROM t WHERE note = 'é'"
+    );
+  });
+
+  it('reports the row events of upserts and MERGE', () => {
+    const upsert = parseWriteStatement(
+      'INSERT INTO t VALUES (1) ON CONFLICT (id) DO UPDATE SET a = 2 RETURNING id'
+    );
+    expect(upsert.events).toEqual(['INSERT', 'UPDATE']);
+    expect(upsert.hasReturning).toBe(true);
+
+    expect(
+      parseWriteStatement(
+        'MERGE INTO t USING s ON t.id = s.id WHEN MATCHED THEN DELETE WHEN NOT MATCHED THEN INSERT VALUES (s.id)'
+      ).events
+    ).toEqual(['DELETE', 'INSERT']);
+  });
+
+  it('rejects other statements', () => {
+    for (const sql of ['SELECT 1', 'TRUNCATE t', 'UPDATE t SET a = 1; DELETE FROM t', '']) {
+      expect(() => parseWriteStatement(sql)).toThrow(
+        'Expected a single INSERT, UPDATE, DELETE or MERGE statement.'
+      );
+    }
+  });
+});
+
 describe('extractFinalStatementAfterCTEs', () => {
   it('extracts SELECT after single CTE', () => {
     const result = extractFinalStatementAfterCTEs('WITH cte AS (SELECT 1) SELECT * FROM cte');
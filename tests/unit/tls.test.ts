@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { copyFileSync, mkdtempSync, rmSync } from 'node:fs';
+import { connect, type PeerCertificate } from 'node:tls';
+import type { Server } from 'node:https';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createTlsServer } from '../../src/http/tls.js';
+import type { TlsConfig } from '../../src/types.js';
+
+const hasOpenssl = spawnSync('openssl', ['version']).status === 0;
+
+describe.skipIf(!hasOpenssl)('createTlsServer', () => {
+  let dir: string;
+  let server: Server | undefined;
+
+  const selfSigned = (name: string, cn: string) => {
+    const result = spawnSync(
+      'openssl',
+      [
+        'req', '-x509', '-newkey', 'ec', '-pkeyopt', 'ec_paramgen_curve:prime256v1', '-nodes',
+        '-keyout', `${name}.key`, '-out', `${name}.crt`, '-subj', `/CN=${cn}`, '-days', '1',
+      ],
+      { cwd: dir }
+    );
+    if (result.status !== 0) {
+      throw new Error(result.stderr.toString());
+    }
+  };
+
+  const install = (name: string) => {
+    copyFileSync(join(dir, `${name}.crt`), join(dir, 'server.crt'));
+    copyFileSync(join(dir, `${name}.key`), join(dir, 'server.key'));
+  };
+
+  const config = (overrides: Partial<TlsConfig> = {}): TlsConfig => ({
+    certFile: join(dir, 'server.crt'),
+    keyFile: join(dir, 'server.key'),
+    ...overrides,
+  });
+
+  const start = async (tls: TlsConfig, reloadIntervalMs?: number): Promise<number> => {
+    server = createTlsServer((_req, res) => res.end('ok'), tls, reloadIntervalMs);
+    await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+    return (server.address() as AddressInfo).port;
+  };
+
+  const handshake = (
+    port: number,
+    maxVersion?: 'TLSv1.2' | 'TLSv1.3'
+  ): Promise<PeerCertificate> =>
+    new Promise((resolve, reject) => {
+      const socket = connect(
+        { host: '127.0.0.1', port, rejectUnauthorized: false, ...(maxVersion && { maxVersion }) },
+        () => {
+          const certificate = socket.getPeerCertificate();
+          socket.end();
+          resolve(certificate);
+        }
+      );
+      socket.on('error', reject);
+    });
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'pg-mcp-tls-'));
+    selfSigned('first', 'first.example.com');
+    selfSigned('second', 'second.example.com');
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+    server = undefined;
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('enforces the minimum TLS version', async () => {
+    install('first');
+    const port = await start(config({ minVersion: 'TLSv1.3' }));
+
+    expect((await handshake(port)).subject.CN).toBe('first.example.com');
+    await expect(handshake(port, 'TLSv1.2')).rejects.toThrow();
+  });
+
+  it('switches to a rotated certificate without restarting', async () => {
+    install('first');
+    const port = await start(config(), 20);
+    const logs = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    install('second');
+    await vi.waitFor(
+      async () => expect((await handshake(port)).subject.CN).toBe('second.example.com'),
+      { timeout: 5000, interval: 50 }
+    );
+    expect(logs).toHaveBeenCalledWith('[HTTP] Reloaded TLS certificate');
+    logs.mockRestore();
+  });
+
+  it('keeps serving the previous certificate when the new pair does not load', async () => {
+    install('first');
+    const port = await start(config(), 20);
+    const logs = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    copyFileSync(join(dir, 'second.crt'), join(dir, 'server.crt'));
+    await vi.waitFor(
+      () =>
+        expect(logs).toHaveBeenCalledWith(
+          '[HTTP] TLS reload failed, keeping previous certificate:',
+          expect.any(String)
+        ),
+      { timeout: 5000, interval: 50 }
+    );
+    expect((await handshake(port)).subject.CN).toBe('first.example.com');
+    logs.mockRestore();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import { createServer } from '../../src/server.js';
 import type { ConnectionManager } from '../../src/connection/postgres-pool.js';
+import { ConnectionRegistry } from '../../src/connection/connection-registry.js';
 
 describe('MCP tool registration', () => {
   it('registers all expected tools', () => {
@@ -10,7 +11,7 @@ describe('MCP tool registration', () => {
       close: vi.fn(),
     } as unknown as ConnectionManager;
 
-    const { server } = createServer(fakeManager);
+    const { server } = createServer(ConnectionRegistry.single(fakeManager));
     const toolRegistry = (server as unknown as { _registeredTools: Record<string, unknown> })._registeredTools;
 
     const toolNames = Object.keys(toolRegistry);
@@ -18,16 +19,38 @@ describe('MCP tool registration', () => {
       expect.arrayContaining([
         'execute_query',
         'explain_query',
+        'fetch_more',
+        'export_query',
+        'preview_write',
+        'begin_transaction',
+        'commit_transaction',
+        'rollback_transaction',
         'list_schemas',
         'list_tables',
+        'search_schema',
         'describe_table',
+        'diff_schema',
+        'get_object_ddl',
+        'get_relationships',
+        'suggest_join',
+        'list_functions',
+        'describe_function',
+        'list_triggers',
+        'list_types',
+        'list_extensions',
+        'list_sequences',
+        'list_materialized_views',
         'list_databases',
         'get_connection_status',
+        'list_connections',
         'list_active_connections',
         'list_long_running_queries',
         'get_database_version',
         'get_database_size',
         'get_table_stats',
+        'list_changes',
+        'approve_change',
+        'reject_change',
       ])
     );
 
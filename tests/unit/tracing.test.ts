@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import type { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-node';
+import type { PoolClient } from 'pg';
+import {
+  startTracing,
+  traceClientQueries,
+  traceToolHandler,
+  withSpan,
+} from '../../src/lib/tracing.js';
+import { createTracingMiddleware } from '../../src/http/tracing.js';
+import { successResponse, errorResponseFromError } from '../../src/lib/tool-response.js';
+
+const target = { database: 'app', host: 'db.internal', port: 5432 };
+
+const createClient = (fail = false) =>
+  ({
+    query: (_sql: string, ...rest: unknown[]) => {
+      const callback = rest.find((arg) => typeof arg === 'function') as
+        | ((err: Error | null, result: unknown) => void)
+        | undefined;
+      const error = fail ? Object.assign(new Error('boom'), { code: '42P01' }) : null;
+      if (callback) {
+        setImmediate(() => callback(error, { rows: [] }));
+        return undefined;
+      }
+      return error ? Promise.reject(error) : Promise.resolve({ rows: [] });
+    },
+  }) as unknown as PoolClient;
+
+describe('tracing', () => {
+  let spans: ReadableSpan[];
+  let stop: () => Promise<void>;
+
+  const finish = async (): Promise<ReadableSpan[]> => {
+    await stop();
+    return spans;
+  };
+  const byName = (name: string) => spans.find((span) => span.name === name);
+
+  beforeEach(() => {
+    spans = [];
+    const exporter: SpanExporter = {
+      export: (batch, done) => {
+        spans.push(...batch);
+        done({ code: 0 });
+      },
+      shutdown: async () => {},
+    };
+    stop = startTracing({ serviceName: 'test' }, exporter);
+  });
+
+  afterEach(async () => {
+    await stop();
+  });
+
+  it('nests spans started inside a tool handler', async () => {
+    const handler = traceToolHandler('list_tables', async () =>
+      withSpan('acquire query slot', {}, async () => successResponse([]))
+    );
+    const failing = traceToolHandler('describe_table', async () =>
+      errorResponseFromError(new Error('Access denied to relation billing.invoices'))
+    );
+
+    await handler();
+    await failing();
+    await finish();
+
+    const tool = byName('tools/call list_tables');
+    expect(tool?.attributes['gen_ai.tool.name']).toBe('list_tables');
+    expect(byName('acquire query slot')?.parentSpanContext?.spanId).toBe(
+      tool?.spanContext().spanId
+    );
+    expect(byName('tools/call describe_table')?.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: 'Error: Access denied to relation billing.invoices',
+    });
+  });
+
+  it('records client queries with sanitized SQL', async () => {
+    const client = createClient();
+    traceClientQueries(client, target);
+
+    await client.query('BEGIN TRANSACTION READ ONLY');
+    await client.query(
+      "SELECT dblink('postgresql://admin:hunter2@db/app', $1)\n  FROM users WHERE id = 42 -- owner",
+      ['x']
+    );
+    await new Promise((resolve) =>
+      (client.query as unknown as (sql: string, cb: () => void) => void)('FETCH 10 FROM c', resolve)
+    );
+    await finish();
+
+    expect(spans.map((span) => span.name)).toEqual(['BEGIN', 'SELECT', 'FETCH']);
+    const select = byName('SELECT');
+    expect(select?.kind).toBe(SpanKind.CLIENT);
+    expect(select?.attributes).toMatchObject({
+      'db.system.name': 'postgresql',
+      'db.namespace': 'app',
+      'db.operation.name': 'SELECT',
+      'server.address': 'db.internal',
+      'server.port': 5432,
+    });
+    expect(select?.attributes['db.query.text']).toBe('SELECT dblink(?, $1) FROM users WHERE id = ?');
+  });
+
+  it('marks failed queries as errors', async () => {
+    const client = createClient(true);
+    traceClientQueries(client, target);
+
+    await expect(client.query('SELECT * FROM missing')).rejects.toThrow('boom');
+    await finish();
+
+    expect(spans[0].status.code).toBe(SpanStatusCode.ERROR);
+    expect(spans[0].attributes['error.type']).toBe('42P01');
+  });
+
+  it('continues the trace from an incoming traceparent header', async () => {
+    const app = express();
+    app.use('/mcp', createTracingMiddleware());
+    app.post('/mcp', async (_req, res) => {
+      await withSpan('tools/call list_schemas', {}, async () => undefined);
+      res.status(202).end();
+    });
+
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    const parentId = '00f067aa0ba902b7';
+    await request(app)
+      .post('/mcp')
+      .set('traceparent', `00-${traceId}-${parentId}-01`)
+      .set('mcp-session-id', 'abc');
+    await finish();
+
+    const server = byName('POST /mcp');
+    expect(server?.kind).toBe(SpanKind.SERVER);
+    expect(server?.spanContext().traceId).toBe(traceId);
+    expect(server?.parentSpanContext?.spanId).toBe(parentId);
+    expect(server?.attributes).toMatchObject({
+      'http.request.method': 'POST',
+      'http.response.status_code': 202,
+      'mcp.session.id': 'abc',
+    });
+    expect(byName('tools/call list_schemas')?.parentSpanContext?.spanId).toBe(
+      server?.spanContext().spanId
+    );
+  });
+});
+
+describe('tracing disabled', () => {
+  it('leaves clients untouched', () => {
+    const client = createClient();
+    const original = client.query;
+    traceClientQueries(client, target);
+    expect(client.query).toBe(original);
+  });
+});
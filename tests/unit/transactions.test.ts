@@ -0,0 +1,176 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { ParsedConfig } from '../../src/types.js';
+import { buildConfig, fakePg } from './helpers/fake-pg.js';
+
+vi.mock('pg', () => import('./helpers/fake-pg.js'));
+
+let failedStatement = false;
+
+fakePg.respond = (sql) => {
+  if (sql === 'COMMIT') {
+    return { rowCount: null, command: failedStatement ? 'ROLLBACK' : 'COMMIT' };
+  }
+  if (sql.startsWith('FETCH')) {
+    return {
+      rows: [{ n: 1 }, { n: 2 }, { n: 3 }],
+      rowCount: 3,
+      command: 'FETCH',
+      fields: [{ name: 'n', dataTypeID: 23 }],
+    };
+  }
+  if (sql.startsWith('UPDATE')) {
+    return { rowCount: 2, command: 'UPDATE' };
+  }
+  return undefined;
+};
+
+const { ConnectionManager } = await import('../../src/connection/postgres-pool.js');
+const { runWithRequestContext } = await import('../../src/lib/request-context.js');
+
+const inSession = <T>(session: string, fn: () => T): T =>
+  runWithRequestContext({ client: `session:${session}`, session }, fn);
+
+describe('ConnectionManager transactions', () => {
+  let manager: InstanceType<typeof ConnectionManager> | undefined;
+
+  const start = async (overrides: Partial<ParsedConfig> = {}) => {
+    manager = new ConnectionManager(
+      buildConfig({
+        maxRows: 2,
+        maxOpenCursors: 5,
+        maxOpenTransactions: 2,
+        transactionIdleTimeoutMs: 1000,
+        ...overrides,
+      })
+    );
+    await manager.initialize();
+    fakePg.clearHistory();
+    return manager;
+  };
+
+  afterEach(async () => {
+    await manager?.close();
+    manager = undefined;
+    failedStatement = false;
+    vi.useRealTimers();
+  });
+
+  it('runs statements on one pinned client until commit', async () => {
+    const started = await start();
+    const transaction = await started.beginTransaction({ isolationLevel: 'repeatable read' });
+    expect(transaction).toMatchObject({
+      database: 'default',
+      isolationLevel: 'repeatable read',
+      readOnly: false,
+      idleTimeoutMs: 1000,
+    });
+    const { transactionId } = transaction;
+    expect(started.hasTransaction(transactionId)).toBe(true);
+
+    const updated = await started.executeQuery('UPDATE t SET a = 1', [], { transactionId });
+    expect(updated).toMatchObject({ rowCount: 2, command: 'UPDATE' });
+    const selected = await started.executeQuery('SELECT n FROM t', [], {
+      transactionId,
+      resumable: true,
+    });
+    expect(selected).toMatchObject({ rows: [{ n: 1 }, { n: 2 }], truncated: true });
+    expect(selected.continuationToken).toBeUndefined();
+    expect(started.getStatus().openTransactions).toBe(1);
+
+    await started.commitTransaction(transactionId);
+
+    expect(fakePg.clients).toHaveLength(1);
+    const [client] = fakePg.clients;
+    expect(client.queries[0]).toBe('BEGIN ISOLATION LEVEL REPEATABLE READ READ WRITE');
+    expect(client.queries[1]).toBe('UPDATE t SET a = 1');
+    expect(client.queries.filter((sql) => sql === 'BEGIN')).toEqual([]);
+    expect(client.queries.at(-1)).toBe('COMMIT');
+    expect(client.released).toEqual([undefined]);
+    expect(started.hasTransaction(transactionId)).toBe(false);
+  });
+
+  it('opens read-only transactions for callers that cannot write', async () => {
+    const started = await start({ readOnly: true });
+    await expect(started.beginTransaction({ readOnly: false })).rejects.toThrow(
+      'Read-write transactions are not available in read-only mode.'
+    );
+
+    const { transactionId, readOnly } = await started.beginTransaction();
+    expect(readOnly).toBe(true);
+    expect(fakePg.clients[0].queries[0]).toBe('BEGIN ISOLATION LEVEL READ COMMITTED READ ONLY');
+    await expect(
+      started.executeQuery('DELETE FROM t', [], { transactionId })
+    ).rejects.toThrow('Statement type not allowed in read-only mode');
+    await expect(started.executeQuery('COMMIT', [], { transactionId })).rejects.toThrow(
+      'Transaction control statements are not allowed in a transaction.'
+    );
+
+    await started.rollbackTransaction(transactionId);
+    expect(fakePg.clients[0].queries.at(-1)).toBe('ROLLBACK');
+  });
+
+  it('pins transactions to the MCP session that opened them', async () => {
+    const started = await start();
+    const { transactionId } = await inSession('a', () => started.beginTransaction());
+
+    await expect(
+      inSession('b', () => started.executeQuery('SELECT 1', [], { transactionId }))
+    ).rejects.toThrow('Transaction not found or expired.');
+    await expect(
+      runWithRequestContext({ client: 'ip:127.0.0.1' }, () => started.beginTransaction())
+    ).rejects.toThrow('Transactions need a stateful MCP session');
+
+    await started.endSession('b');
+    expect(started.hasTransaction(transactionId)).toBe(true);
+    await started.endSession('a');
+    expect(started.hasTransaction(transactionId)).toBe(false);
+    expect(fakePg.clients[0].queries.at(-1)).toBe('ROLLBACK');
+  });
+
+  it('rolls back idle transactions and enforces the limit', async () => {
+    vi.useFakeTimers();
+    const started = await start();
+    const first = await started.beginTransaction();
+    await started.beginTransaction();
+    await expect(started.beginTransaction()).rejects.toThrow(
+      'Open transaction limit (2) reached.'
+    );
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(started.getStatus().openTransactions).toBe(0);
+    expect(fakePg.clients.map((client) => client.queries.at(-1))).toEqual([
+      'ROLLBACK',
+      'ROLLBACK',
+    ]);
+    await expect(
+      started.executeQuery('SELECT 1', [], { transactionId: first.transactionId })
+    ).rejects.toThrow('Transaction not found or expired.');
+  });
+
+  it('limits the transactions one session holds', async () => {
+    const started = await start({ maxOpenTransactions: 3, maxSessionTransactions: 1 });
+    await inSession('a', () => started.beginTransaction());
+
+    await expect(inSession('a', () => started.beginTransaction())).rejects.toThrow(
+      'Open transaction limit per session (1) reached.'
+    );
+    await expect(inSession('b', () => started.beginTransaction())).resolves.toBeDefined();
+  });
+
+  it('reports a commit that PostgreSQL turned into a rollback', async () => {
+    const started = await start();
+    const { transactionId } = await started.beginTransaction();
+    failedStatement = true;
+
+    await expect(started.commitTransaction(transactionId)).rejects.toThrow(
+      'The transaction was rolled back because a statement in it failed.'
+    );
+    expect(started.hasTransaction(transactionId)).toBe(false);
+  });
+
+  it('is disabled with MAX_OPEN_TRANSACTIONS=0', async () => {
+    await expect((await start({ maxOpenTransactions: 0 })).beginTransaction()).rejects.toThrow(
+      'Transactions are disabled. Set MAX_OPEN_TRANSACTIONS to enable them.'
+    );
+  });
+});
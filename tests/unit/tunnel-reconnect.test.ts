@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { EventEmitter } from 'node:events';
+import { parseMaskingPolicy } from '../../src/lib/masking.js';
+import { buildConfig, fakePg, fetchRows, type FakeClient } from './helpers/fake-pg.js';
+
+const tunnels = vi.hoisted(() => [] as EventEmitter[]);
+
+vi.mock('pg', () => import('./helpers/fake-pg.js'));
+vi.mock('../../src/connection/ssh-tunnel.js', async () => {
+  const { EventEmitter } = await import('node:events');
+  class SSHTunnelManager extends EventEmitter {
+    constructor() {
+      super();
+      tunnels.push(this);
+    }
+    async connect() {
+      return 40000;
+    }
+    getState() {
+      return { status: 'connected', localPort: 40000, reconnectAttempts: 0 };
+    }
+    async close() {}
+  }
+  return { SSHTunnelManager };
+});
+
+/** Clients whose connection went down with the tunnel */
+const lostClients = new Set<FakeClient>();
+
+fakePg.respond = (sql, _params, client) => {
+  if (lostClients.has(client)) {
+    throw new Error('Connection terminated unexpectedly');
+  }
+  return fetchRows(client, sql, [{ email: 'a@example.com' }], [
+    { name: 'email', dataTypeID: 25, tableID: 16384, columnID: 2 },
+  ]);
+};
+fakePg.respondToPool = (sql) =>
+  sql.includes('pg_attribute')
+    ? {
+        rows: [
+          {
+            table_id: '16384',
+            column_id: 2,
+            schema_name: 'public',
+            table_name: 'users',
+            column_name: 'email',
+            nullable: true,
+          },
+        ],
+      }
+    : undefined;
+
+const { ConnectionManager } = await import('../../src/connection/postgres-pool.js');
+
+describe('ConnectionManager over a reconnecting tunnel', () => {
+  let manager: InstanceType<typeof ConnectionManager> | undefined;
+
+  const start = async () => {
+    const maskingPolicy = parseMaskingPolicy(
+      { rules: [{ column: 'public.users.email', action: 'redact' }] },
+      'policy'
+    );
+    manager = new ConnectionManager(
+      buildConfig({
+        ssh: {
+          host: 'bastion',
+          port: 22,
+          username: 'u',
+          strictHostKey: false,
+          trustOnFirstUse: false,
+          keepaliveInterval: 10000,
+          maxReconnectAttempts: 3,
+        },
+        maskingPolicy,
+      })
+    );
+    await manager.initialize();
+    fakePg.clearHistory();
+    return { manager, tunnel: tunnels.at(-1)! };
+  };
+
+  const reconnect = async (tunnel: EventEmitter) => {
+    tunnel.emit('disconnecting', { oldPort: 40000 });
+    tunnel.emit('reconnected', { oldPort: 40000, newPort: 40001 });
+    await vi.waitFor(() => expect(manager?.getStatus().reconnecting).toBe(false));
+  };
+
+  const originLookups = () =>
+    fakePg.poolCalls.filter((call) => call.sql.includes('pg_attribute')).length;
+
+  afterEach(async () => {
+    lostClients.clear();
+    await manager?.close();
+    manager = undefined;
+    vi.useRealTimers();
+  });
+
+  it('looks column origins up again once they expire or the pool reconnects', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { manager, tunnel } = await start();
+    const select = async () => (await manager.executeQuery('SELECT email FROM users')).rows;
+
+    expect(await select()).toEqual([{ email: '[REDACTED]' }]);
+    await select();
+    expect(originLookups()).toBe(1);
+
+    vi.setSystemTime(Date.now() + 60001);
+    await select();
+    expect(originLookups()).toBe(2);
+
+    await reconnect(tunnel);
+    expect(await select()).toEqual([{ email: '[REDACTED]' }]);
+    expect(originLookups()).toBe(3);
+  });
+
+  it('rolls back and releases held transactions when the tunnel drops', async () => {
+    const { manager, tunnel } = await start();
+    const { transactionId } = await manager.beginTransaction();
+    const client = fakePg.clients[0];
+
+    lostClients.add(client);
+    await reconnect(tunnel);
+
+    expect(client.queries).toContain('ROLLBACK');
+    expect(client.released).toEqual([expect.any(Error)]);
+    await expect(manager.executeQuery('SELECT 1', [], { transactionId })).rejects.toThrow(
+      'Transaction not found or expired'
+    );
+  });
+});